@@ -5,8 +5,9 @@
 // Linux `espeak`/`spd-say`; falls back to console + bell).
 //
 // Usage: node soundbox-client.mjs <bundle-dir>   (dir containing device.json + certs)
-import { readFileSync } from 'node:fs';
+import { readFileSync, writeFileSync } from 'node:fs';
 import { execFile } from 'node:child_process';
+import { createHash } from 'node:crypto';
 import { join } from 'node:path';
 import { platform } from 'node:os';
 import mqtt from 'mqtt';
@@ -34,6 +35,50 @@ function speak(text) {
 }
 
 const seen = new Set();
+// Last-known event sync cursor (§15), kept next to the bundle so it survives restarts
+const cursorFile = join(dir, 'sync-cursor');
+const readCursor = () => { try { return readFileSync(cursorFile, 'utf8').trim(); } catch { return ''; } };
+const syncTopic = cfg.topics.sync ?? `devices/${cfg.device_id}/sync`;
+// Running firmware version, reported on every heartbeat; an applied OTA update rewrites it
+const firmwareFile = join(dir, 'firmware-version');
+const readFirmware = () => {
+  try { return readFileSync(firmwareFile, 'utf8').trim(); } catch { return cfg.firmware_version ?? '1.0.0'; }
+};
+const heartbeat = () =>
+  client.publish(
+    cfg.topics.heartbeat,
+    JSON.stringify({
+      status: 'online',
+      battery: 100,
+      firmware_version: readFirmware(),
+      uptime_seconds: Math.floor(process.uptime()),
+    }),
+    { qos: 1 }
+  );
+const reportFirmware = (report) =>
+  client.publish(cfg.topics.heartbeat, JSON.stringify({ status: 'firmware', ...report }), { qos: 1 });
+
+// FIRMWARE_UPDATE: download the image, check its sha256, then "install" it. A laptop
+// can't flash itself, so installing = keeping the image next to the bundle and
+// recording the new version; a real soundbox would write the OTA partition and reboot.
+async function applyFirmware(msg) {
+  const { release_id } = msg;
+  reportFirmware({ release_id, update_state: 'DOWNLOADING' });
+  try {
+    const res = await fetch(msg.url);
+    if (!res.ok) throw new Error(`download failed: HTTP ${res.status}`);
+    const image = Buffer.from(await res.arrayBuffer());
+    const digest = createHash('sha256').update(image).digest('hex');
+    if (digest !== msg.sha256) throw new Error(`checksum mismatch: got ${digest}`);
+    writeFileSync(join(dir, 'firmware.bin'), image);
+    writeFileSync(firmwareFile, msg.version);
+    console.log(`[soundbox] firmware ${msg.version} applied (${image.length} bytes)`);
+    reportFirmware({ release_id, update_state: 'APPLIED', firmware_version: msg.version });
+  } catch (err) {
+    console.error('[soundbox] firmware update failed:', err.message);
+    reportFirmware({ release_id, update_state: 'FAILED', error: err.message });
+  }
+}
 const client = mqtt.connect(`mqtts://${cfg.iot_endpoint}:8883`, {
   clientId: cfg.client_id,
   protocolVersion: 4,
@@ -49,7 +94,10 @@ client.on('connect', () => {
   client.subscribe([cfg.topics.payments, cfg.topics.commands], { qos: 1 }, (err) => {
     if (err) return console.error('[soundbox] subscribe failed:', err.message);
     console.log(`[soundbox] listening on ${cfg.topics.payments}`);
-    client.publish(cfg.topics.heartbeat, JSON.stringify({ status: 'online', battery: 100 }), { qos: 1 });
+    heartbeat();
+    // Ask for payments confirmed while we were away (reply: MISSED_PAYMENTS)
+    const since = readCursor();
+    client.publish(syncTopic, JSON.stringify(since ? { since } : {}), { qos: 1 });
   });
 });
 
@@ -57,16 +105,33 @@ client.on('message', (topic, payload) => {
   let msg;
   try { msg = JSON.parse(payload.toString()); } catch { return; }
   if (topic === cfg.topics.payments && msg.event_type === 'ANNOUNCE_PAYMENT') {
+    const ack = () =>
+      client.publish(cfg.topics.heartbeat, JSON.stringify({ status: 'played', payment_id: msg.payment_id }), { qos: 1 });
     if (msg.payment_id && seen.has(msg.payment_id)) {
+      // A repeat is the backend retrying because our ack was lost: re-ack, don't re-speak
       console.log(`[soundbox] duplicate ${msg.payment_id} ignored`);
+      ack();
       return;
     }
     if (msg.payment_id) seen.add(msg.payment_id);
     console.log(`[soundbox] 🔊 ${msg.message}`);
     speak(msg.message);
-    client.publish(cfg.topics.heartbeat, JSON.stringify({ status: 'played', payment_id: msg.payment_id }), { qos: 1 });
+    ack();
+  } else if (topic === cfg.topics.payments && msg.event_type === 'MISSED_PAYMENTS') {
+    if (msg.cursor) writeFileSync(cursorFile, msg.cursor);
+    if (!msg.count) return;
+    const fresh = msg.payment_ids.filter((id) => !seen.has(id));
+    msg.payment_ids.forEach((id) => seen.add(id));
+    if (fresh.length) {
+      console.log(`[soundbox] 🔊 ${msg.message}`);
+      speak(msg.message);
+    }
+    client.publish(cfg.topics.heartbeat, JSON.stringify({ status: 'played', payment_ids: msg.payment_ids }), { qos: 1 });
   } else if (topic === cfg.topics.commands) {
     if (msg.event_type === 'TEST_ANNOUNCEMENT') speak('Test announcement. Soundbox is working.');
+    if (msg.event_type === 'FIRMWARE_UPDATE') applyFirmware(msg);
+    // Its policy is detached right after this — the reconnects fail until it is paired again
+    if (msg.event_type === 'DEVICE_UNPAIRED') speak('This soundbox has been unpaired.');
     console.log('[soundbox] command:', JSON.stringify(msg));
   }
 });
@@ -75,7 +140,5 @@ client.on('error', (e) => console.error('[soundbox] error:', e.message));
 client.on('close', () => console.log('[soundbox] disconnected — retrying'));
 
 setInterval(() => {
-  if (client.connected) {
-    client.publish(cfg.topics.heartbeat, JSON.stringify({ status: 'online', battery: 100 }), { qos: 1 });
-  }
+  if (client.connected) heartbeat();
 }, 60_000);
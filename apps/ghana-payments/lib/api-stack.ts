@@ -50,6 +50,17 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       deadLetterQueue: { queue: callbackDlq, maxReceiveCount: 3 },
     });
 
+    // Announcement ack checks: delayed re-publish until the soundbox acks (then SMS fallback)
+    const announceRetryDlq = new sqs.Queue(this, 'AnnounceRetryDlq', {
+      queueName: `${stage}-ghana-announce-retry-dlq`,
+      retentionPeriod: cdk.Duration.days(14),
+    });
+    const announceRetryQueue = new sqs.Queue(this, 'AnnounceRetryQueue', {
+      queueName: `${stage}-ghana-announce-retry`,
+      visibilityTimeout: cdk.Duration.seconds(60),
+      deadLetterQueue: { queue: announceRetryDlq, maxReceiveCount: 3 },
+    });
+
     const commonEnv = {
       STAGE: stage,
       PAYMENTS_TABLE: foundation.paymentsTable.tableName,
@@ -58,13 +69,31 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       WALLETS_TABLE: foundation.walletsTable.tableName,
       AUDIT_TABLE: foundation.auditTable.tableName,
       DEVICES_TABLE: foundation.devicesTable.tableName,
+      WEBHOOK_NONCES_TABLE: foundation.webhookNoncesTable.tableName,
+      SETTLEMENTS_TABLE: foundation.settlementsTable.tableName,
+      RECONCILIATION_TABLE: foundation.reconciliationTable.tableName,
+      ANOMALIES_TABLE: foundation.anomaliesTable.tableName,
+      NOTIFICATIONS_TABLE: foundation.notificationsTable.tableName,
+      SMS_OPT_OUTS_TABLE: foundation.smsOptOutsTable.tableName,
+      FIRMWARE_RELEASES_TABLE: foundation.firmwareReleasesTable.tableName,
+      FIRMWARE_BUCKET: foundation.firmwareBucket.bucketName,
+      DEVICE_MANIFESTS_BUCKET: foundation.deviceManifestsBucket.bucketName,
+      KYC_DOCUMENTS_BUCKET: foundation.kycDocumentsBucket.bucketName,
+      DEVICE_TELEMETRY_TABLE: foundation.deviceTelemetryTable.tableName,
+      PII_KEY_ID: foundation.piiKey.keyArn,
       ACCOUNT_ID: this.account,
       EVENT_BUS_NAME: foundation.eventBus.eventBusName,
       WEBHOOK_INBOX_BUCKET: foundation.webhookInbox.bucketName,
       MOCK_CALLBACK_QUEUE_URL: callbackQueue.queueUrl,
+      ANNOUNCE_RETRY_QUEUE_URL: announceRetryQueue.queueUrl,
     };
 
-    const make = (name: string, entry: string, handler = 'handler'): nodejs.NodejsFunction => {
+    const make = (
+      name: string,
+      entry: string,
+      handler = 'handler',
+      timeout = cdk.Duration.seconds(15)
+    ): nodejs.NodejsFunction => {
       const logGroup = new logs.LogGroup(this, `${name}LogGroup`, {
         logGroupName: `/aws/lambda/${stage}-ghana-${name}`,
         retention: logRetention,
@@ -85,7 +114,7 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
             "import { createRequire } from 'module';const require = createRequire(import.meta.url);",
         },
         environment: commonEnv,
-        timeout: cdk.Duration.seconds(15),
+        timeout,
         memorySize: 256,
         logGroup,
       });
@@ -108,10 +137,53 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
     const merchantGet = make('merchant-get', 'merchants/handlers.ts', 'getHandler');
     const merchantStatus = make('merchant-status', 'merchants/handlers.ts', 'statusHandler');
     const merchantDelete = make('merchant-delete', 'merchants/handlers.ts', 'deleteHandler');
-    for (const fn of [merchantCreate, merchantList, merchantGet, merchantStatus, merchantDelete]) {
+    const merchantLanguage = make('merchant-language', 'merchants/handlers.ts', 'languageHandler');
+    const merchantUpdate = make('merchant-update', 'merchants/handlers.ts', 'updateHandler');
+    const walletAdd = make('merchant-wallet-add', 'merchants/wallets.ts', 'addHandler');
+    const walletVerify = make('merchant-wallet-verify', 'merchants/wallets.ts', 'verifyHandler');
+    const walletRevoke = make('merchant-wallet-revoke', 'merchants/wallets.ts', 'revokeHandler');
+    const walletList = make('merchant-wallet-list', 'merchants/wallets.ts', 'listHandler');
+    for (const fn of [
+      merchantCreate,
+      merchantList,
+      merchantGet,
+      merchantStatus,
+      merchantDelete,
+      merchantLanguage,
+      merchantUpdate,
+      walletAdd,
+      walletVerify,
+      walletRevoke,
+    ]) {
       foundation.merchantsTable.grantReadWriteData(fn);
     }
     foundation.qrCodesTable.grantReadWriteData(merchantDelete); // deactivates the merchant's QRs
+    foundation.piiKey.grantEncrypt(merchantCreate); // sealed phone for vendor SMS
+    foundation.merchantsTable.grantReadData(walletList);
+    // Payout wallets (§12.1): seal the number, SMS it a code, alert the registered phone
+    foundation.piiKey.grantEncryptDecrypt(walletAdd);
+    walletAdd.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['sns:Publish'],
+        resources: ['*'], // direct-to-phone SMS has no topic ARN
+      })
+    );
+
+    // KYC (merchants start PENDING_KYC): documents -> submit -> reviewer approve/reject
+    const kycUpload = make('kyc-upload', 'kyc/handlers.ts', 'uploadHandler');
+    const kycSubmit = make('kyc-submit', 'kyc/handlers.ts', 'submitHandler');
+    const kycGet = make('kyc-get', 'kyc/handlers.ts', 'getHandler');
+    const kycApprove = make('kyc-approve', 'kyc/handlers.ts', 'approveHandler');
+    const kycReject = make('kyc-reject', 'kyc/handlers.ts', 'rejectHandler');
+    const kycQueue = make('kyc-queue', 'kyc/handlers.ts', 'queueHandler');
+    for (const fn of [kycUpload, kycSubmit, kycApprove, kycReject]) {
+      foundation.merchantsTable.grantReadWriteData(fn);
+    }
+    foundation.merchantsTable.grantReadData(kycGet);
+    foundation.merchantsTable.grantReadData(kycQueue);
+    foundation.kycDocumentsBucket.grantPut(kycUpload); // signs the upload URL
+    foundation.kycDocumentsBucket.grantRead(kycSubmit); // HeadObject: uploaded, and its size
+    foundation.kycDocumentsBucket.grantRead(kycGet); // signs the view URLs
 
     const qrGenerate = make('qr-generate', 'qr/handlers.ts', 'generateHandler');
     const qrGet = make('qr-get', 'qr/handlers.ts', 'getHandler');
@@ -132,18 +204,93 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
     foundation.paymentsTable.grantReadWriteData(paymentInitiate);
     foundation.walletsTable.grantReadWriteData(paymentInitiate);
     foundation.merchantsTable.grantReadData(paymentInitiate);
+    foundation.devicesTable.grantReadData(paymentInitiate); // new-device risk rule
+    foundation.qrCodesTable.grantReadWriteData(paymentInitiate); // dynamic QR one-time claim
     foundation.eventBus.grantPutEventsTo(paymentInitiate);
+    foundation.piiKey.grantEncrypt(paymentInitiate); // sealed payer phone for the SMS receipt
     callbackQueue.grantSendMessages(paymentInitiate);
+    // MTN adapter credentials (SSM SecureString JSON, set out-of-band like the GitHub token)
+    const mtnCredsParam = `/${stage}/ghana-payments/mtn/credentials`;
+    const mtnCredsRead = new iam.PolicyStatement({
+      actions: ['ssm:GetParameter'],
+      resources: [`arn:aws:ssm:${this.region}:${this.account}:parameter${mtnCredsParam}`],
+    });
+    paymentInitiate.addEnvironment('MTN_CREDS_PARAM', mtnCredsParam);
+    paymentInitiate.addToRolePolicy(mtnCredsRead);
 
     const paymentGet = make('payment-get', 'payments/get.ts');
     foundation.paymentsTable.grantReadData(paymentGet);
+    // Support timeline: EVT# history + presigned links into the webhook inbox
+    const paymentEvents = make('payment-events', 'payments/timeline.ts');
+    foundation.paymentsTable.grantReadData(paymentEvents);
+    foundation.webhookInbox.grantRead(paymentEvents);
+
+    const merchantPayments = make('merchant-payments', 'payments/history.ts', 'merchantHistoryHandler');
+    foundation.paymentsTable.grantReadData(merchantPayments);
+
+    // Force verification polls the active adapter, so it needs the same MTN credentials
+    const paymentVerify = make('payment-verify', 'payments/verify.ts');
+    foundation.paymentsTable.grantReadWriteData(paymentVerify);
+    foundation.eventBus.grantPutEventsTo(paymentVerify);
+    foundation.anomaliesTable.grantReadWriteData(paymentVerify);
+    paymentVerify.addEnvironment('MTN_CREDS_PARAM', mtnCredsParam);
+    paymentVerify.addToRolePolicy(mtnCredsRead);
+
+    // Payments held by the fraud rules (risk/rules.ts); release makes the provider call
+    // initiation skipped, so it needs the same credentials, queue and sealed phone
+    const riskHolds = make('risk-holds', 'risk/handlers.ts', 'listHandler');
+    const paymentRelease = make('payment-release', 'risk/handlers.ts', 'releaseHandler');
+    const paymentDecline = make('payment-decline', 'risk/handlers.ts', 'declineHandler');
+    foundation.paymentsTable.grantReadData(riskHolds);
+    foundation.paymentsTable.grantReadWriteData(paymentRelease);
+    foundation.paymentsTable.grantReadWriteData(paymentDecline);
+    foundation.eventBus.grantPutEventsTo(paymentRelease);
+    foundation.eventBus.grantPutEventsTo(paymentDecline);
+    foundation.piiKey.grantDecrypt(paymentRelease);
+    callbackQueue.grantSendMessages(paymentRelease);
+    paymentRelease.addEnvironment('MTN_CREDS_PARAM', mtnCredsParam);
+    paymentRelease.addToRolePolicy(mtnCredsRead);
+
+    // Refund maker-checker (concept §12.1); only approve moves money
+    const refundCreate = make('refund-create', 'payments/refunds.ts', 'createHandler');
+    const refundList = make('refund-list', 'payments/refunds.ts', 'listHandler');
+    const refundApprove = make('refund-approve', 'payments/refunds.ts', 'approveHandler');
+    const refundReject = make('refund-reject', 'payments/refunds.ts', 'rejectHandler');
+    foundation.paymentsTable.grantReadWriteData(refundCreate);
+    foundation.paymentsTable.grantReadData(refundList);
+    foundation.paymentsTable.grantReadWriteData(refundApprove);
+    foundation.paymentsTable.grantReadWriteData(refundReject);
+    foundation.walletsTable.grantReadWriteData(refundApprove);
+    foundation.eventBus.grantPutEventsTo(refundApprove);
 
     const webhook = make('webhook-receiver', 'payments/webhook.ts');
     foundation.paymentsTable.grantReadWriteData(webhook);
     foundation.webhookInbox.grantPut(webhook);
     foundation.eventBus.grantPutEventsTo(webhook);
+    foundation.webhookNoncesTable.grantWriteData(webhook);
+    foundation.anomaliesTable.grantReadWriteData(webhook);
+    // MTN callbacks are unsigned; the verifier checks them against MTN's status API
+    webhook.addEnvironment('MTN_CREDS_PARAM', mtnCredsParam);
+    webhook.addToRolePolicy(mtnCredsRead);
+    // Per-provider HMAC secrets (SSM SecureString, seeded by scripts/deploy.sh for mock)
+    webhook.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['ssm:GetParameter'],
+        resources: [
+          `arn:aws:ssm:${this.region}:${this.account}:parameter/${stage}/ghana-payments/webhooks/*`,
+        ],
+      })
+    );
 
     const mockDelivery = make('mock-delivery', 'payments/mock-delivery.ts');
+    mockDelivery.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['ssm:GetParameter'],
+        resources: [
+          `arn:aws:ssm:${this.region}:${this.account}:parameter/${stage}/ghana-payments/webhooks/mock/secret`,
+        ],
+      })
+    );
     mockDelivery.addEventSource(
       new eventsources.SqsEventSource(callbackQueue, { batchSize: 5 })
     );
@@ -157,6 +304,76 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       targets: [new targets.LambdaFunction(sweeper)],
     });
 
+    // Daily settlement batch (concept §13 Phase 2) — 00:30 UTC, i.e. just after the Accra business day closes
+    const settlementBatch = make(
+      'settlement-batch',
+      'settlements/batch.ts',
+      'handler',
+      cdk.Duration.minutes(5)
+    );
+    foundation.paymentsTable.grantReadData(settlementBatch);
+    foundation.settlementsTable.grantReadWriteData(settlementBatch);
+    foundation.eventBus.grantPutEventsTo(settlementBatch);
+    new events.Rule(this, 'SettlementSchedule', {
+      ruleName: `${stage}-ghana-settlement-batch`,
+      schedule: events.Schedule.cron({ minute: '30', hour: '0' }),
+      targets: [new targets.LambdaFunction(settlementBatch)],
+    });
+
+    const settlementList = make('settlement-list', 'settlements/handlers.ts', 'listHandler');
+    const settlementExport = make('settlement-export', 'settlements/handlers.ts', 'exportHandler');
+    const settlementStatus = make('settlement-status', 'settlements/handlers.ts', 'statusHandler');
+    foundation.settlementsTable.grantReadData(settlementList);
+    foundation.settlementsTable.grantReadData(settlementExport);
+    foundation.settlementsTable.grantReadWriteData(settlementStatus);
+    foundation.merchantsTable.grantReadData(settlementStatus); // the payout wallet on submit
+    foundation.eventBus.grantPutEventsTo(settlementStatus);
+
+    // Provider statement reconciliation (concept §13 MVP): S3 Object Created on the
+    // statements bucket arrives on the DEFAULT bus (S3 -> EventBridge), not ours
+    const reconcile = make(
+      'reconcile',
+      'reconciliation/job.ts',
+      'handler',
+      cdk.Duration.minutes(5)
+    );
+    foundation.statementsBucket.grantRead(reconcile);
+    foundation.paymentsTable.grantReadData(reconcile);
+    foundation.reconciliationTable.grantReadWriteData(reconcile);
+    foundation.eventBus.grantPutEventsTo(reconcile);
+    const reconcileDlq = new sqs.Queue(this, 'ReconcileDlq', {
+      queueName: `${stage}-ghana-reconcile-dlq`,
+    });
+    new events.Rule(this, 'ReconcileRule', {
+      ruleName: `${stage}-ghana-reconcile-statements`,
+      eventPattern: {
+        source: ['aws.s3'],
+        detailType: ['Object Created'],
+        detail: {
+          bucket: { name: [foundation.statementsBucket.bucketName] },
+          object: { key: [{ prefix: 'statements/' }] },
+        },
+      },
+      targets: [
+        new targets.LambdaFunction(reconcile, { deadLetterQueue: reconcileDlq, retryAttempts: 3 }),
+      ],
+    });
+
+    const discrepancyList = make('discrepancy-list', 'reconciliation/handlers.ts', 'listHandler');
+    const discrepancyResolve = make(
+      'discrepancy-resolve',
+      'reconciliation/handlers.ts',
+      'resolveHandler'
+    );
+    foundation.reconciliationTable.grantReadData(discrepancyList);
+    foundation.reconciliationTable.grantReadWriteData(discrepancyResolve);
+
+    // Anomaly queue (late / unknown-payment callbacks) — human review
+    const anomalyList = make('anomaly-list', 'anomalies/handlers.ts', 'listHandler');
+    const anomalyResolve = make('anomaly-resolve', 'anomalies/handlers.ts', 'resolveHandler');
+    foundation.anomaliesTable.grantReadData(anomalyList);
+    foundation.anomaliesTable.grantReadWriteData(anomalyResolve);
+
     const creditBack = make('credit-back', 'events/credit-back.ts');
     foundation.paymentsTable.grantReadWriteData(creditBack);
     foundation.walletsTable.grantReadWriteData(creditBack);
@@ -179,6 +396,41 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       ],
     });
 
+    // SMS confirmations: payer receipt, vendor fallback (no soundbox / announcement unacked)
+    const notifier = make('notifier', 'notifications/notifier.ts');
+    foundation.paymentsTable.grantReadData(notifier);
+    foundation.merchantsTable.grantReadData(notifier);
+    foundation.devicesTable.grantReadData(notifier);
+    foundation.notificationsTable.grantReadWriteData(notifier);
+    foundation.smsOptOutsTable.grantReadData(notifier);
+    foundation.piiKey.grantDecrypt(notifier);
+    notifier.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ['sns:Publish', 'sns:CheckIfPhoneNumberIsOptedOut'],
+        resources: ['*'], // direct-to-phone SMS has no topic ARN
+      })
+    );
+    const notifierDlq = new sqs.Queue(this, 'NotifierDlq', {
+      queueName: `${stage}-ghana-notifier-dlq`,
+    });
+    new events.Rule(this, 'NotifierRule', {
+      ruleName: `${stage}-ghana-notifier`,
+      eventBus: foundation.eventBus,
+      eventPattern: {
+        source: ['ghana.payments'],
+        detailType: ['payment.confirmed', 'payment.failed', 'announcement.unconfirmed'],
+      },
+      targets: [
+        new targets.LambdaFunction(notifier, { deadLetterQueue: notifierDlq, retryAttempts: 3 }),
+      ],
+    });
+    const notificationList = make('notification-list', 'notifications/handlers.ts', 'listHandler');
+    const smsOptOut = make('sms-opt-out', 'notifications/handlers.ts', 'optOutHandler');
+    const smsOptIn = make('sms-opt-in', 'notifications/handlers.ts', 'optInHandler');
+    foundation.notificationsTable.grantReadData(notificationList);
+    foundation.smsOptOutsTable.grantReadWriteData(smsOptOut);
+    foundation.smsOptOutsTable.grantReadWriteData(smsOptIn);
+
     const auditWriter = make('audit-writer', 'events/audit-writer.ts');
     foundation.auditTable.grantWriteData(auditWriter);
     const auditDlq = new sqs.Queue(this, 'AuditDlq', { queueName: `${stage}-ghana-audit-dlq` });
@@ -202,24 +454,99 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       defaultCorsPreflightOptions: {
         allowOrigins: apigateway.Cors.ALL_ORIGINS,
         allowMethods: apigateway.Cors.ALL_METHODS,
-        allowHeaders: ['Content-Type', 'X-Api-Key'],
+        allowHeaders: ['Content-Type', 'Authorization'],
       },
     });
+    // Authorizer 401/403s are answered by API Gateway itself — give them CORS headers too,
+    // or the portal only sees an opaque network error instead of "sign in again".
+    this.api.addGatewayResponse('Default4xx', {
+      type: apigateway.ResponseType.DEFAULT_4XX,
+      responseHeaders: { 'Access-Control-Allow-Origin': "'*'" },
+    });
 
     const v1 = this.api.root.addResource('v1');
     const integrate = (fn: lambda.IFunction): apigateway.LambdaIntegration =>
       new apigateway.LambdaIntegration(fn);
-    const adminOpts: apigateway.MethodOptions = { apiKeyRequired: true };
 
-    // Merchant API (admin, API key — F-5 accepted risk)
+    // Operators (concept §12): one Cognito user each, one group per role. Admins create
+    // users (scripts/create-operator.sh); there is no self sign-up.
+    const operatorPool = new cognito.UserPool(this, 'OperatorUserPool', {
+      userPoolName: `${stage}-ghana-operators`,
+      selfSignUpEnabled: false,
+      signInAliases: { username: true },
+      passwordPolicy: { minLength: 12, requireDigits: false, requireSymbols: false },
+      accountRecovery: cognito.AccountRecovery.NONE,
+      removalPolicy,
+    });
+    for (const role of ['ADMIN', 'SUPPORT', 'FIELD_AGENT', 'FINANCE', 'READ_ONLY_ANALYST']) {
+      new cognito.CfnUserPoolGroup(this, `OperatorGroup${role}`, {
+        userPoolId: operatorPool.userPoolId,
+        groupName: role,
+      });
+    }
+    const operatorClient = operatorPool.addClient('OperatorPortalClient', {
+      userPoolClientName: `${stage}-ghana-operator-portal`,
+      authFlows: { userPassword: true },
+      generateSecret: false,
+      preventUserExistenceErrors: true,
+      accessTokenValidity: cdk.Duration.hours(8), // one shift
+      idTokenValidity: cdk.Duration.hours(8),
+      refreshTokenValidity: cdk.Duration.days(7),
+    });
+
+    // Per-route permissions (auth/permissions.ts) for every operator route. Not cached:
+    // API Gateway caches by token, and one token is allowed on some routes and not others.
+    const operatorAuthorizerFn = make('operator-authorizer', 'auth/authorizer.ts');
+    operatorAuthorizerFn.addEnvironment('USER_POOL_ID', operatorPool.userPoolId);
+    operatorAuthorizerFn.addEnvironment('USER_POOL_CLIENT_ID', operatorClient.userPoolClientId);
+    const operatorAuthorizer = new apigateway.RequestAuthorizer(this, 'OperatorAuthorizer', {
+      authorizerName: `${stage}-ghana-operator`,
+      handler: operatorAuthorizerFn,
+      identitySources: [apigateway.IdentitySource.header('Authorization')],
+      resultsCacheTtl: cdk.Duration.seconds(0),
+    });
+    const adminOpts: apigateway.MethodOptions = {
+      authorizationType: apigateway.AuthorizationType.CUSTOM,
+      authorizer: operatorAuthorizer,
+    };
+
+    // Merchant API (operators — Cognito sign-in, role-checked per route)
     const merchants = v1.addResource('merchants');
     merchants.addMethod('POST', integrate(merchantCreate), adminOpts);
     merchants.addMethod('GET', integrate(merchantList), adminOpts);
     const merchantById = merchants.addResource('{id}');
     merchantById.addMethod('GET', integrate(merchantGet), adminOpts);
     merchantById.addMethod('DELETE', integrate(merchantDelete), adminOpts);
+    merchantById.addMethod('PATCH', integrate(merchantUpdate), adminOpts);
     merchantById.addResource('status').addMethod('PATCH', integrate(merchantStatus), adminOpts);
+    merchantById
+      .addResource('language')
+      .addMethod('PATCH', integrate(merchantLanguage), adminOpts);
     merchantById.addResource('qrs').addMethod('POST', integrate(qrGenerate), adminOpts);
+    // Payout wallets: add -> verify (code + Ghana Card) -> cooling-off -> payouts (§12.1)
+    const merchantWallets = merchantById.addResource('wallets');
+    merchantWallets.addMethod('POST', integrate(walletAdd), adminOpts);
+    merchantWallets.addMethod('GET', integrate(walletList), adminOpts);
+    const walletById = merchantWallets.addResource('{walletId}');
+    walletById.addResource('verify').addMethod('POST', integrate(walletVerify), adminOpts);
+    walletById.addResource('revoke').addMethod('POST', integrate(walletRevoke), adminOpts);
+    const kyc = merchantById.addResource('kyc');
+    kyc.addMethod('GET', integrate(kycGet), adminOpts);
+    kyc.addResource('documents').addMethod('POST', integrate(kycUpload), adminOpts);
+    kyc.addResource('submit').addMethod('POST', integrate(kycSubmit), adminOpts);
+    kyc.addResource('approve').addMethod('POST', integrate(kycApprove), adminOpts);
+    kyc.addResource('reject').addMethod('POST', integrate(kycReject), adminOpts);
+    v1.addResource('kyc').addResource('reviews').addMethod('GET', integrate(kycQueue), adminOpts);
+    // Payment history + daily totals (GSI3 merchant + created_at)
+    merchantById.addResource('payments').addMethod('GET', integrate(merchantPayments), adminOpts);
+    // Settlements (§13 Phase 2)
+    const settlements = merchantById.addResource('settlements');
+    settlements.addMethod('GET', integrate(settlementList), adminOpts);
+    settlements.addResource('export').addMethod('GET', integrate(settlementExport), adminOpts);
+    settlements
+      .addResource('{date}')
+      .addResource('status')
+      .addMethod('PATCH', integrate(settlementStatus), adminOpts);
 
     // QR API (§8.2) — resolve is public (scanned by any phone), the rest admin
     const qrs = v1.addResource('qrs');
@@ -238,13 +565,58 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
     // Payment API (public — portal-driven)
     const payments = v1.addResource('payments');
     payments.addMethod('POST', integrate(paymentInitiate));
-    payments.addResource('{id}').addMethod('GET', integrate(paymentGet));
-
-    // Webhook receiver (public; idempotency is the retained control — ADR-8)
+    const paymentById = payments.addResource('{id}');
+    paymentById.addMethod('GET', integrate(paymentGet));
+    paymentById.addResource('events').addMethod('GET', integrate(paymentEvents), adminOpts);
+    // Force verification (ops tool when a callback is delayed)
+    paymentById.addResource('verify').addMethod('POST', integrate(paymentVerify), adminOpts);
+    paymentById
+      .addResource('notifications')
+      .addMethod('GET', integrate(notificationList), adminOpts);
+    // Refunds (admin; a second admin approves)
+    paymentById.addResource('release').addMethod('POST', integrate(paymentRelease), adminOpts);
+    paymentById.addResource('decline').addMethod('POST', integrate(paymentDecline), adminOpts);
+    v1.addResource('risk').addResource('holds').addMethod('GET', integrate(riskHolds), adminOpts);
+    const refunds = paymentById.addResource('refunds');
+    refunds.addMethod('POST', integrate(refundCreate), adminOpts);
+    refunds.addMethod('GET', integrate(refundList), adminOpts);
+    const refundById = refunds.addResource('{refundId}');
+    refundById.addResource('approve').addMethod('POST', integrate(refundApprove), adminOpts);
+    refundById.addResource('reject').addMethod('POST', integrate(refundReject), adminOpts);
+
+    // Reconciliation discrepancies (admin)
+    const discrepancies = v1.addResource('reconciliation').addResource('discrepancies');
+    discrepancies.addMethod('GET', integrate(discrepancyList), adminOpts);
+    discrepancies
+      .addResource('{id}')
+      .addResource('resolve')
+      .addMethod('POST', integrate(discrepancyResolve), adminOpts);
+
+    // Payment anomaly queue (admin)
+    const anomalies = v1.addResource('anomalies');
+    anomalies.addMethod('GET', integrate(anomalyList), adminOpts);
+    anomalies
+      .addResource('{id}')
+      .addResource('resolve')
+      .addMethod('POST', integrate(anomalyResolve), adminOpts);
+
+    // SMS opt-outs (support-maintained; handset STOP replies are honoured by SNS)
+    const optOuts = v1.addResource('notifications').addResource('opt-outs');
+    optOuts.addMethod('POST', integrate(smsOptOut), adminOpts);
+    optOuts.addResource('{phone}').addMethod('DELETE', integrate(smsOptIn), adminOpts);
+
+    // Webhook receiver (public; per-provider signature verification + idempotency)
     v1.addResource('webhooks').addResource('{provider}').addMethod('POST', integrate(webhook));
 
+    // Operator sign-in (public by nature): password -> Cognito access token, and refresh
     const authToken = make('auth-token', 'auth/handlers.ts', 'tokenHandler');
-    v1.addResource('auth').addResource('token').addMethod('POST', integrate(authToken));
+    const authRefresh = make('auth-refresh', 'auth/handlers.ts', 'refreshHandler');
+    for (const fn of [authToken, authRefresh]) {
+      fn.addEnvironment('USER_POOL_CLIENT_ID', operatorClient.userPoolClientId);
+    }
+    const auth = v1.addResource('auth');
+    auth.addResource('token').addMethod('POST', integrate(authToken));
+    auth.addResource('refresh').addMethod('POST', integrate(authRefresh));
 
     // --- Devices + soundbox (Phase 4) ---
 
@@ -304,16 +676,40 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
     const deviceCommand = make('device-command', 'devices/handlers.ts', 'commandHandler');
     const deviceStatus = make('device-status', 'devices/handlers.ts', 'statusHandler');
     const deviceDelete = make('device-delete', 'devices/handlers.ts', 'deleteHandler');
+    const devicePrimary = make('device-primary', 'devices/handlers.ts', 'primaryHandler');
+    const deviceUnpair = make('device-unpair', 'devices/handlers.ts', 'unpairHandler');
+    const devicePairings = make('device-pairings', 'devices/handlers.ts', 'pairingsHandler');
     const soundboxConfig = make('soundbox-config', 'devices/handlers.ts', 'configHandler');
-    for (const fn of [deviceRegister, deviceList, devicePairingCode, devicePair, deviceCommand, deviceStatus, deviceDelete]) {
+    for (const fn of [
+      deviceRegister,
+      deviceList,
+      devicePairingCode,
+      devicePair,
+      deviceCommand,
+      deviceStatus,
+      deviceDelete,
+      devicePrimary,
+      deviceUnpair,
+    ]) {
       foundation.devicesTable.grantReadWriteData(fn);
     }
+    foundation.devicesTable.grantReadData(devicePairings);
     deviceDelete.addToRolePolicy(
       new iam.PolicyStatement({
         actions: ['iot:ListTargetsForPolicy', 'iot:DetachPolicy', 'iot:DeletePolicy'],
         resources: ['*'],
       })
     );
+    // Unpair and same-merchant re-pair revoke the previous identity/certificate
+    const iotDetach = new iam.PolicyStatement({
+      actions: ['iot:ListTargetsForPolicy', 'iot:DetachPolicy'],
+      resources: ['*'],
+    });
+    deviceUnpair.addToRolePolicy(iotDetach);
+    deviceUnpair.addToRolePolicy(iotPublish);
+    deviceUnpair.addToRolePolicy(iotDescribe);
+    devicePair.addToRolePolicy(iotDetach);
+    foundation.eventBus.grantPutEventsTo(devicePair); // fraud.device_repair
     foundation.merchantsTable.grantReadData(devicePairingCode);
     foundation.merchantsTable.grantReadData(devicePair); // pair response includes merchant_name
     devicePair.addToRolePolicy(
@@ -335,14 +731,115 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
     deviceById.addResource('pairing-code').addMethod('POST', integrate(devicePairingCode), adminOpts);
     deviceById.addResource('events').addMethod('POST', integrate(deviceCommand), adminOpts);
     deviceById.addResource('status').addMethod('PATCH', integrate(deviceStatus), adminOpts);
+    deviceById.addResource('primary').addMethod('POST', integrate(devicePrimary), adminOpts);
+    deviceById.addResource('unpair').addMethod('POST', integrate(deviceUnpair), adminOpts);
+    deviceById.addResource('pairings').addMethod('GET', integrate(devicePairings), adminOpts);
+
+    // Telemetry series per device + fleet health summary (heartbeats write both via
+    // status-updater.ts)
+    const deviceTelemetry = make('device-telemetry', 'devices/telemetry.ts', 'telemetryHandler');
+    const deviceHealth = make('device-health', 'devices/telemetry.ts', 'fleetHealthHandler');
+    foundation.deviceTelemetryTable.grantReadData(deviceTelemetry);
+    foundation.devicesTable.grantReadData(deviceTelemetry);
+    foundation.devicesTable.grantReadData(deviceHealth);
+    deviceById.addResource('telemetry').addMethod('GET', integrate(deviceTelemetry), adminOpts);
+    devices.addResource('health').addMethod('GET', integrate(deviceHealth), adminOpts);
     v1.addResource('soundbox').addResource('config').addMethod('GET', integrate(soundboxConfig));
 
+    // Bulk provisioning from a manufacturing manifest: the import route stores it, the S3
+    // event (default bus, like reconciliation) runs the job, the report route reads the result
+    const deviceImport = make('device-import', 'devices/provisioning.ts', 'importHandler');
+    const deviceImportReport = make(
+      'device-import-report',
+      'devices/provisioning.ts',
+      'importReportHandler'
+    );
+    const deviceProvision = make(
+      'device-provision',
+      'devices/provisioning.ts',
+      'handler',
+      cdk.Duration.minutes(10)
+    );
+    foundation.deviceManifestsBucket.grantPut(deviceImport);
+    foundation.deviceManifestsBucket.grantRead(deviceImportReport);
+    foundation.deviceManifestsBucket.grantReadWrite(deviceProvision);
+    foundation.devicesTable.grantReadWriteData(deviceProvision);
+    deviceProvision.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: [
+          'iot:CreateKeysAndCertificate',
+          'iot:UpdateCertificate',
+          'iot:DeleteCertificate',
+          'iot:CreatePolicy',
+        ],
+        resources: ['*'],
+      })
+    );
+    const deviceProvisionDlq = new sqs.Queue(this, 'DeviceProvisionDlq', {
+      queueName: `${stage}-ghana-device-provision-dlq`,
+    });
+    new events.Rule(this, 'DeviceProvisionRule', {
+      ruleName: `${stage}-ghana-device-provision-manifests`,
+      eventPattern: {
+        source: ['aws.s3'],
+        detailType: ['Object Created'],
+        detail: {
+          bucket: { name: [foundation.deviceManifestsBucket.bucketName] },
+          object: { key: [{ prefix: 'manifests/' }] },
+        },
+      },
+      targets: [
+        new targets.LambdaFunction(deviceProvision, {
+          deadLetterQueue: deviceProvisionDlq,
+          retryAttempts: 2,
+        }),
+      ],
+    });
+    const deviceImports = devices.addResource('imports');
+    deviceImports.addMethod('POST', integrate(deviceImport), adminOpts);
+    deviceImports.addResource('{id}').addMethod('GET', integrate(deviceImportReport), adminOpts);
+
+    // Admin change audit (concept §12): the audited merchant/QR/device handlers append an
+    // entry to the audit table; GET /v1/audit reads them back
+    for (const fn of [
+      merchantCreate,
+      merchantStatus,
+      merchantDelete,
+      merchantLanguage,
+      merchantUpdate,
+      walletAdd,
+      walletVerify,
+      walletRevoke,
+      kycUpload,
+      kycSubmit,
+      kycApprove,
+      kycReject,
+      qrGenerate,
+      qrRotate,
+      qrStatus,
+      deviceRegister,
+      devicePairingCode,
+      deviceCommand,
+      deviceStatus,
+      deviceDelete,
+      devicePrimary,
+      deviceUnpair,
+      deviceImport,
+    ]) {
+      foundation.auditTable.grantWriteData(fn);
+    }
+    const auditList = make('audit-list', 'audit/handlers.ts', 'listHandler');
+    foundation.auditTable.grantReadData(auditList);
+    v1.addResource('audit').addMethod('GET', integrate(auditList), adminOpts);
+
     // Announcer: payment.confirmed -> announce-once guard -> per-device MQTT publish
     const announcer = make('device-announcer', 'devices/announcer.ts');
     foundation.devicesTable.grantReadData(announcer);
     foundation.paymentsTable.grantReadWriteData(announcer);
+    foundation.merchantsTable.grantReadData(announcer); // preferred language
     announcer.addToRolePolicy(iotPublish);
     announcer.addToRolePolicy(iotDescribe);
+    announceRetryQueue.grantSendMessages(announcer);
     const announcerDlq = new sqs.Queue(this, 'AnnouncerDlq', {
       queueName: `${stage}-ghana-announcer-dlq`,
     });
@@ -355,6 +852,14 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       ],
     });
 
+    const announceRetry = make('device-announce-retry', 'devices/announce-retry.ts');
+    foundation.paymentsTable.grantReadWriteData(announceRetry);
+    foundation.eventBus.grantPutEventsTo(announceRetry);
+    announceRetry.addToRolePolicy(iotPublish);
+    announceRetry.addToRolePolicy(iotDescribe);
+    announceRetryQueue.grantSendMessages(announceRetry);
+    announceRetry.addEventSource(new eventsources.SqsEventSource(announceRetryQueue, { batchSize: 5 }));
+
     // Issue reporting: portals -> GitHub Issues (token in SSM SecureString, out-of-band)
     const issues = make('issues', 'issues/handlers.ts', 'createHandler');
     issues.addEnvironment('GITHUB_REPO', 'richardforjoejnr/aws-cdk-boilerplate');
@@ -385,9 +890,12 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
     );
     v1.addResource('costs').addMethod('GET', integrate(costs), adminOpts);
 
-    // Heartbeats: devices/+/heartbeat -> device status/last-seen
+    // Heartbeats: devices/+/heartbeat -> device status/last-seen (+ device.online after an outage)
     const statusUpdater = make('device-status-updater', 'devices/status-updater.ts');
     foundation.devicesTable.grantReadWriteData(statusUpdater);
+    foundation.paymentsTable.grantReadWriteData(statusUpdater); // played_at ack
+    foundation.deviceTelemetryTable.grantWriteData(statusUpdater);
+    foundation.eventBus.grantPutEventsTo(statusUpdater);
     const heartbeatRule = new iot.CfnTopicRule(this, 'HeartbeatRule', {
       ruleName: `${stage.replace(/-/g, '_')}_ghana_heartbeat`,
       topicRulePayload: {
@@ -401,33 +909,85 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       sourceArn: heartbeatRule.attrArn,
     });
 
-    // API key + usage plan for the admin surface
-    const apiKey = this.api.addApiKey('AdminApiKey', { apiKeyName: `${stage}-ghana-admin-key` });
-    const plan = this.api.addUsagePlan('AdminUsagePlan', {
-      name: `${stage}-ghana-admin`,
-      throttle: { rateLimit: 20, burstLimit: 40 },
+    // Broker presence events: a dropped MQTT connection marks the soundbox OFFLINE at once
+    const deviceLifecycle = make(
+      'device-lifecycle',
+      'devices/status-updater.ts',
+      'lifecycleHandler'
+    );
+    foundation.devicesTable.grantReadWriteData(deviceLifecycle);
+    foundation.eventBus.grantPutEventsTo(deviceLifecycle);
+    const lifecycleRule = new iot.CfnTopicRule(this, 'LifecycleRule', {
+      ruleName: `${stage.replace(/-/g, '_')}_ghana_device_lifecycle`,
+      topicRulePayload: {
+        sql: "SELECT * FROM '$aws/events/presence/+/+' WHERE startswith(clientId, 'soundbox-')",
+        awsIotSqlVersion: '2016-03-23',
+        actions: [{ lambda: { functionArn: deviceLifecycle.functionArn } }],
+      },
+    });
+    deviceLifecycle.addPermission('IotInvoke', {
+      principal: new iam.ServicePrincipal('iot.amazonaws.com'),
+      sourceArn: lifecycleRule.attrArn,
     });
-    plan.addApiKey(apiKey);
-    plan.addApiStage({ stage: this.api.deploymentStage });
 
-    // Key referenced by NAME, not keyId — an env ref to the key resource would create a
-    // circular dependency (key -> usage-plan stage -> deployment -> auth method -> lambda).
-    authToken.addEnvironment('ADMIN_API_KEY_NAME', `${stage}-ghana-admin-key`);
-    authToken.addEnvironment('ADMIN_CREDS_PARAM', `/${stage}/ghana-payments/admin/credentials`);
-    authToken.addToRolePolicy(
-      new iam.PolicyStatement({
-        actions: ['ssm:GetParameter'],
-        resources: [
-          `arn:aws:ssm:${this.region}:${this.account}:parameter/${stage}/ghana-payments/admin/credentials`,
-        ],
-      })
-    );
-    authToken.addToRolePolicy(
-      new iam.PolicyStatement({
-        actions: ['apigateway:GET'],
-        resources: [`arn:aws:apigateway:${this.region}::/apikeys`],
-      })
+    // Missed-announcement sync: devices/+/sync {since} -> MISSED_PAYMENTS on the payments topic
+    const deviceSync = make('device-sync', 'devices/sync.ts');
+    foundation.devicesTable.grantReadData(deviceSync);
+    foundation.merchantsTable.grantReadData(deviceSync); // preferred language
+    foundation.paymentsTable.grantReadWriteData(deviceSync); // announce-once guard + timeline
+    deviceSync.addToRolePolicy(iotPublish);
+    deviceSync.addToRolePolicy(iotDescribe);
+    const syncRule = new iot.CfnTopicRule(this, 'SyncRule', {
+      ruleName: `${stage.replace(/-/g, '_')}_ghana_device_sync`,
+      topicRulePayload: {
+        sql: "SELECT *, topic(2) as device_id FROM 'devices/+/sync'",
+        awsIotSqlVersion: '2016-03-23',
+        actions: [{ lambda: { functionArn: deviceSync.functionArn } }],
+      },
+    });
+    deviceSync.addPermission('IotInvoke', {
+      principal: new iam.ServicePrincipal('iot.amazonaws.com'),
+      sourceArn: syncRule.attrArn,
+    });
+
+    // Missed heartbeats: ACTIVE -> OFFLINE once last_seen_at is older than the SSM window
+    const offlineSweeper = make('device-offline-sweeper', 'devices/offline-sweeper.ts');
+    foundation.devicesTable.grantReadWriteData(offlineSweeper);
+    foundation.eventBus.grantPutEventsTo(offlineSweeper);
+    new events.Rule(this, 'DeviceOfflineSchedule', {
+      ruleName: `${stage}-ghana-device-offline-sweeper`,
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      targets: [new targets.LambdaFunction(offlineSweeper)],
+    });
+
+    // Firmware OTA: releases point at images in the firmware bucket; a rollout sends
+    // FIRMWARE_UPDATE (presigned URL + sha256) on devices/{id}/commands, devices report
+    // progress on their heartbeat topic (status-updater.ts)
+    const firmwareCreate = make('firmware-create', 'firmware/handlers.ts', 'createHandler');
+    const firmwareList = make('firmware-list', 'firmware/handlers.ts', 'listHandler');
+    const firmwareGet = make('firmware-get', 'firmware/handlers.ts', 'getHandler');
+    const firmwareRollout = make(
+      'firmware-rollout',
+      'firmware/handlers.ts',
+      'rolloutHandler',
+      cdk.Duration.seconds(60)
     );
+    foundation.firmwareReleasesTable.grantReadWriteData(firmwareCreate);
+    foundation.firmwareReleasesTable.grantReadData(firmwareList);
+    foundation.firmwareReleasesTable.grantReadData(firmwareGet);
+    foundation.firmwareReleasesTable.grantReadWriteData(firmwareRollout);
+    foundation.devicesTable.grantReadData(firmwareGet);
+    foundation.devicesTable.grantReadWriteData(firmwareRollout);
+    foundation.firmwareBucket.grantRead(firmwareCreate); // HeadObject: size + version pin
+    foundation.firmwareBucket.grantRead(firmwareRollout); // presigned download URLs
+    firmwareRollout.addToRolePolicy(iotPublish);
+    firmwareRollout.addToRolePolicy(iotDescribe);
+    const releases = v1.addResource('firmware').addResource('releases');
+    releases.addMethod('POST', integrate(firmwareCreate), adminOpts);
+    releases.addMethod('GET', integrate(firmwareList), adminOpts);
+    const releaseById = releases.addResource('{id}');
+    releaseById.addMethod('GET', integrate(firmwareGet), adminOpts);
+    releaseById.addResource('rollout').addMethod('POST', integrate(firmwareRollout), adminOpts);
 
     // Mock delivery posts to the REAL public webhook URL (F-2). Built from restApiId to
     // avoid a resource cycle with the deployment stage.
@@ -440,9 +1000,9 @@ export class GhanaPaymentsApiStack extends cdk.Stack {
       value: this.api.url,
       exportName: `${stage}-ghana-payments-api-url`,
     });
-    new cdk.CfnOutput(this, 'AdminApiKeyId', {
-      value: apiKey.keyId,
-      description: 'Fetch value: aws apigateway get-api-key --api-key <id> --include-value',
+    new cdk.CfnOutput(this, 'OperatorUserPoolId', {
+      value: operatorPool.userPoolId,
+      description: 'Add operators: ./scripts/create-operator.sh <stage> <username> <role>',
     });
   }
 }
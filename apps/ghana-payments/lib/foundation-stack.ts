@@ -1,6 +1,7 @@
 import * as cdk from 'aws-cdk-lib';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as events from 'aws-cdk-lib/aws-events';
+import * as kms from 'aws-cdk-lib/aws-kms';
 import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as ssm from 'aws-cdk-lib/aws-ssm';
 import { Construct } from 'constructs';
@@ -24,8 +25,20 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
   public readonly devicesTable: dynamodb.Table;
   public readonly settlementsTable: dynamodb.Table;
   public readonly auditTable: dynamodb.Table;
+  public readonly webhookNoncesTable: dynamodb.Table;
+  public readonly reconciliationTable: dynamodb.Table;
+  public readonly anomaliesTable: dynamodb.Table;
+  public readonly notificationsTable: dynamodb.Table;
+  public readonly smsOptOutsTable: dynamodb.Table;
+  public readonly firmwareReleasesTable: dynamodb.Table;
+  public readonly deviceTelemetryTable: dynamodb.Table;
+  public readonly piiKey: kms.Key;
   public readonly eventBus: events.EventBus;
   public readonly webhookInbox: s3.Bucket;
+  public readonly statementsBucket: s3.Bucket;
+  public readonly firmwareBucket: s3.Bucket;
+  public readonly deviceManifestsBucket: s3.Bucket;
+  public readonly kycDocumentsBucket: s3.Bucket;
 
   constructor(scope: Construct, id: string, props: GhanaPaymentsFoundationStackProps) {
     super(scope, id, props);
@@ -85,6 +98,21 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
       sortKey: { name: 'created_at', type: dynamodb.AttributeType.STRING },
       projectionType: dynamodb.ProjectionType.ALL,
     });
+    // Merchant payment history: every META by creation time, whatever its status
+    // (GSI1 only holds payments that reached a terminal state)
+    this.paymentsTable.addGlobalSecondaryIndex({
+      indexName: 'GSI3',
+      partitionKey: { name: 'merchant_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'created_at', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+    // Payer velocity and repeat payments (risk/rules.ts): every META of one payer by creation time
+    this.paymentsTable.addGlobalSecondaryIndex({
+      indexName: 'GSI4',
+      partitionKey: { name: 'payer_phone_hash', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'created_at', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
 
     // No TTL attribute here: DynamoDB TTL deletes the WHOLE item — pairing-code expiry
     // is a plain attribute checked in the pair handler.
@@ -104,6 +132,13 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
       partitionKey: { name: 'serial_number', type: dynamodb.AttributeType.STRING },
       projectionType: dynamodb.ProjectionType.ALL,
     });
+    // Offline sweeper: ACTIVE devices by last heartbeat
+    this.devicesTable.addGlobalSecondaryIndex({
+      indexName: 'GSI3',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'last_seen_at', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
 
     this.settlementsTable = new dynamodb.Table(this, 'SettlementsTable', {
       ...tableDefaults,
@@ -119,6 +154,94 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
       sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
       timeToLiveAttribute: 'ttl',
     });
+    // Admin changes by target (merchant/QR/device/import id); bus events have no target_id,
+    // so they stay out of the index
+    this.auditTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'target_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Webhook replay guard: one item per accepted signature nonce. Here a TTL deleting the
+    // whole item is exactly right — a nonce only matters inside the timestamp window.
+    this.webhookNoncesTable = new dynamodb.Table(this, 'WebhookNoncesTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-webhook-nonces`,
+      partitionKey: { name: 'nonce_key', type: dynamodb.AttributeType.STRING },
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // Reconciliation discrepancies (concept §13 MVP). The id is derived from the statement
+    // day + row, so re-ingesting a statement never duplicates or reopens an item.
+    this.reconciliationTable = new dynamodb.Table(this, 'ReconciliationTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-reconciliation`,
+      partitionKey: { name: 'discrepancy_id', type: dynamodb.AttributeType.STRING },
+    });
+    this.reconciliationTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'created_at', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // Payment anomalies (late callbacks, unknown-payment webhooks) awaiting human review.
+    // The id is derived from the callback, so provider retries never duplicate an item.
+    this.anomaliesTable = new dynamodb.Table(this, 'AnomaliesTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-anomalies`,
+      partitionKey: { name: 'anomaly_id', type: dynamodb.AttributeType.STRING },
+    });
+    this.anomaliesTable.addGlobalSecondaryIndex({
+      indexName: 'GSI1',
+      partitionKey: { name: 'status', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'created_at', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    // SMS delivery log: one item per (payment, recipient) — the conditional put on it is
+    // the per-recipient dedupe. Recipients appear only as phone hashes.
+    this.notificationsTable = new dynamodb.Table(this, 'NotificationsTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-notifications`,
+      partitionKey: { name: 'payment_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'sk', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Phone hashes that asked for no SMS (SNS keeps its own STOP list as well)
+    this.smsOptOutsTable = new dynamodb.Table(this, 'SmsOptOutsTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-sms-opt-outs`,
+      partitionKey: { name: 'phone_hash', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Soundbox firmware releases (artifact in the firmware bucket + sha256, rollout %);
+    // per-device update state lives on the device item
+    this.firmwareReleasesTable = new dynamodb.Table(this, 'FirmwareReleasesTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-firmware-releases`,
+      partitionKey: { name: 'release_id', type: dynamodb.AttributeType.STRING },
+    });
+
+    // Rolling per-device heartbeat readings (battery, signal, firmware, uptime); the TTL
+    // deleting whole items is the retention window
+    this.deviceTelemetryTable = new dynamodb.Table(this, 'DeviceTelemetryTable', {
+      ...tableDefaults,
+      tableName: `${stage}-ghana-device-telemetry`,
+      partitionKey: { name: 'device_id', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'at', type: dynamodb.AttributeType.STRING },
+      timeToLiveAttribute: 'ttl',
+    });
+
+    // Seals the raw phone numbers we must message (shared/pii.ts sealPii) — the only
+    // form in which a raw phone is ever persisted
+    this.piiKey = new kms.Key(this, 'PiiKey', {
+      alias: `${stage}-ghana-pii`,
+      description: 'Ghana payments: sealed contact details (phone numbers for SMS)',
+      enableKeyRotation: true,
+      removalPolicy,
+    });
 
     this.eventBus = new events.EventBus(this, 'PaymentEventBus', {
       eventBusName: `${stage}-ghana-payments`,
@@ -135,6 +258,68 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
       lifecycleRules: isProdLike ? [] : [{ expiration: cdk.Duration.days(30) }],
     });
 
+    // Provider transaction statements (statements/{provider}/{YYYY-MM-DD}.csv|json). S3 ->
+    // EventBridge (default bus) so the reconcile Lambda in the API stack can subscribe
+    // without a cross-stack notification cycle.
+    this.statementsBucket = new s3.Bucket(this, 'ProviderStatements', {
+      bucketName: `${stage}-ghana-provider-statements-${this.account}`,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      eventBridgeEnabled: true,
+      removalPolicy,
+      autoDeleteObjects: !isProdLike,
+    });
+
+    // Firmware images (firmware/{model}/{version}.bin). Devices download through
+    // short-lived presigned URLs carried in the FIRMWARE_UPDATE command; versioned so a
+    // re-upload can never change an image a rollout already points at.
+    this.firmwareBucket = new s3.Bucket(this, 'FirmwareArtifacts', {
+      bucketName: `${stage}-ghana-firmware-${this.account}`,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      versioned: true,
+      removalPolicy,
+      autoDeleteObjects: !isProdLike,
+    });
+
+    // Manufacturing manifests (manifests/{job_id}.csv|json), their per-row reports and the
+    // credential bundles of certificates the import created (bundles/{job_id}/{serial}/ —
+    // the only copy of each private key, so they expire once the factory has flashed them).
+    // S3 -> EventBridge (default bus), same as the statements bucket.
+    this.deviceManifestsBucket = new s3.Bucket(this, 'DeviceManifests', {
+      bucketName: `${stage}-ghana-device-manifests-${this.account}`,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      eventBridgeEnabled: true,
+      removalPolicy,
+      autoDeleteObjects: !isProdLike,
+      lifecycleRules: [{ prefix: 'bundles/', expiration: cdk.Duration.days(30) }],
+    });
+
+    // Merchant identity documents (kyc/{merchant_id}/{document_id}.{ext}). Field agents
+    // upload and reviewers view through short-lived presigned URLs only; the admin portal
+    // PUTs from the browser, hence CORS. No expiry rule: the evidence is kept for as long
+    // as the merchant is.
+    this.kycDocumentsBucket = new s3.Bucket(this, 'KycDocuments', {
+      bucketName: `${stage}-ghana-kyc-documents-${this.account}`,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      cors: [
+        {
+          allowedMethods: [s3.HttpMethods.PUT, s3.HttpMethods.GET],
+          allowedOrigins: ['*'],
+          allowedHeaders: ['Content-Type'],
+          maxAge: 3000,
+        },
+      ],
+      removalPolicy,
+      autoDeleteObjects: !isProdLike,
+    });
+
     // Mock provider outcome amounts (pesewas) — ADR-7
     const mockConfig: Record<string, string> = {
       'mock/fail-amount-pesewas': '1300',
@@ -143,6 +328,51 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
       'mock/callback-delay-seconds': '3',
       'sweeper/expiry-minutes': '5',
       'provider/active': 'mock',
+      // MTN MoMo Collections sandbox (concept §17.3); the sandbox only accepts EUR (§17.5)
+      'mtn/base-url': 'https://sandbox.momodeveloper.mtn.com',
+      'mtn/target-environment': 'sandbox',
+      'mtn/currency': 'EUR',
+      // Settlement fee per SUCCESS payment (concept §13 Phase 2): 100 bps = 1%
+      'settlement/fee-bps': '100',
+      // Three missed 60 s heartbeats -> the offline sweeper marks the soundbox OFFLINE
+      'devices/offline-after-seconds': '180',
+      // Fleet health flags: battery percent and RSSI (dBm) below these
+      'devices/low-battery-percent': '20',
+      'devices/weak-signal-dbm': '-85',
+      // A second pairing within this window is flagged as a suspicious re-pair (§12.1)
+      'devices/rapid-repair-minutes': '60',
+      // A newly verified payout wallet only receives payouts after this many hours (§12.1)
+      'merchants/wallet-cooling-off-hours': '48',
+      // Collection limits per KYC level (pesewas): NONE GHS 100 / 500 a day, BASIC
+      // GHS 1,000 / 5,000, FULL GHS 10,000 / 50,000
+      'kyc/none-per-payment-pesewas': '10000',
+      'kyc/none-daily-pesewas': '50000',
+      'kyc/basic-per-payment-pesewas': '100000',
+      'kyc/basic-daily-pesewas': '500000',
+      'kyc/full-per-payment-pesewas': '1000000',
+      'kyc/full-daily-pesewas': '5000000',
+      // Fraud rules at initiation (concept §12): each action is ALLOW (record only), HOLD
+      // (debit, wait for review), BLOCK or OFF. Ceilings hold payments well below the KYC limits.
+      'risk/payer-velocity-action': 'HOLD',
+      'risk/payer-velocity-max-payments': '5',
+      'risk/payer-velocity-window-minutes': '10',
+      'risk/merchant-velocity-action': 'HOLD',
+      'risk/merchant-velocity-max-payments': '100',
+      'risk/merchant-velocity-window-minutes': '10',
+      'risk/amount-ceiling-action': 'HOLD',
+      'risk/amount-ceiling-none-pesewas': '5000',
+      'risk/amount-ceiling-basic-pesewas': '50000',
+      'risk/amount-ceiling-full-pesewas': '500000',
+      'risk/repeat-amount-action': 'BLOCK',
+      'risk/repeat-amount-window-minutes': '2',
+      'risk/new-device-action': 'HOLD',
+      'risk/new-device-paired-within-hours': '24',
+      'risk/new-device-min-amount-pesewas': '20000',
+      // Unreviewed holds expire (payer credited back) after this long
+      'risk/hold-expiry-minutes': '60',
+      // SMS confirmations: 'sns' sends for real, 'local' only logs (no SMS leaves the account)
+      'notifications/sms-provider': 'sns',
+      'notifications/sms-sender-id': 'GhanaPay',
     };
     for (const [key, value] of Object.entries(mockConfig)) {
       new ssm.StringParameter(this, `Param-${key.replace(/\//g, '-')}`, {
@@ -159,6 +389,22 @@ export class GhanaPaymentsFoundationStack extends cdk.Stack {
       value: this.webhookInbox.bucketName,
       exportName: `${stage}-ghana-payments-webhook-inbox`,
     });
+    new cdk.CfnOutput(this, 'ProviderStatementsBucket', {
+      value: this.statementsBucket.bucketName,
+      exportName: `${stage}-ghana-payments-provider-statements`,
+    });
+    new cdk.CfnOutput(this, 'FirmwareBucket', {
+      value: this.firmwareBucket.bucketName,
+      exportName: `${stage}-ghana-payments-firmware`,
+    });
+    new cdk.CfnOutput(this, 'DeviceManifestsBucket', {
+      value: this.deviceManifestsBucket.bucketName,
+      exportName: `${stage}-ghana-payments-device-manifests`,
+    });
+    new cdk.CfnOutput(this, 'KycDocumentsBucket', {
+      value: this.kycDocumentsBucket.bucketName,
+      exportName: `${stage}-ghana-payments-kyc-documents`,
+    });
     new cdk.CfnOutput(this, 'PaymentsTableName', {
       value: this.paymentsTable.tableName,
       exportName: `${stage}-ghana-payments-table`,
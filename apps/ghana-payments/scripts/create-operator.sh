@@ -0,0 +1,37 @@
+#!/bin/bash
+# Create (or update) an operator sign-in for the merchant portal and the operator API.
+#
+# Usage: ./scripts/create-operator.sh <stage> <username> <role> [password]
+#   role: ADMIN | SUPPORT | FIELD_AGENT | FINANCE | READ_ONLY_ANALYST (concept §12;
+#   what each may call is src/auth/permissions.ts)
+#
+# Without a password a temporary one is printed; the operator chooses their own on
+# first sign-in. With one, it is set as their permanent password. Re-running for an
+# existing user adds the role (a user may hold several) and resets the password if given.
+set -e
+
+STAGE=${1:?usage: create-operator.sh <stage> <username> <role> [password]}
+USERNAME=${2:?username required}
+ROLE=${3:?role required}
+PASSWORD=${4:-}
+case "$ROLE" in
+  ADMIN|SUPPORT|FIELD_AGENT|FINANCE|READ_ONLY_ANALYST) ;;
+  *) echo "role must be one of ADMIN SUPPORT FIELD_AGENT FINANCE READ_ONLY_ANALYST" >&2; exit 1 ;;
+esac
+
+POOL=$(aws cloudformation describe-stacks --stack-name "${STAGE}-ghana-payments-api" \
+  --query "Stacks[0].Outputs[?OutputKey=='OperatorUserPoolId'].OutputValue" --output text)
+
+if ! aws cognito-idp admin-get-user --user-pool-id "$POOL" --username "$USERNAME" >/dev/null 2>&1; then
+  TEMP="Temp$(openssl rand -hex 8)"
+  aws cognito-idp admin-create-user --user-pool-id "$POOL" --username "$USERNAME" \
+    --temporary-password "$TEMP" --message-action SUPPRESS >/dev/null
+  [ -z "$PASSWORD" ] && echo "Temporary password (changed at first sign-in): $TEMP"
+fi
+if [ -n "$PASSWORD" ]; then
+  aws cognito-idp admin-set-user-password --user-pool-id "$POOL" --username "$USERNAME" \
+    --password "$PASSWORD" --permanent
+fi
+aws cognito-idp admin-add-user-to-group --user-pool-id "$POOL" --username "$USERNAME" \
+  --group-name "$ROLE"
+echo "✓ $USERNAME is $ROLE on $STAGE"
@@ -10,6 +10,12 @@ echo -e "${BLUE}Installing deps...${NC}"; npm install --no-audit --no-fund
 echo -e "${BLUE}Building + testing...${NC}"; npm run build && npm test
 echo -e "${BLUE}Bootstrapping CDK (idempotent)...${NC}"
 npx cdk bootstrap "aws://$(aws sts get-caller-identity --query Account --output text)/${AWS_REGION:-us-east-1}" 2>/dev/null || true
+# Mock provider webhook HMAC secret (SecureString — CDK cannot create those). Seeded once, kept across deploys.
+MOCK_SECRET_PARAM="/${STAGE}/ghana-payments/webhooks/mock/secret"
+if ! aws ssm get-parameter --name "$MOCK_SECRET_PARAM" >/dev/null 2>&1; then
+  echo -e "${BLUE}Seeding mock webhook secret...${NC}"
+  aws ssm put-parameter --name "$MOCK_SECRET_PARAM" --type SecureString --value "$(openssl rand -hex 32)" >/dev/null
+fi
 echo -e "${BLUE}Deploying stage: ${STAGE}...${NC}"
 STAGE=${STAGE} npx cdk deploy --all --require-approval never
 
@@ -19,7 +25,7 @@ get_output() {
 }
 PORTAL_URL=$(get_output "${STAGE}-ghana-payments-web" PortalUrl)
 API_URL=$(get_output "${STAGE}-ghana-payments-api" ApiUrl)
-KEY_ID=$(get_output "${STAGE}-ghana-payments-api" AdminApiKeyId)
+USER_POOL_ID=$(get_output "${STAGE}-ghana-payments-api" OperatorUserPoolId)
 
 echo ""
 echo -e "${GREEN}✓ Ghana Payments deployed to ${STAGE}${NC}"
@@ -27,10 +33,10 @@ echo -e "Portal:            ${GREEN}${PORTAL_URL}${NC}"
 echo -e "  Merchant portal: ${PORTAL_URL}/admin/"
 echo -e "  Soundbox:        ${PORTAL_URL}/soundbox/"
 echo -e "API (direct):      ${API_URL}"
-echo -e "Admin API key id:  ${KEY_ID}"
+echo -e "Operator pool:     ${USER_POOL_ID}  (add sign-ins: ./scripts/create-operator.sh ${STAGE} <user> <role>)"
 
 if [ -n "${GITHUB_OUTPUT:-}" ]; then
-  { echo "portal_url=${PORTAL_URL}"; echo "api_url=${API_URL}"; echo "api_key_id=${KEY_ID}"; } >> "$GITHUB_OUTPUT"
+  { echo "portal_url=${PORTAL_URL}"; echo "api_url=${API_URL}"; echo "user_pool_id=${USER_POOL_ID}"; } >> "$GITHUB_OUTPUT"
 fi
 if [ -n "${GITHUB_STEP_SUMMARY:-}" ]; then
   {
@@ -41,6 +47,6 @@ if [ -n "${GITHUB_STEP_SUMMARY:-}" ]; then
     echo "| Merchant portal | ${PORTAL_URL}/admin/ |"
     echo "| Soundbox | ${PORTAL_URL}/soundbox/ |"
     echo "| API (direct) | ${API_URL} |"
-    echo "| Admin API key id | \`${KEY_ID}\` |"
+    echo "| Operator user pool | \`${USER_POOL_ID}\` |"
   } >> "$GITHUB_STEP_SUMMARY"
 fi
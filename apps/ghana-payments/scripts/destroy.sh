@@ -31,7 +31,7 @@ cleanup_policy "${STAGE}-ghana-spike-policy"
 echo -e "${BLUE}Destroying stacks...${NC}"
 DEPLOY_GHANA_SPIKE=true STAGE=${STAGE} npx cdk destroy --all --force
 
-# 3. Runtime SSM params (admin creds, cost cache, github token) — loop-until-empty, race-tolerant.
+# 3. Runtime SSM params (cost cache, github token, mock webhook secret) — loop-until-empty, race-tolerant.
 echo -e "${BLUE}Cleaning SSM parameters...${NC}"
 for attempt in 1 2 3; do
   names=$(aws ssm get-parameters-by-path --path "/${STAGE}/ghana-payments" --recursive --query 'Parameters[].Name' --output text 2>/dev/null)
@@ -0,0 +1,23 @@
+#!/bin/bash
+# Download the certificate bundles a bulk device import created (create_certificates).
+#
+# Usage: ./scripts/fetch-device-bundles.sh <stage> <job_id>
+# (POST /v1/devices/imports returns the job_id; wait for GET /v1/devices/imports/{job_id}
+# to say COMPLETED)
+#
+# Output: ./device-bundles/<serial>/ — device.cert.pem, device.private.key,
+# device.public.key, certificate.json. Then pair each device with
+# ./scripts/setup-real-device.sh <stage> <serial> <pairing_code>, which reuses the bundle.
+# The bundles expire from S3 after 30 days — the private keys exist nowhere else.
+set -e
+
+STAGE=${1:?usage: fetch-device-bundles.sh <stage> <job_id>}
+JOB=${2:?job_id required}
+
+BUCKET=$(aws cloudformation describe-stacks --stack-name "${STAGE}-ghana-payments-foundation" \
+  --query "Stacks[0].Outputs[?OutputKey=='DeviceManifestsBucket'].OutputValue" --output text)
+
+aws s3 cp "s3://$BUCKET/bundles/$JOB/" device-bundles/ --recursive
+echo ""
+echo "✓ Bundles in device-bundles/:"
+aws s3 ls "s3://$BUCKET/bundles/$JOB/" | awk '{print "  " $2}'
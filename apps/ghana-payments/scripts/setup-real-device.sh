@@ -4,6 +4,8 @@
 #
 # Usage: ./scripts/setup-real-device.sh <stage> <serial_number> <pairing_code>
 # (register the device + get the pairing code from the merchant portal first)
+# A device from a bulk import with create_certificates already has its certificate:
+# fetch its bundle first (./scripts/fetch-device-bundles.sh) and this reuses it.
 #
 # Output: ./device-bundles/<serial>/  — certs, keys, Amazon Root CA, device.json
 set -e
@@ -17,13 +19,21 @@ PORTAL=$(aws cloudformation describe-stacks --stack-name "${STAGE}-ghana-payment
 OUT="device-bundles/${SERIAL}"
 mkdir -p "$OUT"
 
-echo "1/4 Creating device certificate + keys..."
-CERT=$(aws iot create-keys-and-certificate --set-as-active \
-  --certificate-pem-outfile "$OUT/device.cert.pem" \
-  --public-key-outfile "$OUT/device.public.key" \
-  --private-key-outfile "$OUT/device.private.key")
-CERT_ARN=$(echo "$CERT" | python3 -c 'import json,sys;print(json.load(sys.stdin)["certificateArn"])')
-CERT_ID=$(echo "$CERT" | python3 -c 'import json,sys;print(json.load(sys.stdin)["certificateId"])')
+PROVISIONED=""
+if [ -f "$OUT/certificate.json" ]; then
+  echo "1/4 Using the certificate provisioned by the bulk import..."
+  CERT_ARN=$(python3 -c 'import json,sys;print(json.load(open(sys.argv[1]))["certificate_arn"])' "$OUT/certificate.json")
+  CERT_ID=$(python3 -c 'import json,sys;print(json.load(open(sys.argv[1]))["certificate_id"])' "$OUT/certificate.json")
+  PROVISIONED=1
+else
+  echo "1/4 Creating device certificate + keys..."
+  CERT=$(aws iot create-keys-and-certificate --set-as-active \
+    --certificate-pem-outfile "$OUT/device.cert.pem" \
+    --public-key-outfile "$OUT/device.public.key" \
+    --private-key-outfile "$OUT/device.private.key")
+  CERT_ARN=$(echo "$CERT" | python3 -c 'import json,sys;print(json.load(sys.stdin)["certificateArn"])')
+  CERT_ID=$(echo "$CERT" | python3 -c 'import json,sys;print(json.load(sys.stdin)["certificateId"])')
+fi
 echo "   certificate: $CERT_ID"
 
 echo "2/4 Downloading Amazon Root CA..."
@@ -32,6 +42,10 @@ curl -sf https://www.amazontrust.com/repository/AmazonRootCA1.pem -o "$OUT/Amazo
 echo "3/4 Pairing with the platform..."
 PAIR=$(curl -sf -X POST "$PORTAL/api/v1/devices/pair" -H 'content-type: application/json' \
   -d "{\"serial_number\":\"$SERIAL\",\"pairing_code\":\"$CODE\",\"certificate_arn\":\"$CERT_ARN\"}") || {
+  if [ -n "$PROVISIONED" ]; then
+    echo "Pairing failed — the provisioned certificate is kept; check the code and retry."
+    exit 1
+  fi
   echo "Pairing failed — deactivating the orphaned certificate..."
   aws iot update-certificate --certificate-id "$CERT_ID" --new-status INACTIVE
   aws iot delete-certificate --certificate-id "$CERT_ID"
@@ -0,0 +1,126 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { listHandler, resolveHandler } from './handlers.js';
+import { anomalyId, severityFor } from './store.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.ANOMALIES_TABLE = 'test-anomalies';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+
+const conditionFailed = (): Error =>
+  Object.assign(new Error('The conditional request failed'), {
+    name: 'ConditionalCheckFailedException',
+  });
+
+beforeEach(() => {
+  ddbMock.reset();
+});
+
+describe('anomaly severity', () => {
+  it('is HIGH when the provider moved money the ledger gave up on (SUCCESS after EXPIRED)', () => {
+    expect(severityFor('LATE_CALLBACK', 'SUCCESS', 'EXPIRED')).toBe('HIGH');
+    expect(severityFor('LATE_CALLBACK', 'FAILED', 'SUCCESS')).toBe('HIGH');
+  });
+
+  it('is LOW when a late callback agrees with the ledger (REFUNDED counts as settled)', () => {
+    expect(severityFor('LATE_CALLBACK', 'SUCCESS', 'SUCCESS')).toBe('LOW');
+    expect(severityFor('LATE_CALLBACK', 'SUCCESS', 'REFUNDED')).toBe('LOW');
+    expect(severityFor('LATE_CALLBACK', 'FAILED', 'EXPIRED')).toBe('LOW');
+  });
+
+  it('grades unknown-payment callbacks by whether money moved', () => {
+    expect(severityFor('UNKNOWN_PAYMENT', 'SUCCESS', null)).toBe('HIGH');
+    expect(severityFor('UNKNOWN_PAYMENT', 'FAILED', null)).toBe('MEDIUM');
+  });
+
+  it('derives the id from the callback so provider retries collapse', () => {
+    expect(anomalyId('LATE_CALLBACK', 'pay_1', 'txn_1')).toBe(
+      anomalyId('LATE_CALLBACK', 'pay_1', 'txn_1')
+    );
+    expect(anomalyId('LATE_CALLBACK', 'pay_1', 'txn_1')).not.toBe(
+      anomalyId('LATE_CALLBACK', 'pay_1', 'txn_2')
+    );
+  });
+});
+
+describe('GET /v1/anomalies', () => {
+  const list = (qs: Record<string, string> = {}) =>
+    listHandler({ queryStringParameters: qs } as unknown as APIGatewayProxyEvent);
+
+  it('defaults to OPEN and filters by severity', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [{ anomaly_id: 'anm_1', severity: 'HIGH' }] });
+    const res = await list({ severity: 'HIGH' });
+    expect(res.statusCode).toBe(200);
+    expect(parse<{ anomalies: unknown[] }>(res).anomalies).toHaveLength(1);
+    const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+    expect(input.IndexName).toBe('GSI1');
+    expect(input.FilterExpression).toBe('#filter = :filter');
+    expect(input.ExpressionAttributeNames).toMatchObject({ '#filter': 'severity' });
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':status': 'OPEN',
+      ':filter': 'HIGH',
+    });
+  });
+
+  it('rejects an unknown status or severity', async () => {
+    expect(parse<ErrorResponse>(await list({ status: 'CLOSED' })).error.code).toBe(
+      'INVALID_STATUS'
+    );
+    expect(parse<ErrorResponse>(await list({ severity: 'URGENT' })).error.code).toBe(
+      'INVALID_SEVERITY'
+    );
+  });
+});
+
+describe('POST /v1/anomalies/{id}/resolve', () => {
+  const resolve = (body: unknown, id = 'anm_1') =>
+    resolveHandler({
+      pathParameters: { id },
+      body: JSON.stringify(body),
+    } as unknown as APIGatewayProxyEvent);
+
+  it('resolves an open anomaly with who and why', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: { anomaly_id: 'anm_1', status: 'RESOLVED' } });
+    const res = await resolve({
+      resolved_by: 'ops@example.com',
+      note: 'payer refunded at provider',
+    });
+    expect(res.statusCode).toBe(200);
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.ConditionExpression).toBe('#status = :open');
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':by': 'ops@example.com',
+      ':note': 'payer refunded at provider',
+    });
+  });
+
+  it('requires resolved_by and note', async () => {
+    expect((await resolve({ resolved_by: 'ops@example.com' })).statusCode).toBe(400);
+  });
+
+  it('404s an unknown anomaly and 409s one already resolved', async () => {
+    ddbMock.on(UpdateCommand).rejects(conditionFailed());
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({})
+      .resolves({ Item: { anomaly_id: 'anm_1' } });
+    const body = { resolved_by: 'ops@example.com', note: 'done' };
+    expect((await resolve(body)).statusCode).toBe(404);
+    const res = await resolve(body);
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('ALREADY_RESOLVED');
+  });
+});
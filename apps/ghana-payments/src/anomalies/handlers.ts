@@ -0,0 +1,32 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { apiError, handleError, ok } from '../shared/http.js';
+import { queueStatusOf, resolveHandlerFor } from '../shared/review-queue.js';
+import { getAnomaly, listAnomalies, resolveAnomaly, type AnomalySeverity } from './store.js';
+
+const SEVERITIES: AnomalySeverity[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+/** GET /v1/anomalies?status=OPEN|RESOLVED&severity=LOW|MEDIUM|HIGH (admin). */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const qs = event.queryStringParameters ?? {};
+    const status = queueStatusOf(qs.status);
+    const severity = qs.severity as AnomalySeverity | undefined;
+    if (severity !== undefined && !SEVERITIES.includes(severity)) {
+      return apiError(400, 'INVALID_SEVERITY', `severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    const items = await listAnomalies(status, severity);
+    return ok({ status, ...(severity ? { severity } : {}), anomalies: items });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/anomalies/{id}/resolve (admin) — records e.g. "refunded payer at provider"; a
+ * late SUCCESS on an EXPIRED payment is settled through the normal tools.
+ */
+export const resolveHandler = resolveHandlerFor({
+  noun: 'anomaly',
+  resolve: resolveAnomaly,
+  get: getAnomaly,
+});
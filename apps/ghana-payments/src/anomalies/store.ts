@@ -0,0 +1,129 @@
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'node:crypto';
+import { ddb, publishEvent } from '../shared/clients.js';
+import { listQueue, resolveQueueItem, type QueueStatus } from '../shared/review-queue.js';
+import type { PaymentStatus } from '../shared/types.js';
+
+const TABLE = (): string => process.env.ANOMALIES_TABLE ?? '';
+
+export type AnomalyType = 'LATE_CALLBACK' | 'UNKNOWN_PAYMENT';
+
+export type AnomalySeverity = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export type AnomalyStatus = QueueStatus;
+
+export interface Anomaly {
+  anomaly_id: string;
+  type: AnomalyType;
+  severity: AnomalySeverity;
+  status: AnomalyStatus;
+  payment_id: string;
+  merchant_id: string | null;
+  provider: string;
+  provider_txn_id: string;
+  attempted_status: 'SUCCESS' | 'FAILED';
+  /** Ledger status when the callback arrived; null for an unknown payment. */
+  current_status: PaymentStatus | null;
+  amount_pesewas: number | null;
+  raw_payload_ref?: string;
+  created_at: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  resolution_note?: string;
+}
+
+/** Money-moving outcomes; REFUNDED was a SUCCESS first. */
+const settled = (status: PaymentStatus | null): boolean =>
+  status === 'SUCCESS' || status === 'REFUNDED';
+
+/**
+ * HIGH when the provider and the ledger disagree on whether money moved (e.g. SUCCESS
+ * after the sweeper EXPIRED the payment and credited the payer back) or when money
+ * arrived for a payment we never issued. A late callback that agrees with the ledger is
+ * LOW; an unknown-payment failure is MEDIUM (nothing moved, but someone sent it).
+ */
+export function severityFor(
+  type: AnomalyType,
+  attempted: 'SUCCESS' | 'FAILED',
+  current: PaymentStatus | null
+): AnomalySeverity {
+  if (type === 'UNKNOWN_PAYMENT') return attempted === 'SUCCESS' ? 'HIGH' : 'MEDIUM';
+  return settled(current) !== (attempted === 'SUCCESS') ? 'HIGH' : 'LOW';
+}
+
+/** Deterministic per (type, payment, provider txn) — a provider retrying the callback is a no-op. */
+export function anomalyId(type: AnomalyType, paymentId: string, providerTxnId: string): string {
+  const digest = createHash('sha256').update(`${type}|${paymentId}|${providerTxnId}`).digest('hex');
+  return `anm_${digest.slice(0, 24)}`;
+}
+
+export async function getAnomaly(id: string): Promise<Anomaly | undefined> {
+  const res = await ddb.send(new GetCommand({ TableName: TABLE(), Key: { anomaly_id: id } }));
+  return res.Item as Anomaly | undefined;
+}
+
+/**
+ * Queue an anomaly once and publish payment.anomaly for it. Returns undefined when the
+ * same callback was already queued (open or resolved) — nothing is re-published.
+ */
+export async function raiseAnomaly(input: {
+  type: AnomalyType;
+  paymentId: string;
+  merchantId?: string;
+  provider: string;
+  providerTxnId: string;
+  attemptedStatus: 'SUCCESS' | 'FAILED';
+  currentStatus?: PaymentStatus;
+  amountPesewas?: number;
+  rawPayloadRef?: string;
+}): Promise<Anomaly | undefined> {
+  const item: Anomaly = {
+    anomaly_id: anomalyId(input.type, input.paymentId, input.providerTxnId),
+    type: input.type,
+    severity: severityFor(input.type, input.attemptedStatus, input.currentStatus ?? null),
+    status: 'OPEN',
+    payment_id: input.paymentId,
+    merchant_id: input.merchantId ?? null,
+    provider: input.provider,
+    provider_txn_id: input.providerTxnId,
+    attempted_status: input.attemptedStatus,
+    current_status: input.currentStatus ?? null,
+    amount_pesewas: input.amountPesewas ?? null,
+    ...(input.rawPayloadRef ? { raw_payload_ref: input.rawPayloadRef } : {}),
+    created_at: new Date().toISOString(),
+  };
+  try {
+    await ddb.send(
+      new PutCommand({
+        TableName: TABLE(),
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(anomaly_id)',
+      })
+    );
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return undefined;
+    throw err;
+  }
+  await publishEvent('payment.anomaly', { ...item });
+  return item;
+}
+
+/** Newest first; optionally narrowed to one severity. */
+export async function listAnomalies(
+  status: AnomalyStatus,
+  severity?: AnomalySeverity
+): Promise<Anomaly[]> {
+  return listQueue<Anomaly>(
+    TABLE(),
+    status,
+    severity ? { attribute: 'severity', value: severity } : undefined
+  );
+}
+
+export async function resolveAnomaly(
+  id: string,
+  resolvedBy: string,
+  note: string
+): Promise<Anomaly | undefined> {
+  return resolveQueueItem<Anomaly>(TABLE(), { anomaly_id: id }, resolvedBy, note);
+}
@@ -0,0 +1,124 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { encodeCursor } from '../shared/http.js';
+import { listHandler } from './handlers.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.AUDIT_TABLE = 'test-audit';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ListResponse {
+  entries: Array<{ target_id: string; actor: string | null; action: string }>;
+  next_cursor: string | null;
+}
+interface ErrorResponse {
+  error: { code: string };
+}
+
+const event = (qs: Record<string, string>): APIGatewayProxyEvent =>
+  ({ queryStringParameters: qs }) as unknown as APIGatewayProxyEvent;
+
+const entry = (date: string, n: number) => ({
+  date,
+  sk: `${date}T10:00:0${n}.000Z#abcd000${n}`,
+  entry_type: 'ADMIN_CHANGE',
+  at: `${date}T10:00:0${n}.000Z`,
+  actor: 'kojo',
+  action: 'merchant.status',
+  target_type: 'MERCHANT',
+  target_id: 'mer_1',
+  changes: {},
+  request_id: 'req',
+});
+
+const queries = () => ddbMock.commandCalls(QueryCommand).map((c) => c.args[0].input);
+const days = (): unknown[] =>
+  queries().map((q) => q.ExpressionAttributeValues?.[':date'] as unknown);
+
+beforeEach(() => {
+  ddbMock.reset();
+});
+
+describe('GET /v1/audit', () => {
+  it('by target: one index query over the whole date range, newest first', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [entry('2026-03-02', 1)] });
+    const res = await listHandler(
+      event({ from: '2026-03-01', to: '2026-03-02', target: 'mer_1', actor: 'kojo' })
+    );
+    expect(res.statusCode).toBe(200);
+    expect(parse<ListResponse>(res).entries[0]).toMatchObject({
+      target_id: 'mer_1',
+      actor: 'kojo',
+    });
+    expect(queries()).toEqual([
+      expect.objectContaining({
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'target_id = :t AND sk BETWEEN :from AND :to',
+        FilterExpression: 'actor = :actor',
+        ExpressionAttributeValues: {
+          ':t': 'mer_1',
+          ':actor': 'kojo',
+          ':from': '2026-03-01T00:00:00.000Z',
+          ':to': '2026-03-02T23:59:59.999Z~',
+        },
+        ScanIndexForward: false,
+      }),
+    ]);
+  });
+
+  it('by date only: walks the day partitions newest first, skipping bus events', async () => {
+    ddbMock
+      .on(QueryCommand, {
+        ExpressionAttributeValues: { ':date': '2026-03-03', ':admin': 'ADMIN_CHANGE' },
+      })
+      .resolves({ Items: [entry('2026-03-03', 1)] })
+      .on(QueryCommand, {
+        ExpressionAttributeValues: { ':date': '2026-03-02', ':admin': 'ADMIN_CHANGE' },
+      })
+      .resolves({ Items: [] })
+      .on(QueryCommand, {
+        ExpressionAttributeValues: { ':date': '2026-03-01', ':admin': 'ADMIN_CHANGE' },
+      })
+      .resolves({ Items: [entry('2026-03-01', 2)] });
+
+    const res = await listHandler(event({ from: '2026-03-01', to: '2026-03-03' }));
+    const body = parse<ListResponse>(res);
+    expect(body.entries).toHaveLength(2);
+    expect(body.next_cursor).toBeNull();
+    expect(days()).toEqual(['2026-03-03', '2026-03-02', '2026-03-01']);
+    expect(queries()[0].FilterExpression).toBe('entry_type = :admin');
+  });
+
+  it('a full page ends on a day boundary and the cursor resumes on the day before', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [entry('2026-03-03', 1)] });
+    const first = parse<ListResponse>(
+      await listHandler(event({ from: '2026-03-01', to: '2026-03-03', limit: '1' }))
+    );
+    expect(first.entries).toHaveLength(1);
+    expect(first.next_cursor).toBe(encodeCursor({ date: '2026-03-02' }));
+
+    ddbMock.reset();
+    ddbMock.on(QueryCommand).resolves({ Items: [] });
+    await listHandler(
+      event({
+        from: '2026-03-01',
+        to: '2026-03-03',
+        limit: '1',
+        cursor: first.next_cursor as string,
+      })
+    );
+    expect(days()).toEqual(['2026-03-02', '2026-03-01']);
+    expect(queries()[0].ExclusiveStartKey).toBeUndefined();
+  });
+
+  it('400s a bad range or limit', async () => {
+    const range = await listHandler(event({ from: '2026-03-05', to: '2026-03-01' }));
+    expect(parse<ErrorResponse>(range).error.code).toBe('INVALID_DATE_RANGE');
+    const limit = await listHandler(event({ limit: '0' }));
+    expect(parse<ErrorResponse>(limit).error.code).toBe('INVALID_LIMIT');
+  });
+});
@@ -0,0 +1,60 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { BadRequestError, decodeCursor, encodeCursor, handleError, ok } from '../shared/http.js';
+import { listAuditEntries, type AuditQuery } from './store.js';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 7;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function parseQuery(event: APIGatewayProxyEvent): AuditQuery & { limit: number } {
+  const qs = event.queryStringParameters ?? {};
+  const from =
+    qs.from ??
+    new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60_000).toISOString().slice(0, 10);
+  const to = qs.to ?? new Date().toISOString().slice(0, 10);
+  if (!DAY_RE.test(from) || !DAY_RE.test(to) || from > to) {
+    throw new BadRequestError('INVALID_DATE_RANGE', 'from/to must be YYYY-MM-DD with from <= to');
+  }
+  const limit = qs.limit === undefined ? DEFAULT_LIMIT : Number(qs.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new BadRequestError('INVALID_LIMIT', `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  return {
+    from,
+    to,
+    ...(qs.target ? { targetId: qs.target } : {}),
+    ...(qs.actor ? { actor: qs.actor } : {}),
+    limit,
+  };
+}
+
+/**
+ * GET /v1/audit?from&to&target&actor&limit&cursor (admin) — who changed what through the
+ * admin API, newest first (concept §12 Auditability). `target` is a merchant, wallet, QR,
+ * device or import id; `actor` a Cognito username. Dates default to the last 7 days.
+ */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const { limit, ...q } = parseQuery(event);
+    const cursor = decodeCursor(event.queryStringParameters?.cursor);
+    const page = await listAuditEntries(q, limit, cursor);
+    return ok({
+      from: q.from,
+      to: q.to,
+      entries: page.entries.map((e) => ({
+        at: e.at,
+        actor: e.actor ?? null,
+        action: e.action,
+        target_type: e.target_type,
+        target_id: e.target_id,
+        changes: e.changes,
+        details: e.details ?? null,
+        request_id: e.request_id,
+      })),
+      next_cursor: encodeCursor(page.lastKey),
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
@@ -0,0 +1,155 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { apiError, ok } from '../shared/http.js';
+import { statusHandler } from '../merchants/handlers.js';
+import { audited, diffItems } from './middleware.js';
+import type { AdminAuditEntry } from './store.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.MERCHANTS_TABLE = 'test-merchants';
+process.env.AUDIT_TABLE = 'test-audit';
+
+const merchant = (status: string) => ({
+  merchant_id: 'mer_1',
+  sk: 'PROFILE',
+  display_name: 'Ama Chop Bar',
+  phone_hash: 'hash-1',
+  status,
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+const signedIn = (body: unknown, pathParameters: Record<string, string>): APIGatewayProxyEvent =>
+  ({
+    pathParameters,
+    body: JSON.stringify(body),
+    requestContext: { requestId: 'req-1', authorizer: { actor: 'kojo', roles: 'SUPPORT' } },
+  }) as unknown as APIGatewayProxyEvent;
+
+const auditPuts = (): AdminAuditEntry[] =>
+  ddbMock
+    .commandCalls(PutCommand)
+    .map((c) => c.args[0].input)
+    .filter((input) => input.TableName === 'test-audit')
+    .map((input) => input.Item as AdminAuditEntry);
+
+beforeEach(() => {
+  ddbMock.reset();
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({});
+});
+
+describe('audit middleware', () => {
+  it('records actor, action, target, the changed fields and the request id', async () => {
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: merchant('ACTIVE') })
+      .resolves({ Item: { ...merchant('SUSPENDED'), updated_at: '2026-02-01T00:00:00.000Z' } });
+
+    const res = await statusHandler(signedIn({ status: 'SUSPENDED' }, { id: 'mer_1' }));
+    expect(res.statusCode).toBe(200);
+
+    const [entry] = auditPuts();
+    expect(entry).toMatchObject({
+      entry_type: 'ADMIN_CHANGE',
+      actor: 'kojo',
+      action: 'merchant.status',
+      target_type: 'MERCHANT',
+      target_id: 'mer_1',
+      request_id: 'req-1',
+      // updated_at/updated_by are bookkeeping, not part of the diff
+      changes: { status: { before: 'ACTIVE', after: 'SUSPENDED' } },
+    });
+    // Both images are read strongly consistent, so "after" really is after the write
+    const reads = ddbMock.commandCalls(GetCommand).map((c) => c.args[0].input);
+    expect(reads).toHaveLength(2);
+    expect(reads.every((r) => r.ConsistentRead === true)).toBe(true);
+  });
+
+  it('records nothing when the request fails', async () => {
+    ddbMock.on(GetCommand).resolves({});
+    const res = await statusHandler(signedIn({ status: 'ASLEEP' }, { id: 'mer_1' }));
+    expect(res.statusCode).toBe(400);
+    expect(auditPuts()).toHaveLength(0);
+  });
+
+  it('never fails a change that was made because the audit write failed', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: merchant('ACTIVE') });
+    ddbMock.on(PutCommand, { TableName: 'test-audit' }).rejects(new Error('throttled'));
+    const res = await statusHandler(signedIn({ status: 'SUSPENDED' }, { id: 'mer_1' }));
+    expect(res.statusCode).toBe(200);
+  });
+
+  it('takes a created target from the response and keeps the requested details', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: { device_id: 'dev_9', status: 'UNASSIGNED' } });
+    const handler = audited(
+      {
+        action: 'device.register',
+        targetType: 'DEVICE',
+        created: 'device_id',
+        table: () => 'test-devices',
+        key: (id) => ({ device_id: id }),
+        details: (body) => ({ serial_number: body.serial_number }),
+      },
+      async () => ok({ device_id: 'dev_9', serial_number: 'SB-9' }, 201)
+    );
+    await handler(signedIn({}, {}));
+    const [entry] = auditPuts();
+    expect(entry.target_id).toBe('dev_9');
+    expect(entry.changes).toEqual({
+      device_id: { before: null, after: 'dev_9' },
+      status: { before: null, after: 'UNASSIGNED' },
+    });
+    expect(entry.details).toEqual({ serial_number: 'SB-9' });
+  });
+
+  it('leaves the actor out (not null) when there is no authorizer context', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: merchant('ACTIVE') });
+    const handler = audited(
+      { action: 'merchant.status', targetType: 'MERCHANT', param: 'id' },
+      async () => ok({})
+    );
+    await handler({ pathParameters: { id: 'mer_1' } } as unknown as APIGatewayProxyEvent);
+    const [entry] = auditPuts();
+    expect('actor' in entry).toBe(false);
+    expect(entry.request_id).toBeNull();
+  });
+
+  it('a 409 from the wrapped handler is passed through untouched', async () => {
+    const conflict = apiError(409, 'DEVICE_NOT_PAIRED', 'Device is not paired');
+    const handler = audited(
+      { action: 'device.unpair', targetType: 'DEVICE', param: 'id' },
+      async () => conflict
+    );
+    expect(await handler(signedIn({}, { id: 'dev_1' }))).toBe(conflict);
+    expect(auditPuts()).toHaveLength(0);
+  });
+});
+
+describe('diffItems', () => {
+  it('says a secret or PII field changed without saying to what', () => {
+    expect(
+      diffItems(
+        { device_id: 'dev_1', pairing_code: '111111' },
+        { device_id: 'dev_1', pairing_code: '222222', pending_merchant_id: 'mer_1' }
+      )
+    ).toEqual({
+      pairing_code: { before: '[redacted]', after: '[redacted]' },
+      pending_merchant_id: { before: null, after: 'mer_1' },
+    });
+  });
+
+  it('a deleted target shows every field going to null', () => {
+    expect(diffItems({ device_id: 'dev_1', status: 'ACTIVE' }, undefined)).toEqual({
+      device_id: { before: 'dev_1', after: null },
+      status: { before: 'ACTIVE', after: null },
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { GetCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import { actorOf } from '../shared/http.js';
+import { recordAdminChange, type AuditTargetType, type FieldChange } from './store.js';
+
+type Handler = (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult>;
+type Item = Record<string, unknown>;
+
+// Bookkeeping the entry already carries (who, when), and the device's append-only log
+const IGNORED = new Set(['updated_at', 'updated_by', 'pairing_history']);
+// Secrets and PII: the entry says they changed, never what to
+const REDACTED = new Set([
+  'phone_hash',
+  'phone_sealed',
+  'ghana_card_hash',
+  'pairing_code',
+  'wallet_number_token',
+  'wallet_number_sealed',
+  'otp_hash',
+]);
+
+export interface AuditSpec {
+  action: string;
+  targetType: AuditTargetType;
+  /** Path parameter naming an existing target; loaded before and after the change. */
+  param?: string;
+  /** Response field naming a target the request created (no before image). */
+  created?: string;
+  /** Where the target lives; omit for targets with no item of their own (imports). */
+  table?: () => string;
+  /** The target's key; gets the event too for items under a parent (a merchant's wallet). */
+  key?: (id: string, event: APIGatewayProxyEvent) => Item;
+  /** Extra facts from the response body worth keeping, e.g. a replacement id. */
+  details?: (response: Item) => Item;
+}
+
+/** Field-by-field difference of two item images (absent on either side = null). */
+export function diffItems(
+  before: Item | undefined,
+  after: Item | undefined
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+  for (const field of [...fields].sort()) {
+    if (IGNORED.has(field)) continue;
+    const was = before?.[field] ?? null;
+    const now = after?.[field] ?? null;
+    if (JSON.stringify(was) === JSON.stringify(now)) continue;
+    changes[field] = REDACTED.has(field)
+      ? { before: was === null ? null : '[redacted]', after: now === null ? null : '[redacted]' }
+      : { before: was, after: now };
+  }
+  return changes;
+}
+
+async function load(
+  spec: AuditSpec,
+  id: string,
+  event: APIGatewayProxyEvent
+): Promise<Item | undefined> {
+  if (!spec.table || !spec.key) return undefined;
+  // Strongly consistent, or the after image could predate the write it is meant to show
+  const res = await ddb.send(
+    new GetCommand({ TableName: spec.table(), Key: spec.key(id, event), ConsistentRead: true })
+  );
+  return res.Item;
+}
+
+/**
+ * Audit middleware for the admin handlers (concept §12 Auditability): every successful
+ * call leaves one entry — actor, action, target, before/after diff and the API Gateway
+ * request id. Failed calls change nothing and are not recorded. Auditing never fails the
+ * request: the change has already been made, so an audit error is logged, not returned.
+ */
+export function audited(spec: AuditSpec, handler: Handler): Handler {
+  return async (event) => {
+    const existingId = spec.param ? event.pathParameters?.[spec.param] : undefined;
+    let before: Item | undefined;
+    if (existingId) {
+      try {
+        before = await load(spec, existingId, event);
+      } catch (err) {
+        console.error('Audit before-image read failed', { action: spec.action, err });
+      }
+    }
+
+    const res = await handler(event);
+    if (res.statusCode < 200 || res.statusCode >= 300) return res;
+
+    try {
+      const body = JSON.parse(res.body) as Item;
+      const createdId = spec.created ? body[spec.created] : undefined;
+      const targetId = existingId ?? (typeof createdId === 'string' ? createdId : undefined);
+      if (!targetId) throw new Error('no target id');
+      const after = await load(spec, targetId, event);
+      await recordAdminChange({
+        actor: actorOf(event),
+        action: spec.action,
+        target_type: spec.targetType,
+        target_id: targetId,
+        changes: diffItems(before, after),
+        details: spec.details?.(body),
+        request_id: event.requestContext?.requestId ?? null,
+      });
+    } catch (err) {
+      console.error('Audit entry not written', { action: spec.action, err });
+    }
+    return res;
+  };
+}
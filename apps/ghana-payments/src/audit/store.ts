@@ -0,0 +1,157 @@
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'node:crypto';
+import { ddb } from '../shared/clients.js';
+
+const TABLE = (): string => process.env.AUDIT_TABLE ?? '';
+const TTL_SECONDS = 90 * 24 * 3600;
+
+export type AuditTargetType = 'MERCHANT' | 'MERCHANT_WALLET' | 'QR' | 'DEVICE' | 'DEVICE_IMPORT';
+
+/** One changed field: its value before and after the request (null = absent). */
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * An operator's change through the admin API (concept §12 Auditability). Shares the audit
+ * table with the bus events the audit writer records, told apart by `entry_type`.
+ */
+export interface AdminAuditEntry {
+  date: string;
+  sk: string;
+  entry_type: 'ADMIN_CHANGE';
+  at: string;
+  /** Cognito username; absent when the handler ran without the operator authorizer. */
+  actor?: string;
+  /** `{domain}.{verb}`, e.g. merchant.status, qr.rotate, device.pairing_code. */
+  action: string;
+  target_type: AuditTargetType;
+  /** GSI1 partition key: merchant, wallet, QR, device or import id (prefixes never collide). */
+  target_id: string;
+  changes: Record<string, FieldChange>;
+  /** What the response said that the target's own fields do not (e.g. the replacement QR). */
+  details?: Record<string, unknown>;
+  request_id: string | null;
+  ttl: number;
+}
+
+export type NewAuditEntry = Pick<
+  AdminAuditEntry,
+  'action' | 'target_type' | 'target_id' | 'changes' | 'details' | 'request_id'
+> & { actor: string | null };
+
+/** Same partition/sort layout and 90-day TTL as the bus audit trail. */
+export async function recordAdminChange(entry: NewAuditEntry): Promise<AdminAuditEntry> {
+  const now = new Date();
+  const { actor, details, ...rest } = entry;
+  const item: AdminAuditEntry = {
+    date: now.toISOString().slice(0, 10),
+    sk: `${now.toISOString()}#${randomUUID().slice(0, 8)}`,
+    entry_type: 'ADMIN_CHANGE',
+    at: now.toISOString(),
+    // Index key attributes cannot be null, so an unknown actor is left out entirely
+    ...(actor ? { actor } : {}),
+    ...rest,
+    ...(details && Object.keys(details).length > 0 ? { details } : {}),
+    ttl: Math.floor(now.getTime() / 1000) + TTL_SECONDS,
+  };
+  await ddb.send(new PutCommand({ TableName: TABLE(), Item: item }));
+  return item;
+}
+
+export interface AuditQuery {
+  /** YYYY-MM-DD, inclusive. */
+  from: string;
+  to: string;
+  targetId?: string;
+  actor?: string;
+}
+
+export interface AuditPage {
+  entries: AdminAuditEntry[];
+  lastKey?: Record<string, unknown>;
+}
+
+function* daysNewestFirst(from: string, to: string): Generator<string> {
+  for (let day = new Date(`${to}T00:00:00.000Z`); ; day = new Date(day.getTime() - 86_400_000)) {
+    const date = day.toISOString().slice(0, 10);
+    if (date < from) return;
+    yield date;
+  }
+}
+
+/**
+ * Admin changes in a date range, newest first. With a target the GSI1 (target_id + sk)
+ * index answers directly; otherwise each day's partition is read, skipping bus events.
+ * An actor is always a filter: audit volume is small, and a table takes one new index
+ * per deploy. `lastKey` resumes the query (its `date` says which day to resume on).
+ */
+export async function listAuditEntries(
+  q: AuditQuery,
+  limit: number,
+  startKey?: Record<string, unknown>
+): Promise<AuditPage> {
+  const filters: string[] = [];
+  const values: Record<string, unknown> = {};
+  if (q.actor) {
+    filters.push('actor = :actor');
+    values[':actor'] = q.actor;
+  }
+
+  const entries: AdminAuditEntry[] = [];
+  const page = async (
+    input: QueryCommand['input']
+  ): Promise<Record<string, unknown> | undefined> => {
+    let key = input.ExclusiveStartKey;
+    do {
+      const res = await ddb.send(
+        new QueryCommand({ ...input, Limit: limit - entries.length, ExclusiveStartKey: key })
+      );
+      entries.push(...((res.Items ?? []) as AdminAuditEntry[]));
+      key = res.LastEvaluatedKey;
+    } while (key && entries.length < limit);
+    return key;
+  };
+
+  if (q.targetId) {
+    const lastKey = await page({
+      TableName: TABLE(),
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'target_id = :t AND sk BETWEEN :from AND :to',
+      ...(filters.length > 0 ? { FilterExpression: filters.join(' AND ') } : {}),
+      ExpressionAttributeValues: {
+        ...values,
+        ':t': q.targetId,
+        ':from': `${q.from}T00:00:00.000Z`,
+        // sk is `${iso}#${id}`: '~' sorts after '#', so the whole last day is included
+        ':to': `${q.to}T23:59:59.999Z~`,
+      },
+      ScanIndexForward: false,
+      ExclusiveStartKey: startKey,
+    });
+    return { entries, lastKey };
+  }
+
+  const resumeOn = typeof startKey?.date === 'string' ? startKey.date : undefined;
+  for (const date of daysNewestFirst(q.from, resumeOn ?? q.to)) {
+    const lastKey = await page({
+      TableName: TABLE(),
+      KeyConditionExpression: '#date = :date',
+      FilterExpression: ['entry_type = :admin', ...filters].join(' AND '),
+      ExpressionAttributeNames: { '#date': 'date' },
+      ExpressionAttributeValues: { ...values, ':date': date, ':admin': 'ADMIN_CHANGE' },
+      ScanIndexForward: false,
+      ExclusiveStartKey: date === resumeOn && startKey?.sk ? startKey : undefined,
+    });
+    if (lastKey) return { entries, lastKey };
+    if (entries.length >= limit) {
+      // This day is done; the next page starts on the day before (if it is in range)
+      const next = new Date(new Date(`${date}T00:00:00.000Z`).getTime() - 86_400_000)
+        .toISOString()
+        .slice(0, 10);
+      return { entries, lastKey: next >= q.from ? { date: next } : undefined };
+    }
+  }
+  return { entries };
+}
@@ -0,0 +1,136 @@
+import { generateKeyPairSync, sign } from 'node:crypto';
+import type { APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { handler } from './authorizer.js';
+import { _resetJwksCache } from './jwt.js';
+import { isAllowed, ROUTE_ROLES } from './permissions.js';
+
+process.env.AWS_REGION = 'eu-west-1';
+process.env.USER_POOL_ID = 'eu-west-1_pool';
+process.env.USER_POOL_CLIENT_ID = 'client-123';
+
+const ISSUER = 'https://cognito-idp.eu-west-1.amazonaws.com/eu-west-1_pool';
+const METHOD_ARN = 'arn:aws:execute-api:eu-west-1:123456789012:api/dev/POST/v1/merchants';
+
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const other = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+const b64 = (value: unknown): string => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/** A user pool access token signed with `key` (the pool's own key unless a test says not). */
+function token(claims: Record<string, unknown> = {}, key = privateKey, kid = 'key-1'): string {
+  const unsigned = `${b64({ alg: 'RS256', kid })}.${b64({
+    iss: ISSUER,
+    token_use: 'access',
+    client_id: 'client-123',
+    username: 'ama',
+    'cognito:groups': ['FIELD_AGENT'],
+    exp: Math.floor(Date.now() / 1000) + 3600,
+    ...claims,
+  })}`;
+  return `${unsigned}.${sign('RSA-SHA256', Buffer.from(unsigned), key).toString('base64url')}`;
+}
+
+const request = (
+  authorization: string | undefined,
+  method = 'POST',
+  resource = '/v1/merchants'
+): APIGatewayRequestAuthorizerEvent =>
+  ({
+    type: 'REQUEST',
+    methodArn: METHOD_ARN,
+    resource,
+    httpMethod: method,
+    headers: authorization ? { Authorization: authorization } : {},
+  }) as unknown as APIGatewayRequestAuthorizerEvent;
+
+let jwksFetches = 0;
+const realFetch = globalThis.fetch;
+
+beforeAll(() => {
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'key-1', alg: 'RS256', use: 'sig' };
+  globalThis.fetch = (async (url: string) => {
+    expect(url).toBe(`${ISSUER}/.well-known/jwks.json`);
+    jwksFetches++;
+    return new Response(JSON.stringify({ keys: [jwk] }));
+  }) as typeof fetch;
+});
+
+afterAll(() => {
+  globalThis.fetch = realFetch;
+});
+
+beforeEach(() => {
+  _resetJwksCache();
+  jwksFetches = 0;
+});
+
+describe('operator authorizer', () => {
+  it('allows a role listed for the route and passes the actor on', async () => {
+    const res = await handler(request(`Bearer ${token()}`));
+    expect(res.principalId).toBe('ama');
+    expect(res.policyDocument.Statement[0]).toEqual({
+      Action: 'execute-api:Invoke',
+      Effect: 'Allow',
+      Resource: METHOD_ARN,
+    });
+    expect(res.context).toEqual({ actor: 'ama', roles: 'FIELD_AGENT' });
+  });
+
+  it('denies (403) a valid operator whose role may not call the route', async () => {
+    const res = await handler(request(`Bearer ${token()}`, 'DELETE', '/v1/merchants/{id}'));
+    expect(res.policyDocument.Statement[0]).toMatchObject({ Effect: 'Deny' });
+  });
+
+  it('401s a missing, forged, expired or foreign token', async () => {
+    const bad = [
+      undefined,
+      'Basic YWRtaW46cGFzcw==',
+      `Bearer ${token({}, other.privateKey)}`,
+      `Bearer ${token({ exp: Math.floor(Date.now() / 1000) - 1 })}`,
+      `Bearer ${token({ client_id: 'another-app' })}`,
+      `Bearer ${token({ token_use: 'id' })}`,
+      `Bearer ${token({ iss: 'https://cognito-idp.eu-west-1.amazonaws.com/other_pool' })}`,
+      `Bearer ${token({}, privateKey, 'unknown-kid')}`,
+      'Bearer not.a.jwt',
+    ];
+    for (const authorization of bad) {
+      await expect(handler(request(authorization))).rejects.toThrow('Unauthorized');
+    }
+  });
+
+  it('fetches the key set once and reuses it', async () => {
+    await handler(request(`Bearer ${token()}`));
+    await handler(request(`Bearer ${token({ username: 'kofi' })}`));
+    expect(jwksFetches).toBe(1);
+  });
+});
+
+describe('route permissions', () => {
+  it('ADMIN may call anything, including routes nobody listed', () => {
+    expect(isAllowed(['ADMIN'], 'DELETE', '/v1/devices/{id}')).toBe(true);
+    expect(isAllowed(['ADMIN'], 'POST', '/v1/some/new/route')).toBe(true);
+  });
+
+  it('unlisted routes are closed to every other role', () => {
+    for (const role of ['SUPPORT', 'FIELD_AGENT', 'FINANCE', 'READ_ONLY_ANALYST'] as const) {
+      expect(isAllowed([role], 'POST', '/v1/firmware/releases/{id}/rollout')).toBe(false);
+      expect(isAllowed([role], 'DELETE', '/v1/merchants/{id}')).toBe(false);
+    }
+  });
+
+  it('read-only analysts only ever read', () => {
+    const analystRoutes = Object.keys(ROUTE_ROLES).filter((route) =>
+      isAllowed(['READ_ONLY_ANALYST'], ...(route.split(' ') as [string, string]))
+    );
+    expect(analystRoutes.filter((r) => !r.startsWith('GET ') && r !== 'POST /v1/issues')).toEqual(
+      []
+    );
+  });
+
+  it('money moves only with FINANCE', () => {
+    const approve = ['POST', '/v1/payments/{id}/refunds/{refundId}/approve'] as const;
+    expect(isAllowed(['FINANCE'], ...approve)).toBe(true);
+    expect(isAllowed(['SUPPORT', 'FIELD_AGENT'], ...approve)).toBe(false);
+    expect(isAllowed(['SUPPORT'], 'POST', '/v1/payments/{id}/refunds')).toBe(true);
+  });
+});
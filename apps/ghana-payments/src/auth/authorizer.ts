@@ -0,0 +1,53 @@
+import type { APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { InvalidTokenError, verifyAccessToken } from './jwt.js';
+import { isAllowed } from './permissions.js';
+
+/**
+ * API Gateway REQUEST authorizer for every operator route (concept §12). Verifies the
+ * Cognito access token in `Authorization: Bearer …` and checks the caller's roles against
+ * ROUTE_ROLES for this exact method + resource. No/invalid token → 401; a valid token
+ * without the role → 403. Allowed calls carry `actor` (the Cognito username) and `roles`
+ * to the handler as authorizer context, so mutations are stamped with who did them.
+ * Results are not cached: the decision is per route, not per token.
+ */
+export const handler = async (
+  event: APIGatewayRequestAuthorizerEvent
+): Promise<APIGatewayAuthorizerResult> => {
+  const header = event.headers?.Authorization ?? event.headers?.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!token) throw new Error('Unauthorized');
+
+  let operator;
+  try {
+    operator = await verifyAccessToken(token);
+  } catch (err) {
+    if (err instanceof InvalidTokenError) {
+      console.warn('Rejected operator token', { reason: err.message, resource: event.resource });
+      throw new Error('Unauthorized');
+    }
+    throw err;
+  }
+
+  const allowed = isAllowed(operator.roles, event.httpMethod, event.resource);
+  if (!allowed) {
+    console.warn('Operator lacks role for route', {
+      actor: operator.username,
+      roles: operator.roles,
+      route: `${event.httpMethod} ${event.resource}`,
+    });
+  }
+  return {
+    principalId: operator.username,
+    policyDocument: {
+      Version: '2012-10-17',
+      Statement: [
+        {
+          Action: 'execute-api:Invoke',
+          Effect: allowed ? 'Allow' : 'Deny',
+          Resource: event.methodArn,
+        },
+      ],
+    },
+    context: { actor: operator.username, roles: operator.roles.join(',') },
+  };
+};
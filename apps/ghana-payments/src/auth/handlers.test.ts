@@ -1,20 +1,16 @@
-import { mockClient } from 'aws-sdk-client-mock';
-import { APIGatewayClient, GetApiKeysCommand } from '@aws-sdk/client-api-gateway';
-import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
-import { hashPii } from '../shared/pii.js';
-import { tokenHandler } from './handlers.js';
+import { refreshHandler, tokenHandler } from './handlers.js';
 
-const ssmMock = mockClient(SSMClient);
-const apigwMock = mockClient(APIGatewayClient);
-
-process.env.ADMIN_CREDS_PARAM = '/dev/ghana-payments/admin-creds';
-process.env.ADMIN_API_KEY_NAME = 'dev-ghana-admin-key';
+process.env.AWS_REGION = 'eu-west-1';
+process.env.USER_POOL_CLIENT_ID = 'client-123';
 
 const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
 
 interface TokenResponse {
-  api_key: string;
+  access_token: string;
+  refresh_token: string | null;
+  username: string;
+  roles: string[];
 }
 interface ErrorResponse {
   error: { code: string };
@@ -23,66 +19,139 @@ interface ErrorResponse {
 const event = (body: Record<string, unknown>): APIGatewayProxyEvent =>
   ({ pathParameters: {}, body: JSON.stringify(body) }) as unknown as APIGatewayProxyEvent;
 
-const storedCreds = JSON.stringify({
-  username: 'admin',
-  password_hash: hashPii('correct-horse'),
+/** An access token as Cognito shapes it (the handler only reads its claims). */
+const accessToken = (claims: Record<string, unknown>): string =>
+  ['{"alg":"RS256"}', JSON.stringify(claims), 'sig']
+    .map((part) => Buffer.from(part).toString('base64url'))
+    .join('.');
+
+const signedIn = {
+  AuthenticationResult: {
+    AccessToken: accessToken({ username: 'ama', 'cognito:groups': ['FINANCE', 'beta-testers'] }),
+    RefreshToken: 'refresh-1',
+    ExpiresIn: 28800,
+  },
+};
+
+/** Scriptable Cognito: answers each X-Amz-Target from `replies`, records every call. */
+type Reply = { status?: number; body: unknown };
+let replies: Record<string, Reply>;
+let calls: Array<{ url: string; action: string; body: Record<string, unknown> }>;
+const realFetch = globalThis.fetch;
+
+beforeAll(() => {
+  globalThis.fetch = (async (url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>;
+    const action = headers['x-amz-target'].split('.').pop() as string;
+    calls.push({ url, action, body: JSON.parse(init.body as string) as Record<string, unknown> });
+    const reply = replies[action] ?? { status: 500, body: { __type: 'InternalErrorException' } };
+    return new Response(JSON.stringify(reply.body), { status: reply.status ?? 200 });
+  }) as typeof fetch;
+});
+
+afterAll(() => {
+  globalThis.fetch = realFetch;
 });
 
 beforeEach(() => {
-  ssmMock.reset();
-  apigwMock.reset();
-  ssmMock
-    .on(GetParameterCommand)
-    .resolves({ Parameter: { Value: storedCreds } });
-  apigwMock
-    .on(GetApiKeysCommand)
-    .resolves({ items: [{ id: 'key-id', value: 'da2-secret-key-value' }] });
+  calls = [];
+  replies = { InitiateAuth: { body: signedIn } };
 });
 
-// NOTE: the handler caches credentials at module level with no reset seam, so the
-// "SSM unavailable" case MUST run before any successful credential load in this file.
-describe('portal sign-in (auth/handlers)', () => {
-  it('SSM parameter missing/unreadable -> handled 500, never a thrown 502', async () => {
-    ssmMock
-      .on(GetParameterCommand)
-      .rejects(Object.assign(new Error('missing'), { name: 'ParameterNotFound' }));
-    const res = await tokenHandler(event({ username: 'admin', password: 'correct-horse' }));
-    expect(res.statusCode).toBe(500);
-    expect(parse<ErrorResponse>(res).error.code).toBe('INTERNAL_ERROR');
-    expect(apigwMock.commandCalls(GetApiKeysCommand)).toHaveLength(0);
+describe('operator sign-in (auth/handlers)', () => {
+  it('good credentials -> the access token, username and roles (non-role groups dropped)', async () => {
+    const res = await tokenHandler(event({ username: 'ama', password: 'correct-horse' }));
+    expect(res.statusCode).toBe(200);
+    const body = parse<TokenResponse>(res);
+    expect(body.access_token).toBe(signedIn.AuthenticationResult.AccessToken);
+    expect(body.refresh_token).toBe('refresh-1');
+    expect(body.username).toBe('ama');
+    expect(body.roles).toEqual(['FINANCE']);
+    expect(calls).toEqual([
+      {
+        url: 'https://cognito-idp.eu-west-1.amazonaws.com/',
+        action: 'InitiateAuth',
+        body: {
+          AuthFlow: 'USER_PASSWORD_AUTH',
+          ClientId: 'client-123',
+          AuthParameters: { USERNAME: 'ama', PASSWORD: 'correct-horse' },
+        },
+      },
+    ]);
   });
 
-  it('bad password -> 401 and the API key is never looked up', async () => {
-    const res = await tokenHandler(event({ username: 'admin', password: 'wrong' }));
-    expect(res.statusCode).toBe(401);
-    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_CREDENTIALS');
-    expect(apigwMock.commandCalls(GetApiKeysCommand)).toHaveLength(0);
-  });
+  it('wrong password or unknown user -> the same 401 (no user enumeration)', async () => {
+    replies.InitiateAuth = {
+      status: 400,
+      body: { __type: 'NotAuthorizedException', message: 'Incorrect username or password.' },
+    };
+    const bad = await tokenHandler(event({ username: 'ama', password: 'wrong' }));
+    expect(bad.statusCode).toBe(401);
+    expect(parse<ErrorResponse>(bad).error.code).toBe('INVALID_CREDENTIALS');
 
-  it('bad username -> 401 (same error as bad password — no user enumeration)', async () => {
-    const res = await tokenHandler(event({ username: 'root', password: 'correct-horse' }));
-    expect(res.statusCode).toBe(401);
-    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_CREDENTIALS');
+    replies.InitiateAuth = {
+      status: 400,
+      body: { __type: 'com.amazonaws.cognito#UserNotFoundException' },
+    };
+    const unknown = await tokenHandler(event({ username: 'root', password: 'x' }));
+    expect(parse<ErrorResponse>(unknown).error.code).toBe('INVALID_CREDENTIALS');
   });
 
-  it('good credentials -> API key returned, looked up BY NAME with values included', async () => {
-    const res = await tokenHandler(event({ username: 'admin', password: 'correct-horse' }));
+  it('first sign-in asks for a new password, then completes the challenge with it', async () => {
+    replies.InitiateAuth = { body: { ChallengeName: 'NEW_PASSWORD_REQUIRED', Session: 'sess-1' } };
+    const asked = await tokenHandler(event({ username: 'kofi', password: 'Temp0123' }));
+    expect(asked.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(asked).error.code).toBe('NEW_PASSWORD_REQUIRED');
+
+    replies.RespondToAuthChallenge = { body: signedIn };
+    const res = await tokenHandler(
+      event({ username: 'kofi', password: 'Temp0123', new_password: 'Kofi-new-password' })
+    );
     expect(res.statusCode).toBe(200);
-    expect(parse<TokenResponse>(res).api_key).toBe('da2-secret-key-value');
-    const lookup = apigwMock.commandCalls(GetApiKeysCommand)[0].args[0].input;
-    expect(lookup.nameQuery).toBe('dev-ghana-admin-key');
-    expect(lookup.includeValues).toBe(true);
+    expect(calls[calls.length - 1]).toMatchObject({
+      action: 'RespondToAuthChallenge',
+      body: {
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        Session: 'sess-1',
+        ChallengeResponses: { USERNAME: 'kofi', NEW_PASSWORD: 'Kofi-new-password' },
+      },
+    });
+  });
+
+  it('a new password the pool rejects -> 400 INVALID_PASSWORD', async () => {
+    replies.InitiateAuth = { body: { ChallengeName: 'NEW_PASSWORD_REQUIRED', Session: 's' } };
+    replies.RespondToAuthChallenge = {
+      status: 400,
+      body: { __type: 'InvalidPasswordException', message: 'Password not long enough' },
+    };
+    const res = await tokenHandler(event({ username: 'kofi', password: 'x', new_password: 'short' }));
+    expect(res.statusCode).toBe(400);
+    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_PASSWORD');
   });
 
-  it('good credentials but key not found -> 500 KEY_LOOKUP_FAILED (no key leak in error)', async () => {
-    apigwMock.on(GetApiKeysCommand).resolves({ items: [] });
-    const res = await tokenHandler(event({ username: 'admin', password: 'correct-horse' }));
+  it('Cognito failing -> handled 500, never a thrown 502', async () => {
+    replies.InitiateAuth = { status: 500, body: { __type: 'InternalErrorException' } };
+    const res = await tokenHandler(event({ username: 'ama', password: 'correct-horse' }));
     expect(res.statusCode).toBe(500);
-    expect(parse<ErrorResponse>(res).error.code).toBe('KEY_LOOKUP_FAILED');
+    expect(parse<ErrorResponse>(res).error.code).toBe('INTERNAL_ERROR');
   });
 
-  it('400s missing fields', async () => {
+  it('400s missing fields without calling Cognito', async () => {
     const res = await tokenHandler(event({ username: 'admin' }));
     expect(res.statusCode).toBe(400);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('refresh returns a new access token and keeps the refresh token', async () => {
+    replies.InitiateAuth = {
+      body: { AuthenticationResult: { ...signedIn.AuthenticationResult, RefreshToken: undefined } },
+    };
+    const res = await refreshHandler(event({ refresh_token: 'refresh-1' }));
+    expect(res.statusCode).toBe(200);
+    expect(parse<TokenResponse>(res).refresh_token).toBe('refresh-1');
+    expect(calls[0].body).toMatchObject({
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      AuthParameters: { REFRESH_TOKEN: 'refresh-1' },
+    });
   });
 });
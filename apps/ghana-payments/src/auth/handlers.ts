@@ -1,68 +1,139 @@
 import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { APIGatewayClient, GetApiKeysCommand } from '@aws-sdk/client-api-gateway';
-import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
-import { timingSafeEqual } from 'node:crypto';
 import { apiError, handleError, ok, parseBody, requireString } from '../shared/http.js';
-import { hashPii } from '../shared/pii.js';
+import { readClaims, rolesOf } from './jwt.js';
 
-const ssm = new SSMClient({});
-const apigw = new APIGatewayClient({});
+interface AuthenticationResult {
+  AccessToken: string;
+  RefreshToken?: string;
+  ExpiresIn: number;
+}
 
-interface StoredCredentials {
-  username: string;
-  password_hash: string; // hashPii(password) — plaintext never stored
+interface InitiateAuthResponse {
+  AuthenticationResult?: AuthenticationResult;
+  ChallengeName?: string;
+  Session?: string;
 }
 
-let cachedCreds: StoredCredentials | null = null;
+class CognitoError extends Error {
+  constructor(
+    public type: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
 
-async function getCredentials(): Promise<StoredCredentials> {
-  if (cachedCreds) return cachedCreds;
-  const res = await ssm.send(
-    new GetParameterCommand({ Name: process.env.ADMIN_CREDS_PARAM, WithDecryption: true })
-  );
-  cachedCreds = JSON.parse(res.Parameter?.Value ?? '{}') as StoredCredentials;
-  return cachedCreds;
+/**
+ * One call to the user pool's public API. InitiateAuth/RespondToAuthChallenge need no AWS
+ * credentials for an app client without a secret, so this is a plain JSON POST.
+ */
+async function cognito<T>(action: string, body: Record<string, unknown>): Promise<T> {
+  const res = await fetch(`https://cognito-idp.${process.env.AWS_REGION}.amazonaws.com/`, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/x-amz-json-1.1',
+      'x-amz-target': `AWSCognitoIdentityProviderService.${action}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const json = (await res.json()) as Record<string, unknown>;
+  if (!res.ok) {
+    // __type may be namespaced: "com.amazonaws...#NotAuthorizedException"
+    const type = String(json.__type ?? 'UnknownError')
+      .split('#')
+      .pop() as string;
+    throw new CognitoError(type, String(json.message ?? json.Message ?? type));
+  }
+  return json as T;
 }
 
-function safeEqual(a: string, b: string): boolean {
-  const ab = Buffer.from(a);
-  const bb = Buffer.from(b);
-  return ab.length === bb.length && timingSafeEqual(ab, bb);
+/** Cognito's answer mapped onto our error model; anything unexpected stays a 500. */
+function signInError(err: unknown): APIGatewayProxyResult {
+  if (err instanceof CognitoError) {
+    switch (err.type) {
+      case 'NotAuthorizedException':
+      case 'UserNotFoundException':
+        return apiError(401, 'INVALID_CREDENTIALS', 'Username or password is incorrect');
+      case 'PasswordResetRequiredException':
+        return apiError(403, 'PASSWORD_RESET_REQUIRED', 'Password must be reset by an admin');
+      case 'InvalidPasswordException':
+        return apiError(400, 'INVALID_PASSWORD', err.message);
+    }
+  }
+  return handleError(err);
+}
+
+function tokens(result: AuthenticationResult, refreshToken?: string) {
+  const claims = readClaims(result.AccessToken);
+  return {
+    access_token: result.AccessToken,
+    refresh_token: result.RefreshToken ?? refreshToken ?? null,
+    expires_in: result.ExpiresIn,
+    username: claims.username,
+    roles: rolesOf(claims),
+  };
 }
 
 /**
- * POST /v1/auth/token — exchange the admin username/password for the admin API key,
- * so the merchant portal needs no AWS CLI. Credentials live as a hash in an SSM
- * SecureString (set out-of-band, never in the repo). PoC-grade: production path is
- * Cognito + RBAC (architecture.md §6).
+ * POST /v1/auth/token {username, password, new_password?} — operator sign-in against the
+ * Cognito user pool (concept §12). Returns the access token the portal sends as
+ * `Authorization: Bearer …`, plus the caller's roles so it can hide what they cannot do.
+ * A user created by an admin must set a password on first sign-in: without `new_password`
+ * that answers 403 NEW_PASSWORD_REQUIRED; with it, the challenge is completed in one call.
  */
-export const tokenHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+export const tokenHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
-    const body = parseBody<{ username: string; password: string }>(event.body);
+    const body = parseBody<{ username: string; password: string; new_password?: string }>(
+      event.body
+    );
     const username = requireString(body.username, 'username');
     const password = requireString(body.password, 'password');
 
-    const creds = await getCredentials();
-    const userOk = safeEqual(username, creds.username ?? '');
-    const passOk = safeEqual(hashPii(password), creds.password_hash ?? '');
-    if (!userOk || !passOk) {
-      return apiError(401, 'INVALID_CREDENTIALS', 'Username or password is incorrect');
+    let res = await cognito<InitiateAuthResponse>('InitiateAuth', {
+      AuthFlow: 'USER_PASSWORD_AUTH',
+      ClientId: process.env.USER_POOL_CLIENT_ID,
+      AuthParameters: { USERNAME: username, PASSWORD: password },
+    });
+    if (res.ChallengeName === 'NEW_PASSWORD_REQUIRED') {
+      if (!body.new_password) {
+        return apiError(403, 'NEW_PASSWORD_REQUIRED', 'Choose a new password to finish signing in');
+      }
+      res = await cognito<InitiateAuthResponse>('RespondToAuthChallenge', {
+        ChallengeName: 'NEW_PASSWORD_REQUIRED',
+        ClientId: process.env.USER_POOL_CLIENT_ID,
+        Session: res.Session,
+        ChallengeResponses: { USERNAME: username, NEW_PASSWORD: body.new_password },
+      });
     }
-
-    // Looked up by NAME at runtime — an env ref to the key id creates a CFN cycle
-    // (key -> stage -> deployment -> this route's method -> this lambda).
-    const keys = await apigw.send(
-      new GetApiKeysCommand({ nameQuery: process.env.ADMIN_API_KEY_NAME, includeValues: true })
-    );
-    const value = keys.items?.[0]?.value;
-    if (!value) {
-      console.error('Admin API key not found by name', { name: process.env.ADMIN_API_KEY_NAME });
-      return apiError(500, 'KEY_LOOKUP_FAILED', 'Could not retrieve API key');
+    if (!res.AuthenticationResult) {
+      console.error('Unsupported sign-in challenge', { challenge: res.ChallengeName });
+      return apiError(
+        500,
+        'UNSUPPORTED_CHALLENGE',
+        'Sign-in needs a step the portal does not support'
+      );
     }
-    return ok({ api_key: value });
+    return ok(tokens(res.AuthenticationResult));
+  } catch (err) {
+    return signInError(err);
+  }
+};
+
+/** POST /v1/auth/refresh {refresh_token} — a fresh access token without the password. */
+export const refreshHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const body = parseBody<{ refresh_token: string }>(event.body);
+    const refreshToken = requireString(body.refresh_token, 'refresh_token');
+    const res = await cognito<InitiateAuthResponse>('InitiateAuth', {
+      AuthFlow: 'REFRESH_TOKEN_AUTH',
+      ClientId: process.env.USER_POOL_CLIENT_ID,
+      AuthParameters: { REFRESH_TOKEN: refreshToken },
+    });
+    if (!res.AuthenticationResult) return apiError(401, 'INVALID_CREDENTIALS', 'Sign in again');
+    return ok(tokens(res.AuthenticationResult, refreshToken));
   } catch (err) {
-    return handleError(err);
+    return signInError(err);
   }
 };
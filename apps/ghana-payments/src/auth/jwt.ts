@@ -0,0 +1,93 @@
+import { createPublicKey, verify, type JsonWebKey, type KeyObject } from 'node:crypto';
+import { isRole, type Role } from './permissions.js';
+
+/** The signed-in operator an access token speaks for. */
+export interface Operator {
+  username: string;
+  roles: Role[];
+}
+
+export class InvalidTokenError extends Error {}
+
+interface AccessClaims {
+  iss?: string;
+  token_use?: string;
+  client_id?: string;
+  exp?: number;
+  username?: string;
+  'cognito:groups'?: string[];
+}
+
+// A kid we have not seen re-fetches the key set (Cognito rotates keys), at most this often
+const JWKS_REFRESH_MS = 60_000;
+
+let signingKeys: Map<string, KeyObject> | null = null;
+let fetchedAt = 0;
+
+/** Test seam: forget the cached key set. */
+export function _resetJwksCache(): void {
+  signingKeys = null;
+  fetchedAt = 0;
+}
+
+export const userPoolIssuer = (): string =>
+  `https://cognito-idp.${process.env.AWS_REGION}.amazonaws.com/${process.env.USER_POOL_ID}`;
+
+async function signingKey(kid: string): Promise<KeyObject> {
+  if (!signingKeys || (!signingKeys.has(kid) && Date.now() - fetchedAt > JWKS_REFRESH_MS)) {
+    const res = await fetch(`${userPoolIssuer()}/.well-known/jwks.json`);
+    if (!res.ok) throw new Error(`JWKS fetch failed: HTTP ${res.status}`);
+    const { keys } = (await res.json()) as { keys: Array<JsonWebKey & { kid: string }> };
+    signingKeys = new Map(keys.map((k) => [k.kid, createPublicKey({ key: k, format: 'jwk' })]));
+    fetchedAt = Date.now();
+  }
+  const key = signingKeys.get(kid);
+  if (!key) throw new InvalidTokenError('unknown signing key');
+  return key;
+}
+
+const decodeJson = <T>(segment: string): T => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new InvalidTokenError('malformed token');
+  }
+};
+
+/** The claims of a JWT, unverified — only for tokens we just received from Cognito. */
+export const readClaims = (token: string): AccessClaims =>
+  decodeJson<AccessClaims>(token.split('.')[1] ?? '');
+
+/** Roles carried by an access token's groups; groups that are not roles are ignored. */
+export const rolesOf = (claims: AccessClaims): Role[] =>
+  (claims['cognito:groups'] ?? []).filter(isRole);
+
+/**
+ * Verify a user pool ACCESS token (RS256 against the pool's JWKS, then issuer, app
+ * client, token use and expiry) and return who it is. Throws InvalidTokenError.
+ */
+export async function verifyAccessToken(token: string): Promise<Operator> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) throw new InvalidTokenError('malformed token');
+  const { alg, kid } = decodeJson<{ alg?: string; kid?: string }>(header);
+  if (alg !== 'RS256' || !kid) throw new InvalidTokenError('unsupported token');
+
+  const key = await signingKey(kid);
+  const signed = verify(
+    'RSA-SHA256',
+    Buffer.from(`${header}.${payload}`),
+    key,
+    Buffer.from(signature, 'base64url')
+  );
+  if (!signed) throw new InvalidTokenError('bad signature');
+
+  const claims = decodeJson<AccessClaims>(payload);
+  if (claims.iss !== userPoolIssuer()) throw new InvalidTokenError('wrong issuer');
+  if (claims.token_use !== 'access') throw new InvalidTokenError('not an access token');
+  if (claims.client_id !== process.env.USER_POOL_CLIENT_ID) {
+    throw new InvalidTokenError('wrong app client');
+  }
+  if (!claims.exp || claims.exp * 1000 <= Date.now()) throw new InvalidTokenError('expired');
+  if (!claims.username) throw new InvalidTokenError('no username');
+  return { username: claims.username, roles: rolesOf(claims) };
+}
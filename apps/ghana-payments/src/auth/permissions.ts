@@ -0,0 +1,93 @@
+/** Operator roles (concept §12), one Cognito group each. The Partner role has no API yet. */
+export const ROLES = ['ADMIN', 'SUPPORT', 'FIELD_AGENT', 'FINANCE', 'READ_ONLY_ANALYST'] as const;
+export type Role = (typeof ROLES)[number];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+// Every signed-in role may read; ADMIN is implied on every route below
+const READERS: Role[] = ['SUPPORT', 'FIELD_AGENT', 'FINANCE', 'READ_ONLY_ANALYST'];
+
+/**
+ * Who may call each operator route, keyed `METHOD resource` exactly as API Gateway names
+ * the resource. A route missing from this table is ADMIN-only, so a new route is closed
+ * until someone decides who gets it.
+ */
+export const ROUTE_ROLES: Record<string, Role[]> = {
+  // Onboarding (Field Agent: registers vendors, prints badges, pairs soundboxes)
+  'POST /v1/merchants': ['FIELD_AGENT'],
+  'GET /v1/merchants': READERS,
+  'GET /v1/merchants/{id}': READERS,
+  'PATCH /v1/merchants/{id}': ['SUPPORT', 'FIELD_AGENT'],
+  'PATCH /v1/merchants/{id}/status': ['SUPPORT'],
+  'PATCH /v1/merchants/{id}/language': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/merchants/{id}/qrs': ['FIELD_AGENT'],
+  // Payout wallets are a SIM-swap target (§12.1): verification needs the vendor's phone in
+  // hand, and revoking a change the vendor did not make is a support call
+  'GET /v1/merchants/{id}/wallets': READERS,
+  'POST /v1/merchants/{id}/wallets': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/merchants/{id}/wallets/{walletId}/verify': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/merchants/{id}/wallets/{walletId}/revoke': ['SUPPORT'],
+  'GET /v1/merchants/{id}/payments': READERS,
+  // KYC: the field agent collects the documents, a reviewer (never the same operator) decides
+  'GET /v1/merchants/{id}/kyc': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/merchants/{id}/kyc/documents': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/merchants/{id}/kyc/submit': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/merchants/{id}/kyc/approve': ['SUPPORT'],
+  'POST /v1/merchants/{id}/kyc/reject': ['SUPPORT'],
+  'GET /v1/kyc/reviews': ['SUPPORT'],
+  'GET /v1/qrs/{qr_id}': READERS,
+  'POST /v1/qrs/{qr_id}/rotate': ['SUPPORT', 'FIELD_AGENT'],
+  'PATCH /v1/qrs/{qr_id}/status': ['SUPPORT', 'FIELD_AGENT'],
+
+  // Devices
+  'POST /v1/devices': ['FIELD_AGENT'],
+  'GET /v1/devices': READERS,
+  'GET /v1/devices/health': READERS,
+  'GET /v1/devices/imports/{id}': READERS,
+  'POST /v1/devices/{id}/pairing-code': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/devices/{id}/events': ['SUPPORT'],
+  'PATCH /v1/devices/{id}/status': ['SUPPORT'],
+  'POST /v1/devices/{id}/primary': ['SUPPORT', 'FIELD_AGENT'],
+  'POST /v1/devices/{id}/unpair': ['SUPPORT', 'FIELD_AGENT'],
+  'GET /v1/devices/{id}/pairings': READERS,
+  'GET /v1/devices/{id}/telemetry': READERS,
+  'GET /v1/firmware/releases': READERS,
+  'GET /v1/firmware/releases/{id}': READERS,
+
+  // Payments support
+  'GET /v1/payments/{id}/events': READERS,
+  'POST /v1/payments/{id}/verify': ['SUPPORT', 'FINANCE'],
+  'GET /v1/payments/{id}/notifications': READERS,
+  'POST /v1/payments/{id}/refunds': ['SUPPORT', 'FINANCE'],
+  'GET /v1/payments/{id}/refunds': READERS,
+  'GET /v1/anomalies': READERS,
+  'POST /v1/anomalies/{id}/resolve': ['SUPPORT', 'FINANCE'],
+  'GET /v1/risk/holds': READERS,
+  'POST /v1/payments/{id}/release': ['SUPPORT', 'FINANCE'],
+  'POST /v1/payments/{id}/decline': ['SUPPORT', 'FINANCE'],
+  'POST /v1/notifications/opt-outs': ['SUPPORT'],
+  'DELETE /v1/notifications/opt-outs/{phone}': ['SUPPORT'],
+
+  // Money movement (Finance)
+  'POST /v1/payments/{id}/refunds/{refundId}/approve': ['FINANCE'],
+  'POST /v1/payments/{id}/refunds/{refundId}/reject': ['FINANCE'],
+  'GET /v1/merchants/{id}/settlements': READERS,
+  'GET /v1/merchants/{id}/settlements/export': READERS,
+  'PATCH /v1/merchants/{id}/settlements/{date}/status': ['FINANCE'],
+  'GET /v1/reconciliation/discrepancies': READERS,
+  'POST /v1/reconciliation/discrepancies/{id}/resolve': ['FINANCE'],
+
+  // Admin change audit (back office; the field does not need it)
+  'GET /v1/audit': ['SUPPORT', 'FINANCE', 'READ_ONLY_ANALYST'],
+
+  // Portal chrome
+  'POST /v1/issues': READERS,
+  'GET /v1/costs': READERS,
+};
+
+/** True when any of `roles` may call `method resource`. */
+export function isAllowed(roles: readonly Role[], method: string, resource: string): boolean {
+  if (roles.includes('ADMIN')) return true;
+  const allowed = ROUTE_ROLES[`${method} ${resource}`] ?? [];
+  return roles.some((role) => allowed.includes(role));
+}
@@ -0,0 +1,146 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DescribeEndpointCommand, IoTClient } from '@aws-sdk/client-iot';
+import { IoTDataPlaneClient, PublishCommand } from '@aws-sdk/client-iot-data-plane';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import type { SQSEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { handler } from './announce-retry.js';
+import type { AnnounceCheck } from './announcer.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const iotMock = mockClient(IoTClient);
+const iotDataMock = mockClient(IoTDataPlaneClient);
+const sqsMock = mockClient(SQSClient);
+const busMock = mockClient(EventBridgeClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.ANNOUNCE_RETRY_QUEUE_URL = 'https://sqs.test/announce-retry';
+
+const check = (attempt: number): AnnounceCheck => ({
+  payment_id: 'pay_1',
+  merchant_id: 'mer_1',
+  device_id: 'dev_1',
+  amount: 2000,
+  language: 'en',
+  attempt,
+});
+
+const sqsEvent = (...checks: AnnounceCheck[]): SQSEvent =>
+  ({ Records: checks.map((c) => ({ body: JSON.stringify(c) })) }) as unknown as SQSEvent;
+
+const payment = (overrides: Record<string, unknown> = {}) => ({
+  payment_id: 'pay_1',
+  sk: 'META',
+  status: 'SUCCESS',
+  announced_at: '2026-01-01T00:00:00.000Z',
+  announced_device_ids: new Set(['dev_1']),
+  ...overrides,
+});
+
+const eventTypes = () =>
+  ddbMock
+    .commandCalls(PutCommand)
+    .map((c) => c.args[0].input.Item?.event_type as string | undefined);
+
+beforeEach(() => {
+  ddbMock.reset();
+  iotMock.reset();
+  iotDataMock.reset();
+  sqsMock.reset();
+  busMock.reset();
+  iotMock.on(DescribeEndpointCommand).resolves({ endpointAddress: 'iot.test.amazonaws.com' });
+  iotDataMock.on(PublishCommand).resolves({});
+  sqsMock.on(SendMessageCommand).resolves({});
+  busMock.on(PutEventsCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({});
+});
+
+describe('announcement ack retry', () => {
+  it('does nothing once the device has acked', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: payment({
+        played_at: '2026-01-01T00:00:02.000Z',
+        played_device_ids: new Set(['dev_1']),
+      }),
+    });
+    await handler(sqsEvent(check(1)));
+    expect(iotDataMock.commandCalls(PublishCommand)).toHaveLength(0);
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+
+  it('keeps retrying a device even when another till acked — but that ack spares the SMS', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: payment({
+        announced_device_ids: new Set(['dev_1', 'dev_2']),
+        played_at: '2026-01-01T00:00:02.000Z',
+        played_device_ids: new Set(['dev_2']),
+      }),
+    });
+    await handler(sqsEvent(check(1)));
+    expect(iotDataMock.commandCalls(PublishCommand)).toHaveLength(1);
+
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    await handler(sqsEvent(check(4)));
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('re-publishes an unacked announcement and checks again with a doubled delay', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment() });
+    await handler(sqsEvent(check(1)));
+
+    const publishes = iotDataMock.commandCalls(PublishCommand);
+    expect(publishes).toHaveLength(1);
+    expect(publishes[0].args[0].input.topic).toBe('devices/dev_1/payments');
+    expect(eventTypes()).toEqual(['ANNOUNCEMENT_RETRIED']);
+
+    const next = sqsMock.commandCalls(SendMessageCommand)[0].args[0].input;
+    expect(next.DelaySeconds).toBe(60);
+    expect((JSON.parse(next.MessageBody ?? '{}') as AnnounceCheck).attempt).toBe(2);
+  });
+
+  it('after the last attempt falls back to SMS via announcement.unconfirmed, exactly once', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment() });
+    await handler(sqsEvent(check(4)));
+
+    expect(iotDataMock.commandCalls(PublishCommand)).toHaveLength(0);
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+    const guard = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(guard.ConditionExpression).toContain('attribute_not_exists(announce_fallback_at)');
+    expect(eventTypes()).toEqual(['ANNOUNCEMENT_UNCONFIRMED']);
+    const entry = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries?.[0];
+    expect(entry?.DetailType).toBe('announcement.unconfirmed');
+    expect(JSON.parse(entry?.Detail ?? '{}')).toMatchObject({
+      payment_id: 'pay_1',
+      merchant_id: 'mer_1',
+      device_id: 'dev_1',
+      attempts: 4,
+    });
+  });
+
+  it('a redelivered final check publishes no second fallback', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment() });
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    await handler(sqsEvent(check(4)));
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('stops announcing a payment that was refunded in the meantime', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment({ status: 'REFUNDED' }) });
+    await handler(sqsEvent(check(2)));
+    expect(iotDataMock.commandCalls(PublishCommand)).toHaveLength(0);
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,61 @@
+import type { SQSEvent } from 'aws-lambda';
+import { publishEvent } from '../shared/clients.js';
+import { publishToDevice } from '../shared/iot.js';
+import { appendEvent, getPayment, markAnnounceFallback } from '../payments/ledger.js';
+import {
+  buildAnnouncement,
+  MAX_ANNOUNCE_ATTEMPTS,
+  scheduleAckCheck,
+  type AnnounceCheck,
+} from './announcer.js';
+
+/**
+ * Consumes the delayed ack checks the announcer schedules, one chain per device. Acked by
+ * that device (`played_device_ids`) -> done. Otherwise re-publish the same announcement
+ * (the device dedupes by payment_id and re-acks a repeat) and check again after a longer
+ * delay. After MAX_ANNOUNCE_ATTEMPTS unacked publishes, publish announcement.unconfirmed
+ * once — the SMS fallback path — unless another of the merchant's devices played it.
+ */
+export const handler = async (event: SQSEvent): Promise<void> => {
+  for (const record of event.Records) {
+    const check = JSON.parse(record.body) as AnnounceCheck;
+    const payment = await getPayment(check.payment_id);
+    // This device acked, or no longer worth announcing (refunded since)
+    if (
+      !payment ||
+      payment.played_device_ids?.has(check.device_id) ||
+      payment.status !== 'SUCCESS'
+    ) {
+      continue;
+    }
+
+    if (check.attempt >= MAX_ANNOUNCE_ATTEMPTS) {
+      if (!(await markAnnounceFallback(check.payment_id))) continue; // redelivery, or acked just now
+      await appendEvent(check.payment_id, 'ANNOUNCEMENT_UNCONFIRMED', {
+        device_id: check.device_id,
+        attempts: check.attempt,
+      });
+      await publishEvent('announcement.unconfirmed', {
+        payment_id: check.payment_id,
+        merchant_id: check.merchant_id,
+        device_id: check.device_id,
+        amount: check.amount,
+        currency: 'GHS',
+        attempts: check.attempt,
+        event_time: new Date().toISOString(),
+      });
+      continue;
+    }
+
+    const attempt = check.attempt + 1;
+    await publishToDevice(
+      `devices/${check.device_id}/payments`,
+      buildAnnouncement(check.payment_id, check.amount, check.language)
+    );
+    await appendEvent(check.payment_id, 'ANNOUNCEMENT_RETRIED', {
+      device_id: check.device_id,
+      attempt,
+    });
+    await scheduleAckCheck({ ...check, attempt });
+  }
+};
@@ -1,12 +1,14 @@
 import { mockClient } from 'aws-sdk-client-mock';
 import {
   DynamoDBDocumentClient,
+  GetCommand,
   PutCommand,
   QueryCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { DescribeEndpointCommand, IoTClient } from '@aws-sdk/client-iot';
 import { IoTDataPlaneClient, PublishCommand } from '@aws-sdk/client-iot-data-plane';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import type { EventBridgeEvent } from 'aws-lambda';
 import { ddb } from '../shared/clients.js';
 import type { DeviceAnnouncement, PaymentEvent } from '../shared/types.js';
@@ -15,9 +17,11 @@ import { handler } from './announcer.js';
 const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
 const iotMock = mockClient(IoTClient);
 const iotDataMock = mockClient(IoTDataPlaneClient);
+const sqsMock = mockClient(SQSClient);
 
 process.env.DEVICES_TABLE = 'test-devices';
 process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.ANNOUNCE_RETRY_QUEUE_URL = 'https://sqs.test/announce-retry';
 
 const busEvent = (): EventBridgeEvent<'payment.confirmed', PaymentEvent> =>
   ({
@@ -51,10 +55,13 @@ beforeEach(() => {
   ddbMock.reset();
   iotMock.reset();
   iotDataMock.reset();
+  sqsMock.reset();
+  sqsMock.on(SendMessageCommand).resolves({});
   iotMock.on(DescribeEndpointCommand).resolves({ endpointAddress: 'iot.test.amazonaws.com' });
   iotDataMock.on(PublishCommand).resolves({});
   ddbMock.on(UpdateCommand).resolves({});
   ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(GetCommand).resolves({}); // merchant without a language -> English
 });
 
 describe('device announcer (ADR-4b announce-once)', () => {
@@ -88,15 +95,89 @@ describe('device announcer (ADR-4b announce-once)', () => {
     expect(msg.payment_id).toBe('pay_1');
     expect(msg.amount).toBe(2000);
     expect(msg.currency).toBe('GHS');
-    expect(msg.message).toBe('Payment received, 20.00 Ghana cedis');
+    expect(msg.language).toBe('en');
+    expect(msg.message).toBe('Payment received, twenty Ghana cedis');
 
-    // guard was conditioned on announced_at not existing
+    // per-device guard: this device not yet in announced_device_ids
     const guard = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
-    expect(guard.ConditionExpression).toContain('attribute_not_exists(announced_at)');
+    expect(guard.ConditionExpression).toContain('NOT contains(announced_device_ids, :device)');
+    expect(guard.ExpressionAttributeValues?.[':device']).toBe('dev_1');
 
     // history records the publish
     const evt = ddbMock.commandCalls(PutCommand)[0].args[0].input.Item;
     expect(evt?.event_type).toBe('ANNOUNCEMENT_PUBLISHED');
     expect(evt?.device_id).toBe('dev_1');
   });
+
+  it('fans out to every PAIRED/ACTIVE device, primary first, each with its own ack check', async () => {
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        device('ACTIVE'),
+        { ...device('PAIRED'), device_id: 'dev_2', is_primary: true },
+        { ...device('OFFLINE'), device_id: 'dev_3' },
+      ],
+    });
+    await handler(busEvent());
+    const topics = iotDataMock.commandCalls(PublishCommand).map((c) => c.args[0].input.topic);
+    expect(topics).toEqual(['devices/dev_2/payments', 'devices/dev_1/payments']);
+    const checks = sqsMock
+      .commandCalls(SendMessageCommand)
+      .map(
+        (c) => (JSON.parse(c.args[0].input.MessageBody ?? '{}') as { device_id: string }).device_id
+      );
+    expect(checks).toEqual(['dev_2', 'dev_1']);
+  });
+
+  it('a redelivery only announces to the devices that missed it', async () => {
+    ddbMock
+      .on(QueryCommand)
+      .resolves({ Items: [device('ACTIVE'), { ...device('ACTIVE'), device_id: 'dev_2' }] });
+    ddbMock
+      .on(UpdateCommand, { ExpressionAttributeValues: { ':device': 'dev_1' } })
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    await handler(busEvent());
+    const topics = iotDataMock.commandCalls(PublishCommand).map((c) => c.args[0].input.topic);
+    expect(topics).toEqual(['devices/dev_2/payments']);
+  });
+
+  it('schedules the first ack check ttl_seconds after the publish', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [device('ACTIVE')] });
+    await handler(busEvent());
+    expect(publishedAnnouncement().ttl_seconds).toBe(30);
+    const sends = sqsMock.commandCalls(SendMessageCommand);
+    expect(sends).toHaveLength(1);
+    expect(sends[0].args[0].input.DelaySeconds).toBe(30);
+    expect(JSON.parse(sends[0].args[0].input.MessageBody ?? '{}')).toEqual({
+      payment_id: 'pay_1',
+      merchant_id: 'mer_1',
+      device_id: 'dev_1',
+      amount: 2000,
+      language: 'en',
+      attempt: 1,
+    });
+  });
+
+  it("announces in the merchant's preferred language, and retries in it too", async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [device('ACTIVE')] });
+    ddbMock
+      .on(GetCommand)
+      .resolves({ Item: { merchant_id: 'mer_1', sk: 'PROFILE', language: 'tw' } });
+    await handler(busEvent());
+    const msg = publishedAnnouncement();
+    expect(msg.language).toBe('tw');
+    expect(msg.message).toBe('Woanya sika, Ghana sidi aduonu');
+    const check = JSON.parse(
+      sqsMock.commandCalls(SendMessageCommand)[0].args[0].input.MessageBody ?? '{}'
+    ) as { language: string };
+    expect(check.language).toBe('tw');
+  });
+
+  it('schedules nothing when the guard was already taken', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [device('ACTIVE')] });
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    await handler(busEvent());
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
 });
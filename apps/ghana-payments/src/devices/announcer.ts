@@ -1,54 +1,120 @@
 import type { EventBridgeEvent } from 'aws-lambda';
 import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import { ddb } from '../shared/clients.js';
 import { publishToDevice } from '../shared/iot.js';
 import type { DeviceAnnouncement, PaymentEvent } from '../shared/types.js';
 import { markAnnounced, appendEvent } from '../payments/ledger.js';
+import { getMerchant, preferredLanguage } from '../merchants/store.js';
+import type { Language } from '../templates/languages.js';
+import { paymentReceivedText } from '../templates/messages.js';
 import type { DeviceItem } from './handlers.js';
 
-/**
- * Bus subscriber for payment.confirmed: find the merchant's device, take the
- * announce-once guard (ADR-4b), publish the announcement to the per-device topic.
- * The device dedupes by payment_id as well (F-3) — belt and braces.
- */
-export const handler = async (
-  event: EventBridgeEvent<'payment.confirmed', PaymentEvent>
-): Promise<void> => {
-  const { payment_id, merchant_id, amount } = event.detail;
+const sqs = new SQSClient({});
+
+/** How long the device has to ack ({status:'played'}) before the first re-publish. */
+export const ACK_TIMEOUT_SECONDS = 30;
+/** Original publish + 3 retries; then the SMS fallback. */
+export const MAX_ANNOUNCE_ATTEMPTS = 4;
+const MAX_SQS_DELAY_SECONDS = 900;
+
+/** Ack-check message on the announce-retry queue. `attempt` = publishes so far. */
+export interface AnnounceCheck {
+  payment_id: string;
+  merchant_id: string;
+  device_id: string;
+  amount: number;
+  language: Language;
+  attempt: number;
+}
+
+export function buildAnnouncement(
+  paymentId: string,
+  amount: number,
+  language: Language
+): DeviceAnnouncement {
+  return {
+    event_type: 'ANNOUNCE_PAYMENT',
+    payment_id: paymentId,
+    amount,
+    currency: 'GHS',
+    language,
+    message: paymentReceivedText(amount, language),
+    priority: 'HIGH',
+    ttl_seconds: ACK_TIMEOUT_SECONDS,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+/** Exponential backoff: 30 s, 60 s, 120 s, … after each publish (SQS caps a delay at 15 min). */
+export function ackDelaySeconds(attempt: number): number {
+  return Math.min(ACK_TIMEOUT_SECONDS * 2 ** (attempt - 1), MAX_SQS_DELAY_SECONDS);
+}
+
+export async function scheduleAckCheck(check: AnnounceCheck): Promise<void> {
+  await sqs.send(
+    new SendMessageCommand({
+      QueueUrl: process.env.ANNOUNCE_RETRY_QUEUE_URL,
+      DelaySeconds: ackDelaySeconds(check.attempt),
+      MessageBody: JSON.stringify(check),
+    })
+  );
+}
 
+/** The merchant's devices that should speak a payment now — primary first. */
+export async function announcingDevices(merchantId: string): Promise<DeviceItem[]> {
   const res = await ddb.send(
     new QueryCommand({
       TableName: process.env.DEVICES_TABLE,
       IndexName: 'GSI1',
       KeyConditionExpression: 'merchant_id = :m',
-      ExpressionAttributeValues: { ':m': merchant_id },
+      ExpressionAttributeValues: { ':m': merchantId },
     })
   );
-  const device = ((res.Items ?? []) as DeviceItem[]).find(
-    (d) => d.status === 'PAIRED' || d.status === 'ACTIVE'
-  );
-  if (!device) {
+  return ((res.Items ?? []) as DeviceItem[])
+    .filter((d) => d.status === 'PAIRED' || d.status === 'ACTIVE')
+    .sort((a, b) => Number(b.is_primary ?? false) - Number(a.is_primary ?? false));
+}
+
+/**
+ * Bus subscriber for payment.confirmed: fan out to every PAIRED/ACTIVE device of the
+ * merchant (a stall with two tills hears it at both). Per device: take that device's
+ * announce-once guard (ADR-4b), publish the announcement — in the merchant's preferred
+ * language, amount spelled out — to the per-device topic, then schedule its ack check
+ * (announce-retry.ts re-publishes until that device acks).
+ * The device dedupes by payment_id as well (F-3) — belt and braces.
+ */
+export const handler = async (
+  event: EventBridgeEvent<'payment.confirmed', PaymentEvent>
+): Promise<void> => {
+  const { payment_id, merchant_id, amount } = event.detail;
+
+  const devices = await announcingDevices(merchant_id);
+  if (devices.length === 0) {
     console.log(JSON.stringify({ msg: 'no paired device for merchant', merchant_id, payment_id }));
     return;
   }
 
-  if (!(await markAnnounced(payment_id, device.device_id))) {
-    console.log(JSON.stringify({ msg: 'already announced', payment_id }));
-    return;
+  const language = preferredLanguage(await getMerchant(merchant_id));
+  for (const device of devices) {
+    if (!(await markAnnounced(payment_id, device.device_id))) {
+      console.log(
+        JSON.stringify({ msg: 'already announced', payment_id, device_id: device.device_id })
+      );
+      continue;
+    }
+    await publishToDevice(
+      `devices/${device.device_id}/payments`,
+      buildAnnouncement(payment_id, amount, language)
+    );
+    await appendEvent(payment_id, 'ANNOUNCEMENT_PUBLISHED', { device_id: device.device_id });
+    await scheduleAckCheck({
+      payment_id,
+      merchant_id,
+      device_id: device.device_id,
+      amount,
+      language,
+      attempt: 1,
+    });
   }
-
-  const ghs = (amount / 100).toFixed(2);
-  const announcement: DeviceAnnouncement = {
-    event_type: 'ANNOUNCE_PAYMENT',
-    payment_id,
-    amount,
-    currency: 'GHS',
-    language: 'en',
-    message: `Payment received, ${ghs} Ghana cedis`,
-    priority: 'HIGH',
-    ttl_seconds: 300,
-    timestamp: new Date().toISOString(),
-  };
-  await publishToDevice(`devices/${device.device_id}/payments`, announcement);
-  await appendEvent(payment_id, 'ANNOUNCEMENT_PUBLISHED', { device_id: device.device_id });
 };
@@ -5,6 +5,7 @@ import {
   GetCommand,
   PutCommand,
   QueryCommand,
+  TransactWriteCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import {
@@ -17,19 +18,29 @@ import {
   ListTargetsForPolicyCommand,
 } from '@aws-sdk/client-iot';
 import { IoTDataPlaneClient, PublishCommand } from '@aws-sdk/client-iot-data-plane';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
 import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
 import {
   deleteHandler,
   pairHandler,
   pairingCodeHandler,
+  pairingsHandler,
+  primaryHandler,
   registerHandler,
+  unpairHandler,
   type DeviceItem,
+  type DeviceRepairEvent,
+  type PairingRecord,
 } from './handlers.js';
 
 const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
 const iotMock = mockClient(IoTClient);
 const iotDataMock = mockClient(IoTDataPlaneClient);
+const busMock = mockClient(EventBridgeClient);
+const ssmMock = mockClient(SSMClient);
 
 process.env.DEVICES_TABLE = 'test-devices';
 process.env.MERCHANTS_TABLE = 'test-merchants';
@@ -57,6 +68,7 @@ const event = (
   ({ pathParameters, body: body ? JSON.stringify(body) : null }) as unknown as APIGatewayProxyEvent;
 
 const IDENTITY = 'us-east-1:11111111-2222-3333-4444-555555555555';
+const OLD_IDENTITY = 'us-east-1:99999999-2222-3333-4444-555555555555';
 const CERT_ARN = 'arn:aws:iot:us-east-1:123456789012:cert/abc123def4567890';
 
 const baseDevice: DeviceItem = {
@@ -68,6 +80,13 @@ const baseDevice: DeviceItem = {
   created_at: '2026-01-01T00:00:00.000Z',
 };
 
+const repairEvents = (): DeviceRepairEvent[] =>
+  busMock
+    .commandCalls(PutEventsCommand)
+    .map((c) => c.args[0].input.Entries?.[0])
+    .filter((e) => e?.DetailType === 'fraud.device_repair')
+    .map((e) => JSON.parse(e?.Detail ?? '{}') as DeviceRepairEvent);
+
 const pairableDevice = (overrides: Partial<DeviceItem> = {}): DeviceItem => ({
   ...baseDevice,
   pairing_code: '123456',
@@ -80,6 +99,11 @@ beforeEach(() => {
   ddbMock.reset();
   iotMock.reset();
   iotDataMock.reset();
+  busMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  busMock.on(PutEventsCommand).resolves({});
+  ssmMock.on(GetParametersByPathCommand).resolves({ Parameters: [] });
   iotMock.on(DescribeEndpointCommand).resolves({ endpointAddress: 'iot.test.amazonaws.com' });
   iotMock.on(CreatePolicyCommand).resolves({});
   iotMock.on(AttachPolicyCommand).resolves({});
@@ -149,7 +173,7 @@ describe('pairing-code issuance (§10.2 step 1)', () => {
     expect(parse<ErrorResponse>(res).error.code).toBe('DEVICE_NOT_FOUND');
   });
 
-  it('404s when the merchant is not ACTIVE', async () => {
+  it('404s when the merchant is suspended', async () => {
     ddbMock.on(GetCommand).resolves({ Item: { merchant_id: 'mer_1', status: 'SUSPENDED' } });
     const res = await pairingCodeHandler(event({ merchant_id: 'mer_1' }, { id: 'dev_1' }));
     expect(res.statusCode).toBe(404);
@@ -178,6 +202,19 @@ describe('pairing-code issuance (§10.2 step 1)', () => {
     expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0); // no new code minted
   });
 
+  it('409s a code for another merchant while the device is still paired', async () => {
+    ddbMock
+      .on(GetCommand, { TableName: 'test-merchants' })
+      .resolves({ Item: { merchant_id: 'mer_2', status: 'ACTIVE' } });
+    ddbMock.on(GetCommand, { TableName: 'test-devices' }).resolves({
+      Item: { ...baseDevice, status: 'ACTIVE', merchant_id: 'mer_1' },
+    });
+    const res = await pairingCodeHandler(event({ merchant_id: 'mer_2' }, { id: 'dev_1' }));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('UNPAIR_REQUIRED');
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+
   it('mints a new code when the existing one is for a DIFFERENT merchant', async () => {
     ddbMock
       .on(GetCommand, { TableName: 'test-merchants' })
@@ -278,6 +315,19 @@ describe('device pairing (§10.2 step 2, public endpoint)', () => {
     expect(iotMock.commandCalls(AttachPolicyCommand)[0].args[0].input.target).toBe(CERT_ARN);
   });
 
+  it('403s a provisioned device pairing with anything but its own certificate', async () => {
+    const own = 'arn:aws:iot:eu-west-1:123456789012:cert/0000ffff';
+    primeHappyPath(pairableDevice({ device_type: 'REAL', certificate_arn: own }));
+    const other = await pairHandler(
+      event({ serial_number: 'SB-001', pairing_code: '123456', certificate_arn: CERT_ARN })
+    );
+    expect(other.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(other).error.code).toBe('CERTIFICATE_MISMATCH');
+    const browser = await pairHandler(event(pairBody()));
+    expect(parse<ErrorResponse>(browser).error.code).toBe('CERTIFICATE_MISMATCH');
+    expect(iotMock.commandCalls(AttachPolicyCommand)).toHaveLength(0);
+  });
+
   it('400s a malformed certificate ARN before any lookup', async () => {
     const res = await pairHandler(
       event({
@@ -299,6 +349,84 @@ describe('device pairing (§10.2 step 2, public endpoint)', () => {
     expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_IDENTITY');
   });
 
+  it('claims the code in the binding update and records the pairing in the history', async () => {
+    primeHappyPath(pairableDevice());
+    await pairHandler(event(pairBody()));
+    const update = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toContain('pairing_code = :code');
+    expect(update.UpdateExpression).toContain('list_append');
+    const [record] = update.ExpressionAttributeValues?.[':record'] as PairingRecord[];
+    expect(record).toMatchObject({ action: 'PAIRED', merchant_id: 'mer_1', policy_target: IDENTITY });
+    expect(record.flags).toBeUndefined();
+    expect(repairEvents()).toHaveLength(0); // a first pairing is not a re-pair
+  });
+
+  it('401s and attaches no policy when the code was consumed concurrently', async () => {
+    primeHappyPath(pairableDevice());
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const res = await pairHandler(event(pairBody()));
+    expect(res.statusCode).toBe(401);
+    expect(iotMock.commandCalls(AttachPolicyCommand)).toHaveLength(0);
+  });
+
+  it('409s a device still bound to another merchant (unpair first)', async () => {
+    primeHappyPath(pairableDevice({ status: 'ACTIVE', merchant_id: 'mer_9' }));
+    const res = await pairHandler(event(pairBody()));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('UNPAIR_REQUIRED');
+    expect(iotMock.commandCalls(AttachPolicyCommand)).toHaveLength(0);
+  });
+
+  it('re-pairing to the same merchant revokes the previous identity', async () => {
+    primeHappyPath(
+      pairableDevice({
+        status: 'ACTIVE',
+        merchant_id: 'mer_1',
+        identity_id: OLD_IDENTITY,
+        pairing_history: [
+          { action: 'PAIRED', merchant_id: 'mer_1', at: '2026-01-01T00:00:00.000Z' },
+        ],
+      })
+    );
+    iotMock.on(ListTargetsForPolicyCommand).resolves({ targets: [OLD_IDENTITY, IDENTITY] });
+    iotMock.on(DetachPolicyCommand).resolves({});
+    const res = await pairHandler(event(pairBody()));
+    expect(res.statusCode).toBe(200);
+    const detached = iotMock.commandCalls(DetachPolicyCommand).map((c) => c.args[0].input.target);
+    expect(detached).toEqual([OLD_IDENTITY]);
+    expect(repairEvents()).toHaveLength(0); // same merchant, long ago
+  });
+
+  it('flags a quick re-pair onto a different merchant as a HIGH fraud event', async () => {
+    const tenMinutesAgo = new Date(Date.now() - 10 * 60_000).toISOString();
+    primeHappyPath(
+      pairableDevice({
+        pairing_history: [
+          { action: 'PAIRED', merchant_id: 'mer_9', at: tenMinutesAgo },
+          { action: 'UNPAIRED', merchant_id: 'mer_9', at: tenMinutesAgo, requested_by: 'bob' },
+        ],
+      })
+    );
+    iotMock.on(ListTargetsForPolicyCommand).resolves({ targets: [] });
+    const res = await pairHandler(event(pairBody()));
+    expect(res.statusCode).toBe(200);
+    const [flagged] = repairEvents();
+    expect(flagged).toMatchObject({
+      device_id: 'dev_1',
+      merchant_id: 'mer_1',
+      previous_merchant_id: 'mer_9',
+      previous_paired_at: tenMinutesAgo,
+      flags: ['RAPID_REPAIR', 'CROSS_MERCHANT'],
+      severity: 'HIGH',
+    });
+    const [record] = ddbMock.commandCalls(UpdateCommand)[0].args[0].input.ExpressionAttributeValues?.[
+      ':record'
+    ] as PairingRecord[];
+    expect(record.flags).toEqual(['RAPID_REPAIR', 'CROSS_MERCHANT']);
+  });
+
   it('404s an unknown serial and a RETIRED device', async () => {
     ddbMock.on(QueryCommand).resolves({ Items: [] });
     const res = await pairHandler(event(pairBody()));
@@ -357,3 +485,112 @@ describe('device deletion (reverses pairing)', () => {
     expect(ddbMock.commandCalls(DeleteCommand)).toHaveLength(0);
   });
 });
+
+describe('unpairing', () => {
+  const paired: DeviceItem = {
+    ...baseDevice,
+    status: 'ACTIVE',
+    merchant_id: 'mer_1',
+    identity_id: IDENTITY,
+    is_primary: true,
+  };
+
+  it('tells the device, detaches every policy target and unbinds the merchant', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: paired });
+    iotMock.on(ListTargetsForPolicyCommand).resolves({ targets: [IDENTITY] });
+    iotMock.on(DetachPolicyCommand).resolves({});
+    const res = await unpairHandler(
+      event({ requested_by: 'alice', reason: 'moved stalls' }, { id: 'dev_1' })
+    );
+    expect(res.statusCode).toBe(200);
+    expect(parse<{ detached_targets: number }>(res).detached_targets).toBe(1);
+
+    const publish = iotDataMock.commandCalls(PublishCommand)[0].args[0].input;
+    expect(JSON.parse(Buffer.from(publish.payload as Uint8Array).toString())).toMatchObject({
+      event_type: 'DEVICE_UNPAIRED',
+    });
+    expect(iotMock.commandCalls(DetachPolicyCommand)[0].args[0].input.target).toBe(IDENTITY);
+    expect(iotMock.commandCalls(DeletePolicyCommand)).toHaveLength(0); // kept for re-pairing
+
+    const update = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toBe('merchant_id = :m');
+    expect(update.UpdateExpression).toContain('REMOVE merchant_id, identity_id, paired_at, is_primary');
+    expect(update.ExpressionAttributeValues?.[':record']).toEqual([
+      expect.objectContaining({
+        action: 'UNPAIRED',
+        merchant_id: 'mer_1',
+        requested_by: 'alice',
+        reason: 'moved stalls',
+      }),
+    ]);
+  });
+
+  it('409s a device that is not paired and requires requested_by', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: baseDevice });
+    const notPaired = await unpairHandler(event({ requested_by: 'alice' }, { id: 'dev_1' }));
+    expect(parse<ErrorResponse>(notPaired).error.code).toBe('DEVICE_NOT_PAIRED');
+    const anonymous = await unpairHandler(event({}, { id: 'dev_1' }));
+    expect(anonymous.statusCode).toBe(400);
+    expect(iotMock.commandCalls(DetachPolicyCommand)).toHaveLength(0);
+  });
+
+  it('lists the pairing history newest first', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: {
+        ...paired,
+        pairing_history: [
+          { action: 'PAIRED', merchant_id: 'mer_9', at: '2026-01-01T00:00:00.000Z' },
+          { action: 'UNPAIRED', merchant_id: 'mer_9', at: '2026-01-02T00:00:00.000Z' },
+          { action: 'PAIRED', merchant_id: 'mer_1', at: '2026-01-03T00:00:00.000Z' },
+        ],
+      },
+    });
+    const res = await pairingsHandler(event(null, { id: 'dev_1' }));
+    const body = parse<{ pairings: PairingRecord[] }>(res);
+    expect(body.pairings.map((p) => `${p.action}:${p.merchant_id}`)).toEqual([
+      'PAIRED:mer_1',
+      'UNPAIRED:mer_9',
+      'PAIRED:mer_9',
+    ]);
+  });
+});
+
+describe('primary device', () => {
+  const paired = (id: string, extra: Partial<DeviceItem> = {}): DeviceItem => ({
+    ...baseDevice,
+    device_id: id,
+    status: 'ACTIVE',
+    merchant_id: 'mer_1',
+    ...extra,
+  });
+
+  it("moves the flag in one transaction: the old primary is demoted, this one promoted", async () => {
+    ddbMock.on(GetCommand).resolves({ Item: paired('dev_1') });
+    ddbMock.on(QueryCommand).resolves({
+      Items: [paired('dev_1'), paired('dev_2', { is_primary: true }), paired('dev_3')],
+    });
+    ddbMock.on(TransactWriteCommand).resolves({});
+    const res = await primaryHandler(event(null, { id: 'dev_1' }));
+    expect(res.statusCode).toBe(200);
+
+    const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+    expect(items.map((i) => [i.Update?.Key?.device_id as string, i.Update?.UpdateExpression])).toEqual([
+      ['dev_2', 'REMOVE is_primary'],
+      ['dev_1', 'SET is_primary = :yes, updated_by = :by'],
+    ]);
+    expect(items[1].Update?.ConditionExpression).toBe('merchant_id = :m');
+  });
+
+  it('409s a device that is not paired to a merchant', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: baseDevice });
+    const res = await primaryHandler(event(null, { id: 'dev_1' }));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('DEVICE_NOT_PAIRED');
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+  });
+
+  it('404s an unknown device', async () => {
+    ddbMock.on(GetCommand).resolves({});
+    expect((await primaryHandler(event(null, { id: 'dev_x' }))).statusCode).toBe(404);
+  });
+});
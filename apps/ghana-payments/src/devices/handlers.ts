@@ -5,6 +5,7 @@ import {
   PutCommand,
   QueryCommand,
   ScanCommand,
+  TransactWriteCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import {
@@ -15,9 +16,20 @@ import {
   ListTargetsForPolicyCommand,
 } from '@aws-sdk/client-iot';
 import { randomInt, randomUUID } from 'node:crypto';
-import { ddb } from '../shared/clients.js';
+import { audited, type AuditSpec } from '../audit/middleware.js';
+import { ddb, publishEvent } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
 import { iot, getIotEndpoint, publishToDevice } from '../shared/iot.js';
-import { apiError, handleError, ok, parseBody, requireString } from '../shared/http.js';
+import {
+  actorOf,
+  apiError,
+  handleError,
+  ok,
+  parseBody,
+  requireActor,
+  requireString,
+} from '../shared/http.js';
+import type { DeviceFirmwareUpdate } from '../firmware/store.js';
 
 const DEVICES_TABLE = (): string => process.env.DEVICES_TABLE ?? '';
 const MERCHANTS_TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
@@ -28,28 +40,87 @@ const PAIRING_CODE_TTL_MS = 10 * 60_000;
 const NON_EXPIRING = 8_640_000_000_000_000; // max JS timestamp — effectively never
 const VALID_STATUSES = ['UNASSIGNED', 'PAIRED', 'ACTIVE', 'OFFLINE', 'SUSPENDED', 'RETIRED'];
 
+/** Audit the device named by the path, or the one the response created. */
+const deviceChange = (action: string, created?: string): AuditSpec => ({
+  action,
+  targetType: 'DEVICE',
+  ...(created ? { created } : { param: 'id' }),
+  table: DEVICES_TABLE,
+  key: (id) => ({ device_id: id }),
+});
+export const CERTIFICATE_ARN_PATTERN = /^arn:aws:iot:[\w-]+:\d+:cert\/[0-9a-f]+$/;
+
+/** Why a pairing looked suspicious (concept §12.1 "suspicious device re-pairing"). */
+export type RepairFlag = 'RAPID_REPAIR' | 'CROSS_MERCHANT';
+
+/** One entry of DeviceItem.pairing_history — appended, never rewritten. */
+export interface PairingRecord {
+  action: 'PAIRED' | 'UNPAIRED';
+  merchant_id: string;
+  at: string;
+  /** PAIRED: the Cognito identity or certificate ARN the IoT policy was attached to. */
+  policy_target?: string;
+  /** UNPAIRED: the admin who did it, and why. */
+  requested_by?: string;
+  reason?: string;
+  flags?: RepairFlag[];
+}
+
+/** fraud.device_repair detail — a pairing that support should look at. */
+export interface DeviceRepairEvent {
+  device_id: string;
+  serial_number: string;
+  merchant_id: string;
+  previous_merchant_id: string;
+  previous_paired_at: string;
+  flags: RepairFlag[];
+  severity: 'MEDIUM' | 'HIGH';
+  event_time: string;
+}
+
 export interface DeviceItem {
   device_id: string;
   serial_number: string;
   model: string;
   device_type: 'VIRTUAL' | 'REAL';
+  /** Registered value, then whatever the device reports on its heartbeat. */
   firmware_version?: string;
+  /** Progress on the last firmware release sent to it (firmware/store.ts). */
+  firmware_update?: DeviceFirmwareUpdate;
   notes?: string;
+  /** X.509 certificate made for it at manufacture (provisioning.ts) — the only one it pairs with. */
+  certificate_arn?: string;
+  /** The bulk import that created it. */
+  provisioning_job_id?: string;
   status: string;
   merchant_id?: string;
   pending_merchant_id?: string;
   pairing_code?: string;
   pairing_code_expires?: number; // epoch ms — plain attribute, NOT a TTL attribute
+  pairing_code_issued_by?: string | null;
   identity_id?: string;
   paired_at?: string;
+  /** The merchant's main till: announced to first, listed first. At most one per merchant. */
+  is_primary?: boolean;
+  /** Every bind and unbind, oldest first (GET /v1/devices/{id}/pairings). */
+  pairing_history?: PairingRecord[];
+  unpaired_at?: string;
   last_seen_at?: string;
+  /** Last heartbeat readings; the series is in the telemetry table (telemetry.ts). */
+  battery?: number;
+  signal?: number;
+  uptime_seconds?: number;
+  /** Set by the offline sweeper / lifecycle events; cleared by the next heartbeat. */
+  offline_since?: string;
+  offline_reason?: 'HEARTBEAT_STALE' | 'DISCONNECTED';
   created_at: string;
+  /** Operators (Cognito usernames) behind registration and the last status/primary change. */
+  created_by?: string | null;
+  updated_by?: string | null;
 }
 
 /** POST /v1/devices — register a soundbox (admin, §8.4). */
-export const registerHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const register = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const body = parseBody<{
       serial_number: string;
@@ -81,6 +152,7 @@ export const registerHandler = async (
       ...(body.notes ? { notes: body.notes } : {}),
       status: 'UNASSIGNED',
       created_at: new Date().toISOString(),
+      created_by: actorOf(event),
     };
     await ddb.send(new PutCommand({ TableName: DEVICES_TABLE(), Item: item }));
     return ok(
@@ -92,6 +164,8 @@ export const registerHandler = async (
   }
 };
 
+export const registerHandler = audited(deviceChange('device.register', 'device_id'), register);
+
 /** GET /v1/devices — list for the admin portal. */
 export const listHandler = async (): Promise<APIGatewayProxyResult> => {
   try {
@@ -102,15 +176,19 @@ export const listHandler = async (): Promise<APIGatewayProxyResult> => {
       model: d.model,
       device_type: d.device_type ?? 'VIRTUAL',
       firmware_version: d.firmware_version ?? null,
+      firmware_update: d.firmware_update ?? null,
       status: d.status,
       merchant_id: d.merchant_id ?? null,
       pending_merchant_id: d.pending_merchant_id ?? null,
+      is_primary: d.is_primary ?? false,
       // present + future => an unconsumed pairing code is outstanding (codes are
       // single-use; once pairing succeeds the code is deleted server-side, so a
       // paired device never has one to show). Endpoint is admin-key gated.
       pairing_code: d.pairing_code ?? null,
       pairing_code_expires: d.pairing_code_expires ?? null,
       last_seen_at: d.last_seen_at ?? null,
+      battery: d.battery ?? null,
+      signal: d.signal ?? null,
       created_at: d.created_at,
     }));
     return ok({ devices });
@@ -120,9 +198,7 @@ export const listHandler = async (): Promise<APIGatewayProxyResult> => {
 };
 
 /** POST /v1/devices/{id}/pairing-code — admin starts the §10.2 pairing flow. */
-export const pairingCodeHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const issuePairingCode = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const deviceId = event.pathParameters?.id;
     if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
@@ -132,8 +208,10 @@ export const pairingCodeHandler = async (
     const merchant = await ddb.send(
       new GetCommand({ TableName: MERCHANTS_TABLE(), Key: { merchant_id: merchantId, sk: 'PROFILE' } })
     );
-    if (!merchant.Item || merchant.Item.status !== 'ACTIVE') {
-      return apiError(404, 'MERCHANT_NOT_FOUND', 'Merchant missing or not ACTIVE');
+    // Pending KYC is fine: the field agent pairs the soundbox on the onboarding visit, and it
+    // stays quiet until approval lets the merchant take payments
+    if (!merchant.Item || !['ACTIVE', 'PENDING_KYC'].includes(merchant.Item.status as string)) {
+      return apiError(404, 'MERCHANT_NOT_FOUND', 'Merchant missing, suspended or closed');
     }
 
     // Idempotent within the validity window: if a still-valid unconsumed code already
@@ -145,6 +223,13 @@ export const pairingCodeHandler = async (
       new GetCommand({ TableName: DEVICES_TABLE(), Key: { device_id: deviceId }, ConsistentRead: true })
     );
     const dev = current.Item as DeviceItem | undefined;
+    if (dev?.merchant_id && dev.merchant_id !== merchantId) {
+      return apiError(
+        409,
+        'UNPAIR_REQUIRED',
+        `Device is paired to ${dev.merchant_id}; unpair it before pairing to another merchant`
+      );
+    }
     if (
       dev?.pairing_code &&
       dev.pending_merchant_id === merchantId &&
@@ -168,7 +253,8 @@ export const pairingCodeHandler = async (
           TableName: DEVICES_TABLE(),
           Key: { device_id: deviceId },
           UpdateExpression:
-            'SET pairing_code = :code, pairing_code_expires = :exp, pending_merchant_id = :mid',
+            'SET pairing_code = :code, pairing_code_expires = :exp, pending_merchant_id = :mid, ' +
+            'pairing_code_issued_by = :by',
           ConditionExpression: 'attribute_exists(device_id) AND #status <> :retired',
           ExpressionAttributeNames: { '#status': 'status' },
           ExpressionAttributeValues: {
@@ -176,6 +262,7 @@ export const pairingCodeHandler = async (
             ':exp': expiresAt,
             ':mid': merchantId,
             ':retired': 'RETIRED',
+            ':by': actorOf(event),
           },
         })
       );
@@ -195,6 +282,85 @@ export const pairingCodeHandler = async (
   }
 };
 
+export const pairingCodeHandler = audited(deviceChange('device.pairing_code'), issuePairingCode);
+
+const policyNameFor = (deviceId: string): string =>
+  `${process.env.STAGE as string}-ghana-device-${deviceId}`;
+
+/**
+ * Create the per-device IoT policy if it is missing: whoever it is attached to can only
+ * connect as soundbox-{device_id} and touch devices/{device_id}/* topics. Returns its name.
+ */
+export async function ensureDevicePolicy(deviceId: string): Promise<string> {
+  const region = process.env.AWS_REGION as string;
+  const account = process.env.ACCOUNT_ID as string;
+  const policyName = policyNameFor(deviceId);
+  const policyDocument = JSON.stringify({
+    Version: '2012-10-17',
+    Statement: [
+      {
+        Effect: 'Allow',
+        Action: 'iot:Connect',
+        Resource: `arn:aws:iot:${region}:${account}:client/soundbox-${deviceId}*`,
+      },
+      {
+        Effect: 'Allow',
+        Action: 'iot:Subscribe',
+        Resource: `arn:aws:iot:${region}:${account}:topicfilter/devices/${deviceId}/*`,
+      },
+      {
+        Effect: 'Allow',
+        Action: ['iot:Receive', 'iot:Publish'],
+        Resource: `arn:aws:iot:${region}:${account}:topic/devices/${deviceId}/*`,
+      },
+    ],
+  });
+  try {
+    await iot.send(new CreatePolicyCommand({ policyName, policyDocument }));
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name !== 'ResourceAlreadyExistsException') throw err;
+  }
+  return policyName;
+}
+
+/**
+ * Detach the device policy from its targets (all of them, or all but `keep`) — the old
+ * identity or certificate loses broker access. Returns how many were detached; a device
+ * that never paired has no policy and detaches nothing.
+ */
+async function detachPolicyTargets(deviceId: string, keep?: string): Promise<number> {
+  const policyName = policyNameFor(deviceId);
+  let targets: string[];
+  try {
+    targets = (await iot.send(new ListTargetsForPolicyCommand({ policyName }))).targets ?? [];
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ResourceNotFoundException') return 0;
+    throw err;
+  }
+  const stale = targets.filter((t) => t !== keep);
+  for (const target of stale) {
+    await iot.send(new DetachPolicyCommand({ policyName, target }));
+  }
+  return stale.length;
+}
+
+/**
+ * Compare a new binding with the last one: again within the SSM window (a device being
+ * bounced between identities), or onto a different merchant than it last served.
+ */
+function repairFlags(
+  previous: PairingRecord | undefined,
+  merchantId: string,
+  now: number,
+  windowMinutes: number
+): RepairFlag[] {
+  if (!previous) return [];
+  const flags: RepairFlag[] = [];
+  if (now - Date.parse(previous.at) < windowMinutes * 60_000) flags.push('RAPID_REPAIR');
+  if (previous.merchant_id !== merchantId) flags.push('CROSS_MERCHANT');
+  return flags;
+}
+
 /**
  * POST /v1/devices/pair — PUBLIC: called by the device itself (§10.2).
  * Validates serial + short-lived code, binds device↔merchant, and attaches a
@@ -213,7 +379,7 @@ export const pairHandler = async (event: APIGatewayProxyEvent): Promise<APIGatew
     const code = requireString(body.pairing_code, 'pairing_code');
     let policyTarget: string;
     if (body.certificate_arn) {
-      if (!/^arn:aws:iot:[\w-]+:\d+:cert\/[0-9a-f]+$/.test(body.certificate_arn)) {
+      if (!CERTIFICATE_ARN_PATTERN.test(body.certificate_arn)) {
         return apiError(400, 'INVALID_CERTIFICATE', 'certificate_arn is not an IoT certificate ARN');
       }
       policyTarget = body.certificate_arn;
@@ -255,69 +421,95 @@ export const pairHandler = async (event: APIGatewayProxyEvent): Promise<APIGatew
     ) {
       return apiError(401, 'INVALID_PAIRING_CODE', 'Pairing code is wrong or expired');
     }
+    // A manufactured device pairs with the certificate burnt into it, nothing else
+    if (device.certificate_arn && device.certificate_arn !== body.certificate_arn) {
+      return apiError(403, 'CERTIFICATE_MISMATCH', 'Device must pair with its provisioned certificate');
+    }
+    const merchantId = device.pending_merchant_id;
+    if (device.merchant_id && device.merchant_id !== merchantId) {
+      return apiError(409, 'UNPAIR_REQUIRED', 'Device must be unpaired from its merchant first');
+    }
 
-    // Per-device IoT policy: this identity can only touch devices/{device_id}/* topics
-    const region = process.env.AWS_REGION as string;
-    const account = process.env.ACCOUNT_ID as string;
-    const stage = process.env.STAGE as string;
-    const policyName = `${stage}-ghana-device-${device.device_id}`;
-    const policyDocument = JSON.stringify({
-      Version: '2012-10-17',
-      Statement: [
-        {
-          Effect: 'Allow',
-          Action: 'iot:Connect',
-          Resource: `arn:aws:iot:${region}:${account}:client/soundbox-${device.device_id}*`,
-        },
-        {
-          Effect: 'Allow',
-          Action: 'iot:Subscribe',
-          Resource: `arn:aws:iot:${region}:${account}:topicfilter/devices/${device.device_id}/*`,
-        },
-        {
-          Effect: 'Allow',
-          Action: ['iot:Receive', 'iot:Publish'],
-          Resource: `arn:aws:iot:${region}:${account}:topic/devices/${device.device_id}/*`,
-        },
-      ],
-    });
+    // Claim the binding before granting broker access: the code is consumed exactly once,
+    // and a device that was paired elsewhere meanwhile is never re-bound
+    const cfg = await getConfig();
+    const now = new Date();
+    const previous = [...(device.pairing_history ?? [])]
+      .reverse()
+      .find((h) => h.action === 'PAIRED');
+    const flags = repairFlags(previous, merchantId, now.getTime(), cfg.deviceRapidRepairMinutes);
+    const record: PairingRecord = {
+      action: 'PAIRED',
+      merchant_id: merchantId,
+      at: now.toISOString(),
+      policy_target: policyTarget,
+      ...(flags.length > 0 ? { flags } : {}),
+    };
     try {
-      await iot.send(new CreatePolicyCommand({ policyName, policyDocument }));
+      await ddb.send(
+        new UpdateCommand({
+          TableName: DEVICES_TABLE(),
+          Key: { device_id: device.device_id },
+          UpdateExpression:
+            'SET #status = :paired, merchant_id = :mid, identity_id = :iid, paired_at = :now, ' +
+            'pairing_history = list_append(if_not_exists(pairing_history, :none), :record) ' +
+            'REMOVE pairing_code, pairing_code_expires, pending_merchant_id, is_primary',
+          ConditionExpression:
+            'pairing_code = :code AND (attribute_not_exists(merchant_id) OR merchant_id = :mid)',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':paired': 'PAIRED',
+            ':mid': merchantId,
+            ':iid': policyTarget,
+            ':now': record.at,
+            ':none': [],
+            ':record': [record],
+            ':code': code,
+          },
+        })
+      );
     } catch (err: unknown) {
-      if ((err as { name?: string }).name !== 'ResourceAlreadyExistsException') throw err;
+      if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+        return apiError(401, 'INVALID_PAIRING_CODE', 'Pairing code is wrong or expired');
+      }
+      throw err;
     }
+
+    // Per-device IoT policy: this identity can only touch devices/{device_id}/* topics
+    const policyName = await ensureDevicePolicy(device.device_id);
     await iot.send(new AttachPolicyCommand({ policyName, target: policyTarget }));
+    // Re-pair to the same merchant (new browser identity, re-flashed cert): the old
+    // target must not keep access alongside the new one
+    if (device.identity_id && device.identity_id !== policyTarget) {
+      await detachPolicyTargets(device.device_id, policyTarget);
+    }
 
-    await ddb.send(
-      new UpdateCommand({
-        TableName: DEVICES_TABLE(),
-        Key: { device_id: device.device_id },
-        UpdateExpression:
-          'SET #status = :paired, merchant_id = :mid, identity_id = :iid, paired_at = :now ' +
-          'REMOVE pairing_code, pairing_code_expires, pending_merchant_id',
-        ExpressionAttributeNames: { '#status': 'status' },
-        ExpressionAttributeValues: {
-          ':paired': 'PAIRED',
-          ':mid': device.pending_merchant_id,
-          ':iid': policyTarget,
-          ':now': new Date().toISOString(),
-        },
-      })
-    );
+    if (previous && flags.length > 0) {
+      const detail: DeviceRepairEvent = {
+        device_id: device.device_id,
+        serial_number: device.serial_number,
+        merchant_id: merchantId,
+        previous_merchant_id: previous.merchant_id,
+        previous_paired_at: previous.at,
+        flags,
+        severity: flags.length > 1 ? 'HIGH' : 'MEDIUM',
+        event_time: record.at,
+      };
+      await publishEvent('fraud.device_repair', { ...detail });
+    }
 
     const merchantRes = await ddb.send(
       new GetCommand({
         TableName: MERCHANTS_TABLE(),
-        Key: { merchant_id: device.pending_merchant_id, sk: 'PROFILE' },
+        Key: { merchant_id: merchantId, sk: 'PROFILE' },
       })
     );
     const merchantName =
-      (merchantRes.Item as { display_name?: string } | undefined)?.display_name ??
-      device.pending_merchant_id;
+      (merchantRes.Item as { display_name?: string } | undefined)?.display_name ?? merchantId;
 
     return ok({
       device_id: device.device_id,
-      merchant_id: device.pending_merchant_id,
+      merchant_id: merchantId,
       merchant_name: merchantName,
       auth_mode: body.certificate_arn ? 'certificate' : 'cognito',
       client_id: `soundbox-${device.device_id}`,
@@ -325,9 +517,10 @@ export const pairHandler = async (event: APIGatewayProxyEvent): Promise<APIGatew
         payments: `devices/${device.device_id}/payments`,
         commands: `devices/${device.device_id}/commands`,
         heartbeat: `devices/${device.device_id}/heartbeat`,
+        sync: `devices/${device.device_id}/sync`,
       },
       iot_endpoint: await getIotEndpoint(),
-      region,
+      region: process.env.AWS_REGION as string,
     });
   } catch (err) {
     return handleError(err);
@@ -335,9 +528,7 @@ export const pairHandler = async (event: APIGatewayProxyEvent): Promise<APIGatew
 };
 
 /** POST /v1/devices/{id}/events — admin command (test announcement, volume) via the commands topic. */
-export const commandHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const sendCommand = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const deviceId = event.pathParameters?.id;
     if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
@@ -358,10 +549,19 @@ export const commandHandler = async (
   }
 };
 
+// A command changes no stored state, so only what was sent is kept
+export const commandHandler = audited(
+  {
+    action: 'device.command',
+    targetType: 'DEVICE',
+    param: 'id',
+    details: (res) => ({ sent: res.sent }),
+  },
+  sendCommand
+);
+
 /** PATCH /v1/devices/{id}/status (admin, §8.4). */
-export const statusHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const setStatus = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const deviceId = event.pathParameters?.id;
     if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
@@ -373,10 +573,14 @@ export const statusHandler = async (
       new UpdateCommand({
         TableName: DEVICES_TABLE(),
         Key: { device_id: deviceId },
-        UpdateExpression: 'SET #status = :status, status_reason = :reason',
+        UpdateExpression: 'SET #status = :status, status_reason = :reason, updated_by = :by',
         ConditionExpression: 'attribute_exists(device_id)',
         ExpressionAttributeNames: { '#status': 'status' },
-        ExpressionAttributeValues: { ':status': body.status, ':reason': body.reason ?? null },
+        ExpressionAttributeValues: {
+          ':status': body.status,
+          ':reason': body.reason ?? null,
+          ':by': actorOf(event),
+        },
       })
     );
     return ok({ device_id: deviceId, status: body.status });
@@ -388,14 +592,184 @@ export const statusHandler = async (
   }
 };
 
+export const statusHandler = audited(deviceChange('device.status'), setStatus);
+
+/**
+ * POST /v1/devices/{id}/primary (admin) — make this the merchant's primary device.
+ * Every paired device announces (fan-out); the primary is announced to first and shown
+ * first. One transaction moves the flag, conditioned on the device still being paired
+ * to the same merchant (a concurrent re-pair fails it with 409).
+ */
+const makePrimary = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const deviceId = event.pathParameters?.id;
+    if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
+    const res = await ddb.send(
+      new GetCommand({ TableName: DEVICES_TABLE(), Key: { device_id: deviceId } })
+    );
+    const device = res.Item as DeviceItem | undefined;
+    if (!device) return apiError(404, 'DEVICE_NOT_FOUND', 'No such device');
+    const merchantId = device.merchant_id;
+    if (!merchantId || !['PAIRED', 'ACTIVE', 'OFFLINE'].includes(device.status)) {
+      return apiError(409, 'DEVICE_NOT_PAIRED', 'Only a paired device can be primary');
+    }
+
+    const siblings = await ddb.send(
+      new QueryCommand({
+        TableName: DEVICES_TABLE(),
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'merchant_id = :m',
+        ExpressionAttributeValues: { ':m': merchantId },
+      })
+    );
+    const demote = ((siblings.Items ?? []) as DeviceItem[]).filter(
+      (d) => d.is_primary && d.device_id !== deviceId
+    );
+    await ddb.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          ...demote.map((d) => ({
+            Update: {
+              TableName: DEVICES_TABLE(),
+              Key: { device_id: d.device_id },
+              UpdateExpression: 'REMOVE is_primary',
+            },
+          })),
+          {
+            Update: {
+              TableName: DEVICES_TABLE(),
+              Key: { device_id: deviceId },
+              UpdateExpression: 'SET is_primary = :yes, updated_by = :by',
+              ConditionExpression: 'merchant_id = :m',
+              ExpressionAttributeValues: { ':yes': true, ':m': merchantId, ':by': actorOf(event) },
+            },
+          },
+        ],
+      })
+    );
+    return ok({ device_id: deviceId, merchant_id: merchantId, is_primary: true });
+  } catch (err) {
+    if ((err as { name?: string }).name === 'TransactionCanceledException') {
+      return apiError(409, 'DEVICE_NOT_PAIRED', 'Device was re-paired meanwhile; try again');
+    }
+    return handleError(err);
+  }
+};
+
+export const primaryHandler = audited(deviceChange('device.primary'), makePrimary);
+
+/**
+ * POST /v1/devices/{id}/unpair {requested_by, reason?} (admin) — the explicit step before
+ * a device may be paired to a different merchant. Tells the device, detaches every IoT
+ * policy target (the policy itself stays for the next pairing), unbinds the merchant and
+ * records who did it in the pairing history. The device goes back to UNASSIGNED.
+ */
+const unpair = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const deviceId = event.pathParameters?.id;
+    if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
+    const body = parseBody<{ requested_by?: string; reason?: string }>(event.body);
+    const requestedBy = requireActor(event, body.requested_by, 'requested_by');
+    const res = await ddb.send(
+      new GetCommand({ TableName: DEVICES_TABLE(), Key: { device_id: deviceId } })
+    );
+    const device = res.Item as DeviceItem | undefined;
+    if (!device) return apiError(404, 'DEVICE_NOT_FOUND', 'No such device');
+    const merchantId = device.merchant_id;
+    if (!merchantId) return apiError(409, 'DEVICE_NOT_PAIRED', 'Device is not paired');
+
+    try {
+      await publishToDevice(`devices/${deviceId}/commands`, {
+        event_type: 'DEVICE_UNPAIRED',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (err) {
+      console.log('device-unpaired notify skipped', (err as Error).message);
+    }
+    const detached = await detachPolicyTargets(deviceId);
+
+    const record: PairingRecord = {
+      action: 'UNPAIRED',
+      merchant_id: merchantId,
+      at: new Date().toISOString(),
+      requested_by: requestedBy,
+      ...(body.reason ? { reason: body.reason } : {}),
+    };
+    try {
+      await ddb.send(
+        new UpdateCommand({
+          TableName: DEVICES_TABLE(),
+          Key: { device_id: deviceId },
+          UpdateExpression:
+            'SET #status = :unassigned, unpaired_at = :now, ' +
+            'pairing_history = list_append(if_not_exists(pairing_history, :none), :record) ' +
+            'REMOVE merchant_id, identity_id, paired_at, is_primary, ' +
+            'pairing_code, pairing_code_expires, pending_merchant_id',
+          ConditionExpression: 'merchant_id = :m',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':unassigned': 'UNASSIGNED',
+            ':now': record.at,
+            ':none': [],
+            ':record': [record],
+            ':m': merchantId,
+          },
+        })
+      );
+    } catch (err: unknown) {
+      if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+        return apiError(409, 'DEVICE_NOT_PAIRED', 'Device was unpaired meanwhile');
+      }
+      throw err;
+    }
+    return ok({
+      device_id: deviceId,
+      previous_merchant_id: merchantId,
+      status: 'UNASSIGNED',
+      detached_targets: detached,
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+export const unpairHandler = audited(
+  {
+    ...deviceChange('device.unpair'),
+    details: (res) => ({ detached_targets: res.detached_targets }),
+  },
+  unpair
+);
+
+/** GET /v1/devices/{id}/pairings (admin) — the pairing history, newest first. */
+export const pairingsHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const deviceId = event.pathParameters?.id;
+    if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
+    const res = await ddb.send(
+      new GetCommand({ TableName: DEVICES_TABLE(), Key: { device_id: deviceId } })
+    );
+    const device = res.Item as DeviceItem | undefined;
+    if (!device) return apiError(404, 'DEVICE_NOT_FOUND', 'No such device');
+    return ok({
+      device_id: deviceId,
+      serial_number: device.serial_number,
+      merchant_id: device.merchant_id ?? null,
+      pairings: [...(device.pairing_history ?? [])].reverse(),
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
 /**
  * DELETE /v1/devices/{id} — remove a device for real (admin): detaches and deletes
  * its per-device IoT policy (created at pairing, not CFN-managed), then deletes the
  * item so the serial can be registered again.
  */
-export const deleteHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const removeDevice = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const deviceId = event.pathParameters?.id;
     if (!deviceId) return apiError(400, 'MISSING_ID', 'device id required');
@@ -415,13 +789,9 @@ export const deleteHandler = async (
       console.log('device-removed notify skipped', (err as Error).message);
     }
 
-    const stage = process.env.STAGE as string;
-    const policyName = `${stage}-ghana-device-${deviceId}`;
+    const policyName = policyNameFor(deviceId);
     try {
-      const targets = await iot.send(new ListTargetsForPolicyCommand({ policyName }));
-      for (const target of targets.targets ?? []) {
-        await iot.send(new DetachPolicyCommand({ policyName, target }));
-      }
+      await detachPolicyTargets(deviceId);
       await iot.send(new DeletePolicyCommand({ policyName }));
     } catch (err: unknown) {
       // never paired -> no policy; anything else shouldn't block removal of a demo device
@@ -437,6 +807,8 @@ export const deleteHandler = async (
   }
 };
 
+export const deleteHandler = audited(deviceChange('device.delete'), removeDevice);
+
 /** GET /v1/soundbox/config — PUBLIC: bootstrap config for the soundbox portal. */
 export const configHandler = async (): Promise<APIGatewayProxyResult> => {
   try {
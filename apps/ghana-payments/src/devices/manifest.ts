@@ -0,0 +1,70 @@
+import { csvRecords } from '../shared/csv.js';
+import { CERTIFICATE_ARN_PATTERN } from './handlers.js';
+
+/** One soundbox from a manufacturing manifest, normalized. */
+export interface ManifestRow {
+  line: number;
+  serial_number: string;
+  model?: string;
+  firmware_version?: string;
+  /** A certificate the factory already made and flashed (otherwise one can be created). */
+  certificate_arn?: string;
+}
+
+export interface ParsedManifest {
+  rows: ManifestRow[];
+  errors: Array<{ line: number; serial_number: string | null; message: string }>;
+}
+
+// Serials name the device's bundle folder, so keep them path-safe
+const SERIAL_PATTERN = /^[\w-]{1,64}$/;
+const MODEL_PATTERN = /^[\w-]+$/;
+
+const text = (value: unknown): string => String(value ?? '').trim();
+
+function normalize(raw: Record<string, unknown>, line: number): ManifestRow | string {
+  const serial = text(raw.serial_number ?? raw.serial);
+  if (!serial) return 'serial_number is required';
+  if (!SERIAL_PATTERN.test(serial)) return `invalid serial_number ${JSON.stringify(serial)}`;
+  const model = text(raw.model);
+  if (model && !MODEL_PATTERN.test(model)) return `invalid model ${JSON.stringify(model)}`;
+  const firmware = text(raw.firmware_version ?? raw.firmware);
+  const certificate = text(raw.certificate_arn);
+  if (certificate && !CERTIFICATE_ARN_PATTERN.test(certificate)) {
+    return `certificate_arn is not an IoT certificate ARN: ${certificate}`;
+  }
+  return {
+    line,
+    serial_number: serial,
+    ...(model ? { model } : {}),
+    ...(firmware ? { firmware_version: firmware } : {}),
+    ...(certificate ? { certificate_arn: certificate } : {}),
+  };
+}
+
+/**
+ * Parse a manifest. CSV needs a header row with serial_number (or serial); model,
+ * firmware_version (or firmware) and certificate_arn are optional. JSON is an array of
+ * the same objects, or `{ "devices": [...] }`. Bad rows are reported, never dropped.
+ */
+export function parseManifest(body: string, format: 'csv' | 'json'): ParsedManifest {
+  let records: Array<[Record<string, unknown>, number]>;
+  if (format === 'json') {
+    const doc = JSON.parse(body) as unknown;
+    const list = Array.isArray(doc) ? doc : ((doc as { devices?: unknown[] }).devices ?? []);
+    records = list.map((raw, i) => [raw as Record<string, unknown>, i + 1]);
+  } else {
+    records = csvRecords(body);
+  }
+  const parsed: ParsedManifest = { rows: [], errors: [] };
+  for (const [raw, line] of records) {
+    const row = normalize(raw, line);
+    if (typeof row === 'string') {
+      const serial = text(raw.serial_number ?? raw.serial);
+      parsed.errors.push({ line, serial_number: serial || null, message: row });
+    } else {
+      parsed.rows.push(row);
+    }
+  }
+  return parsed;
+}
@@ -0,0 +1,72 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { handler } from './offline-sweeper.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const busMock = mockClient(EventBridgeClient);
+const ssmMock = mockClient(SSMClient);
+
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.STAGE = 'dev';
+
+const stale = (id: string) => ({
+  device_id: id,
+  serial_number: `SB-${id}`,
+  merchant_id: 'mer_1',
+  status: 'ACTIVE',
+  last_seen_at: '2026-01-01T00:00:00.000Z',
+});
+
+beforeEach(() => {
+  ddbMock.reset();
+  busMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  busMock.on(PutEventsCommand).resolves({});
+  ssmMock.on(GetParametersByPathCommand).resolves({
+    Parameters: [{ Name: '/dev/ghana-payments/devices/offline-after-seconds', Value: '120' }],
+  });
+});
+
+describe('device offline sweeper', () => {
+  it('queries ACTIVE devices past the SSM window and marks each OFFLINE with device.offline', async () => {
+    ddbMock
+      .on(QueryCommand)
+      .resolvesOnce({ Items: [stale('dev_1')], LastEvaluatedKey: { device_id: 'dev_1' } })
+      .resolves({ Items: [stale('dev_2')] });
+    ddbMock.on(UpdateCommand).callsFake((input: { Key: { device_id: string } }) => ({
+      Attributes: { ...stale(input.Key.device_id), status: 'OFFLINE' },
+    }));
+
+    const before = Date.now();
+    expect(await handler()).toEqual({ offline: 2 });
+
+    const query = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+    expect(query.IndexName).toBe('GSI3');
+    const cutoff = Date.parse(String(query.ExpressionAttributeValues?.[':cutoff']));
+    expect(before - cutoff).toBeGreaterThanOrEqual(119_000);
+    expect(before - cutoff).toBeLessThanOrEqual(121_000);
+
+    const update = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(update.ConditionExpression).toContain('last_seen_at < :since');
+    expect(update.ExpressionAttributeValues).toMatchObject({ ':reason': 'HEARTBEAT_STALE' });
+    const types = busMock
+      .commandCalls(PutEventsCommand)
+      .map((c) => c.args[0].input.Entries?.[0]?.DetailType);
+    expect(types).toEqual(['device.offline', 'device.offline']);
+  });
+
+  it('skips a device whose heartbeat landed mid-sweep', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [stale('dev_1')] });
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    expect(await handler()).toEqual({ offline: 0 });
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+});
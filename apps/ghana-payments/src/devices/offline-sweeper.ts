@@ -0,0 +1,36 @@
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import type { DeviceItem } from './handlers.js';
+import { markOffline } from './presence.js';
+
+/**
+ * Scheduled every minute: ACTIVE devices whose last heartbeat is older than the
+ * offline window (GSI3 on status + last_seen_at) -> OFFLINE + device.offline. The
+ * transition re-checks last_seen_at, so a heartbeat landing mid-sweep keeps the device
+ * ACTIVE; the next heartbeat after an outage brings it back (status-updater.ts).
+ */
+export const handler = async (): Promise<{ offline: number }> => {
+  const cfg = await getConfig();
+  const cutoff = new Date(Date.now() - cfg.deviceOfflineAfterSeconds * 1000).toISOString();
+  let offline = 0;
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: process.env.DEVICES_TABLE,
+        IndexName: 'GSI3',
+        KeyConditionExpression: '#status = :active AND last_seen_at < :cutoff',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':active': 'ACTIVE', ':cutoff': cutoff },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    for (const device of (res.Items ?? []) as DeviceItem[]) {
+      if (await markOffline(device.device_id, 'HEARTBEAT_STALE', cutoff)) offline++;
+    }
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  if (offline > 0) console.log(JSON.stringify({ msg: 'marked stale devices offline', offline }));
+  return { offline };
+};
@@ -0,0 +1,129 @@
+import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb, publishEvent } from '../shared/clients.js';
+import type { DeviceItem } from './handlers.js';
+
+const TABLE = (): string => process.env.DEVICES_TABLE ?? '';
+
+export type OfflineReason = 'HEARTBEAT_STALE' | 'DISCONNECTED';
+
+/** device.offline / device.online detail — what support needs to ring the vendor. */
+export interface DevicePresenceEvent {
+  device_id: string;
+  serial_number: string;
+  merchant_id: string | null;
+  status: 'ACTIVE' | 'OFFLINE';
+  last_seen_at: string | null;
+  reason?: OfflineReason;
+  event_time: string;
+}
+
+async function publishPresence(
+  device: DeviceItem,
+  status: 'ACTIVE' | 'OFFLINE',
+  reason?: OfflineReason
+): Promise<void> {
+  const detail: DevicePresenceEvent = {
+    device_id: device.device_id,
+    serial_number: device.serial_number,
+    merchant_id: device.merchant_id ?? null,
+    status,
+    last_seen_at: device.last_seen_at ?? null,
+    ...(reason ? { reason } : {}),
+    event_time: new Date().toISOString(),
+  };
+  await publishEvent(status === 'OFFLINE' ? 'device.offline' : 'device.online', { ...detail });
+}
+
+const conditionFailed = (err: unknown): boolean =>
+  (err as { name?: string }).name === 'ConditionalCheckFailedException';
+
+/** Latest readings a heartbeat reports (absent fields are left as they are). */
+export type DeviceReport = Pick<
+  DeviceItem,
+  'battery' | 'signal' | 'firmware_version' | 'uptime_seconds'
+>;
+
+/**
+ * A heartbeat (or an MQTT connect) proves the device is alive: PAIRED|ACTIVE|OFFLINE ->
+ * ACTIVE, last_seen_at refreshed, plus whatever the heartbeat reported. Returns true —
+ * and publishes device.online — only for the OFFLINE -> ACTIVE edge.
+ * Unknown/suspended/retired devices are ignored.
+ */
+export async function markSeen(
+  deviceId: string,
+  at: string,
+  report: DeviceReport = {}
+): Promise<boolean> {
+  const sets = ['last_seen_at = :at', '#status = :active'];
+  const reported: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(report)) {
+    if (value === undefined) continue;
+    sets.push(`${field} = :${field}`);
+    reported[`:${field}`] = value;
+  }
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { device_id: deviceId },
+        UpdateExpression: `SET ${sets.join(', ')} REMOVE offline_since, offline_reason`,
+        ConditionExpression:
+          'attribute_exists(device_id) AND #status IN (:paired, :active, :offline)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':at': at,
+          ...reported,
+          ':paired': 'PAIRED',
+          ':active': 'ACTIVE',
+          ':offline': 'OFFLINE',
+        },
+        ReturnValues: 'ALL_OLD',
+      })
+    );
+    const before = res.Attributes as DeviceItem | undefined;
+    if (before?.status !== 'OFFLINE') return false;
+    await publishPresence({ ...before, last_seen_at: at }, 'ACTIVE');
+    return true;
+  } catch (err: unknown) {
+    if (conditionFailed(err)) return false;
+    throw err;
+  }
+}
+
+/**
+ * ACTIVE -> OFFLINE, only if the device has not been seen since `notSeenSince` — so a
+ * heartbeat landing mid-sweep, or an out-of-order disconnect after a reconnect, wins.
+ * Publishes device.offline on the transition; false when nothing changed.
+ */
+export async function markOffline(
+  deviceId: string,
+  reason: OfflineReason,
+  notSeenSince: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { device_id: deviceId },
+        UpdateExpression: 'SET #status = :offline, offline_since = :now, offline_reason = :reason',
+        ConditionExpression:
+          '#status = :active AND (attribute_not_exists(last_seen_at) OR last_seen_at < :since)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':offline': 'OFFLINE',
+          ':active': 'ACTIVE',
+          ':now': now,
+          ':reason': reason,
+          ':since': notSeenSince,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    await publishPresence(res.Attributes as DeviceItem, 'OFFLINE', reason);
+    return true;
+  } catch (err: unknown) {
+    if (conditionFailed(err)) return false;
+    throw err;
+  }
+}
@@ -0,0 +1,258 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  CreateKeysAndCertificateCommand,
+  CreatePolicyCommand,
+  DeleteCertificateCommand,
+  IoTClient,
+  UpdateCertificateCommand,
+} from '@aws-sdk/client-iot';
+import type { APIGatewayProxyEvent, EventBridgeEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { parseManifest } from './manifest.js';
+import { handler, importHandler, type ProvisioningReport } from './provisioning.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+const iotMock = mockClient(IoTClient);
+
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.DEVICE_MANIFESTS_BUCKET = 'manifests-bucket';
+process.env.STAGE = 'test';
+
+const CERT_ARN = 'arn:aws:iot:eu-west-1:123456789012:cert/abc123';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+
+const apiEvent = (body: unknown): APIGatewayProxyEvent =>
+  ({ body: JSON.stringify(body) }) as unknown as APIGatewayProxyEvent;
+
+const objectCreated = (key: string) =>
+  ({
+    'detail-type': 'Object Created',
+    detail: { bucket: { name: 'manifests-bucket' }, object: { key } },
+  }) as unknown as EventBridgeEvent<
+    'Object Created',
+    { bucket: { name: string }; object: { key: string } }
+  >;
+
+/** Stand-in for the SDK's streaming body — the job only calls transformToString(). */
+const body = (text: string) => ({ transformToString: async () => text });
+
+const manifest = (text: string, createCertificates = false) =>
+  s3Mock.on(GetObjectCommand).resolves({
+    Body: body(text),
+    Metadata: {
+      'requested-by': 'ops%40example.com',
+      'create-certificates': String(createCertificates),
+    },
+  } as never);
+
+const storedDevices = () =>
+  ddbMock.commandCalls(PutCommand).map((c) => c.args[0].input.Item as Record<string, unknown>);
+const s3Keys = () => s3Mock.commandCalls(PutObjectCommand).map((c) => c.args[0].input.Key);
+
+beforeEach(() => {
+  ddbMock.reset();
+  s3Mock.reset();
+  iotMock.reset();
+  s3Mock.on(HeadObjectCommand).rejects(Object.assign(new Error('nf'), { name: 'NotFound' }));
+  s3Mock.on(PutObjectCommand).resolves({});
+  ddbMock.on(GetCommand).resolves({});
+  ddbMock.on(QueryCommand).resolves({ Items: [] });
+  ddbMock.on(PutCommand).resolves({});
+  iotMock.on(CreatePolicyCommand).resolves({});
+});
+
+describe('parseManifest', () => {
+  it('reads CSV by header, with aliases, and reports bad rows', () => {
+    const parsed = parseManifest(
+      [
+        'serial,model,firmware,certificate_arn',
+        `SB-001,esp32-soundbox,1.0.0,${CERT_ARN}`,
+        'SB 002,esp32-soundbox,,',
+        '',
+        'SB-003,,,not-an-arn',
+        'SB-004,,,',
+      ].join('\n'),
+      'csv'
+    );
+    expect(parsed.rows).toEqual([
+      {
+        line: 2,
+        serial_number: 'SB-001',
+        model: 'esp32-soundbox',
+        firmware_version: '1.0.0',
+        certificate_arn: CERT_ARN,
+      },
+      { line: 6, serial_number: 'SB-004' },
+    ]);
+    expect(parsed.errors.map((e) => [e.line, e.serial_number])).toEqual([
+      [3, 'SB 002'],
+      [5, 'SB-003'],
+    ]);
+  });
+
+  it('reads a JSON array or {devices: [...]}', () => {
+    expect(parseManifest('[{"serial_number":"SB-1"}]', 'json').rows).toHaveLength(1);
+    expect(parseManifest('{"devices":[{"serial_number":"SB-1"},{}]}', 'json').errors).toEqual([
+      { line: 2, serial_number: null, message: 'serial_number is required' },
+    ]);
+  });
+});
+
+describe('POST /v1/devices/imports', () => {
+  it('stores the manifest for the job and returns its id', async () => {
+    const res = await importHandler(
+      apiEvent({
+        manifest: 'serial_number\nSB-001\nSB-002',
+        create_certificates: true,
+        requested_by: 'ops@example.com',
+      })
+    );
+    expect(res.statusCode).toBe(202);
+    const { job_id } = parse<{ job_id: string }>(res);
+    const put = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(put.Key).toBe(`manifests/${job_id}.csv`);
+    expect(put.Metadata).toEqual({
+      'requested-by': 'ops%40example.com',
+      'create-certificates': 'true',
+    });
+  });
+
+  it('rejects an empty or unparseable manifest', async () => {
+    const empty = await importHandler(
+      apiEvent({ manifest: 'serial_number\n', requested_by: 'ops' })
+    );
+    expect(parse<ErrorResponse>(empty).error.code).toBe('EMPTY_MANIFEST');
+    const broken = await importHandler(apiEvent({ manifest: '[{', requested_by: 'ops' }));
+    expect(parse<ErrorResponse>(broken).error.code).toBe('INVALID_MANIFEST');
+    expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+  });
+});
+
+describe('provisioning job', () => {
+  const key = 'manifests/imp_0123456789ab.csv';
+
+  it('creates each new serial and reports repeats and registered serials as duplicates', async () => {
+    manifest(
+      [
+        'serial_number,model',
+        'SB-001,',
+        'SB-002,esp32-mini',
+        'SB-001,',
+        'SB-009,',
+        'bad serial,',
+      ].join('\n')
+    );
+    ddbMock
+      .on(QueryCommand, { ExpressionAttributeValues: { ':s': 'SB-009' } })
+      .resolves({ Items: [{ device_id: 'dev_old', serial_number: 'SB-009', status: 'ACTIVE' }] });
+
+    const report = (await handler(objectCreated(key))) as ProvisioningReport;
+    expect(report.counts).toEqual({ CREATED: 2, DUPLICATE: 2, INVALID: 1, FAILED: 0 });
+    expect(report.results.map((r) => [r.line, r.outcome])).toEqual([
+      [2, 'CREATED'],
+      [3, 'CREATED'],
+      [4, 'DUPLICATE'],
+      [5, 'DUPLICATE'],
+      [6, 'INVALID'],
+    ]);
+    expect(report.results[2].message).toBe('repeats line 2');
+    expect(report.requested_by).toBe('ops@example.com');
+
+    expect(storedDevices()).toEqual([
+      expect.objectContaining({
+        serial_number: 'SB-001',
+        model: 'esp32-soundbox',
+        device_type: 'REAL',
+        status: 'UNASSIGNED',
+        provisioning_job_id: 'imp_0123456789ab',
+      }),
+      expect.objectContaining({ serial_number: 'SB-002', model: 'esp32-mini' }),
+    ]);
+    expect(s3Keys()).toEqual(['reports/imp_0123456789ab.json']);
+    expect(iotMock.commandCalls(CreateKeysAndCertificateCommand)).toHaveLength(0);
+  });
+
+  it('pre-creates a certificate bundle and the device policy when asked', async () => {
+    manifest(['serial_number,certificate_arn', 'SB-001,', `SB-002,${CERT_ARN}`].join('\n'), true);
+    iotMock.on(CreateKeysAndCertificateCommand).resolves({
+      certificateArn: 'arn:aws:iot:eu-west-1:123456789012:cert/fff',
+      certificateId: 'fff',
+      certificatePem: 'PEM',
+      keyPair: { PrivateKey: 'PRIVATE', PublicKey: 'PUBLIC' },
+    });
+
+    const report = (await handler(objectCreated(key))) as ProvisioningReport;
+    expect(report.results[0]).toMatchObject({
+      outcome: 'CREATED',
+      certificate_arn: 'arn:aws:iot:eu-west-1:123456789012:cert/fff',
+      bundle_prefix: 'bundles/imp_0123456789ab/SB-001/',
+    });
+    // The factory's own certificate is recorded, not replaced
+    expect(report.results[1].certificate_arn).toBe(CERT_ARN);
+    expect(report.results[1]).not.toHaveProperty('bundle_prefix');
+    expect(iotMock.commandCalls(CreateKeysAndCertificateCommand)).toHaveLength(1);
+    expect(iotMock.commandCalls(CreatePolicyCommand)).toHaveLength(2);
+    expect(s3Keys()).toContain('bundles/imp_0123456789ab/SB-001/device.private.key');
+    expect(storedDevices()[1]).toMatchObject({ certificate_arn: CERT_ARN });
+  });
+
+  it('revokes a created certificate whose device could not be stored', async () => {
+    manifest('serial_number\nSB-001', true);
+    iotMock.on(CreateKeysAndCertificateCommand).resolves({
+      certificateArn: 'arn:aws:iot:eu-west-1:123456789012:cert/fff',
+      certificateId: 'fff',
+      certificatePem: 'PEM',
+      keyPair: { PrivateKey: 'PRIVATE', PublicKey: 'PUBLIC' },
+    });
+    iotMock.on(UpdateCertificateCommand).resolves({});
+    iotMock.on(DeleteCertificateCommand).resolves({});
+    ddbMock.on(PutCommand).rejects(new Error('throttled'));
+
+    const report = (await handler(objectCreated(key))) as ProvisioningReport;
+    expect(report.results[0]).toMatchObject({ outcome: 'FAILED', message: 'throttled' });
+    expect(iotMock.commandCalls(UpdateCertificateCommand)[0].args[0].input).toEqual({
+      certificateId: 'fff',
+      newStatus: 'INACTIVE',
+    });
+    expect(iotMock.commandCalls(DeleteCertificateCommand)).toHaveLength(1);
+  });
+
+  it('a retried job reports devices it already created instead of duplicating them', async () => {
+    manifest('serial_number\nSB-001');
+    ddbMock.on(GetCommand).resolves({
+      Item: {
+        device_id: 'dev_x',
+        serial_number: 'SB-001',
+        provisioning_job_id: 'imp_0123456789ab',
+      },
+    });
+    const report = (await handler(objectCreated(key))) as ProvisioningReport;
+    expect(report.results[0].outcome).toBe('CREATED');
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it('ignores a job that already has a report, and keys outside manifests/', async () => {
+    s3Mock.on(HeadObjectCommand).resolves({});
+    expect(await handler(objectCreated(key))).toBeUndefined();
+    expect(await handler(objectCreated('reports/imp_0123456789ab.json'))).toBeUndefined();
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+  });
+});
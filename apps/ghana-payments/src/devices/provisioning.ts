@@ -0,0 +1,405 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult, EventBridgeEvent } from 'aws-lambda';
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { GetCommand, PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  CreateKeysAndCertificateCommand,
+  DeleteCertificateCommand,
+  UpdateCertificateCommand,
+} from '@aws-sdk/client-iot';
+import { createHash, randomUUID } from 'node:crypto';
+import { audited } from '../audit/middleware.js';
+import { ddb } from '../shared/clients.js';
+import { iot } from '../shared/iot.js';
+import { apiError, handleError, ok, parseBody, requireActor, requireString } from '../shared/http.js';
+import { ensureDevicePolicy, type DeviceItem } from './handlers.js';
+import { parseManifest, type ManifestRow } from './manifest.js';
+
+const s3 = new S3Client({});
+const BUCKET = (): string => process.env.DEVICE_MANIFESTS_BUCKET ?? '';
+const DEVICES_TABLE = (): string => process.env.DEVICES_TABLE ?? '';
+
+// One job runs in a single Lambda invocation; creating a certificate is a few IoT calls
+const MAX_ROWS = 500;
+const JOB_ID_PATTERN = /^imp_[0-9a-f]{12}$/;
+/** Manifest key layout: manifests/{job_id}.csv|json */
+const KEY_RE = /^manifests\/(imp_[0-9a-f]{12})\.(csv|json)$/;
+const FORMATS = ['csv', 'json'];
+
+export type ProvisioningOutcome = 'CREATED' | 'DUPLICATE' | 'INVALID' | 'FAILED';
+
+/** One manifest row's result — the report has one per row, in manifest order. */
+export interface ProvisioningResult {
+  line: number;
+  serial_number: string | null;
+  outcome: ProvisioningOutcome;
+  device_id?: string;
+  certificate_arn?: string;
+  /** S3 prefix of the credential bundle, when this job created the certificate. */
+  bundle_prefix?: string;
+  message?: string;
+}
+
+/** reports/{job_id}.json — written once, when the job finishes. */
+export interface ProvisioningReport {
+  job_id: string;
+  manifest_key: string;
+  requested_by: string;
+  create_certificates: boolean;
+  started_at: string;
+  completed_at: string;
+  rows: number;
+  counts: Record<ProvisioningOutcome, number>;
+  results: ProvisioningResult[];
+}
+
+interface S3ObjectCreated {
+  bucket: { name: string };
+  object: { key: string };
+}
+
+const reportKey = (jobId: string): string => `reports/${jobId}.json`;
+const bundlePrefix = (jobId: string, serial: string): string => `bundles/${jobId}/${serial}/`;
+
+/** Stable per (job, serial): a retried job finds the devices its first attempt created. */
+const deviceIdFor = (jobId: string, serial: string): string =>
+  `dev_${createHash('sha256').update(`${jobId}|${serial}`).digest('hex').slice(0, 12)}`;
+
+const errorName = (err: unknown): string | undefined => (err as { name?: string }).name;
+
+interface CreateImportBody {
+  manifest?: string;
+  format?: string;
+  create_certificates?: boolean;
+  requested_by?: string;
+}
+
+/**
+ * POST /v1/devices/imports (admin) — queue a manufacturing manifest (CSV or JSON text,
+ * see manifest.ts). The manifest is stored as manifests/{job_id}.{format}; the S3 event
+ * starts the job. `create_certificates` also makes an X.509 certificate for every row
+ * without a certificate_arn, and the per-device IoT policy (attached at pairing).
+ */
+const queueImport = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const body = parseBody<CreateImportBody>(event.body);
+    const manifest = requireString(body.manifest, 'manifest');
+    const requestedBy = requireActor(event, body.requested_by, 'requested_by');
+    const format = body.format ?? (/^[[{]/.test(manifest) ? 'json' : 'csv');
+    if (!FORMATS.includes(format)) {
+      return apiError(400, 'INVALID_FORMAT', `format must be one of ${FORMATS.join(', ')}`);
+    }
+    let parsed;
+    try {
+      parsed = parseManifest(manifest, format as 'csv' | 'json');
+    } catch {
+      return apiError(400, 'INVALID_MANIFEST', 'manifest is not valid JSON');
+    }
+    const rows = parsed.rows.length + parsed.errors.length;
+    if (rows === 0) return apiError(400, 'EMPTY_MANIFEST', 'manifest has no devices');
+    if (rows > MAX_ROWS) {
+      return apiError(400, 'MANIFEST_TOO_LARGE', `at most ${MAX_ROWS} devices per import`);
+    }
+
+    const jobId = `imp_${randomUUID().replace(/-/g, '').slice(0, 12)}`;
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: BUCKET(),
+        Key: `manifests/${jobId}.${format}`,
+        Body: manifest,
+        ContentType: format === 'json' ? 'application/json' : 'text/csv',
+        Metadata: {
+          'requested-by': encodeURIComponent(requestedBy),
+          'create-certificates': String(body.create_certificates === true),
+        },
+      })
+    );
+    return ok({ job_id: jobId, status: 'QUEUED', rows, invalid_rows: parsed.errors.length }, 202);
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+// The job is its own audit target: the devices it creates come later, from the S3 event
+export const importHandler = audited(
+  {
+    action: 'device.import',
+    targetType: 'DEVICE_IMPORT',
+    created: 'job_id',
+    details: (res) => ({ rows: res.rows, invalid_rows: res.invalid_rows }),
+  },
+  queueImport
+);
+
+/** GET /v1/devices/imports/{id} (admin) — the job's report once done, RUNNING until then. */
+export const importReportHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id || !JOB_ID_PATTERN.test(id)) {
+      return apiError(404, 'IMPORT_NOT_FOUND', 'No such import');
+    }
+    try {
+      const obj = await s3.send(new GetObjectCommand({ Bucket: BUCKET(), Key: reportKey(id) }));
+      const report = JSON.parse(await obj.Body!.transformToString()) as ProvisioningReport;
+      return ok({ status: 'COMPLETED', ...report });
+    } catch (err: unknown) {
+      if (errorName(err) !== 'NoSuchKey') throw err;
+    }
+    const queued = await s3.send(
+      new ListObjectsV2Command({ Bucket: BUCKET(), Prefix: `manifests/${id}.`, MaxKeys: 1 })
+    );
+    if (!queued.KeyCount) return apiError(404, 'IMPORT_NOT_FOUND', 'No such import');
+    return ok({ job_id: id, status: 'RUNNING' });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+async function existingDevices(serial: string): Promise<DeviceItem[]> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: DEVICES_TABLE(),
+      IndexName: 'GSI2',
+      KeyConditionExpression: 'serial_number = :s',
+      ExpressionAttributeValues: { ':s': serial },
+    })
+  );
+  // RETIRED leftovers don't block re-registration (same rule as registerHandler)
+  return ((res.Items ?? []) as DeviceItem[]).filter((d) => d.status !== 'RETIRED');
+}
+
+/** Certificate + keys for one device, written to its bundle (the private key exists only there). */
+async function createCertificate(
+  jobId: string,
+  serial: string,
+  deviceId: string
+): Promise<{ arn: string; id: string }> {
+  const cert = await iot.send(new CreateKeysAndCertificateCommand({ setAsActive: true }));
+  const arn = cert.certificateArn!;
+  const id = cert.certificateId!;
+  const files: Record<string, string> = {
+    'device.cert.pem': cert.certificatePem!,
+    'device.private.key': cert.keyPair!.PrivateKey!,
+    'device.public.key': cert.keyPair!.PublicKey!,
+    'certificate.json': JSON.stringify(
+      { device_id: deviceId, serial_number: serial, certificate_arn: arn, certificate_id: id },
+      null,
+      2
+    ),
+  };
+  try {
+    for (const [name, body] of Object.entries(files)) {
+      await s3.send(
+        new PutObjectCommand({
+          Bucket: BUCKET(),
+          Key: `${bundlePrefix(jobId, serial)}${name}`,
+          Body: body,
+        })
+      );
+    }
+  } catch (err) {
+    await revokeCertificate(id);
+    throw err;
+  }
+  return { arn, id };
+}
+
+/** A certificate nobody can use (its device was never stored) must not stay active. */
+async function revokeCertificate(certificateId: string): Promise<void> {
+  await iot.send(new UpdateCertificateCommand({ certificateId, newStatus: 'INACTIVE' }));
+  await iot.send(new DeleteCertificateCommand({ certificateId }));
+}
+
+async function provision(
+  row: ManifestRow,
+  jobId: string,
+  createCertificates: boolean
+): Promise<ProvisioningResult> {
+  const serial = row.serial_number;
+  const deviceId = deviceIdFor(jobId, serial);
+  const base = { line: row.line, serial_number: serial };
+
+  const stored = (
+    await ddb.send(
+      new GetCommand({
+        TableName: DEVICES_TABLE(),
+        Key: { device_id: deviceId },
+        ConsistentRead: true,
+      })
+    )
+  ).Item as DeviceItem | undefined;
+  if (stored) {
+    // A retried job: the first attempt got this far
+    return {
+      ...base,
+      outcome: 'CREATED',
+      device_id: deviceId,
+      ...(stored.certificate_arn ? { certificate_arn: stored.certificate_arn } : {}),
+      ...(stored.certificate_arn && !row.certificate_arn
+        ? { bundle_prefix: bundlePrefix(jobId, serial) }
+        : {}),
+    };
+  }
+  const existing = await existingDevices(serial);
+  if (existing.length > 0) {
+    return {
+      ...base,
+      outcome: 'DUPLICATE',
+      device_id: existing[0].device_id,
+      message: 'A device with this serial number is already registered',
+    };
+  }
+
+  const created =
+    !row.certificate_arn && createCertificates
+      ? await createCertificate(jobId, serial, deviceId)
+      : undefined;
+  const certificateArn = row.certificate_arn ?? created?.arn;
+  const item: DeviceItem = {
+    device_id: deviceId,
+    serial_number: serial,
+    model: row.model ?? 'esp32-soundbox',
+    device_type: 'REAL',
+    ...(row.firmware_version ? { firmware_version: row.firmware_version } : {}),
+    ...(certificateArn ? { certificate_arn: certificateArn } : {}),
+    provisioning_job_id: jobId,
+    status: 'UNASSIGNED',
+    created_at: new Date().toISOString(),
+  };
+  try {
+    await ddb.send(
+      new PutCommand({
+        TableName: DEVICES_TABLE(),
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(device_id)',
+      })
+    );
+  } catch (err) {
+    if (created) await revokeCertificate(created.id);
+    throw err;
+  }
+  if (createCertificates) await ensureDevicePolicy(deviceId);
+
+  return {
+    ...base,
+    outcome: 'CREATED',
+    device_id: deviceId,
+    ...(certificateArn ? { certificate_arn: certificateArn } : {}),
+    ...(created ? { bundle_prefix: bundlePrefix(jobId, serial) } : {}),
+  };
+}
+
+/**
+ * Bulk device provisioning job. Triggered by S3 Object Created on manifests/ (via
+ * EventBridge), like statement reconciliation. Every row becomes an UNASSIGNED REAL
+ * device unless its serial is repeated in the manifest or already registered (GSI2);
+ * one bad row never stops the rest. The per-row report goes to reports/{job_id}.json.
+ */
+export const handler = async (
+  event: EventBridgeEvent<'Object Created', S3ObjectCreated>
+): Promise<ProvisioningReport | undefined> => {
+  const { bucket, object } = event.detail;
+  const key = decodeURIComponent(object.key.replace(/\+/g, ' '));
+  const match = KEY_RE.exec(key);
+  if (!match) {
+    console.warn('provision: ignoring object outside manifests/{job_id}.csv|json', { key });
+    return undefined;
+  }
+  const [, jobId, format] = match;
+  try {
+    await s3.send(new HeadObjectCommand({ Bucket: bucket.name, Key: reportKey(jobId) }));
+    console.warn('provision: job already reported', { jobId });
+    return undefined;
+  } catch (err: unknown) {
+    if (errorName(err) !== 'NotFound') throw err;
+  }
+
+  const startedAt = new Date().toISOString();
+  const obj = await s3.send(new GetObjectCommand({ Bucket: bucket.name, Key: key }));
+  const meta = obj.Metadata ?? {};
+  const requestedBy = decodeURIComponent(meta['requested-by'] ?? 'unknown');
+  const createCertificates = meta['create-certificates'] === 'true';
+
+  const results: ProvisioningResult[] = [];
+  let rows: ManifestRow[] = [];
+  try {
+    const parsed = parseManifest(await obj.Body!.transformToString(), format as 'csv' | 'json');
+    rows = parsed.rows;
+    for (const error of parsed.errors) {
+      results.push({ ...error, outcome: 'INVALID' });
+    }
+  } catch {
+    results.push({
+      line: 0,
+      serial_number: null,
+      outcome: 'INVALID',
+      message: 'manifest is not valid JSON',
+    });
+  }
+
+  const seenSerials = new Map<string, number>();
+  const seenCertificates = new Map<string, number>();
+  for (const [i, row] of rows.entries()) {
+    const base = { line: row.line, serial_number: row.serial_number };
+    if (i >= MAX_ROWS) {
+      results.push({ ...base, outcome: 'INVALID', message: `beyond the ${MAX_ROWS}-row limit` });
+      continue;
+    }
+    const repeatOf =
+      seenSerials.get(row.serial_number) ??
+      (row.certificate_arn ? seenCertificates.get(row.certificate_arn) : undefined);
+    if (repeatOf !== undefined) {
+      results.push({ ...base, outcome: 'DUPLICATE', message: `repeats line ${repeatOf}` });
+      continue;
+    }
+    seenSerials.set(row.serial_number, row.line);
+    if (row.certificate_arn) seenCertificates.set(row.certificate_arn, row.line);
+    try {
+      results.push(await provision(row, jobId, createCertificates));
+    } catch (err) {
+      console.error('provision: row failed', { jobId, line: row.line, err });
+      results.push({
+        ...base,
+        outcome: 'FAILED',
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  results.sort((a, b) => a.line - b.line);
+  const counts: Record<ProvisioningOutcome, number> = {
+    CREATED: 0,
+    DUPLICATE: 0,
+    INVALID: 0,
+    FAILED: 0,
+  };
+  for (const r of results) counts[r.outcome]++;
+  const report: ProvisioningReport = {
+    job_id: jobId,
+    manifest_key: key,
+    requested_by: requestedBy,
+    create_certificates: createCertificates,
+    started_at: startedAt,
+    completed_at: new Date().toISOString(),
+    rows: results.length,
+    counts,
+    results,
+  };
+  await s3.send(
+    new PutObjectCommand({
+      Bucket: bucket.name,
+      Key: reportKey(jobId),
+      Body: JSON.stringify(report),
+      ContentType: 'application/json',
+    })
+  );
+  console.log(JSON.stringify({ msg: 'provisioning complete', job_id: jobId, counts }));
+  return report;
+};
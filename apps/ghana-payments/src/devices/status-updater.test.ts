@@ -0,0 +1,224 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { ddb } from '../shared/clients.js';
+import { handler, lifecycleHandler } from './status-updater.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const busMock = mockClient(EventBridgeClient);
+
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.EVENT_BUS_NAME = 'test-bus';
+
+const device = (status: string) => ({
+  device_id: 'dev_1',
+  serial_number: 'SB-001',
+  merchant_id: 'mer_1',
+  status,
+  last_seen_at: '2026-01-01T00:00:00.000Z',
+});
+
+const conditionFailed = (): Error =>
+  Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' });
+
+const published = () =>
+  busMock.commandCalls(PutEventsCommand).map((c) => c.args[0].input.Entries?.[0]);
+
+beforeEach(() => {
+  ddbMock.reset();
+  busMock.reset();
+  busMock.on(PutEventsCommand).resolves({});
+});
+
+describe('heartbeat status updater', () => {
+  it('refreshes last_seen_at and publishes nothing for an already ACTIVE device', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    await handler({ device_id: 'dev_1', battery: 80 });
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.ConditionExpression).toContain(':offline');
+    expect(input.ExpressionAttributeValues).toMatchObject({ ':battery': 80, ':active': 'ACTIVE' });
+    expect(published()).toHaveLength(0);
+  });
+
+  it('brings an OFFLINE device back and publishes device.online', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('OFFLINE') });
+    await handler({ device_id: 'dev_1' });
+    expect(published()[0]?.DetailType).toBe('device.online');
+    expect(JSON.parse(published()[0]?.Detail ?? '{}')).toMatchObject({
+      device_id: 'dev_1',
+      merchant_id: 'mer_1',
+      status: 'ACTIVE',
+    });
+  });
+
+  it("records the announcement ack ({status:'played'}) as played_at on the payment", async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    ddbMock.on(PutCommand).resolves({});
+    await handler({ device_id: 'dev_1', status: 'played', payment_id: 'pay_1' });
+
+    const ack = ddbMock
+      .commandCalls(UpdateCommand)
+      .map((c) => c.args[0].input)
+      .find((input) => input.TableName === 'test-payments');
+    expect(ack?.Key).toEqual({ payment_id: 'pay_1', sk: 'META' });
+    expect(ack?.ConditionExpression).toContain('contains(announced_device_ids, :device)');
+    expect(ack?.ExpressionAttributeValues?.[':device']).toBe('dev_1');
+    const evt = ddbMock.commandCalls(PutCommand)[0].args[0].input.Item;
+    expect(evt).toMatchObject({ payment_id: 'pay_1', event_type: 'ANNOUNCEMENT_PLAYED' });
+  });
+
+  it('a repeated or foreign ack records nothing', async () => {
+    ddbMock
+      .on(UpdateCommand, { TableName: 'test-devices' })
+      .resolves({ Attributes: device('ACTIVE') });
+    ddbMock.on(UpdateCommand, { TableName: 'test-payments' }).rejects(conditionFailed());
+    await handler({ device_id: 'dev_1', status: 'played', payment_id: 'pay_1' });
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it('acks every payment in a missed-payments summary', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    ddbMock.on(PutCommand).resolves({});
+    await handler({ device_id: 'dev_1', status: 'played', payment_ids: ['pay_1', 'pay_2'] });
+    const acked = ddbMock
+      .commandCalls(UpdateCommand)
+      .map((c) => c.args[0].input)
+      .filter((input) => input.TableName === 'test-payments')
+      .map((input) => (input.Key as { payment_id: string }).payment_id);
+    expect(acked).toEqual(['pay_1', 'pay_2']);
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(2);
+  });
+
+  it('records the firmware version reported on the heartbeat', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    await handler({ device_id: 'dev_1', battery: 80, firmware_version: '1.1.0' });
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.UpdateExpression).toContain('firmware_version = :firmware_version');
+    expect(input.ExpressionAttributeValues?.[':firmware_version']).toBe('1.1.0');
+  });
+
+  it("appends a heartbeat's readings to the telemetry series, but not an ack's", async () => {
+    process.env.DEVICE_TELEMETRY_TABLE = 'test-telemetry';
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    ddbMock.on(PutCommand).resolves({});
+    await handler({
+      device_id: 'dev_1',
+      status: 'online',
+      battery: 140,
+      signal: -70,
+      uptime_seconds: 3600.7,
+    });
+    const sample = ddbMock.commandCalls(PutCommand)[0].args[0].input;
+    expect(sample.TableName).toBe('test-telemetry');
+    expect(sample.Item).toMatchObject({
+      device_id: 'dev_1',
+      battery: 100,
+      signal: -70,
+      uptime_seconds: 3600,
+    });
+    const seen = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(seen.ExpressionAttributeValues).toMatchObject({
+      ':signal': -70,
+      ':uptime_seconds': 3600,
+    });
+
+    ddbMock.resetHistory();
+    await handler({ device_id: 'dev_1', status: 'played', payment_id: 'pay_1' });
+    const puts = ddbMock.commandCalls(PutCommand).map((c) => c.args[0].input.TableName);
+    expect(puts).not.toContain('test-telemetry');
+  });
+
+  it('records OTA progress against the release the device was sent', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    await handler({
+      device_id: 'dev_1',
+      status: 'firmware',
+      release_id: 'fw_esp32-soundbox_1.1.0',
+      update_state: 'APPLIED',
+      firmware_version: '1.1.0',
+    });
+    const report = ddbMock.commandCalls(UpdateCommand)[1].args[0].input;
+    expect(report.ConditionExpression).toBe('firmware_update.release_id = :r');
+    expect(report.UpdateExpression).toContain('firmware_version = firmware_update.version');
+    expect(report.ExpressionAttributeValues).toMatchObject({
+      ':state': 'APPLIED',
+      ':r': 'fw_esp32-soundbox_1.1.0',
+    });
+  });
+
+  it('keeps the device error on a FAILED update and ignores unknown states', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('ACTIVE') });
+    await handler({
+      device_id: 'dev_1',
+      status: 'firmware',
+      release_id: 'fw_1',
+      update_state: 'FAILED',
+      error: 'checksum mismatch',
+    });
+    await handler({
+      device_id: 'dev_1',
+      status: 'firmware',
+      release_id: 'fw_1',
+      update_state: 'PENDING',
+    });
+    const reports = ddbMock
+      .commandCalls(UpdateCommand)
+      .map((c) => c.args[0].input)
+      .filter((input) => input.ConditionExpression === 'firmware_update.release_id = :r');
+    expect(reports).toHaveLength(1);
+    expect(reports[0].ExpressionAttributeValues?.[':error']).toBe('checksum mismatch');
+  });
+
+  it('ignores heartbeats from unknown or suspended devices', async () => {
+    ddbMock.on(UpdateCommand).rejects(conditionFailed());
+    await expect(handler({ device_id: 'dev_x' })).resolves.toBeUndefined();
+    expect(published()).toHaveLength(0);
+  });
+});
+
+describe('IoT lifecycle events', () => {
+  const at = Date.parse('2026-01-01T00:05:00.000Z');
+
+  it('a disconnect marks the device OFFLINE unless it was seen after the disconnect', async () => {
+    ddbMock
+      .on(UpdateCommand)
+      .resolves({ Attributes: { ...device('OFFLINE'), offline_reason: 'DISCONNECTED' } });
+    await lifecycleHandler({
+      clientId: 'soundbox-dev_1',
+      timestamp: at,
+      eventType: 'disconnected',
+      disconnectReason: 'CONNECTION_LOST',
+    });
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.Key).toEqual({ device_id: 'dev_1' });
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':reason': 'DISCONNECTED',
+      ':since': '2026-01-01T00:05:00.000Z',
+    });
+    expect(published()[0]?.DetailType).toBe('device.offline');
+  });
+
+  it('a session taken over by the same client id is not an outage', async () => {
+    await lifecycleHandler({
+      clientId: 'soundbox-dev_1',
+      timestamp: at,
+      eventType: 'disconnected',
+      disconnectReason: 'DUPLICATE_CLIENTID',
+    });
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+
+  it('a connect counts as being seen', async () => {
+    ddbMock.on(UpdateCommand).resolves({ Attributes: device('OFFLINE') });
+    await lifecycleHandler({ clientId: 'soundbox-dev_1', timestamp: at, eventType: 'connected' });
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.ExpressionAttributeValues?.[':at']).toBe('2026-01-01T00:05:00.000Z');
+    expect(published()[0]?.DetailType).toBe('device.online');
+  });
+
+  it('ignores clients that are not soundboxes', async () => {
+    await lifecycleHandler({ clientId: 'admin-console', timestamp: at, eventType: 'connected' });
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+});
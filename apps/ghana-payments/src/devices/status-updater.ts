@@ -1,38 +1,104 @@
-import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
-import { ddb } from '../shared/clients.js';
+import { appendEvent, markPlayed } from '../payments/ledger.js';
+import { recordUpdateState, type FirmwareUpdateState } from '../firmware/store.js';
+import { markOffline, markSeen } from './presence.js';
+import { recordTelemetry, type TelemetryReadings } from './telemetry.js';
+
+type ReportedState = Exclude<FirmwareUpdateState, 'PENDING'>;
+const REPORTED_STATES: string[] = ['DOWNLOADING', 'APPLIED', 'FAILED'] satisfies ReportedState[];
 
 interface HeartbeatEvent {
   device_id: string; // injected by the IoT rule SQL: topic(2) as device_id
   status?: string;
-  battery?: number;
-  signal?: number;
+  payment_id?: string; // with status 'played': the announcement ack
+  payment_ids?: string[]; // with status 'played': ack for a MISSED_PAYMENTS summary (sync.ts)
+  battery?: number; // percent
+  signal?: number; // RSSI, dBm
+  uptime_seconds?: number;
+  firmware_version?: string; // the running image, on every heartbeat
+  release_id?: string; // with status 'firmware': progress on a FIRMWARE_UPDATE command
+  update_state?: string;
+  error?: string;
+}
+
+/** AWS IoT lifecycle event ($aws/events/presence/{connected|disconnected}/{clientId}). */
+interface LifecycleEvent {
+  clientId: string;
+  timestamp: number; // epoch ms
+  eventType: 'connected' | 'disconnected';
+  disconnectReason?: string;
+}
+
+// Soundboxes connect as soundbox-{device_id} (see pairHandler)
+const CLIENT_PREFIX = 'soundbox-';
+
+const num = (v: unknown): number | undefined =>
+  typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+
+/** Only well-formed readings reach the device item and the telemetry series. */
+function readings(event: HeartbeatEvent): TelemetryReadings {
+  const battery = num(event.battery);
+  const uptime = num(event.uptime_seconds);
+  return {
+    battery: battery === undefined ? undefined : Math.max(0, Math.min(100, Math.round(battery))),
+    signal: num(event.signal),
+    firmware_version:
+      typeof event.firmware_version === 'string' ? event.firmware_version.slice(0, 32) : undefined,
+    uptime_seconds: uptime === undefined ? undefined : Math.max(0, Math.floor(uptime)),
+  };
 }
 
 /**
  * IoT rule target for devices/+/heartbeat: PAIRED devices go ACTIVE on first
- * heartbeat; last_seen_at always refreshed. OFFLINE detection (stale heartbeat
- * sweep / lifecycle events) is post-PoC.
+ * heartbeat, OFFLINE devices come back ACTIVE (device.online); last_seen_at and the
+ * reported battery/signal/firmware/uptime refreshed, and a plain heartbeat's readings
+ * appended to the telemetry series. Staleness is detected by offline-sweeper.ts.
+ * A `{status:'played', payment_id}` message is the announcement ack: it stamps
+ * played_at on the payment, which stops announce-retry.ts re-publishing;
+ * `payment_ids` acks a whole sync summary. `{status:'firmware', release_id,
+ * update_state}` is OTA progress (DOWNLOADING, APPLIED, FAILED with `error`).
  */
 export const handler = async (event: HeartbeatEvent): Promise<void> => {
   if (!event.device_id) return;
-  await ddb
-    .send(
-      new UpdateCommand({
-        TableName: process.env.DEVICES_TABLE,
-        Key: { device_id: event.device_id },
-        UpdateExpression: 'SET last_seen_at = :now, battery = :battery, #status = :active',
-        ConditionExpression: 'attribute_exists(device_id) AND #status IN (:paired, :active)',
-        ExpressionAttributeNames: { '#status': 'status' },
-        ExpressionAttributeValues: {
-          ':now': new Date().toISOString(),
-          ':battery': event.battery ?? null,
-          ':paired': 'PAIRED',
-          ':active': 'ACTIVE',
-        },
-      })
-    )
-    .catch((err: { name?: string }) => {
-      if (err.name !== 'ConditionalCheckFailedException') throw err;
-      // unknown/suspended device heartbeat — ignore
-    });
+  const at = new Date().toISOString();
+  const reported = readings(event);
+  await markSeen(event.device_id, at, reported);
+  if (!event.status || event.status === 'online') {
+    await recordTelemetry(event.device_id, at, reported);
+    return;
+  }
+  if (event.status === 'firmware') {
+    const state = event.update_state ?? '';
+    if (!event.release_id || !REPORTED_STATES.includes(state)) return;
+    await recordUpdateState(
+      event.device_id,
+      event.release_id,
+      state as ReportedState,
+      typeof event.error === 'string' ? event.error : undefined
+    );
+    return;
+  }
+  if (event.status !== 'played') return;
+  const acked = event.payment_ids ?? (event.payment_id ? [event.payment_id] : []);
+  for (const paymentId of acked) {
+    if (await markPlayed(paymentId, event.device_id)) {
+      await appendEvent(paymentId, 'ANNOUNCEMENT_PLAYED', { device_id: event.device_id });
+    }
+  }
+};
+
+/**
+ * IoT rule target for the broker's presence events, so a dropped connection shows up
+ * immediately rather than at the next sweep. DUPLICATE_CLIENTID means a newer session
+ * with the same id took over (browser tab reload) — the device is still connected.
+ */
+export const lifecycleHandler = async (event: LifecycleEvent): Promise<void> => {
+  if (!event.clientId?.startsWith(CLIENT_PREFIX)) return;
+  const deviceId = event.clientId.slice(CLIENT_PREFIX.length);
+  const at = new Date(event.timestamp).toISOString();
+  if (event.eventType === 'connected') {
+    await markSeen(deviceId, at);
+    return;
+  }
+  if (event.disconnectReason === 'DUPLICATE_CLIENTID') return;
+  await markOffline(deviceId, 'DISCONNECTED', at);
 };
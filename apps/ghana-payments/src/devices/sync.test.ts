@@ -0,0 +1,149 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DescribeEndpointCommand, IoTClient } from '@aws-sdk/client-iot';
+import { IoTDataPlaneClient, PublishCommand } from '@aws-sdk/client-iot-data-plane';
+import { ddb } from '../shared/clients.js';
+import type { DeviceSyncSummary } from '../shared/types.js';
+import { handler, SYNC_LOOKBACK_MS } from './sync.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const iotMock = mockClient(IoTClient);
+const iotDataMock = mockClient(IoTDataPlaneClient);
+
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.MERCHANTS_TABLE = 'test-merchants';
+
+const device = (overrides: Record<string, unknown> = {}) => ({
+  device_id: 'dev_1',
+  serial_number: 'SB-001',
+  merchant_id: 'mer_1',
+  status: 'ACTIVE',
+  ...overrides,
+});
+
+let seq = 0;
+const payment = (overrides: Record<string, unknown> = {}) => {
+  seq += 1;
+  return {
+    payment_id: `pay_${seq}`,
+    sk: 'META',
+    merchant_id: 'mer_1',
+    status: 'SUCCESS',
+    amount_pesewas: 1500,
+    confirmed_at: new Date(Date.now() - 60_000 + seq * 1000).toISOString(),
+    ...overrides,
+  };
+};
+
+const reply = (): DeviceSyncSummary => {
+  const input = iotDataMock.commandCalls(PublishCommand)[0].args[0].input;
+  expect(input.topic).toBe('devices/dev_1/payments');
+  return JSON.parse(Buffer.from(input.payload as Uint8Array).toString()) as DeviceSyncSummary;
+};
+
+beforeEach(() => {
+  seq = 0;
+  ddbMock.reset();
+  iotMock.reset();
+  iotDataMock.reset();
+  iotMock.on(DescribeEndpointCommand).resolves({ endpointAddress: 'iot.test.amazonaws.com' });
+  iotDataMock.on(PublishCommand).resolves({});
+  ddbMock.on(GetCommand).resolves({ Item: device() });
+  ddbMock.on(UpdateCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+});
+
+describe('missed-announcement sync', () => {
+  it('summarises unplayed payments and claims the ones never announced', async () => {
+    const missedOffline = payment();
+    const unacked = payment({ announced_at: 'x', announced_device_ids: new Set(['dev_1']) });
+    const played = payment({
+      announced_at: 'x',
+      announced_device_ids: new Set(['dev_2']),
+      played_at: 'y',
+    });
+    const failed = payment({ status: 'FAILED' });
+    ddbMock.on(QueryCommand).resolves({ Items: [missedOffline, unacked, played, failed] });
+
+    await handler({ device_id: 'dev_1', since: new Date(Date.now() - 120_000).toISOString() });
+
+    const summary = reply();
+    expect(summary).toMatchObject({
+      event_type: 'MISSED_PAYMENTS',
+      payment_ids: [missedOffline.payment_id, unacked.payment_id],
+      count: 2,
+      total_amount: 3000,
+      language: 'en',
+      message: 'Two payments received while offline, total thirty Ghana cedis',
+      cursor: failed.confirmed_at,
+    });
+    // Only the payment not yet announced to this device takes its announce-once guard
+    const claims = ddbMock.commandCalls(UpdateCommand).map((c) => c.args[0].input);
+    expect(claims).toHaveLength(1);
+    expect(claims[0].Key).toEqual({ payment_id: missedOffline.payment_id, sk: 'META' });
+    expect(claims[0].ConditionExpression).toContain('NOT contains(announced_device_ids, :device)');
+    const evt = ddbMock.commandCalls(PutCommand)[0].args[0].input.Item;
+    expect(evt).toMatchObject({ event_type: 'ANNOUNCEMENT_PUBLISHED', via: 'sync' });
+  });
+
+  it('replays payments only another (silent) till was sent, and ones the announcer just claimed', async () => {
+    const elsewhere = payment({ announced_at: 'x', announced_device_ids: new Set(['dev_2']) });
+    const raced = payment();
+    ddbMock.on(QueryCommand).resolves({ Items: [elsewhere, raced] });
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+
+    await handler({ device_id: 'dev_1' });
+
+    expect(reply()).toMatchObject({
+      payment_ids: [elsewhere.payment_id, raced.payment_id],
+      count: 2,
+      cursor: raced.confirmed_at,
+    });
+    // Neither lost claim is recorded as a sync publish
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it("speaks the summary in the merchant's preferred language", async () => {
+    ddbMock
+      .on(GetCommand, { TableName: 'test-merchants' })
+      .resolves({ Item: { merchant_id: 'mer_1', sk: 'PROFILE', language: 'ha' } });
+    ddbMock.on(QueryCommand).resolves({ Items: [payment(), payment(), payment()] });
+    await handler({ device_id: 'dev_1' });
+    expect(reply()).toMatchObject({
+      language: 'ha',
+      message: 'Kuɗin da suka shigo: uku. Jimilla, Ghana sidi arbaʼin da biyar',
+    });
+  });
+
+  it('never looks back further than a day, whatever the cursor', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [] });
+    await handler({ device_id: 'dev_1', since: '2020-01-01T00:00:00.000Z' });
+
+    const since = ddbMock.commandCalls(QueryCommand)[0].args[0].input.ExpressionAttributeValues?.[
+      ':since'
+    ] as string;
+    expect(Date.now() - Date.parse(since)).toBeGreaterThanOrEqual(SYNC_LOOKBACK_MS - 1000);
+    expect(Date.now() - Date.parse(since)).toBeLessThan(SYNC_LOOKBACK_MS + 1000);
+    expect(reply()).toMatchObject({ count: 0, cursor: since });
+  });
+
+  it('ignores sync requests from unpaired or suspended devices', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: device({ status: 'SUSPENDED' }) });
+    await handler({ device_id: 'dev_1' });
+    ddbMock
+      .on(GetCommand)
+      .resolves({ Item: device({ status: 'UNASSIGNED', merchant_id: undefined }) });
+    await handler({ device_id: 'dev_1' });
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+    expect(iotDataMock.commandCalls(PublishCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { GetCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import { publishToDevice } from '../shared/iot.js';
+import type { DeviceSyncSummary } from '../shared/types.js';
+import { appendEvent, markAnnounced, paymentsConfirmedSince } from '../payments/ledger.js';
+import { getMerchant, preferredLanguage } from '../merchants/store.js';
+import { missedPaymentsText } from '../templates/messages.js';
+import type { DeviceItem } from './handlers.js';
+
+/** A soundbox never replays more than a day of missed payments, whatever cursor it sends. */
+export const SYNC_LOOKBACK_MS = 24 * 60 * 60_000;
+
+interface SyncRequest {
+  device_id: string; // injected by the IoT rule SQL: topic(2) as device_id
+  since?: string; // cursor from the previous MISSED_PAYMENTS reply
+}
+
+/**
+ * IoT rule target for devices/+/sync — the soundbox publishes `{since}` on every
+ * (re)connect (concept §15 last-known event sync). Replies on its payments topic with
+ * one MISSED_PAYMENTS summary of the merchant's SUCCESS payments confirmed after the
+ * cursor that no device has acked (played_at) — once any till played it, the vendor
+ * heard it. Payments not yet announced to this device — it was OFFLINE at confirmation
+ * — take its per-device announce-once guard here. The device acks the whole batch with
+ * `{status:'played', payment_ids}`.
+ */
+export const handler = async (event: SyncRequest): Promise<void> => {
+  if (!event.device_id) return;
+  const res = await ddb.send(
+    new GetCommand({ TableName: process.env.DEVICES_TABLE, Key: { device_id: event.device_id } })
+  );
+  const device = res.Item as DeviceItem | undefined;
+  if (!device?.merchant_id || !['PAIRED', 'ACTIVE', 'OFFLINE'].includes(device.status)) {
+    console.log(
+      JSON.stringify({ msg: 'sync from unpaired device ignored', device_id: event.device_id })
+    );
+    return;
+  }
+
+  const floor = new Date(Date.now() - SYNC_LOOKBACK_MS).toISOString();
+  const since =
+    event.since && !Number.isNaN(Date.parse(event.since)) && event.since > floor
+      ? event.since
+      : floor;
+  const payments = await paymentsConfirmedSince(device.merchant_id, since);
+
+  const missed: string[] = [];
+  let total = 0;
+  for (const p of payments) {
+    if (p.status !== 'SUCCESS' || p.played_at) continue;
+    // false = the announcer got there first; unacked, so it is still missed
+    if (
+      !p.announced_device_ids?.has(device.device_id) &&
+      (await markAnnounced(p.payment_id, device.device_id))
+    ) {
+      await appendEvent(p.payment_id, 'ANNOUNCEMENT_PUBLISHED', {
+        device_id: device.device_id,
+        via: 'sync',
+      });
+    }
+    missed.push(p.payment_id);
+    total += p.amount_pesewas;
+  }
+
+  const language = preferredLanguage(await getMerchant(device.merchant_id));
+  const summary: DeviceSyncSummary = {
+    event_type: 'MISSED_PAYMENTS',
+    payment_ids: missed,
+    count: missed.length,
+    total_amount: total,
+    currency: 'GHS',
+    language,
+    message: missed.length > 0 ? missedPaymentsText(missed.length, total, language) : '',
+    // Newest confirmation seen (played or not) — the GSI1 query is oldest first
+    cursor: payments.at(-1)?.confirmed_at ?? since,
+    timestamp: new Date().toISOString(),
+  };
+  await publishToDevice(`devices/${device.device_id}/payments`, summary);
+};
@@ -0,0 +1,146 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { fleetHealthHandler, recordTelemetry, telemetryHandler } from './telemetry.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const ssmMock = mockClient(SSMClient);
+
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.DEVICE_TELEMETRY_TABLE = 'test-telemetry';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+interface TelemetryResponse {
+  latest: Record<string, unknown>;
+  samples: Record<string, unknown>[];
+}
+interface HealthResponse {
+  in_service: number;
+  by_status: Record<string, number>;
+  low_battery: { device_id: string }[];
+  weak_signal: { device_id: string }[];
+  stale: { device_id: string }[];
+}
+
+const apiEvent = (id: string, hours?: string): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id },
+    queryStringParameters: hours ? { hours } : null,
+  }) as unknown as APIGatewayProxyEvent;
+
+const minutesAgo = (m: number): string => new Date(Date.now() - m * 60_000).toISOString();
+
+beforeEach(() => {
+  ddbMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  ssmMock.on(GetParametersByPathCommand).resolves({ Parameters: [] });
+});
+
+describe('recordTelemetry', () => {
+  it('writes the readings with a one-week TTL', async () => {
+    ddbMock.on(PutCommand).resolves({});
+    await recordTelemetry('dev_1', '2026-01-01T00:00:00.000Z', { battery: 80, signal: -70 });
+    const item = ddbMock.commandCalls(PutCommand)[0].args[0].input.Item;
+    expect(item).toEqual({
+      device_id: 'dev_1',
+      at: '2026-01-01T00:00:00.000Z',
+      battery: 80,
+      signal: -70,
+      ttl: Date.parse('2026-01-01T00:00:00.000Z') / 1000 + 7 * 24 * 3600,
+    });
+  });
+
+  it('skips a heartbeat with no readings', async () => {
+    await recordTelemetry('dev_1', '2026-01-01T00:00:00.000Z', { battery: undefined });
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+});
+
+describe('GET /v1/devices/{id}/telemetry', () => {
+  it('returns the series over the window and the latest values', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: { device_id: 'dev_1', battery: 62, signal: -71, last_seen_at: minutesAgo(1) },
+    });
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        { device_id: 'dev_1', at: minutesAgo(2), battery: 63, ttl: 1 },
+        { device_id: 'dev_1', at: minutesAgo(1), battery: 62, ttl: 1 },
+      ],
+    });
+    const res = await telemetryHandler(apiEvent('dev_1', '6'));
+    expect(res.statusCode).toBe(200);
+    const body = parse<TelemetryResponse>(res);
+    expect(body.latest).toMatchObject({ battery: 62, signal: -71, uptime_seconds: null });
+    expect(body.samples.map((s) => s.battery)).toEqual([63, 62]);
+    expect(body.samples[0]).not.toHaveProperty('ttl');
+
+    const values = ddbMock.commandCalls(QueryCommand)[0].args[0].input.ExpressionAttributeValues;
+    const hours =
+      (Date.parse(values?.[':to'] as string) - Date.parse(values?.[':from'] as string)) / 3600_000;
+    expect(hours).toBe(6);
+  });
+
+  it('404s an unknown device and rejects a window beyond the retention', async () => {
+    ddbMock.on(GetCommand).resolves({});
+    const missing = await telemetryHandler(apiEvent('dev_x'));
+    expect(parse<ErrorResponse>(missing).error.code).toBe('DEVICE_NOT_FOUND');
+    const tooLong = await telemetryHandler(apiEvent('dev_1', '500'));
+    expect(parse<ErrorResponse>(tooLong).error.code).toBe('INVALID_HOURS');
+  });
+});
+
+describe('GET /v1/devices/health', () => {
+  it('flags low battery, weak signal and stale devices in service', async () => {
+    ssmMock.on(GetParametersByPathCommand).resolves({
+      Parameters: [{ Name: '/dev/ghana-payments/devices/low-battery-percent', Value: '25' }],
+    });
+    ddbMock.on(ScanCommand).resolves({
+      Items: [
+        {
+          device_id: 'ok',
+          status: 'ACTIVE',
+          battery: 90,
+          signal: -60,
+          last_seen_at: minutesAgo(1),
+        },
+        {
+          device_id: 'low',
+          status: 'ACTIVE',
+          battery: 20,
+          signal: -60,
+          last_seen_at: minutesAgo(1),
+        },
+        {
+          device_id: 'weak',
+          status: 'ACTIVE',
+          battery: 90,
+          signal: -92,
+          last_seen_at: minutesAgo(1),
+        },
+        { device_id: 'gone', status: 'OFFLINE', battery: 90, last_seen_at: minutesAgo(60) },
+        { device_id: 'new', status: 'PAIRED' },
+        { device_id: 'shelf', status: 'UNASSIGNED', battery: 5 },
+      ],
+    });
+    const body = parse<HealthResponse>(await fleetHealthHandler());
+    expect(body.in_service).toBe(5);
+    expect(body.by_status).toEqual({ ACTIVE: 3, OFFLINE: 1, PAIRED: 1 });
+    expect(body.low_battery.map((d) => d.device_id)).toEqual(['low']);
+    expect(body.weak_signal.map((d) => d.device_id)).toEqual(['weak']);
+    expect(body.stale.map((d) => d.device_id)).toEqual(['gone', 'new']);
+  });
+});
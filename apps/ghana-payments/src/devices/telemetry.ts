@@ -0,0 +1,180 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { GetCommand, PutCommand, QueryCommand, ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import { apiError, BadRequestError, handleError, ok } from '../shared/http.js';
+import type { DeviceItem } from './handlers.js';
+
+const TABLE = (): string => process.env.DEVICE_TELEMETRY_TABLE ?? '';
+const DEVICES_TABLE = (): string => process.env.DEVICES_TABLE ?? '';
+
+// Rolling window: DynamoDB TTL drops samples after a week (one per heartbeat, every 60 s)
+const RETENTION_DAYS = 7;
+const DEFAULT_HOURS = 24;
+const IN_SERVICE = ['PAIRED', 'ACTIVE', 'OFFLINE'];
+
+/** One heartbeat's readings: pk device_id, sk at. */
+export interface TelemetrySample {
+  device_id: string;
+  at: string;
+  /** Percent, 0..100. */
+  battery?: number;
+  /** Wi-Fi/cellular RSSI in dBm (e.g. -67; closer to 0 is stronger). */
+  signal?: number;
+  firmware_version?: string;
+  /** Seconds since the device last booted — a drop means it restarted. */
+  uptime_seconds?: number;
+  ttl: number;
+}
+
+export type TelemetryReadings = Pick<
+  TelemetrySample,
+  'battery' | 'signal' | 'firmware_version' | 'uptime_seconds'
+>;
+
+/** Append a sample; heartbeats that carry no readings are not worth a row. */
+export async function recordTelemetry(
+  deviceId: string,
+  at: string,
+  readings: TelemetryReadings
+): Promise<void> {
+  const present = Object.entries(readings).filter(([, v]) => v !== undefined);
+  if (present.length === 0) return;
+  const item: TelemetrySample = {
+    device_id: deviceId,
+    at,
+    ...(Object.fromEntries(present) as TelemetryReadings),
+    ttl: Math.floor(Date.parse(at) / 1000) + RETENTION_DAYS * 24 * 3600,
+  };
+  await ddb.send(new PutCommand({ TableName: TABLE(), Item: item }));
+}
+
+export async function listTelemetry(
+  deviceId: string,
+  from: string,
+  to: string
+): Promise<TelemetrySample[]> {
+  const items: TelemetrySample[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        KeyConditionExpression: 'device_id = :d AND #at BETWEEN :from AND :to',
+        ExpressionAttributeNames: { '#at': 'at' },
+        ExpressionAttributeValues: { ':d': deviceId, ':from': from, ':to': to },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as TelemetrySample[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/**
+ * GET /v1/devices/{id}/telemetry?hours= (admin) — the device's readings over the last
+ * `hours` (default 24, at most the 7-day retention), oldest first, plus the latest values.
+ */
+export const telemetryHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'device id required');
+    const raw = event.queryStringParameters?.hours;
+    const hours = raw === undefined ? DEFAULT_HOURS : Number(raw);
+    if (!Number.isInteger(hours) || hours < 1 || hours > RETENTION_DAYS * 24) {
+      throw new BadRequestError(
+        'INVALID_HOURS',
+        `hours must be between 1 and ${RETENTION_DAYS * 24}`
+      );
+    }
+    const device = (
+      await ddb.send(new GetCommand({ TableName: DEVICES_TABLE(), Key: { device_id: id } }))
+    ).Item as DeviceItem | undefined;
+    if (!device) return apiError(404, 'DEVICE_NOT_FOUND', 'No such device');
+
+    const to = new Date().toISOString();
+    const from = new Date(Date.now() - hours * 3600_000).toISOString();
+    const samples = (await listTelemetry(id, from, to)).map(
+      ({ ttl: _ttl, device_id: _d, ...s }) => s
+    );
+    return ok({
+      device_id: id,
+      from,
+      to,
+      latest: {
+        battery: device.battery ?? null,
+        signal: device.signal ?? null,
+        firmware_version: device.firmware_version ?? null,
+        uptime_seconds: device.uptime_seconds ?? null,
+        last_seen_at: device.last_seen_at ?? null,
+      },
+      samples,
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * GET /v1/devices/health (admin) — fleet summary over in-service devices (PAIRED, ACTIVE,
+ * OFFLINE): low battery and weak signal by the SSM thresholds on the last reported
+ * values, and stale = no heartbeat within the offline window (or never).
+ */
+export const fleetHealthHandler = async (): Promise<APIGatewayProxyResult> => {
+  try {
+    const cfg = await getConfig();
+    const devices: DeviceItem[] = [];
+    let startKey: Record<string, unknown> | undefined;
+    do {
+      const res = await ddb.send(
+        new ScanCommand({ TableName: DEVICES_TABLE(), ExclusiveStartKey: startKey })
+      );
+      devices.push(...((res.Items ?? []) as DeviceItem[]));
+      startKey = res.LastEvaluatedKey;
+    } while (startKey);
+
+    const staleBefore = new Date(Date.now() - cfg.deviceOfflineAfterSeconds * 1000).toISOString();
+    const inService = devices.filter((d) => IN_SERVICE.includes(d.status));
+    const view = (d: DeviceItem) => ({
+      device_id: d.device_id,
+      serial_number: d.serial_number,
+      merchant_id: d.merchant_id ?? null,
+      status: d.status,
+      battery: d.battery ?? null,
+      signal: d.signal ?? null,
+      firmware_version: d.firmware_version ?? null,
+      last_seen_at: d.last_seen_at ?? null,
+    });
+    const byStatus: Record<string, number> = {};
+    for (const d of inService) byStatus[d.status] = (byStatus[d.status] ?? 0) + 1;
+    const byFirmware: Record<string, number> = {};
+    for (const d of inService) {
+      const v = d.firmware_version ?? 'unknown';
+      byFirmware[v] = (byFirmware[v] ?? 0) + 1;
+    }
+
+    return ok({
+      generated_at: new Date().toISOString(),
+      thresholds: {
+        low_battery_percent: cfg.deviceLowBatteryPercent,
+        weak_signal_dbm: cfg.deviceWeakSignalDbm,
+        stale_after_seconds: cfg.deviceOfflineAfterSeconds,
+      },
+      in_service: inService.length,
+      by_status: byStatus,
+      by_firmware: byFirmware,
+      low_battery: inService
+        .filter((d) => typeof d.battery === 'number' && d.battery < cfg.deviceLowBatteryPercent)
+        .map(view),
+      weak_signal: inService
+        .filter((d) => typeof d.signal === 'number' && d.signal < cfg.deviceWeakSignalDbm)
+        .map(view),
+      stale: inService.filter((d) => !d.last_seen_at || d.last_seen_at < staleBefore).map(view),
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
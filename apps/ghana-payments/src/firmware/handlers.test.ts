@@ -0,0 +1,209 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { DescribeEndpointCommand, IoTClient } from '@aws-sdk/client-iot';
+import { IoTDataPlaneClient, PublishCommand } from '@aws-sdk/client-iot-data-plane';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { createHandler, getHandler, rolloutHandler } from './handlers.js';
+import { rolloutBucket, type FirmwareRelease } from './store.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+const iotMock = mockClient(IoTClient);
+const iotDataMock = mockClient(IoTDataPlaneClient);
+
+process.env.FIRMWARE_RELEASES_TABLE = 'test-firmware';
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.FIRMWARE_BUCKET = 'test-firmware-bucket';
+// getSignedUrl signs locally but still needs a region and credentials
+process.env.AWS_REGION = 'eu-west-1';
+process.env.AWS_ACCESS_KEY_ID = 'test';
+process.env.AWS_SECRET_ACCESS_KEY = 'test';
+
+const SHA = 'a'.repeat(64);
+
+const apiEvent = (body: unknown, id?: string): APIGatewayProxyEvent =>
+  ({
+    body: JSON.stringify(body),
+    pathParameters: id ? { id } : null,
+  }) as unknown as APIGatewayProxyEvent;
+
+const release = (overrides: Partial<FirmwareRelease> = {}): FirmwareRelease => ({
+  release_id: 'fw_esp32-soundbox_1.1.0',
+  version: '1.1.0',
+  model: 'esp32-soundbox',
+  s3_key: 'firmware/esp32-soundbox/1.1.0.bin',
+  s3_version_id: 'v1',
+  size_bytes: 1024,
+  sha256: SHA,
+  rollout_percentage: 0,
+  created_by: 'ops@example.com',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const devices = (n: number) =>
+  Array.from({ length: n }, (_, i) => ({
+    device_id: `dev_${i}`,
+    serial_number: `SB-${i}`,
+    model: 'esp32-soundbox',
+    status: 'ACTIVE',
+    firmware_version: '1.0.0',
+  }));
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+interface FirmwareCommand {
+  event_type: string;
+  url: string;
+}
+interface ReleaseDetail {
+  counts: Record<string, number>;
+  devices: { device_id: string; error: string | null }[];
+}
+
+const conditionFailed = (): Error =>
+  Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' });
+
+const publishedTo = () =>
+  iotDataMock.commandCalls(PublishCommand).map((c) => c.args[0].input.topic);
+
+beforeEach(() => {
+  ddbMock.reset();
+  s3Mock.reset();
+  iotMock.reset();
+  iotDataMock.reset();
+  iotMock.on(DescribeEndpointCommand).resolves({ endpointAddress: 'test.iot.amazonaws.com' });
+  iotDataMock.on(PublishCommand).resolves({});
+});
+
+describe('POST /v1/firmware/releases', () => {
+  const body = {
+    version: '1.1.0',
+    model: 'esp32-soundbox',
+    s3_key: 'firmware/esp32-soundbox/1.1.0.bin',
+    sha256: SHA.toUpperCase(),
+    created_by: 'ops@example.com',
+  };
+
+  it('pins the S3 object version and size of the uploaded image', async () => {
+    s3Mock.on(HeadObjectCommand).resolves({ VersionId: 'v7', ContentLength: 2048 });
+    ddbMock.on(PutCommand).resolves({});
+    const res = await createHandler(apiEvent(body));
+    expect(res.statusCode).toBe(201);
+    const item = ddbMock.commandCalls(PutCommand)[0].args[0].input.Item;
+    expect(item).toMatchObject({
+      release_id: 'fw_esp32-soundbox_1.1.0',
+      s3_version_id: 'v7',
+      size_bytes: 2048,
+      sha256: SHA,
+      rollout_percentage: 0,
+    });
+  });
+
+  it('rejects a malformed version or checksum', async () => {
+    const badVersion = await createHandler(apiEvent({ ...body, version: 'latest' }));
+    expect(parse<ErrorResponse>(badVersion).error.code).toBe('INVALID_VERSION');
+    const badSha = await createHandler(apiEvent({ ...body, sha256: 'abc' }));
+    expect(parse<ErrorResponse>(badSha).error.code).toBe('INVALID_CHECKSUM');
+    expect(s3Mock.commandCalls(HeadObjectCommand)).toHaveLength(0);
+  });
+
+  it('400s when the image was never uploaded', async () => {
+    s3Mock.on(HeadObjectCommand).rejects(Object.assign(new Error('nf'), { name: 'NotFound' }));
+    const res = await createHandler(apiEvent(body));
+    expect(res.statusCode).toBe(400);
+    expect(parse<ErrorResponse>(res).error.code).toBe('ARTIFACT_NOT_FOUND');
+  });
+
+  it('409s on a second release of the same model and version', async () => {
+    s3Mock.on(HeadObjectCommand).resolves({ VersionId: 'v7' });
+    ddbMock.on(PutCommand).rejects(conditionFailed());
+    const res = await createHandler(apiEvent(body));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('RELEASE_EXISTS');
+  });
+});
+
+describe('POST /v1/firmware/releases/{id}/rollout', () => {
+  const id = 'fw_esp32-soundbox_1.1.0';
+
+  it('sends FIRMWARE_UPDATE to the stable cohort below the percentage', async () => {
+    const fleet = devices(40);
+    ddbMock.on(GetCommand).resolves({ Item: release() });
+    ddbMock.on(ScanCommand).resolves({ Items: fleet });
+    ddbMock.on(UpdateCommand).resolves({});
+
+    const res = await rolloutHandler(apiEvent({ percentage: 25 }, id));
+    expect(res.statusCode).toBe(200);
+    const expected = fleet
+      .filter((d) => rolloutBucket(id, d.device_id) < 25)
+      .map((d) => `devices/${d.device_id}/commands`);
+    expect(expected.length).toBeGreaterThan(0);
+    expect(publishedTo()).toEqual(expected);
+    expect(parse(res)).toMatchObject({ eligible: 40, sent: expected.length });
+
+    const payload = iotDataMock.commandCalls(PublishCommand)[0].args[0].input.payload;
+    const command = JSON.parse(Buffer.from(payload as Uint8Array).toString()) as FirmwareCommand;
+    expect(command).toMatchObject({
+      event_type: 'FIRMWARE_UPDATE',
+      release_id: id,
+      version: '1.1.0',
+      sha256: SHA,
+      size_bytes: 1024,
+    });
+    expect(command.url).toContain('test-firmware-bucket');
+    expect(command.url).toContain('versionId=v1');
+  });
+
+  it('does not re-send to devices already on this release', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: release({ rollout_percentage: 100 }) });
+    ddbMock.on(ScanCommand).resolves({ Items: devices(3) });
+    ddbMock.on(UpdateCommand, { TableName: 'test-devices' }).rejects(conditionFailed());
+    const res = await rolloutHandler(apiEvent({ percentage: 100 }, id));
+    expect(parse(res)).toMatchObject({ in_cohort: 3, sent: 0 });
+    expect(publishedTo()).toHaveLength(0);
+  });
+
+  it('refuses to shrink a rollout', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: release({ rollout_percentage: 50 }) });
+    const res = await rolloutHandler(apiEvent({ percentage: 10 }, id));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('ROLLOUT_CANNOT_SHRINK');
+  });
+
+  it('rejects a percentage outside 1..100', async () => {
+    const res = await rolloutHandler(apiEvent({ percentage: 150 }, id));
+    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_PERCENTAGE');
+  });
+});
+
+describe('GET /v1/firmware/releases/{id}', () => {
+  it('counts targeted devices by update state', async () => {
+    const update = (state: string) => ({ release_id: 'fw_1', version: '1.1.0', state });
+    ddbMock.on(GetCommand).resolves({ Item: release({ release_id: 'fw_1' }) });
+    ddbMock.on(ScanCommand).resolves({
+      Items: [
+        { device_id: 'dev_1', firmware_update: update('APPLIED') },
+        { device_id: 'dev_2', firmware_update: update('APPLIED') },
+        { device_id: 'dev_3', firmware_update: { ...update('FAILED'), error: 'checksum' } },
+        { device_id: 'dev_4', firmware_update: update('PENDING') },
+      ],
+    });
+    const res = await getHandler(apiEvent(undefined, 'fw_1'));
+    const body = parse<ReleaseDetail>(res);
+    expect(body.counts).toEqual({ PENDING: 1, DOWNLOADING: 0, APPLIED: 2, FAILED: 1 });
+    expect(body.devices[2]).toMatchObject({ device_id: 'dev_3', error: 'checksum' });
+  });
+});
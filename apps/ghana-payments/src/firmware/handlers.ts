@@ -0,0 +1,213 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { GetObjectCommand, HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { publishToDevice } from '../shared/iot.js';
+import {
+  actorOf,
+  apiError,
+  handleError,
+  ok,
+  parseBody,
+  requireActor,
+  requireString,
+} from '../shared/http.js';
+import {
+  createRelease,
+  devicesOnRelease,
+  eligibleDevices,
+  getRelease,
+  listReleases,
+  raiseRollout,
+  rolloutBucket,
+  targetDevice,
+  type FirmwareRelease,
+  type FirmwareUpdateState,
+} from './store.js';
+
+const s3 = new S3Client({});
+
+// A device downloads right after the command; an OFFLINE device that wakes up with an
+// expired link reports FAILED and is re-sent by the next rollout call
+const DOWNLOAD_URL_TTL_SECONDS = 3600;
+const VERSION_PATTERN = /^\d+\.\d+\.\d+(?:[-+][\w.]+)?$/;
+const MODEL_PATTERN = /^[\w-]+$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+interface CreateBody {
+  version?: string;
+  model?: string;
+  s3_key?: string;
+  sha256?: string;
+  notes?: string;
+  created_by?: string;
+}
+
+/**
+ * POST /v1/firmware/releases (admin) — define a release from an image already uploaded to
+ * the firmware bucket. The object's S3 version is pinned, so re-uploading the key later
+ * never changes what a rollout installs. One release per model + version.
+ */
+export const createHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const body = parseBody<CreateBody>(event.body);
+    const version = requireString(body.version, 'version');
+    const model = requireString(body.model, 'model');
+    const s3Key = requireString(body.s3_key, 's3_key');
+    const sha256 = requireString(body.sha256, 'sha256').toLowerCase();
+    const createdBy = requireActor(event, body.created_by, 'created_by');
+    if (!VERSION_PATTERN.test(version)) {
+      return apiError(400, 'INVALID_VERSION', 'version must look like 1.4.2');
+    }
+    if (!MODEL_PATTERN.test(model)) {
+      return apiError(400, 'INVALID_MODEL', 'model must be letters, digits, - or _');
+    }
+    if (!SHA256_PATTERN.test(sha256)) {
+      return apiError(400, 'INVALID_CHECKSUM', 'sha256 must be 64 hex characters');
+    }
+
+    let head;
+    try {
+      head = await s3.send(
+        new HeadObjectCommand({ Bucket: process.env.FIRMWARE_BUCKET, Key: s3Key })
+      );
+    } catch (err: unknown) {
+      if ((err as { name?: string }).name === 'NotFound') {
+        return apiError(400, 'ARTIFACT_NOT_FOUND', `No firmware image at ${s3Key}`);
+      }
+      throw err;
+    }
+
+    const now = new Date().toISOString();
+    const release: FirmwareRelease = {
+      release_id: `fw_${model}_${version}`,
+      version,
+      model,
+      s3_key: s3Key,
+      ...(head.VersionId ? { s3_version_id: head.VersionId } : {}),
+      ...(head.ContentLength !== undefined ? { size_bytes: head.ContentLength } : {}),
+      sha256,
+      ...(body.notes ? { notes: body.notes } : {}),
+      rollout_percentage: 0,
+      created_by: createdBy,
+      created_at: now,
+      updated_at: now,
+    };
+    if (!(await createRelease(release))) {
+      return apiError(409, 'RELEASE_EXISTS', `${model} ${version} is already released`);
+    }
+    return ok(release, 201);
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/** GET /v1/firmware/releases (admin). */
+export const listHandler = async (): Promise<APIGatewayProxyResult> => {
+  try {
+    return ok({ releases: await listReleases() });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/** GET /v1/firmware/releases/{id} (admin) — the release and each targeted device's state. */
+export const getHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'release id required');
+    const release = await getRelease(id);
+    if (!release) return apiError(404, 'RELEASE_NOT_FOUND', 'No such release');
+
+    const devices = (await devicesOnRelease(id)).map((d) => ({
+      device_id: d.device_id,
+      serial_number: d.serial_number,
+      firmware_version: d.firmware_version ?? null,
+      state: d.firmware_update?.state,
+      error: d.firmware_update?.error ?? null,
+      updated_at: d.firmware_update?.updated_at,
+    }));
+    const counts: Record<FirmwareUpdateState, number> = {
+      PENDING: 0,
+      DOWNLOADING: 0,
+      APPLIED: 0,
+      FAILED: 0,
+    };
+    for (const d of devices) if (d.state) counts[d.state] += 1;
+    return ok({ ...release, counts, devices });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/firmware/releases/{id}/rollout {percentage} (admin) — send FIRMWARE_UPDATE on
+ * devices/{id}/commands to `percentage` % of the eligible devices (same model, paired,
+ * not on this version). The cohort is stable per release, so 10 -> 50 extends it; calling
+ * again at the same percentage re-sends only to devices whose update FAILED.
+ */
+export const rolloutHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'release id required');
+    const { percentage } = parseBody<{ percentage?: unknown }>(event.body);
+    if (
+      typeof percentage !== 'number' ||
+      !Number.isInteger(percentage) ||
+      percentage < 1 ||
+      percentage > 100
+    ) {
+      return apiError(400, 'INVALID_PERCENTAGE', 'percentage must be an integer 1..100');
+    }
+    const release = await getRelease(id);
+    if (!release) return apiError(404, 'RELEASE_NOT_FOUND', 'No such release');
+    if (percentage < release.rollout_percentage) {
+      return apiError(
+        409,
+        'ROLLOUT_CANNOT_SHRINK',
+        `Already rolled out to ${release.rollout_percentage}%; devices sent the update keep it`
+      );
+    }
+
+    const eligible = await eligibleDevices(release);
+    const cohort = eligible.filter((d) => rolloutBucket(id, d.device_id) < percentage);
+    const url = await getSignedUrl(
+      s3,
+      new GetObjectCommand({
+        Bucket: process.env.FIRMWARE_BUCKET,
+        Key: release.s3_key,
+        ...(release.s3_version_id ? { VersionId: release.s3_version_id } : {}),
+      }),
+      { expiresIn: DOWNLOAD_URL_TTL_SECONDS }
+    );
+
+    const sent: string[] = [];
+    for (const device of cohort) {
+      if (!(await targetDevice(device.device_id, release))) continue; // already on it
+      await publishToDevice(`devices/${device.device_id}/commands`, {
+        event_type: 'FIRMWARE_UPDATE',
+        release_id: id,
+        version: release.version,
+        url,
+        sha256: release.sha256,
+        ...(release.size_bytes !== undefined ? { size_bytes: release.size_bytes } : {}),
+        timestamp: new Date().toISOString(),
+      });
+      sent.push(device.device_id);
+    }
+    await raiseRollout(id, percentage, actorOf(event));
+    return ok({
+      release_id: id,
+      rollout_percentage: percentage,
+      eligible: eligible.length,
+      in_cohort: cohort.length,
+      sent: sent.length,
+      device_ids: sent,
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
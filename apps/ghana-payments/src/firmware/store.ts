@@ -0,0 +1,229 @@
+import { GetCommand, PutCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'node:crypto';
+import { ddb } from '../shared/clients.js';
+import type { DeviceItem } from '../devices/handlers.js';
+
+const TABLE = (): string => process.env.FIRMWARE_RELEASES_TABLE ?? '';
+const DEVICES_TABLE = (): string => process.env.DEVICES_TABLE ?? '';
+
+export interface FirmwareRelease {
+  release_id: string;
+  version: string;
+  /** Device model the image is built for (DeviceItem.model), e.g. esp32-soundbox. */
+  model: string;
+  s3_key: string;
+  /** The S3 object version pinned at release time (the bucket is versioned). */
+  s3_version_id?: string;
+  size_bytes?: number;
+  sha256: string;
+  notes?: string;
+  /** Share of eligible devices targeted so far, 0..100; only ever grows. */
+  rollout_percentage: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  /** Operator behind the last rollout increase. */
+  rolled_out_by?: string | null;
+}
+
+export type FirmwareUpdateState = 'PENDING' | 'DOWNLOADING' | 'APPLIED' | 'FAILED';
+
+/** DeviceItem.firmware_update — the device's progress on the last release it was sent. */
+export interface DeviceFirmwareUpdate {
+  release_id: string;
+  version: string;
+  state: FirmwareUpdateState;
+  error?: string;
+  updated_at: string;
+}
+
+const conditionFailed = (err: unknown): boolean =>
+  (err as { name?: string }).name === 'ConditionalCheckFailedException';
+
+/**
+ * Stable 0..99 bucket per (release, device): raising a rollout from 10 % to 50 % keeps
+ * the first 10 % and adds to it, and each release samples a different slice of the fleet.
+ */
+export function rolloutBucket(releaseId: string, deviceId: string): number {
+  return (
+    parseInt(
+      createHash('sha256').update(`${releaseId}|${deviceId}`).digest('hex').slice(0, 8),
+      16
+    ) % 100
+  );
+}
+
+export async function createRelease(release: FirmwareRelease): Promise<boolean> {
+  try {
+    await ddb.send(
+      new PutCommand({
+        TableName: TABLE(),
+        Item: release,
+        ConditionExpression: 'attribute_not_exists(release_id)',
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if (conditionFailed(err)) return false;
+    throw err;
+  }
+}
+
+export async function getRelease(releaseId: string): Promise<FirmwareRelease | undefined> {
+  const res = await ddb.send(
+    new GetCommand({ TableName: TABLE(), Key: { release_id: releaseId } })
+  );
+  return res.Item as FirmwareRelease | undefined;
+}
+
+/** All releases, newest first (scan is fine: a handful per year). */
+export async function listReleases(): Promise<FirmwareRelease[]> {
+  const res = await ddb.send(new ScanCommand({ TableName: TABLE() }));
+  return ((res.Items ?? []) as FirmwareRelease[]).sort((a, b) =>
+    a.created_at < b.created_at ? 1 : -1
+  );
+}
+
+/** Raise (never lower) the rollout share — devices already sent the update keep it. */
+export async function raiseRollout(
+  releaseId: string,
+  percentage: number,
+  rolledOutBy: string | null
+): Promise<void> {
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { release_id: releaseId },
+        UpdateExpression: 'SET rollout_percentage = :pct, updated_at = :now, rolled_out_by = :by',
+        ConditionExpression: 'attribute_exists(release_id) AND rollout_percentage < :pct',
+        ExpressionAttributeValues: {
+          ':pct': percentage,
+          ':now': new Date().toISOString(),
+          ':by': rolledOutBy,
+        },
+      })
+    );
+  } catch (err: unknown) {
+    if (!conditionFailed(err)) throw err; // already at or above it
+  }
+}
+
+/** Devices that can take a release: same model, reachable, not already running it. */
+export async function eligibleDevices(release: FirmwareRelease): Promise<DeviceItem[]> {
+  const items: DeviceItem[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new ScanCommand({
+        TableName: DEVICES_TABLE(),
+        FilterExpression:
+          'model = :model AND #status IN (:paired, :active, :offline) AND ' +
+          '(attribute_not_exists(firmware_version) OR firmware_version <> :version)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':model': release.model,
+          ':paired': 'PAIRED',
+          ':active': 'ACTIVE',
+          ':offline': 'OFFLINE',
+          ':version': release.version,
+        },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as DeviceItem[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/** Devices sent this release, with their update state (scan: PoC fleet sizes). */
+export async function devicesOnRelease(releaseId: string): Promise<DeviceItem[]> {
+  const items: DeviceItem[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new ScanCommand({
+        TableName: DEVICES_TABLE(),
+        FilterExpression: 'firmware_update.release_id = :r',
+        ExpressionAttributeValues: { ':r': releaseId },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as DeviceItem[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/**
+ * Mark the device PENDING on this release — false when it is already on it (a second
+ * rollout call never re-sends), unless its last attempt FAILED: that is the retry.
+ */
+export async function targetDevice(deviceId: string, release: FirmwareRelease): Promise<boolean> {
+  const update: DeviceFirmwareUpdate = {
+    release_id: release.release_id,
+    version: release.version,
+    state: 'PENDING',
+    updated_at: new Date().toISOString(),
+  };
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: DEVICES_TABLE(),
+        Key: { device_id: deviceId },
+        UpdateExpression: 'SET firmware_update = :update',
+        ConditionExpression:
+          'attribute_exists(device_id) AND (attribute_not_exists(firmware_update) OR ' +
+          'firmware_update.release_id <> :r OR firmware_update.#state = :failed)',
+        ExpressionAttributeNames: { '#state': 'state' },
+        ExpressionAttributeValues: {
+          ':update': update,
+          ':r': release.release_id,
+          ':failed': 'FAILED',
+        },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if (conditionFailed(err)) return false;
+    throw err;
+  }
+}
+
+/**
+ * Progress reported by the device for the release it was sent; a report for any other
+ * release (stale, or replayed from an old session) is ignored. APPLIED also records the
+ * new firmware_version.
+ */
+export async function recordUpdateState(
+  deviceId: string,
+  releaseId: string,
+  state: Exclude<FirmwareUpdateState, 'PENDING'>,
+  error?: string
+): Promise<boolean> {
+  const sets = ['firmware_update.#state = :state', 'firmware_update.updated_at = :now'];
+  if (state === 'APPLIED') sets.push('firmware_version = firmware_update.version');
+  if (error) sets.push('firmware_update.#error = :error');
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: DEVICES_TABLE(),
+        Key: { device_id: deviceId },
+        UpdateExpression: `SET ${sets.join(', ')}`,
+        ConditionExpression: 'firmware_update.release_id = :r',
+        ExpressionAttributeNames: { '#state': 'state', ...(error ? { '#error': 'error' } : {}) },
+        ExpressionAttributeValues: {
+          ':state': state,
+          ':now': new Date().toISOString(),
+          ':r': releaseId,
+          ...(error ? { ':error': error.slice(0, 500) } : {}),
+        },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if (conditionFailed(err)) return false;
+    throw err;
+  }
+}
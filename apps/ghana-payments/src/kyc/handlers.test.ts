@@ -0,0 +1,215 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { HeadObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { approveHandler, rejectHandler, submitHandler, uploadHandler } from './handlers.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+
+process.env.MERCHANTS_TABLE = 'test-merchants';
+process.env.AUDIT_TABLE = 'test-audit';
+process.env.KYC_DOCUMENTS_BUCKET = 'test-kyc';
+// getSignedUrl signs locally but still needs a region and credentials
+process.env.AWS_REGION = 'eu-west-1';
+process.env.AWS_ACCESS_KEY_ID = 'test';
+process.env.AWS_SECRET_ACCESS_KEY = 'test';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string; details?: Record<string, unknown> };
+}
+
+const event = (actor: string, body: unknown = {}): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id: 'mer_1' },
+    body: JSON.stringify(body),
+    requestContext: { requestId: 'req-1', authorizer: { actor, roles: 'SUPPORT' } },
+  }) as unknown as APIGatewayProxyEvent;
+
+const pending = {
+  merchant_id: 'mer_1',
+  sk: 'PROFILE',
+  status: 'PENDING_KYC',
+  kyc_level: 'NONE',
+  kyc_status: 'NOT_SUBMITTED',
+};
+const submitted = {
+  ...pending,
+  kyc_status: 'SUBMITTED',
+  kyc_requested_level: 'BASIC',
+  kyc_submitted_by: 'kofi',
+};
+
+const doc = (id: string, type: string, at: string) => ({
+  merchant_id: 'mer_1',
+  sk: `KYCDOC#${id}`,
+  document_id: id,
+  document_type: type,
+  content_type: 'image/jpeg',
+  s3_key: `kyc/mer_1/${id}.jpg`,
+  requested_at: at,
+  requested_by: 'kofi',
+});
+
+const merchantUpdates = () =>
+  ddbMock
+    .commandCalls(UpdateCommand)
+    .filter((c) => c.args[0].input.TableName === 'test-merchants')
+    .map((c) => c.args[0].input);
+
+beforeEach(() => {
+  ddbMock.reset();
+  s3Mock.reset();
+  ddbMock.on(GetCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({ Attributes: submitted });
+});
+
+describe('POST /v1/merchants/{id}/kyc/documents', () => {
+  it('records the document and returns a presigned PUT for its content type', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: pending });
+    const res = await uploadHandler(
+      event('kofi', { document_type: 'GHANA_CARD_FRONT', content_type: 'image/jpeg' })
+    );
+    expect(res.statusCode).toBe(201);
+    const body = parse<{ document_id: string; upload_url: string; upload_headers: unknown }>(res);
+    expect(body.document_id).toMatch(/^kyd_/);
+    expect(body.upload_url).toContain(`kyc/mer_1/${body.document_id}.jpg`);
+    expect(body.upload_headers).toEqual({ 'Content-Type': 'image/jpeg' });
+    const put = ddbMock
+      .commandCalls(PutCommand)
+      .find((c) => c.args[0].input.TableName === 'test-merchants');
+    expect(put?.args[0].input.Item).toMatchObject({
+      sk: `KYCDOC#${body.document_id}`,
+      document_type: 'GHANA_CARD_FRONT',
+      requested_by: 'kofi',
+    });
+  });
+
+  it('refuses unknown document and content types', async () => {
+    const badType = await uploadHandler(
+      event('kofi', { document_type: 'PASSPORT', content_type: 'image/jpeg' })
+    );
+    expect(parse<ErrorResponse>(badType).error.code).toBe('INVALID_DOCUMENT_TYPE');
+    const badContent = await uploadHandler(
+      event('kofi', { document_type: 'SELFIE', content_type: 'image/gif' })
+    );
+    expect(parse<ErrorResponse>(badContent).error.code).toBe('INVALID_CONTENT_TYPE');
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+});
+
+describe('POST /v1/merchants/{id}/kyc/submit', () => {
+  it('submits the newest uploaded document of each type the level needs', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: pending });
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        doc('kyd_front1', 'GHANA_CARD_FRONT', '2026-10-01T09:00:00Z'),
+        doc('kyd_front2', 'GHANA_CARD_FRONT', '2026-10-01T09:05:00Z'), // URL never used
+        doc('kyd_back', 'GHANA_CARD_BACK', '2026-10-01T09:01:00Z'),
+        doc('kyd_selfie', 'SELFIE', '2026-10-01T09:02:00Z'),
+      ],
+    });
+    s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 200_000 });
+    s3Mock
+      .on(HeadObjectCommand, { Key: 'kyc/mer_1/kyd_front2.jpg' })
+      .rejects(Object.assign(new Error('nf'), { name: 'NotFound' }));
+
+    const res = await submitHandler(event('kofi', { level: 'BASIC' }));
+    expect(res.statusCode).toBe(200);
+    const [update] = merchantUpdates();
+    expect(update.ExpressionAttributeValues).toMatchObject({
+      ':submitted': 'SUBMITTED',
+      ':level': 'BASIC',
+      ':docs': ['kyd_front1', 'kyd_back', 'kyd_selfie'],
+      ':by': 'kofi',
+    });
+  });
+
+  it('409s naming the documents still missing, and never submits', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: pending });
+    ddbMock.on(QueryCommand).resolves({
+      Items: [doc('kyd_front', 'GHANA_CARD_FRONT', '2026-10-01T09:00:00Z')],
+    });
+    s3Mock.on(HeadObjectCommand).resolves({ ContentLength: 200_000 });
+    const res = await submitHandler(event('kofi', { level: 'FULL' }));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error).toMatchObject({
+      code: 'KYC_DOCUMENTS_MISSING',
+      details: { missing: ['GHANA_CARD_BACK', 'SELFIE', 'BUSINESS_REGISTRATION'] },
+    });
+    expect(merchantUpdates()).toHaveLength(0);
+  });
+});
+
+describe('KYC review (maker-checker)', () => {
+  it('403s the operator who submitted the merchant', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: submitted });
+    const res = await approveHandler(event('kofi'));
+    expect(res.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(res).error.code).toBe('SELF_REVIEW');
+    expect(merchantUpdates()).toHaveLength(0);
+  });
+
+  it('never decides without a reviewer, so the self-review check cannot be skipped', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: submitted });
+    const direct = (body: unknown): APIGatewayProxyEvent =>
+      ({
+        pathParameters: { id: 'mer_1' },
+        body: JSON.stringify(body),
+        requestContext: { requestId: 'req-1' },
+      }) as unknown as APIGatewayProxyEvent;
+    const anonymous = await approveHandler(direct({}));
+    expect(anonymous.statusCode).toBe(400);
+    const own = await approveHandler(direct({ reviewed_by: 'kofi' }));
+    expect(parse<ErrorResponse>(own).error.code).toBe('SELF_REVIEW');
+    expect(merchantUpdates()).toHaveLength(0);
+  });
+
+  it('approval grants the requested level and activates a PENDING_KYC merchant', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: submitted });
+    const res = await approveHandler(event('efua'));
+    expect(res.statusCode).toBe(200);
+    const [update] = merchantUpdates();
+    expect(update.ConditionExpression).toBe('kyc_status = :submitted AND #status = :seen');
+    expect(update.ExpressionAttributeValues).toMatchObject({
+      ':decided': 'APPROVED',
+      ':level': 'BASIC',
+      ':status': 'ACTIVE',
+      ':seen': 'PENDING_KYC',
+      ':by': 'efua',
+    });
+  });
+
+  it('rejection needs a reason and leaves level and status as they were', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: submitted });
+    const noReason = await rejectHandler(event('efua', {}));
+    expect(noReason.statusCode).toBe(400);
+
+    const res = await rejectHandler(event('efua', { reason: 'Selfie does not match the card' }));
+    expect(res.statusCode).toBe(200);
+    const [update] = merchantUpdates();
+    expect(update.ExpressionAttributeValues).toMatchObject({
+      ':decided': 'REJECTED',
+      ':level': 'NONE',
+      ':status': 'PENDING_KYC',
+      ':reason': 'Selfie does not match the card',
+    });
+  });
+
+  it('409s when nothing is awaiting review', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: pending });
+    const res = await approveHandler(event('efua'));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('KYC_NOT_SUBMITTED');
+  });
+});
@@ -0,0 +1,378 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import {
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { audited, type AuditSpec } from '../audit/middleware.js';
+import { getMerchant, type MerchantItem } from '../merchants/store.js';
+import { ddb } from '../shared/clients.js';
+import {
+  actorOf,
+  apiError,
+  handleError,
+  ok,
+  parseBody,
+  requireActor,
+  requireString,
+} from '../shared/http.js';
+import type { KycLevel } from '../shared/types.js';
+import {
+  CONTENT_TYPES,
+  createDocument,
+  DOCUMENT_TYPES,
+  isDocumentType,
+  LEVEL_ORDER,
+  listDocuments,
+  REQUIRED_DOCUMENTS,
+  type KycDocument,
+} from './store.js';
+
+const s3 = new S3Client({});
+const TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
+const BUCKET = (): string => process.env.KYC_DOCUMENTS_BUCKET ?? '';
+
+// Long enough to take the photo on a slow connection, short enough not to be shared
+const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+const VIEW_URL_TTL_SECONDS = 5 * 60;
+// A presigned PUT cannot cap the size, so submission checks it instead
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+
+/** Audit the merchant profile the KYC step changes. */
+const kycChange = (action: string, details?: AuditSpec['details']): AuditSpec => ({
+  action,
+  targetType: 'MERCHANT',
+  param: 'id',
+  table: TABLE,
+  key: (id) => ({ merchant_id: id, sk: 'PROFILE' }),
+  ...(details ? { details } : {}),
+});
+
+const isConditionFailure = (err: unknown): boolean =>
+  (err as { name?: string }).name === 'ConditionalCheckFailedException';
+
+/** The KYC state of a profile as the API shows it (never the document images). */
+function kycView(m: MerchantItem): Record<string, unknown> {
+  return {
+    merchant_id: m.merchant_id,
+    status: m.status,
+    kyc_level: m.kyc_level,
+    kyc_status: m.kyc_status ?? 'NOT_SUBMITTED',
+    requested_level: m.kyc_requested_level ?? null,
+    submitted_at: m.kyc_submitted_at ?? null,
+    submitted_by: m.kyc_submitted_by ?? null,
+    reviewed_at: m.kyc_reviewed_at ?? null,
+    reviewed_by: m.kyc_reviewed_by ?? null,
+    rejection_reason: m.kyc_rejection_reason ?? null,
+  };
+}
+
+/**
+ * POST /v1/merchants/{id}/kyc/documents {document_type, content_type} — a presigned PUT
+ * for one identity document (Ghana Card front/back, selfie, business registration). The
+ * field agent's device uploads straight to S3 with the same Content-Type; nothing is
+ * checked until the merchant is submitted for review.
+ */
+const requestUpload = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const body = parseBody<{ document_type?: string; content_type?: string }>(event.body);
+    if (!isDocumentType(body.document_type)) {
+      return apiError(
+        400,
+        'INVALID_DOCUMENT_TYPE',
+        `document_type must be one of ${DOCUMENT_TYPES.join(', ')}`
+      );
+    }
+    const contentType = requireString(body.content_type, 'content_type');
+    if (!CONTENT_TYPES[contentType]) {
+      return apiError(
+        400,
+        'INVALID_CONTENT_TYPE',
+        `content_type must be one of ${Object.keys(CONTENT_TYPES).join(', ')}`
+      );
+    }
+
+    const merchant = await getMerchant(id);
+    if (!merchant) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+    if (merchant.status === 'CLOSED') {
+      return apiError(409, 'MERCHANT_CLOSED', 'A closed merchant cannot be verified');
+    }
+    if (merchant.kyc_status === 'SUBMITTED') {
+      return apiError(409, 'KYC_UNDER_REVIEW', 'Wait for the review before uploading more');
+    }
+
+    const doc = await createDocument({
+      merchantId: id,
+      documentType: body.document_type,
+      contentType,
+      requestedBy: actorOf(event),
+    });
+    const uploadUrl = await getSignedUrl(
+      s3,
+      new PutObjectCommand({ Bucket: BUCKET(), Key: doc.s3_key, ContentType: contentType }),
+      { expiresIn: UPLOAD_URL_TTL_SECONDS }
+    );
+    return ok(
+      {
+        document_id: doc.document_id,
+        document_type: doc.document_type,
+        upload_url: uploadUrl,
+        upload_method: 'PUT',
+        upload_headers: { 'Content-Type': contentType },
+        expires_in_seconds: UPLOAD_URL_TTL_SECONDS,
+      },
+      201
+    );
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+export const uploadHandler = audited(
+  kycChange('merchant.kyc_document', (res) => ({
+    document_id: res.document_id,
+    document_type: res.document_type,
+  })),
+  requestUpload
+);
+
+/** Size of the uploaded object, or undefined when nothing was uploaded to its URL. */
+async function uploadedBytes(doc: KycDocument): Promise<number | undefined> {
+  try {
+    const head = await s3.send(new HeadObjectCommand({ Bucket: BUCKET(), Key: doc.s3_key }));
+    return head.ContentLength ?? 0;
+  } catch (err) {
+    const name = (err as { name?: string }).name;
+    if (name === 'NotFound' || name === 'NoSuchKey') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * POST /v1/merchants/{id}/kyc/submit {level} — put the merchant up for review at BASIC or
+ * FULL. The newest uploaded document of each type the level requires goes into the
+ * submission; a missing or oversized one is a 409 naming it.
+ */
+const submit = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const level = parseBody<{ level?: string }>(event.body).level;
+    if (level !== 'BASIC' && level !== 'FULL') {
+      return apiError(400, 'INVALID_LEVEL', 'level must be BASIC or FULL');
+    }
+
+    const merchant = await getMerchant(id);
+    if (!merchant) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+    if (merchant.kyc_status === 'SUBMITTED') {
+      return apiError(409, 'KYC_UNDER_REVIEW', 'The merchant is already awaiting review');
+    }
+    if (LEVEL_ORDER.indexOf(level) <= LEVEL_ORDER.indexOf(merchant.kyc_level)) {
+      return apiError(409, 'KYC_LEVEL_HELD', `The merchant is already ${merchant.kyc_level}`);
+    }
+
+    const documents = await listDocuments(id);
+    const included: string[] = [];
+    const missing: string[] = [];
+    for (const type of REQUIRED_DOCUMENTS[level]) {
+      let found: KycDocument | undefined;
+      for (const doc of documents.filter((d) => d.document_type === type)) {
+        const bytes = await uploadedBytes(doc);
+        if (bytes === undefined) continue; // URL issued, never used
+        if (bytes > MAX_DOCUMENT_BYTES) {
+          return apiError(409, 'KYC_DOCUMENT_TOO_LARGE', `${type} is over 5 MB; upload it again`, {
+            document_id: doc.document_id,
+          });
+        }
+        found = doc;
+        break;
+      }
+      if (found) included.push(found.document_id);
+      else missing.push(type);
+    }
+    if (missing.length > 0) {
+      return apiError(409, 'KYC_DOCUMENTS_MISSING', `Upload ${missing.join(', ')} first`, {
+        missing,
+      });
+    }
+
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: id, sk: 'PROFILE' },
+        UpdateExpression:
+          'SET kyc_status = :submitted, kyc_requested_level = :level, kyc_document_ids = :docs, ' +
+          'kyc_submitted_at = :now, kyc_submitted_by = :by, updated_at = :now, updated_by = :by ' +
+          'REMOVE kyc_rejection_reason, kyc_reviewed_at, kyc_reviewed_by',
+        ConditionExpression:
+          'attribute_exists(merchant_id) AND (attribute_not_exists(kyc_status) OR kyc_status <> :submitted)',
+        ExpressionAttributeValues: {
+          ':submitted': 'SUBMITTED',
+          ':level': level,
+          ':docs': included,
+          ':now': new Date().toISOString(),
+          ':by': actorOf(event),
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return ok({ ...kycView(res.Attributes as MerchantItem), document_ids: included });
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      return apiError(409, 'KYC_UNDER_REVIEW', 'The merchant is already awaiting review');
+    }
+    return handleError(err);
+  }
+};
+
+export const submitHandler = audited(kycChange('merchant.kyc_submit'), submit);
+
+/**
+ * GET /v1/merchants/{id}/kyc — the KYC state and the documents on file, each with a
+ * 5-minute view link for the reviewer. `in_submission` marks the ones under review.
+ */
+export const getHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const merchant = await getMerchant(id);
+    if (!merchant) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+    const submitted = new Set(merchant.kyc_document_ids ?? []);
+    const documents = [];
+    for (const doc of await listDocuments(id)) {
+      documents.push({
+        document_id: doc.document_id,
+        document_type: doc.document_type,
+        content_type: doc.content_type,
+        requested_at: doc.requested_at,
+        requested_by: doc.requested_by,
+        in_submission: submitted.has(doc.document_id),
+        view_url: await getSignedUrl(
+          s3,
+          new GetObjectCommand({ Bucket: BUCKET(), Key: doc.s3_key }),
+          { expiresIn: VIEW_URL_TTL_SECONDS }
+        ),
+      });
+    }
+    return ok({ ...kycView(merchant), documents });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+type Decision = { approve: true } | { approve: false; reason: string };
+
+/**
+ * Reviewer decision on an open submission. Maker-checker like refunds (concept §12.1): the
+ * operator who submitted the merchant cannot review them. Approval grants the requested
+ * level and activates a PENDING_KYC merchant; rejection leaves status and level as they
+ * were, so the field agent can upload again and resubmit.
+ */
+async function decide(
+  event: APIGatewayProxyEvent,
+  decision: Decision
+): Promise<APIGatewayProxyResult> {
+  const id = event.pathParameters?.id;
+  if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+  // Always a named reviewer: without one the self-review check below could not hold
+  const body = parseBody<{ reviewed_by?: string }>(event.body);
+  const reviewer = requireActor(event, body.reviewed_by, 'reviewed_by');
+  const merchant = await getMerchant(id);
+  if (!merchant) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+  if (merchant.kyc_status !== 'SUBMITTED' || !merchant.kyc_requested_level) {
+    return apiError(409, 'KYC_NOT_SUBMITTED', 'The merchant is not awaiting review');
+  }
+  if (reviewer === merchant.kyc_submitted_by) {
+    return apiError(403, 'SELF_REVIEW', 'KYC must be reviewed by a different operator');
+  }
+
+  const level: KycLevel = decision.approve ? merchant.kyc_requested_level : merchant.kyc_level;
+  const status = decision.approve && merchant.status === 'PENDING_KYC' ? 'ACTIVE' : merchant.status;
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: id, sk: 'PROFILE' },
+        UpdateExpression:
+          'SET kyc_status = :decided, kyc_level = :level, #status = :status, ' +
+          'kyc_rejection_reason = :reason, kyc_reviewed_at = :now, kyc_reviewed_by = :by, ' +
+          'updated_at = :now, updated_by = :by',
+        // Nobody else decided, and the status we are basing the activation on still holds
+        ConditionExpression: 'kyc_status = :submitted AND #status = :seen',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':decided': decision.approve ? 'APPROVED' : 'REJECTED',
+          ':level': level,
+          ':status': status,
+          ':reason': decision.approve ? null : decision.reason,
+          ':now': new Date().toISOString(),
+          ':by': reviewer,
+          ':submitted': 'SUBMITTED',
+          ':seen': merchant.status,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return ok(kycView(res.Attributes as MerchantItem));
+  } catch (err) {
+    if (isConditionFailure(err)) {
+      return apiError(409, 'KYC_NOT_SUBMITTED', 'The submission changed; reload and retry');
+    }
+    throw err;
+  }
+}
+
+/** POST /v1/merchants/{id}/kyc/approve — grant the requested level (reviewer). */
+const approve = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    return await decide(event, { approve: true });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+export const approveHandler = audited(kycChange('merchant.kyc_approve'), approve);
+
+/** POST /v1/merchants/{id}/kyc/reject {reason} — send the submission back (reviewer). */
+const reject = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const reason = requireString(parseBody<{ reason?: string }>(event.body).reason, 'reason');
+    return await decide(event, { approve: false, reason });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+export const rejectHandler = audited(kycChange('merchant.kyc_reject'), reject);
+
+/** GET /v1/kyc/reviews — merchants awaiting review, oldest submission first (scan; PoC scale). */
+export const queueHandler = async (): Promise<APIGatewayProxyResult> => {
+  try {
+    const items: MerchantItem[] = [];
+    let startKey: Record<string, unknown> | undefined;
+    do {
+      const res = await ddb.send(
+        new ScanCommand({
+          TableName: TABLE(),
+          FilterExpression: 'sk = :profile AND kyc_status = :submitted',
+          ExpressionAttributeValues: { ':profile': 'PROFILE', ':submitted': 'SUBMITTED' },
+          ExclusiveStartKey: startKey,
+        })
+      );
+      items.push(...((res.Items ?? []) as MerchantItem[]));
+      startKey = res.LastEvaluatedKey;
+    } while (startKey);
+    return ok({
+      reviews: items
+        .sort((a, b) => (a.kyc_submitted_at ?? '').localeCompare(b.kyc_submitted_at ?? ''))
+        .map((m) => ({ ...kycView(m), display_name: m.display_name })),
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
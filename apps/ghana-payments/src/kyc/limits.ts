@@ -0,0 +1,52 @@
+import type { MerchantItem } from '../merchants/store.js';
+import { paymentsCreatedSince } from '../payments/ledger.js';
+import type { KycLimit } from '../shared/config.js';
+import type { KycLevel, PaymentStatus } from '../shared/types.js';
+
+// Money that was (or may still be) collected; failed, expired, reversed and blocked
+// payments never were
+const COUNTED: PaymentStatus[] = ['INITIATED', 'PENDING', 'SUCCESS', 'REFUNDED', 'HELD'];
+
+export interface LimitProblem {
+  limit: 'PER_PAYMENT' | 'DAILY';
+  kyc_level: KycLevel;
+  limit_pesewas: number;
+  /** Already collected today (DAILY only). */
+  collected_pesewas?: number;
+}
+
+/** The merchant's KYC level; profiles from before KYC carry none and count as NONE. */
+export const kycLevelOf = (merchant: Pick<MerchantItem, 'kyc_level'>): KycLevel =>
+  merchant.kyc_level ?? 'NONE';
+
+/**
+ * Would this payment take the merchant past what their KYC level allows — per payment, or
+ * across today's (UTC) payments? Undefined when it is within both. The daily sum is read,
+ * not reserved: two payments racing at the ceiling can both pass, which the limit (a
+ * compliance ceiling, not a balance) tolerates.
+ */
+export async function collectionLimitProblem(
+  merchant: Pick<MerchantItem, 'merchant_id' | 'kyc_level'>,
+  amountPesewas: number,
+  limits: Record<KycLevel, KycLimit>,
+  now: Date = new Date()
+): Promise<LimitProblem | undefined> {
+  const level = kycLevelOf(merchant);
+  const limit = limits[level];
+  if (amountPesewas > limit.perPaymentPesewas) {
+    return { limit: 'PER_PAYMENT', kyc_level: level, limit_pesewas: limit.perPaymentPesewas };
+  }
+  const today = `${now.toISOString().slice(0, 10)}T00:00:00.000Z`;
+  const collected = (await paymentsCreatedSince(merchant.merchant_id, today))
+    .filter((p) => COUNTED.includes(p.status))
+    .reduce((sum, p) => sum + p.amount_pesewas, 0);
+  if (collected + amountPesewas > limit.dailyPesewas) {
+    return {
+      limit: 'DAILY',
+      kyc_level: level,
+      limit_pesewas: limit.dailyPesewas,
+      collected_pesewas: collected,
+    };
+  }
+  return undefined;
+}
@@ -0,0 +1,85 @@
+import { PutCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'node:crypto';
+import { ddb } from '../shared/clients.js';
+import type { KycLevel } from '../shared/types.js';
+
+const TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
+
+export const DOCUMENT_TYPES = [
+  'GHANA_CARD_FRONT',
+  'GHANA_CARD_BACK',
+  'SELFIE',
+  'BUSINESS_REGISTRATION',
+] as const;
+export type KycDocumentType = (typeof DOCUMENT_TYPES)[number];
+
+export const isDocumentType = (value: unknown): value is KycDocumentType =>
+  DOCUMENT_TYPES.includes(value as KycDocumentType);
+
+/** What a submission for each level must include. */
+export const REQUIRED_DOCUMENTS: Record<Exclude<KycLevel, 'NONE'>, KycDocumentType[]> = {
+  BASIC: ['GHANA_CARD_FRONT', 'GHANA_CARD_BACK', 'SELFIE'],
+  FULL: ['GHANA_CARD_FRONT', 'GHANA_CARD_BACK', 'SELFIE', 'BUSINESS_REGISTRATION'],
+};
+
+export const LEVEL_ORDER: KycLevel[] = ['NONE', 'BASIC', 'FULL'];
+
+/** Accepted uploads and the file extension each is stored under. */
+export const CONTENT_TYPES: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'application/pdf': 'pdf',
+};
+
+/**
+ * One uploaded (or about-to-be-uploaded) identity document, stored under the merchant's
+ * partition as `KYCDOC#{document_id}`. The image itself is in the KYC documents bucket
+ * at `s3_key`; a re-upload of the same type is a new document, and the submission names
+ * the ones the reviewer sees.
+ */
+export interface KycDocument {
+  merchant_id: string;
+  sk: `KYCDOC#${string}`;
+  document_id: string;
+  document_type: KycDocumentType;
+  content_type: string;
+  s3_key: string;
+  requested_at: string;
+  /** Field agent who asked for the upload URL. */
+  requested_by: string | null;
+}
+
+export async function createDocument(input: {
+  merchantId: string;
+  documentType: KycDocumentType;
+  contentType: string;
+  requestedBy: string | null;
+}): Promise<KycDocument> {
+  const documentId = `kyd_${randomUUID().slice(0, 12)}`;
+  const doc: KycDocument = {
+    merchant_id: input.merchantId,
+    sk: `KYCDOC#${documentId}`,
+    document_id: documentId,
+    document_type: input.documentType,
+    content_type: input.contentType,
+    s3_key: `kyc/${input.merchantId}/${documentId}.${CONTENT_TYPES[input.contentType]}`,
+    requested_at: new Date().toISOString(),
+    requested_by: input.requestedBy,
+  };
+  await ddb.send(new PutCommand({ TableName: TABLE(), Item: doc }));
+  return doc;
+}
+
+/** The merchant's documents, newest first. */
+export async function listDocuments(merchantId: string): Promise<KycDocument[]> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: TABLE(),
+      KeyConditionExpression: 'merchant_id = :m AND begins_with(sk, :doc)',
+      ExpressionAttributeValues: { ':m': merchantId, ':doc': 'KYCDOC#' },
+    })
+  );
+  return ((res.Items ?? []) as KycDocument[]).sort((a, b) =>
+    b.requested_at.localeCompare(a.requested_at)
+  );
+}
@@ -0,0 +1,122 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { statusHandler, updateHandler } from './handlers.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.MERCHANTS_TABLE = 'test-merchants';
+process.env.AUDIT_TABLE = 'test-audit';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string; message: string };
+}
+
+const patch = (body: unknown): Promise<{ statusCode: number; body: string }> =>
+  updateHandler({
+    pathParameters: { id: 'mer_1' },
+    body: JSON.stringify(body),
+    requestContext: { requestId: 'req-1', authorizer: { actor: 'efua', roles: 'SUPPORT' } },
+  } as unknown as APIGatewayProxyEvent);
+
+beforeEach(() => {
+  ddbMock.reset();
+  ddbMock.on(GetCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+});
+
+describe('PATCH /v1/merchants/{id}', () => {
+  it('updates only the fields sent, with the GPS address normalised', async () => {
+    ddbMock.on(UpdateCommand).resolves({
+      Attributes: {
+        merchant_id: 'mer_1',
+        display_name: 'Ama Chop Bar',
+        business_category: 'food',
+        location: { address: 'Makola Market, stall 14', digital_address: 'GA-183-8164' },
+      },
+    });
+    const res = await patch({
+      display_name: 'Ama Chop Bar',
+      location: { address: 'Makola Market, stall 14', digital_address: 'ga-183-8164' },
+    });
+    expect(res.statusCode).toBe(200);
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.UpdateExpression).toBe(
+      'SET #display_name = :display_name, #location = :location, updated_at = :now, updated_by = :by'
+    );
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':location': { address: 'Makola Market, stall 14', digital_address: 'GA-183-8164' },
+      ':by': 'efua',
+    });
+  });
+
+  it('points status, language and wallet changes at their own routes', async () => {
+    const res = await patch({ display_name: 'Ama', wallet: '0244123456' });
+    expect(res.statusCode).toBe(400);
+    expect(parse<ErrorResponse>(res).error).toMatchObject({
+      code: 'UNSUPPORTED_FIELD',
+      message: 'wallet is changed via POST /v1/merchants/{id}/wallets',
+    });
+    expect(parse<ErrorResponse>(await patch({})).error.code).toBe('NOTHING_TO_UPDATE');
+    const badGps = await patch({ location: { address: 'Makola', digital_address: 'Accra' } });
+    expect(parse<ErrorResponse>(badGps).error.code).toBe('INVALID_FIELD');
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+
+  it('404s an unknown merchant', async () => {
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const res = await patch({ business_category: 'food' });
+    expect(res.statusCode).toBe(404);
+  });
+});
+
+describe('PATCH /v1/merchants/{id}/status', () => {
+  const setStatus = (status: string): Promise<{ statusCode: number; body: string }> =>
+    statusHandler({
+      pathParameters: { id: 'mer_1' },
+      body: JSON.stringify({ status }),
+      requestContext: { requestId: 'req-1', authorizer: { actor: 'efua', roles: 'SUPPORT' } },
+    } as unknown as APIGatewayProxyEvent);
+
+  it('cannot walk a PENDING_KYC merchant to ACTIVE by way of SUSPENDED', async () => {
+    const profile = { merchant_id: 'mer_1', sk: 'PROFILE', status: 'PENDING_KYC' };
+    ddbMock.on(GetCommand).resolves({ Item: profile });
+    ddbMock
+      .on(UpdateCommand)
+      .callsFake((input: { ExpressionAttributeValues: Record<string, string> }) => {
+        if (profile.status === input.ExpressionAttributeValues[':pendingKyc']) {
+          throw Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' });
+        }
+        profile.status = input.ExpressionAttributeValues[':status'];
+        return {};
+      });
+
+    const suspend = await setStatus('SUSPENDED');
+    expect(suspend.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(suspend).error.code).toBe('KYC_NOT_APPROVED');
+    expect((await setStatus('ACTIVE')).statusCode).toBe(409);
+    expect(profile.status).toBe('PENDING_KYC');
+
+    profile.status = 'SUSPENDED'; // an approved merchant suspended for a while
+    expect((await setStatus('ACTIVE')).statusCode).toBe(200);
+    expect(profile.status).toBe('ACTIVE');
+  });
+
+  it('400s PENDING_KYC as a target, so an ACTIVE merchant cannot be de-verified here', async () => {
+    ddbMock.on(UpdateCommand).resolves({});
+    const res = await setStatus('PENDING_KYC');
+    expect(res.statusCode).toBe(400);
+    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_STATUS');
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+});
@@ -8,58 +8,122 @@ import {
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { randomUUID } from 'node:crypto';
+import { audited, type AuditSpec } from '../audit/middleware.js';
 import { ddb } from '../shared/clients.js';
-import { apiError, handleError, ok, parseBody, requireString } from '../shared/http.js';
-import { hashPii } from '../shared/pii.js';
+import {
+  actorOf,
+  apiError,
+  BadRequestError,
+  handleError,
+  ok,
+  parseBody,
+  requireString,
+} from '../shared/http.js';
+import { hashPhone, hashPii, sealPii } from '../shared/pii.js';
+import { DEFAULT_LANGUAGE, isLanguage, LANGUAGES } from '../templates/languages.js';
+import type { MerchantItem, MerchantLocation } from './store.js';
 
 const TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
-const VALID_STATUSES = ['PENDING_KYC', 'ACTIVE', 'SUSPENDED', 'CLOSED'];
-
-interface MerchantItem {
-  merchant_id: string;
-  sk: 'PROFILE';
-  display_name: string;
-  phone_hash: string;
-  ghana_card_hash?: string;
-  business_category: string;
-  status: string;
-  kyc_level: string;
-  created_at: string;
-  status_reason?: string | null;
-  updated_at?: string;
-}
+// Targets of the status PATCH. PENDING_KYC is not one: only onboarding puts a merchant there
+const VALID_STATUSES = ['ACTIVE', 'SUSPENDED', 'CLOSED'];
+// GhanaPost GPS digital address: region + district code, then the 4-digit cell
+const DIGITAL_ADDRESS_RE = /^[A-Z]{2}-\d{3,4}-\d{4}$/;
+// Fields with their own route (and their own controls), not part of a profile PATCH
+const OWN_ROUTE: Record<string, string> = {
+  status: 'PATCH /v1/merchants/{id}/status',
+  language: 'PATCH /v1/merchants/{id}/language',
+  wallet: 'POST /v1/merchants/{id}/wallets',
+  phone: 'a new onboarding (the registered phone identifies the merchant)',
+};
 
 interface CreateBody {
   display_name: string;
   phone: string;
   business_category?: string;
   ghana_card?: string;
+  language?: string;
+  location?: unknown;
 }
 
-/** POST /v1/merchants (§8.1) — PoC activates immediately (no KYC verification, D9). */
-export const createHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+/** `location` from a request body: an address, optionally the region and GPS code. */
+function parseLocation(value: unknown): MerchantLocation {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new BadRequestError('INVALID_FIELD', 'location must be an object with an address');
+  }
+  const raw = value as Record<string, unknown>;
+  const location: MerchantLocation = { address: requireString(raw.address, 'location.address') };
+  if (raw.region !== undefined) location.region = requireString(raw.region, 'location.region');
+  if (raw.digital_address !== undefined) {
+    const code = requireString(raw.digital_address, 'location.digital_address').toUpperCase();
+    if (!DIGITAL_ADDRESS_RE.test(code)) {
+      throw new BadRequestError(
+        'INVALID_FIELD',
+        'location.digital_address must be a GhanaPost GPS address, e.g. GA-183-8164'
+      );
+    }
+    location.digital_address = code;
+  }
+  return location;
+}
+
+const invalidLanguage = (): APIGatewayProxyResult =>
+  apiError(400, 'INVALID_LANGUAGE', `language must be one of ${LANGUAGES.join(', ')}`);
+
+/** Audit the merchant profile named by the path, or the one the response created. */
+const merchantChange = (action: string, created?: string): AuditSpec => ({
+  action,
+  targetType: 'MERCHANT',
+  ...(created ? { created } : { param: 'id' }),
+  table: TABLE,
+  key: (id) => ({ merchant_id: id, sk: 'PROFILE' }),
+});
+
+/**
+ * POST /v1/merchants (§8.1) — the merchant starts PENDING_KYC and cannot take payments
+ * until a reviewer approves their documents (kyc/handlers.ts), which activates them.
+ */
+const createMerchant = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const body = parseBody<CreateBody>(event.body);
+    const language = body.language ?? DEFAULT_LANGUAGE;
+    if (!isLanguage(language)) return invalidLanguage();
+    const phone = requireString(body.phone, 'phone');
     const item = {
       merchant_id: `mer_${randomUUID().slice(0, 12)}`,
       sk: 'PROFILE',
       display_name: requireString(body.display_name, 'display_name'),
-      phone_hash: hashPii(requireString(body.phone, 'phone')),
+      phone_hash: hashPhone(phone),
+      phone_sealed: await sealPii(phone),
       business_category: body.business_category ?? 'general',
       ...(body.ghana_card ? { ghana_card_hash: hashPii(body.ghana_card) } : {}),
-      status: 'ACTIVE',
+      ...(body.location !== undefined ? { location: parseLocation(body.location) } : {}),
+      status: 'PENDING_KYC',
       kyc_level: 'NONE',
+      kyc_status: 'NOT_SUBMITTED',
+      language,
       created_at: new Date().toISOString(),
+      created_by: actorOf(event),
     };
     await ddb.send(new PutCommand({ TableName: TABLE(), Item: item }));
-    return ok({ merchant_id: item.merchant_id, display_name: item.display_name, status: item.status }, 201);
+    return ok(
+      {
+        merchant_id: item.merchant_id,
+        display_name: item.display_name,
+        status: item.status,
+        language: item.language,
+      },
+      201
+    );
   } catch (err) {
     return handleError(err);
   }
 };
 
+export const createHandler = audited(
+  merchantChange('merchant.create', 'merchant_id'),
+  createMerchant
+);
+
 /** GET /v1/merchants — list for the merchant portal (PoC+; scan is fine at PoC scale). */
 export const listHandler = async (): Promise<APIGatewayProxyResult> => {
   try {
@@ -75,6 +139,7 @@ export const listHandler = async (): Promise<APIGatewayProxyResult> => {
       display_name: m.display_name,
       business_category: m.business_category,
       status: m.status,
+      language: m.language ?? DEFAULT_LANGUAGE,
       created_at: m.created_at,
     }));
     return ok({ merchants });
@@ -98,8 +163,11 @@ export const getHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewa
       merchant_id: m.merchant_id,
       display_name: m.display_name,
       business_category: m.business_category,
+      location: m.location ?? null,
       status: m.status,
       kyc_level: m.kyc_level,
+      kyc_status: m.kyc_status ?? 'NOT_SUBMITTED',
+      language: m.language ?? DEFAULT_LANGUAGE,
       created_at: m.created_at,
     });
   } catch (err) {
@@ -107,15 +175,80 @@ export const getHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewa
   }
 };
 
+/**
+ * PATCH /v1/merchants/{id} (§8.1) — edit the profile: display_name, business_category,
+ * location. Status, language and payout wallets have their own routes; sending them here
+ * is a 400 naming the right one, never a silent ignore.
+ */
+const updateProfile = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const body = parseBody<Record<string, unknown>>(event.body);
+    for (const field of Object.keys(body)) {
+      if (OWN_ROUTE[field]) {
+        return apiError(400, 'UNSUPPORTED_FIELD', `${field} is changed via ${OWN_ROUTE[field]}`);
+      }
+    }
+
+    const set: Record<string, unknown> = {};
+    if (body.display_name !== undefined) {
+      set.display_name = requireString(body.display_name, 'display_name');
+    }
+    if (body.business_category !== undefined) {
+      set.business_category = requireString(body.business_category, 'business_category');
+    }
+    if (body.location !== undefined) set.location = parseLocation(body.location);
+    if (Object.keys(set).length === 0) {
+      return apiError(
+        400,
+        'NOTHING_TO_UPDATE',
+        'send at least one of display_name, business_category, location'
+      );
+    }
+
+    const names = Object.fromEntries(Object.keys(set).map((f) => [`#${f}`, f]));
+    const assignments = Object.keys(set).map((f) => `#${f} = :${f}`);
+    const values = Object.fromEntries(Object.entries(set).map(([f, v]) => [`:${f}`, v]));
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: id, sk: 'PROFILE' },
+        UpdateExpression: `SET ${[...assignments, 'updated_at = :now', 'updated_by = :by'].join(', ')}`,
+        ConditionExpression: 'attribute_exists(merchant_id)',
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: {
+          ...values,
+          ':now': new Date().toISOString(),
+          ':by': actorOf(event),
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    const m = res.Attributes as MerchantItem;
+    return ok({
+      merchant_id: m.merchant_id,
+      display_name: m.display_name,
+      business_category: m.business_category,
+      location: m.location ?? null,
+    });
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+    }
+    return handleError(err);
+  }
+};
+
+export const updateHandler = audited(merchantChange('merchant.update'), updateProfile);
+
 /**
  * DELETE /v1/merchants/{id} — remove for real (admin): deactivates the merchant's
  * QR badges (a scanned old badge then correctly resolves 410 "no longer active"),
  * then deletes all the merchant's items. Payment history stays in the ledger;
  * paired devices remain and can be removed separately.
  */
-export const deleteHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const deleteMerchant = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const id = event.pathParameters?.id;
     if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
@@ -137,9 +270,13 @@ export const deleteHandler = async (
         new UpdateCommand({
           TableName: process.env.QR_CODES_TABLE,
           Key: { qr_id: qr.qr_id },
-          UpdateExpression: 'SET #status = :inactive, updated_at = :now',
+          UpdateExpression: 'SET #status = :inactive, updated_at = :now, updated_by = :by',
           ExpressionAttributeNames: { '#status': 'status' },
-          ExpressionAttributeValues: { ':inactive': 'INACTIVE', ':now': new Date().toISOString() },
+          ExpressionAttributeValues: {
+            ':inactive': 'INACTIVE',
+            ':now': new Date().toISOString(),
+            ':by': actorOf(event),
+          },
         })
       );
     }
@@ -162,10 +299,20 @@ export const deleteHandler = async (
   }
 };
 
-/** PATCH /v1/merchants/{id}/status — suspend = soft remove (§8.1). */
-export const statusHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+export const deleteHandler = audited(
+  {
+    ...merchantChange('merchant.delete'),
+    details: (res) => ({ qrs_deactivated: res.qrs_deactivated }),
+  },
+  deleteMerchant
+);
+
+/**
+ * PATCH /v1/merchants/{id}/status — suspend = soft remove (§8.1). A PENDING_KYC merchant
+ * leaves PENDING_KYC by KYC approval only, never by this route: a stop at SUSPENDED on the
+ * way would otherwise let it be activated unreviewed.
+ */
+const setStatus = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const id = event.pathParameters?.id;
     if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
@@ -173,21 +320,66 @@ export const statusHandler = async (
     if (!VALID_STATUSES.includes(body.status)) {
       return apiError(400, 'INVALID_STATUS', `status must be one of ${VALID_STATUSES.join(', ')}`);
     }
+    try {
+      await ddb.send(
+        new UpdateCommand({
+          TableName: TABLE(),
+          Key: { merchant_id: id, sk: 'PROFILE' },
+          UpdateExpression:
+            'SET #status = :status, status_reason = :reason, updated_at = :now, updated_by = :by',
+          ConditionExpression: 'attribute_exists(merchant_id) AND #status <> :pendingKyc',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':status': body.status,
+            ':reason': body.reason ?? null,
+            ':now': new Date().toISOString(),
+            ':by': actorOf(event),
+            ':pendingKyc': 'PENDING_KYC',
+          },
+        })
+      );
+    } catch (err) {
+      if ((err as { name?: string }).name !== 'ConditionalCheckFailedException') throw err;
+      const existing = await ddb.send(
+        new GetCommand({ TableName: TABLE(), Key: { merchant_id: id, sk: 'PROFILE' } })
+      );
+      if (!existing.Item) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+      return apiError(
+        409,
+        'KYC_NOT_APPROVED',
+        'A PENDING_KYC merchant changes status through KYC approval'
+      );
+    }
+    return ok({ merchant_id: id, status: body.status });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+export const statusHandler = audited(merchantChange('merchant.status'), setStatus);
+
+/** PATCH /v1/merchants/{id}/language — soundbox announcements + SMS confirmations (§15). */
+const setLanguage = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const body = parseBody<{ language: string }>(event.body);
+    if (!isLanguage(body.language)) return invalidLanguage();
     await ddb.send(
       new UpdateCommand({
         TableName: TABLE(),
         Key: { merchant_id: id, sk: 'PROFILE' },
-        UpdateExpression: 'SET #status = :status, status_reason = :reason, updated_at = :now',
+        UpdateExpression: 'SET #language = :language, updated_at = :now, updated_by = :by',
         ConditionExpression: 'attribute_exists(merchant_id)',
-        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeNames: { '#language': 'language' },
         ExpressionAttributeValues: {
-          ':status': body.status,
-          ':reason': body.reason ?? null,
+          ':language': body.language,
           ':now': new Date().toISOString(),
+          ':by': actorOf(event),
         },
       })
     );
-    return ok({ merchant_id: id, status: body.status });
+    return ok({ merchant_id: id, language: body.language });
   } catch (err) {
     if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
       return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
@@ -195,3 +387,5 @@ export const statusHandler = async (
     return handleError(err);
   }
 };
+
+export const languageHandler = audited(merchantChange('merchant.language'), setLanguage);
@@ -0,0 +1,120 @@
+import { GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import type { KycLevel, KycStatus, PaymentProvider } from '../shared/types.js';
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from '../templates/languages.js';
+
+const TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
+
+/** Where the vendor trades. `digital_address` is the GhanaPost GPS code, e.g. GA-183-8164. */
+export interface MerchantLocation {
+  address: string;
+  region?: string;
+  digital_address?: string;
+}
+
+export interface MerchantItem {
+  merchant_id: string;
+  sk: 'PROFILE';
+  display_name: string;
+  phone_hash: string;
+  /** sealPii(phone) — for vendor SMS confirmations; never returned by the API. */
+  phone_sealed?: string;
+  ghana_card_hash?: string;
+  business_category: string;
+  location?: MerchantLocation;
+  status: string;
+  kyc_level: KycLevel;
+  /** KYC review (kyc/); absent on profiles created before it = NOT_SUBMITTED. */
+  kyc_status?: KycStatus;
+  /** The level the open or last submission asked for, and the documents it included. */
+  kyc_requested_level?: KycLevel;
+  kyc_document_ids?: string[];
+  kyc_submitted_at?: string;
+  kyc_submitted_by?: string | null;
+  kyc_reviewed_at?: string;
+  kyc_reviewed_by?: string | null;
+  kyc_rejection_reason?: string | null;
+  /** Soundbox announcements and SMS confirmations; absent on older profiles = English. */
+  language?: Language;
+  created_at: string;
+  /** Operator (Cognito username) who onboarded the merchant; null outside the operator API. */
+  created_by?: string | null;
+  status_reason?: string | null;
+  updated_at?: string;
+  /** Operator behind the last profile/status/language change. */
+  updated_by?: string | null;
+}
+
+export async function getMerchant(merchantId: string): Promise<MerchantItem | undefined> {
+  const res = await ddb.send(
+    new GetCommand({ TableName: TABLE(), Key: { merchant_id: merchantId, sk: 'PROFILE' } })
+  );
+  return res.Item as MerchantItem | undefined;
+}
+
+/** The merchant's preferred announcement language; English when unset or unknown. */
+export const preferredLanguage = (merchant: MerchantItem | undefined): Language =>
+  isLanguage(merchant?.language) ? merchant.language : DEFAULT_LANGUAGE;
+
+export type WalletStatus = 'PENDING_VERIFICATION' | 'VERIFIED' | 'REVOKED';
+
+/**
+ * A payout wallet (concept §8.1 merchant_wallets), stored under the merchant's partition
+ * as `WALLET#{wallet_id}`. SIM-swap control (§12.1): a wallet is only VERIFIED after a
+ * one-time code sent to it (plus the Ghana Card on file), and payouts move to it only once
+ * `usable_from` — the end of the cooling-off window — has passed.
+ */
+export interface MerchantWallet {
+  merchant_id: string;
+  sk: `WALLET#${string}`;
+  wallet_id: string;
+  provider: PaymentProvider;
+  /** hashPhone(wallet number): the token; the raw number is never stored in the clear. */
+  wallet_number_token: string;
+  /** sealPii(wallet number) — opened only to send the code and to pay out. */
+  wallet_number_sealed: string;
+  wallet_number_last4: string;
+  account_name: string;
+  status: WalletStatus;
+  created_at: string;
+  created_by: string | null;
+  /** hashPii(`${wallet_id}:${code}`) of the outstanding code; removed once verified. */
+  otp_hash?: string;
+  otp_expires_at?: string;
+  otp_attempts?: number;
+  verified_at?: string;
+  verified_by?: string | null;
+  usable_from?: string;
+  revoked_at?: string;
+  revoked_by?: string | null;
+  revoke_reason?: string;
+  updated_at?: string;
+  updated_by?: string | null;
+}
+
+export async function listWallets(merchantId: string): Promise<MerchantWallet[]> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: TABLE(),
+      KeyConditionExpression: 'merchant_id = :m AND begins_with(sk, :wallet)',
+      ExpressionAttributeValues: { ':m': merchantId, ':wallet': 'WALLET#' },
+    })
+  );
+  return (res.Items ?? []) as MerchantWallet[];
+}
+
+/** The wallet a payout made at `now` goes to: the latest verified one out of cooling-off. */
+export const payoutWalletOf = (
+  wallets: MerchantWallet[],
+  now: Date = new Date()
+): MerchantWallet | undefined =>
+  wallets
+    .filter((w) => w.status === 'VERIFIED' && (w.usable_from ?? '') <= now.toISOString())
+    .sort((a, b) => (b.usable_from ?? '').localeCompare(a.usable_from ?? ''))[0];
+
+export async function payoutWallet(
+  merchantId: string,
+  now: Date = new Date()
+): Promise<MerchantWallet | undefined> {
+  return payoutWalletOf(await listWallets(merchantId), now);
+}
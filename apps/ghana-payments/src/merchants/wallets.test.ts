@@ -0,0 +1,292 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { PublishCommand, SNSClient } from '@aws-sdk/client-sns';
+import { DecryptCommand, EncryptCommand, KMSClient } from '@aws-sdk/client-kms';
+import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { hashPhone, hashPii } from '../shared/pii.js';
+import { addHandler, listHandler, revokeHandler, verifyHandler } from './wallets.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const snsMock = mockClient(SNSClient);
+const kmsMock = mockClient(KMSClient);
+const ssmMock = mockClient(SSMClient);
+
+process.env.MERCHANTS_TABLE = 'test-merchants';
+process.env.AUDIT_TABLE = 'test-audit';
+process.env.STAGE = 'dev';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface WalletView {
+  wallet_id: string;
+  wallet_number: string;
+  status: string;
+  usable_from: string | null;
+  in_cooling_off: boolean;
+}
+interface ErrorResponse {
+  error: { code: string; details?: { attempts_left: number } };
+}
+
+const HOUR = 3_600_000;
+
+const merchant = {
+  merchant_id: 'mer_1',
+  sk: 'PROFILE',
+  display_name: 'Ama Fruits',
+  phone_hash: 'merchanthash',
+  phone_sealed: Buffer.from('0201111111').toString('base64'),
+  ghana_card_hash: hashPii('GHA-123456789-0'),
+  status: 'ACTIVE',
+};
+
+const wallet = (overrides: Record<string, unknown> = {}) => ({
+  merchant_id: 'mer_1',
+  sk: 'WALLET#mwl_1',
+  wallet_id: 'mwl_1',
+  provider: 'MTN_MOMO',
+  wallet_number_token: hashPhone('+233244123456'),
+  wallet_number_sealed: 'sealed',
+  wallet_number_last4: '3456',
+  account_name: 'Ama Mensah',
+  status: 'PENDING_VERIFICATION',
+  created_at: '2026-03-01T09:00:00.000Z',
+  created_by: 'kojo',
+  otp_hash: hashPii('mwl_1:123456'),
+  otp_expires_at: new Date(Date.now() + 5 * 60_000).toISOString(),
+  otp_attempts: 0,
+  ...overrides,
+});
+
+const request = (body: unknown, walletId?: string): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id: 'mer_1', ...(walletId ? { walletId } : {}) },
+    body: JSON.stringify(body),
+    requestContext: { requestId: 'req-1', authorizer: { actor: 'kojo', roles: 'FIELD_AGENT' } },
+  }) as unknown as APIGatewayProxyEvent;
+
+const sent = () =>
+  snsMock.commandCalls(PublishCommand).map((c) => ({
+    to: c.args[0].input.PhoneNumber,
+    text: c.args[0].input.Message ?? '',
+  }));
+const walletUpdates = () =>
+  ddbMock
+    .commandCalls(UpdateCommand)
+    .map((c) => c.args[0].input)
+    .filter((input) => input.TableName === 'test-merchants');
+
+beforeEach(() => {
+  ddbMock.reset();
+  snsMock.reset();
+  kmsMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  ssmMock.on(GetParametersByPathCommand).resolves({ Parameters: [] });
+  ddbMock.on(GetCommand).resolves({});
+  ddbMock.on(GetCommand, { Key: { sk: 'PROFILE' } }).resolves({ Item: merchant });
+  ddbMock.on(GetCommand, { Key: { sk: 'WALLET#mwl_1' } }).resolves({ Item: wallet() });
+  ddbMock.on(QueryCommand).resolves({ Items: [] });
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({});
+  // Test "KMS": the sealed value is just base64 of the plaintext
+  kmsMock.on(EncryptCommand).callsFake((input: { Plaintext: Uint8Array }) => ({
+    CiphertextBlob: Buffer.from(Buffer.from(input.Plaintext).toString('base64')),
+  }));
+  kmsMock.on(DecryptCommand).callsFake((input: { CiphertextBlob: Uint8Array }) => ({
+    Plaintext: input.CiphertextBlob,
+  }));
+  snsMock.on(PublishCommand).resolves({ MessageId: 'sns-1' });
+});
+
+describe('POST /v1/merchants/{id}/wallets', () => {
+  const add = () =>
+    addHandler(
+      request({ provider: 'MTN_MOMO', wallet_number: '024 412 3456', account_name: 'Ama Mensah' })
+    );
+
+  it('starts pending: code to the new wallet, alert to the registered phone, number only sealed', async () => {
+    const res = await add();
+    expect(res.statusCode).toBe(201);
+    expect(parse<WalletView>(res)).toMatchObject({
+      status: 'PENDING_VERIFICATION',
+      wallet_number: '******3456',
+      usable_from: null,
+    });
+
+    const [code, alert] = sent();
+    expect(code.to).toBe('+233244123456');
+    expect(code.text).toMatch(/\b\d{6}\b/);
+    expect(alert.to).toBe('+233201111111');
+    expect(alert.text).toContain('ending 3456');
+    expect(alert.text).toContain('48 hours');
+
+    const [put] = ddbMock.commandCalls(PutCommand).map((c) => c.args[0].input);
+    expect(put.Item).toMatchObject({ wallet_number_token: hashPhone('+233244123456') });
+    // Neither the number nor the code is stored in the clear
+    const stored = JSON.stringify(ddbMock.calls().map((c) => c.args[0].input));
+    expect(stored).not.toContain('244123456');
+    expect(stored).not.toContain(/\b(\d{6})\b/.exec(code.text)?.[1]);
+  });
+
+  it('a pending number gets a fresh code on the same wallet; a verified one is a 409', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [wallet()] });
+    const again = await add();
+    expect(again.statusCode).toBe(200);
+    expect(parse<WalletView>(again).wallet_id).toBe('mwl_1');
+
+    ddbMock.on(QueryCommand).resolves({ Items: [wallet({ status: 'VERIFIED' })] });
+    const verified = await add();
+    expect(verified.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(verified).error.code).toBe('WALLET_EXISTS');
+  });
+
+  it('400s a provider that is not a wallet, and a non-Ghana number', async () => {
+    const scheme = await addHandler(
+      request({ provider: 'GHIPSS_GHQR', wallet_number: '0244123456', account_name: 'Ama' })
+    );
+    expect(parse<ErrorResponse>(scheme).error.code).toBe('INVALID_PROVIDER');
+    const foreign = await addHandler(
+      request({ provider: 'MTN_MOMO', wallet_number: '+44 7700 900123', account_name: 'Ama' })
+    );
+    expect(foreign.statusCode).toBe(400);
+    expect(sent()).toHaveLength(0);
+  });
+});
+
+describe('POST /v1/merchants/{id}/wallets/{walletId}/verify', () => {
+  it('the code and the Ghana Card on file verify it into the cooling-off window', async () => {
+    ddbMock
+      .on(UpdateCommand)
+      .callsFake((input: { ExpressionAttributeValues: Record<string, string> }) => ({
+        Attributes: wallet({
+          status: 'VERIFIED',
+          usable_from: input.ExpressionAttributeValues[':usable'],
+        }),
+      }));
+    const res = await verifyHandler(
+      request({ code: '123456', ghana_card: 'GHA-123456789-0' }, 'mwl_1')
+    );
+    expect(res.statusCode).toBe(200);
+    const body = parse<WalletView>(res);
+    expect(body).toMatchObject({ status: 'VERIFIED', in_cooling_off: true });
+    const coolingOff = new Date(body.usable_from as string).getTime() - Date.now();
+    expect(coolingOff).toBeGreaterThan(47 * HOUR);
+    expect(coolingOff).toBeLessThanOrEqual(48 * HOUR);
+    expect(walletUpdates().map((u) => u.ConditionExpression)).toEqual([
+      'attribute_not_exists(otp_attempts) OR otp_attempts < :max',
+      '#status = :pending AND otp_hash = :hash',
+    ]);
+  });
+
+  it('a wrong code or a missing Ghana Card is a 403 that uses up an attempt', async () => {
+    ddbMock
+      .on(UpdateCommand)
+      .resolvesOnce({ Attributes: { otp_attempts: 1 } })
+      .resolvesOnce({ Attributes: { otp_attempts: 2 } });
+    const wrong = await verifyHandler(
+      request({ code: '654321', ghana_card: 'GHA-123456789-0' }, 'mwl_1')
+    );
+    expect(wrong.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(wrong).error).toMatchObject({
+      code: 'INVALID_CODE',
+      details: { attempts_left: 4 },
+    });
+    const noCard = await verifyHandler(request({ code: '123456' }, 'mwl_1'));
+    expect(parse<ErrorResponse>(noCard).error).toMatchObject({
+      code: 'STEP_UP_FAILED',
+      details: { attempts_left: 3 },
+    });
+    expect(walletUpdates().map((u) => u.UpdateExpression)).toEqual([
+      'ADD otp_attempts :one',
+      'ADD otp_attempts :one',
+    ]);
+  });
+
+  it('refuses an expired code and a wallet locked by wrong codes', async () => {
+    ddbMock
+      .on(GetCommand, { Key: { sk: 'WALLET#mwl_1' } })
+      .resolves({ Item: wallet({ otp_expires_at: '2026-01-01T00:00:00.000Z' }) });
+    const expired = await verifyHandler(
+      request({ code: '123456', ghana_card: 'GHA-123456789-0' }, 'mwl_1')
+    );
+    expect(parse<ErrorResponse>(expired).error.code).toBe('CODE_EXPIRED');
+
+    ddbMock
+      .on(GetCommand, { Key: { sk: 'WALLET#mwl_1' } })
+      .resolves({ Item: wallet({ otp_attempts: 5 }) });
+    const locked = await verifyHandler(
+      request({ code: '123456', ghana_card: 'GHA-123456789-0' }, 'mwl_1')
+    );
+    expect(parse<ErrorResponse>(locked).error.code).toBe('TOO_MANY_ATTEMPTS');
+    expect(walletUpdates()).toHaveLength(0);
+  });
+
+  it('holds the limit against parallel guesses that all read the same count', async () => {
+    let used = 0;
+    ddbMock.on(UpdateCommand).callsFake(() => {
+      if (used >= 5) {
+        throw Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' });
+      }
+      used += 1;
+      return { Attributes: { otp_attempts: used } };
+    });
+    const guesses = await Promise.all(
+      ['111111', '222222', '333333', '444444', '555555', '123456'].map((code) =>
+        verifyHandler(request({ code, ghana_card: 'GHA-123456789-0' }, 'mwl_1'))
+      )
+    );
+    expect(guesses.map((res) => res.statusCode)).toEqual([403, 403, 403, 403, 403, 409]);
+    expect(parse<ErrorResponse>(guesses[5]).error.code).toBe('TOO_MANY_ATTEMPTS');
+    expect(walletUpdates().filter((u) => u.UpdateExpression?.startsWith('SET'))).toHaveLength(0);
+  });
+});
+
+describe('GET /v1/merchants/{id}/wallets and revoke', () => {
+  it('payouts stay on the previous wallet while the new one cools off', async () => {
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        wallet({
+          wallet_id: 'mwl_old',
+          status: 'VERIFIED',
+          usable_from: new Date(Date.now() - 200 * HOUR).toISOString(),
+        }),
+        wallet({
+          status: 'VERIFIED',
+          created_at: new Date().toISOString(),
+          usable_from: new Date(Date.now() + 47 * HOUR).toISOString(),
+        }),
+      ],
+    });
+    const body = parse<{ payout_wallet_id: string; wallets: WalletView[] }>(
+      await listHandler(request(null))
+    );
+    expect(body.payout_wallet_id).toBe('mwl_old');
+    expect(body.wallets.map((w) => [w.wallet_id, w.in_cooling_off])).toEqual([
+      ['mwl_1', true],
+      ['mwl_old', false],
+    ]);
+    expect(JSON.stringify(body)).not.toContain('otp');
+  });
+
+  it('revoking needs a reason and 409s a wallet already revoked', async () => {
+    const noReason = await revokeHandler(request({}, 'mwl_1'));
+    expect(noReason.statusCode).toBe(400);
+
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const again = await revokeHandler(request({ reason: 'vendor did not add it' }, 'mwl_1'));
+    expect(again.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(again).error.code).toBe('WALLET_NOT_REVOCABLE');
+  });
+});
@@ -0,0 +1,361 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { randomInt, randomUUID, timingSafeEqual } from 'node:crypto';
+import { audited, type AuditSpec } from '../audit/middleware.js';
+import { getSmsProvider } from '../notifications/provider.js';
+import { ddb } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import { actorOf, apiError, handleError, ok, parseBody, requireString } from '../shared/http.js';
+import { hashPhone, hashPii, openPii, sealPii, toE164 } from '../shared/pii.js';
+import type { PaymentProvider } from '../shared/types.js';
+import {
+  getMerchant,
+  listWallets,
+  payoutWalletOf,
+  type MerchantItem,
+  type MerchantWallet,
+} from './store.js';
+
+const TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
+// Wallets money can be paid out to; GhQR is a scheme, not an account
+const WALLET_PROVIDERS: PaymentProvider[] = [
+  'MTN_MOMO',
+  'TELECEL_CASH',
+  'AT_MONEY',
+  'GHANAPAY',
+  'SIMULATED',
+];
+const GHANA_MOBILE_RE = /^\+233\d{9}$/;
+const CODE_TTL_MS = 10 * 60_000;
+const MAX_CODE_ATTEMPTS = 5;
+
+/** Audit the wallet named by the path, or the one the response created. */
+const walletChange = (action: string, created?: string): AuditSpec => ({
+  action,
+  targetType: 'MERCHANT_WALLET',
+  ...(created ? { created } : { param: 'walletId' }),
+  table: TABLE,
+  key: (id, event) => ({ merchant_id: event.pathParameters?.id ?? '', sk: `WALLET#${id}` }),
+});
+
+const codeHash = (walletId: string, code: string): string => hashPii(`${walletId}:${code}`);
+
+const sameHash = (a: string, b: string): boolean =>
+  a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+/** What the API shows of a wallet: never the number, only its last four digits. */
+function view(w: MerchantWallet, now: Date): Record<string, unknown> {
+  return {
+    wallet_id: w.wallet_id,
+    provider: w.provider,
+    wallet_number: `******${w.wallet_number_last4}`,
+    account_name: w.account_name,
+    status: w.status,
+    usable_from: w.usable_from ?? null,
+    in_cooling_off: w.status === 'VERIFIED' && (w.usable_from ?? '') > now.toISOString(),
+    created_at: w.created_at,
+  };
+}
+
+async function getWallet(
+  merchantId: string,
+  walletId: string
+): Promise<MerchantWallet | undefined> {
+  const res = await ddb.send(
+    new GetCommand({
+      TableName: TABLE(),
+      Key: { merchant_id: merchantId, sk: `WALLET#${walletId}` },
+      ConsistentRead: true,
+    })
+  );
+  return res.Item as MerchantWallet | undefined;
+}
+
+/**
+ * Tell the merchant's registered phone that a payout wallet was added, so a SIM-swap
+ * fraudster's change is noticed inside the cooling-off window. Best effort: the code has
+ * already gone out, and support sees the change in the audit log either way. These
+ * security texts are English until the phrasebook has reviewed translations for them.
+ */
+async function alertMerchant(
+  merchant: MerchantItem,
+  walletPhone: string,
+  wallet: MerchantWallet,
+  coolingOffHours: number
+): Promise<void> {
+  if (!merchant.phone_sealed) return;
+  try {
+    const registered = await openPii(merchant.phone_sealed);
+    if (toE164(registered) === walletPhone) return; // the code itself already reached them
+    const cfg = await getConfig();
+    await getSmsProvider(cfg.smsProvider, cfg.smsSenderId).send(
+      registered,
+      `GhanaPay: a new ${wallet.provider} payout wallet ending ${wallet.wallet_number_last4} ` +
+        `was added to ${merchant.display_name}. Payouts move to it ${coolingOffHours} hours ` +
+        'after it is confirmed. Not you? Call GhanaPay support now.'
+    );
+  } catch (err) {
+    console.error('Wallet change alert not sent', { merchant_id: merchant.merchant_id, err });
+  }
+}
+
+/**
+ * POST /v1/merchants/{id}/wallets (§8.1) — attach a payout wallet {provider,
+ * wallet_number, account_name}. The wallet starts PENDING_VERIFICATION and a 6-digit code
+ * is sent to it by SMS; the merchant's registered phone is told a wallet was added.
+ * Adding a still-pending number again sends a fresh code.
+ */
+const addWallet = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const body = parseBody<{ provider?: string; wallet_number?: string; account_name?: string }>(
+      event.body
+    );
+    const provider = requireString(body.provider, 'provider') as PaymentProvider;
+    if (!WALLET_PROVIDERS.includes(provider)) {
+      return apiError(
+        400,
+        'INVALID_PROVIDER',
+        `provider must be one of ${WALLET_PROVIDERS.join(', ')}`
+      );
+    }
+    const phone = toE164(requireString(body.wallet_number, 'wallet_number'));
+    if (!GHANA_MOBILE_RE.test(phone)) {
+      return apiError(400, 'INVALID_FIELD', 'wallet_number must be a Ghana mobile number');
+    }
+    const accountName = requireString(body.account_name, 'account_name');
+
+    const merchant = await getMerchant(id);
+    if (!merchant) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
+    if (merchant.status === 'CLOSED') {
+      return apiError(409, 'MERCHANT_CLOSED', 'A closed merchant cannot add payout wallets');
+    }
+
+    const token = hashPhone(phone);
+    const existing = (await listWallets(id)).find(
+      (w) => w.wallet_number_token === token && w.provider === provider && w.status !== 'REVOKED'
+    );
+    if (existing?.status === 'VERIFIED') {
+      return apiError(409, 'WALLET_EXISTS', 'This wallet is already verified for the merchant');
+    }
+
+    const cfg = await getConfig();
+    const now = new Date();
+    const walletId = existing?.wallet_id ?? `mwl_${randomUUID().slice(0, 12)}`;
+    const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+    const wallet: MerchantWallet = {
+      merchant_id: id,
+      sk: `WALLET#${walletId}`,
+      wallet_id: walletId,
+      provider,
+      wallet_number_token: token,
+      wallet_number_sealed: await sealPii(phone),
+      wallet_number_last4: phone.slice(-4),
+      account_name: accountName,
+      status: 'PENDING_VERIFICATION',
+      created_at: existing?.created_at ?? now.toISOString(),
+      created_by: actorOf(event),
+      otp_hash: codeHash(walletId, code),
+      otp_expires_at: new Date(now.getTime() + CODE_TTL_MS).toISOString(),
+      otp_attempts: 0,
+    };
+    await ddb.send(
+      new PutCommand({
+        TableName: TABLE(),
+        Item: wallet,
+        // A wallet verified in the meantime is never reset to pending
+        ConditionExpression: 'attribute_not_exists(sk) OR #status = :pending',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':pending': 'PENDING_VERIFICATION' },
+      })
+    );
+    await getSmsProvider(cfg.smsProvider, cfg.smsSenderId).send(
+      phone,
+      `GhanaPay: ${code} is the code to confirm this wallet for payouts to ` +
+        `${merchant.display_name}. It expires in 10 minutes. Never share it with anyone.`
+    );
+    await alertMerchant(merchant, phone, wallet, cfg.walletCoolingOffHours);
+
+    return ok(
+      { ...view(wallet, now), code_expires_at: wallet.otp_expires_at },
+      existing ? 200 : 201
+    );
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return apiError(409, 'WALLET_EXISTS', 'This wallet is already verified for the merchant');
+    }
+    return handleError(err);
+  }
+};
+
+export const addHandler = audited(walletChange('merchant.wallet_add', 'wallet_id'), addWallet);
+
+/**
+ * Spends one code attempt, only while the wallet is under MAX_CODE_ATTEMPTS. Returns the
+ * attempts used so far, or null when the limit was already reached.
+ */
+const claimAttempt = async (merchantId: string, sk: string): Promise<number | null> => {
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: merchantId, sk },
+        UpdateExpression: 'ADD otp_attempts :one',
+        ConditionExpression: 'attribute_not_exists(otp_attempts) OR otp_attempts < :max',
+        ExpressionAttributeValues: { ':one': 1, ':max': MAX_CODE_ATTEMPTS },
+        ReturnValues: 'UPDATED_NEW',
+      })
+    );
+    return (res.Attributes?.otp_attempts as number | undefined) ?? MAX_CODE_ATTEMPTS;
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return null;
+    throw err;
+  }
+};
+
+/**
+ * POST /v1/merchants/{id}/wallets/{walletId}/verify {code, ghana_card?} — step-up
+ * verification (§12.1): the code sent to the wallet proves the SIM is in hand, and when
+ * the merchant has a Ghana Card on file it must be presented too. A verified wallet enters
+ * the cooling-off window (SSM `merchants/wallet-cooling-off-hours`); payouts keep going
+ * to the previous wallet until `usable_from`.
+ */
+const verifyWallet = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    const walletId = event.pathParameters?.walletId;
+    if (!id || !walletId) return apiError(400, 'MISSING_ID', 'merchant and wallet id required');
+    const body = parseBody<{ code?: string; ghana_card?: string }>(event.body);
+    const code = requireString(body.code, 'code');
+
+    const wallet = await getWallet(id, walletId);
+    if (!wallet) return apiError(404, 'WALLET_NOT_FOUND', 'No such wallet');
+    if (wallet.status !== 'PENDING_VERIFICATION' || !wallet.otp_hash) {
+      return apiError(409, 'WALLET_NOT_PENDING', `Wallet is ${wallet.status}`);
+    }
+    const now = new Date();
+    if ((wallet.otp_expires_at ?? '') < now.toISOString()) {
+      return apiError(409, 'CODE_EXPIRED', 'The code has expired; add the wallet again');
+    }
+    if ((wallet.otp_attempts ?? 0) >= MAX_CODE_ATTEMPTS) {
+      return apiError(409, 'TOO_MANY_ATTEMPTS', 'Too many wrong codes; add the wallet again');
+    }
+    // The attempt is spent before the code is compared, and the limit is part of that write,
+    // so parallel guesses cannot all read the same count and slip past it.
+    const attempts = await claimAttempt(id, wallet.sk);
+    if (attempts === null) {
+      return apiError(409, 'TOO_MANY_ATTEMPTS', 'Too many wrong codes; add the wallet again');
+    }
+
+    const merchant = await getMerchant(id);
+    const cardRequired = Boolean(merchant?.ghana_card_hash);
+    const cardOk =
+      !cardRequired ||
+      (typeof body.ghana_card === 'string' &&
+        sameHash(hashPii(body.ghana_card), merchant?.ghana_card_hash ?? ''));
+    if (!cardOk || !sameHash(codeHash(walletId, code), wallet.otp_hash)) {
+      return apiError(
+        403,
+        cardOk ? 'INVALID_CODE' : 'STEP_UP_FAILED',
+        cardOk
+          ? 'The code does not match'
+          : 'The Ghana Card on file must be presented with the code',
+        { attempts_left: MAX_CODE_ATTEMPTS - attempts }
+      );
+    }
+
+    const cfg = await getConfig();
+    const usableFrom = new Date(now.getTime() + cfg.walletCoolingOffHours * 3_600_000);
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: id, sk: wallet.sk },
+        UpdateExpression:
+          'SET #status = :verified, verified_at = :now, verified_by = :by, ' +
+          'usable_from = :usable, updated_at = :now, updated_by = :by ' +
+          'REMOVE otp_hash, otp_expires_at, otp_attempts',
+        ConditionExpression: '#status = :pending AND otp_hash = :hash',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':verified': 'VERIFIED',
+          ':pending': 'PENDING_VERIFICATION',
+          ':hash': wallet.otp_hash,
+          ':now': now.toISOString(),
+          ':by': actorOf(event),
+          ':usable': usableFrom.toISOString(),
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return ok(view(res.Attributes as MerchantWallet, now));
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return apiError(409, 'WALLET_NOT_PENDING', 'The wallet changed; add it again');
+    }
+    return handleError(err);
+  }
+};
+
+export const verifyHandler = audited(walletChange('merchant.wallet_verify'), verifyWallet);
+
+/**
+ * POST /v1/merchants/{id}/wallets/{walletId}/revoke {reason} — stop a wallet receiving
+ * payouts, e.g. a change the merchant did not make, caught during cooling-off. Payouts
+ * fall back to the previous verified wallet.
+ */
+const revokeWallet = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    const walletId = event.pathParameters?.walletId;
+    if (!id || !walletId) return apiError(400, 'MISSING_ID', 'merchant and wallet id required');
+    const reason = requireString(parseBody<{ reason?: string }>(event.body).reason, 'reason');
+    const now = new Date();
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: id, sk: `WALLET#${walletId}` },
+        UpdateExpression:
+          'SET #status = :revoked, revoked_at = :now, revoked_by = :by, ' +
+          'revoke_reason = :reason, updated_at = :now, updated_by = :by ' +
+          'REMOVE otp_hash, otp_expires_at, otp_attempts',
+        ConditionExpression: 'attribute_exists(sk) AND #status <> :revoked',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':revoked': 'REVOKED',
+          ':now': now.toISOString(),
+          ':by': actorOf(event),
+          ':reason': reason,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return ok(view(res.Attributes as MerchantWallet, now));
+  } catch (err) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+      return apiError(409, 'WALLET_NOT_REVOCABLE', 'No such wallet, or it is already revoked');
+    }
+    return handleError(err);
+  }
+};
+
+export const revokeHandler = audited(walletChange('merchant.wallet_revoke'), revokeWallet);
+
+/** GET /v1/merchants/{id}/wallets — masked wallets and which one payouts go to right now. */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const now = new Date();
+    const wallets = await listWallets(id);
+    return ok({
+      merchant_id: id,
+      payout_wallet_id: payoutWalletOf(wallets, now)?.wallet_id ?? null,
+      wallets: wallets
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map((w) => view(w, now)),
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
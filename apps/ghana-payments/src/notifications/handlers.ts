@@ -0,0 +1,45 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { apiError, handleError, ok, parseBody, requireActor, requireString } from '../shared/http.js';
+import { hashPhone } from '../shared/pii.js';
+import { listDeliveries, optIn, optOut } from './store.js';
+
+/** GET /v1/payments/{id}/notifications (admin) — the SMS delivery log; phones as hashes only. */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    return ok({ payment_id: id, notifications: await listDeliveries(id) });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/notifications/opt-outs (admin) — stop SMS to a number that asked support.
+ * Handset STOP replies are honoured by the SMS provider itself and need no entry here.
+ */
+export const optOutHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const body = parseBody<{ phone?: string; requested_by?: string }>(event.body);
+    const phoneHash = hashPhone(requireString(body.phone, 'phone'));
+    await optOut(phoneHash, requireActor(event, body.requested_by, 'requested_by'));
+    return ok({ phone_hash: phoneHash, opted_out: true }, 201);
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/** DELETE /v1/notifications/opt-outs/{phone} (admin) — the number wants SMS again. */
+export const optInHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const phone = event.pathParameters?.phone;
+    if (!phone) return apiError(400, 'MISSING_PHONE', 'phone required');
+    const phoneHash = hashPhone(phone);
+    await optIn(phoneHash);
+    return ok({ phone_hash: phoneHash, opted_out: false });
+  } catch (err) {
+    return handleError(err);
+  }
+};
@@ -0,0 +1,169 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  CheckIfPhoneNumberIsOptedOutCommand,
+  PublishCommand,
+  SNSClient,
+} from '@aws-sdk/client-sns';
+import { DecryptCommand, KMSClient } from '@aws-sdk/client-kms';
+import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import type { EventBridgeEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { hashPhone } from '../shared/pii.js';
+import type { PaymentEvent } from '../shared/types.js';
+import { handler } from './notifier.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const snsMock = mockClient(SNSClient);
+const kmsMock = mockClient(KMSClient);
+const ssmMock = mockClient(SSMClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.MERCHANTS_TABLE = 'test-merchants';
+process.env.DEVICES_TABLE = 'test-devices';
+process.env.NOTIFICATIONS_TABLE = 'test-notifications';
+process.env.SMS_OPT_OUTS_TABLE = 'test-opt-outs';
+process.env.STAGE = 'dev';
+
+type Trigger = 'payment.confirmed' | 'payment.failed' | 'announcement.unconfirmed';
+
+const busEvent = (trigger: Trigger): EventBridgeEvent<Trigger, PaymentEvent> =>
+  ({
+    'detail-type': trigger,
+    detail: { payment_id: 'pay_1', merchant_id: 'mer_1', amount: 2000, currency: 'GHS' },
+  }) as unknown as EventBridgeEvent<Trigger, PaymentEvent>;
+
+const payment = {
+  payment_id: 'pay_1',
+  sk: 'META',
+  merchant_id: 'mer_1',
+  payer_phone_hash: 'payerhash',
+  payer_phone_sealed: Buffer.from('0244000000').toString('base64'),
+  amount_pesewas: 2000,
+  status: 'SUCCESS',
+};
+const merchant = {
+  merchant_id: 'mer_1',
+  sk: 'PROFILE',
+  display_name: 'Ama Fruits',
+  phone_hash: 'merchanthash',
+  phone_sealed: Buffer.from('0201111111').toString('base64'),
+  language: 'tw',
+};
+
+const sent = () =>
+  snsMock.commandCalls(PublishCommand).map((c) => ({
+    to: c.args[0].input.PhoneNumber,
+    text: c.args[0].input.Message,
+  }));
+const settled = () =>
+  ddbMock
+    .commandCalls(UpdateCommand)
+    .map((c) => c.args[0].input.ExpressionAttributeValues?.[':s'] as string);
+
+beforeEach(() => {
+  ddbMock.reset();
+  snsMock.reset();
+  kmsMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  ssmMock.on(GetParametersByPathCommand).resolves({ Parameters: [] });
+  ddbMock.on(GetCommand, { TableName: 'test-payments' }).resolves({ Item: payment });
+  ddbMock.on(GetCommand, { TableName: 'test-merchants' }).resolves({ Item: merchant });
+  ddbMock.on(GetCommand, { TableName: 'test-opt-outs' }).resolves({});
+  ddbMock.on(QueryCommand).resolves({ Items: [] });
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({});
+  // Test "KMS": the sealed value is just base64 of the phone
+  kmsMock.on(DecryptCommand).callsFake((input: { CiphertextBlob: Uint8Array }) => ({
+    Plaintext: input.CiphertextBlob,
+  }));
+  snsMock.on(CheckIfPhoneNumberIsOptedOutCommand).resolves({ isOptedOut: false });
+  snsMock.on(PublishCommand).resolves({ MessageId: 'sns-1' });
+});
+
+describe('SMS notifier', () => {
+  it('confirmed with no soundbox: payer receipt in English, vendor SMS in their language', async () => {
+    await handler(busEvent('payment.confirmed'));
+    expect(sent()).toEqual([
+      { to: '+233244000000', text: 'You paid Ama Fruits GHS 20.00. Ref pay_1' },
+      { to: '+233201111111', text: expect.stringContaining('GHS 20.00') as string },
+    ]);
+    expect(settled()).toEqual(['SENT', 'SENT']);
+    const claim = ddbMock.commandCalls(PutCommand)[0].args[0].input;
+    expect(claim.ConditionExpression).toBe('attribute_not_exists(sk) OR delivery_status = :failed');
+    expect(claim.Item).toMatchObject({ sk: 'PAYER#payerhash', template: 'receiptSms' });
+    // The delivery log never holds a raw phone
+    expect(JSON.stringify(ddbMock.calls().map((c) => c.args[0].input))).not.toContain('0244000000');
+  });
+
+  it('confirmed with a paired soundbox: the vendor hears it, only the payer gets an SMS', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [{ device_id: 'dev_1', status: 'ACTIVE' }] });
+    await handler(busEvent('payment.confirmed'));
+    expect(sent().map((s) => s.to)).toEqual(['+233244000000']);
+  });
+
+  it('announcement.unconfirmed texts the vendor, and a duplicate is deduped by the claim', async () => {
+    await handler(busEvent('announcement.unconfirmed'));
+    expect(sent().map((s) => s.to)).toEqual(['+233201111111']);
+
+    ddbMock
+      .on(PutCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    await handler(busEvent('announcement.unconfirmed'));
+    expect(sent()).toHaveLength(1);
+  });
+
+  it('payment.failed tells the payer nothing was deducted', async () => {
+    await handler(busEvent('payment.failed'));
+    expect(sent()).toEqual([
+      { to: '+233244000000', text: expect.stringContaining('GHS 20.00') as string },
+    ]);
+  });
+
+  it('records opt-outs (ours or the provider STOP list) and missing contacts without sending', async () => {
+    ddbMock.on(GetCommand, { TableName: 'test-opt-outs' }).resolves({ Item: { phone_hash: 'x' } });
+    await handler(busEvent('payment.failed'));
+    expect(settled()).toEqual(['OPTED_OUT']);
+
+    ddbMock.on(GetCommand, { TableName: 'test-opt-outs' }).resolves({});
+    snsMock.on(CheckIfPhoneNumberIsOptedOutCommand).resolves({ isOptedOut: true });
+    await handler(busEvent('payment.failed'));
+    expect(settled()).toEqual(['OPTED_OUT', 'OPTED_OUT']);
+
+    ddbMock.on(GetCommand, { TableName: 'test-payments' }).resolves({
+      Item: { ...payment, payer_phone_sealed: undefined },
+    });
+    await handler(busEvent('payment.failed'));
+    expect(settled()).toEqual(['OPTED_OUT', 'OPTED_OUT', 'NO_CONTACT']);
+    expect(sent()).toHaveLength(0);
+  });
+
+  it('honours an opt-out entered in another format than the number the merchant onboarded with', async () => {
+    ddbMock
+      .on(GetCommand, { TableName: 'test-merchants' })
+      .resolves({ Item: { ...merchant, phone_hash: hashPhone('020 111 1111') } });
+    ddbMock
+      .on(GetCommand, {
+        TableName: 'test-opt-outs',
+        Key: { phone_hash: hashPhone('%2B233201111111') },
+      })
+      .resolves({ Item: { phone_hash: hashPhone('+233201111111') } });
+    await handler(busEvent('announcement.unconfirmed'));
+    expect(settled()).toEqual(['OPTED_OUT']);
+    expect(sent()).toHaveLength(0);
+  });
+
+  it('marks a provider error FAILED and rethrows so EventBridge retries', async () => {
+    snsMock.on(PublishCommand).rejects(new Error('throttled'));
+    await expect(handler(busEvent('payment.failed'))).rejects.toThrow('throttled');
+    expect(settled()).toEqual(['FAILED']);
+  });
+});
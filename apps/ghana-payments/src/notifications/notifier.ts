@@ -0,0 +1,152 @@
+import type { EventBridgeEvent } from 'aws-lambda';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import { openPii } from '../shared/pii.js';
+import type { PaymentEvent } from '../shared/types.js';
+import { getPayment } from '../payments/ledger.js';
+import { getMerchant, preferredLanguage } from '../merchants/store.js';
+import type { DeviceItem } from '../devices/handlers.js';
+import { DEFAULT_LANGUAGE, type Language } from '../templates/languages.js';
+import { smsText, type SmsTemplate } from '../templates/messages.js';
+import { getSmsProvider, type SmsProvider } from './provider.js';
+import { claimDelivery, deliveryKey, isOptedOut, recordDelivery, type Recipient } from './store.js';
+
+type NotifyTrigger = 'payment.confirmed' | 'payment.failed' | 'announcement.unconfirmed';
+
+interface SmsJob {
+  recipient: Recipient;
+  phoneHash: string;
+  phoneSealed?: string;
+  template: SmsTemplate;
+  language: Language;
+}
+
+/** A soundbox that will speak the payment — the vendor then needs no SMS for it. */
+async function hasAnnouncingDevice(merchantId: string): Promise<boolean> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: process.env.DEVICES_TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'merchant_id = :m',
+      ExpressionAttributeValues: { ':m': merchantId },
+    })
+  );
+  return ((res.Items ?? []) as DeviceItem[]).some(
+    (d) => d.status === 'PAIRED' || d.status === 'ACTIVE'
+  );
+}
+
+/**
+ * Send one SMS at most once: claim the delivery-log row, then settle it. Opt-outs and
+ * missing contacts are recorded, not retried; a provider error marks the row FAILED and
+ * rethrows so EventBridge redelivers (and the FAILED row may be re-claimed).
+ */
+async function deliver(
+  provider: SmsProvider,
+  trigger: NotifyTrigger,
+  paymentId: string,
+  job: SmsJob,
+  text: string
+): Promise<void> {
+  const claimed = await claimDelivery({
+    payment_id: paymentId,
+    recipient: job.recipient,
+    phone_hash: job.phoneHash,
+    trigger,
+    template: job.template,
+    language: job.language,
+    provider: provider.name,
+  });
+  if (!claimed) {
+    console.log(
+      JSON.stringify({ msg: 'sms already sent', payment_id: paymentId, recipient: job.recipient })
+    );
+    return;
+  }
+  const sk = deliveryKey(job.recipient, job.phoneHash);
+  if (!job.phoneSealed) {
+    await recordDelivery(paymentId, sk, 'NO_CONTACT');
+    return;
+  }
+  if (await isOptedOut(job.phoneHash)) {
+    await recordDelivery(paymentId, sk, 'OPTED_OUT');
+    return;
+  }
+  try {
+    const phone = await openPii(job.phoneSealed);
+    if (await provider.isOptedOut(phone)) {
+      await recordDelivery(paymentId, sk, 'OPTED_OUT');
+      return;
+    }
+    const { messageId } = await provider.send(phone, text);
+    await recordDelivery(paymentId, sk, 'SENT', { provider_message_id: messageId });
+    console.log(
+      JSON.stringify({ msg: 'sms sent', payment_id: paymentId, to_hash: job.phoneHash, messageId })
+    );
+  } catch (err) {
+    await recordDelivery(paymentId, sk, 'FAILED', { error: (err as Error).message });
+    throw err;
+  }
+}
+
+/**
+ * Bus subscriber for SMS confirmations:
+ * - payment.confirmed: receipt to the payer; to the vendor too when no soundbox will
+ *   announce it (no PAIRED/ACTIVE device).
+ * - payment.failed: "not completed, nothing deducted" to the payer.
+ * - announcement.unconfirmed: the soundbox never acked — the vendor SMS fallback.
+ * Vendor texts use the merchant's language; payer texts are English (we don't know theirs).
+ */
+export const handler = async (
+  event: EventBridgeEvent<NotifyTrigger, PaymentEvent>
+): Promise<void> => {
+  const trigger = event['detail-type'];
+  const { payment_id } = event.detail;
+  const payment = await getPayment(payment_id);
+  if (!payment) {
+    console.error('notifier: payment not found', { payment_id });
+    return;
+  }
+  const merchant = await getMerchant(payment.merchant_id);
+
+  const jobs: SmsJob[] = [];
+  const payer = (template: SmsTemplate): SmsJob => ({
+    recipient: 'PAYER',
+    phoneHash: payment.payer_phone_hash,
+    phoneSealed: payment.payer_phone_sealed,
+    template,
+    language: DEFAULT_LANGUAGE,
+  });
+  const vendor = (): SmsJob | undefined =>
+    merchant && {
+      recipient: 'MERCHANT',
+      phoneHash: merchant.phone_hash,
+      phoneSealed: merchant.phone_sealed,
+      template: 'paymentSms',
+      language: preferredLanguage(merchant),
+    };
+
+  if (trigger === 'payment.confirmed') {
+    jobs.push(payer('receiptSms'));
+    const toVendor = vendor();
+    if (toVendor && !(await hasAnnouncingDevice(payment.merchant_id))) jobs.push(toVendor);
+  } else if (trigger === 'payment.failed') {
+    jobs.push(payer('paymentFailedSms'));
+  } else {
+    const toVendor = vendor();
+    if (toVendor) jobs.push(toVendor);
+  }
+  if (jobs.length === 0) return;
+
+  const cfg = await getConfig();
+  const provider = getSmsProvider(cfg.smsProvider, cfg.smsSenderId);
+  const input = {
+    merchant_name: merchant?.display_name ?? 'Merchant',
+    amount_pesewas: payment.amount_pesewas,
+    ref: payment_id,
+  };
+  for (const job of jobs) {
+    await deliver(provider, trigger, payment_id, job, smsText(job.template, input, job.language));
+  }
+};
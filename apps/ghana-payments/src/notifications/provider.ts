@@ -0,0 +1,74 @@
+import {
+  CheckIfPhoneNumberIsOptedOutCommand,
+  PublishCommand,
+  SNSClient,
+} from '@aws-sdk/client-sns';
+import { hashPhone, toE164 } from '../shared/pii.js';
+
+/**
+ * The SMS seam, like payments/provider.ts: SSM `notifications/sms-provider` picks SNS
+ * (real SMS) or the local stand-in. Raw phones pass through `send` in memory only.
+ */
+export interface SmsProvider {
+  readonly name: string;
+  send(phone: string, message: string): Promise<{ messageId: string }>;
+  /** The provider's own opt-out list (SNS: the handset replied STOP). */
+  isOptedOut(phone: string): Promise<boolean>;
+}
+
+const sns = new SNSClient({});
+
+export class SnsSmsProvider implements SmsProvider {
+  readonly name = 'sns';
+
+  constructor(private readonly senderId: string) {}
+
+  async send(phone: string, message: string): Promise<{ messageId: string }> {
+    const res = await sns.send(
+      new PublishCommand({
+        PhoneNumber: toE164(phone),
+        Message: message,
+        MessageAttributes: {
+          'AWS.SNS.SMS.SMSType': { DataType: 'String', StringValue: 'Transactional' },
+          'AWS.SNS.SMS.SenderID': { DataType: 'String', StringValue: this.senderId },
+        },
+      })
+    );
+    return { messageId: res.MessageId ?? '' };
+  }
+
+  async isOptedOut(phone: string): Promise<boolean> {
+    const res = await sns.send(
+      new CheckIfPhoneNumberIsOptedOutCommand({ phoneNumber: toE164(phone) })
+    );
+    return res.isOptedOut ?? false;
+  }
+}
+
+/** Stand-in for tests and quiet stages: logs the text against the phone HASH, sends nothing. */
+export class LocalSmsProvider implements SmsProvider {
+  readonly name = 'local';
+
+  send(phone: string, message: string): Promise<{ messageId: string }> {
+    const messageId = `local_${Date.now()}`;
+    console.log(
+      JSON.stringify({ msg: 'local sms', to_hash: hashPhone(phone), message, messageId })
+    );
+    return Promise.resolve({ messageId });
+  }
+
+  isOptedOut(): Promise<boolean> {
+    return Promise.resolve(false);
+  }
+}
+
+export function getSmsProvider(name: string, senderId: string): SmsProvider {
+  switch (name) {
+    case 'sns':
+      return new SnsSmsProvider(senderId);
+    case 'local':
+      return new LocalSmsProvider();
+    default:
+      throw new Error(`Unknown SMS provider: ${name}`);
+  }
+}
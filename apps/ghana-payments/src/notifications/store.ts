@@ -0,0 +1,137 @@
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import type { Language } from '../templates/languages.js';
+import type { SmsTemplate } from '../templates/messages.js';
+
+const TABLE = (): string => process.env.NOTIFICATIONS_TABLE ?? '';
+const OPT_OUTS_TABLE = (): string => process.env.SMS_OPT_OUTS_TABLE ?? '';
+
+export type Recipient = 'MERCHANT' | 'PAYER';
+
+export type DeliveryStatus = 'SENDING' | 'SENT' | 'FAILED' | 'OPTED_OUT' | 'NO_CONTACT';
+
+/**
+ * One SMS per (payment, recipient, phone): pk payment_id, sk `{recipient}#{phone_hash}`.
+ * The sk is also the dedupe key — payment.confirmed and announcement.unconfirmed both
+ * message the merchant, and EventBridge redelivers, but the vendor gets one SMS.
+ */
+export interface DeliveryLogItem {
+  payment_id: string;
+  sk: string;
+  recipient: Recipient;
+  phone_hash: string;
+  /** The bus event that asked for the SMS. */
+  trigger: string;
+  template: SmsTemplate;
+  language: Language;
+  provider: string;
+  delivery_status: DeliveryStatus;
+  provider_message_id?: string;
+  error?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export const deliveryKey = (recipient: Recipient, phoneHash: string): string =>
+  `${recipient}#${phoneHash}`;
+
+/**
+ * Take the send for this recipient: false when it is already SENDING, SENT or settled
+ * (opted out / no contact). A FAILED send may be re-claimed — that is the retry.
+ */
+export async function claimDelivery(
+  item: Omit<DeliveryLogItem, 'sk' | 'delivery_status' | 'created_at' | 'updated_at'>
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  try {
+    await ddb.send(
+      new PutCommand({
+        TableName: TABLE(),
+        Item: {
+          ...item,
+          sk: deliveryKey(item.recipient, item.phone_hash),
+          delivery_status: 'SENDING',
+          created_at: now,
+          updated_at: now,
+        },
+        ConditionExpression: 'attribute_not_exists(sk) OR delivery_status = :failed',
+        ExpressionAttributeValues: { ':failed': 'FAILED' },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+export async function recordDelivery(
+  paymentId: string,
+  sk: string,
+  status: Exclude<DeliveryStatus, 'SENDING'>,
+  detail: { provider_message_id?: string; error?: string } = {}
+): Promise<void> {
+  const sets = ['delivery_status = :s', 'updated_at = :now'];
+  const values: Record<string, unknown> = { ':s': status, ':now': new Date().toISOString() };
+  if (detail.provider_message_id) {
+    sets.push('provider_message_id = :mid');
+    values[':mid'] = detail.provider_message_id;
+  }
+  if (detail.error) {
+    sets.push('#error = :err');
+    values[':err'] = detail.error.slice(0, 500);
+  }
+  await ddb.send(
+    new UpdateCommand({
+      TableName: TABLE(),
+      Key: { payment_id: paymentId, sk },
+      UpdateExpression: `SET ${sets.join(', ')}`,
+      ...(detail.error ? { ExpressionAttributeNames: { '#error': 'error' } } : {}),
+      ExpressionAttributeValues: values,
+    })
+  );
+}
+
+export async function listDeliveries(paymentId: string): Promise<DeliveryLogItem[]> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: TABLE(),
+      KeyConditionExpression: 'payment_id = :p',
+      ExpressionAttributeValues: { ':p': paymentId },
+    })
+  );
+  return (res.Items ?? []) as DeliveryLogItem[];
+}
+
+/** Our own opt-out list, keyed by phone hash (support adds numbers that asked by phone). */
+export async function isOptedOut(phoneHash: string): Promise<boolean> {
+  const res = await ddb.send(
+    new GetCommand({ TableName: OPT_OUTS_TABLE(), Key: { phone_hash: phoneHash } })
+  );
+  return res.Item !== undefined;
+}
+
+export async function optOut(phoneHash: string, requestedBy: string): Promise<void> {
+  await ddb.send(
+    new PutCommand({
+      TableName: OPT_OUTS_TABLE(),
+      Item: {
+        phone_hash: phoneHash,
+        requested_by: requestedBy,
+        opted_out_at: new Date().toISOString(),
+      },
+    })
+  );
+}
+
+export async function optIn(phoneHash: string): Promise<void> {
+  await ddb.send(
+    new DeleteCommand({ TableName: OPT_OUTS_TABLE(), Key: { phone_hash: phoneHash } })
+  );
+}
@@ -0,0 +1,142 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { encodeCursor } from '../shared/http.js';
+import { merchantHistoryHandler, type DailyTotal } from './history.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface HistoryResponse {
+  payments: Array<{ payment_id: string; status: string }>;
+  next_cursor: string | null;
+  daily_totals?: DailyTotal[];
+}
+interface ErrorResponse {
+  error: { code: string };
+}
+
+const meta = (
+  payment_id: string,
+  created_at: string,
+  amount_pesewas: number,
+  status = 'SUCCESS'
+) => ({
+  payment_id,
+  sk: 'META',
+  merchant_id: 'mer_1',
+  payer_phone_hash: 'hash',
+  amount_pesewas,
+  status,
+  created_at,
+});
+
+const event = (qs: Record<string, string> = {}): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id: 'mer_1' },
+    queryStringParameters: qs,
+  }) as unknown as APIGatewayProxyEvent;
+
+/** Page queries carry Limit; the totals pass projects instead. */
+const pageCalls = () =>
+  ddbMock.commandCalls(QueryCommand).filter((c) => c.args[0].input.Limit !== undefined);
+
+beforeEach(() => ddbMock.reset());
+
+describe('GET /v1/merchants/{id}/payments', () => {
+  it('reads GSI3 newest first with the status and amount filters', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [] });
+    await merchantHistoryHandler(
+      event({ from: '2026-03-01', to: '2026-03-07', status: 'success,refunded', min_amount: '100' })
+    );
+    const input = pageCalls()[0].args[0].input;
+    expect(input.IndexName).toBe('GSI3');
+    expect(input.ScanIndexForward).toBe(false);
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':m': 'mer_1',
+      ':from': '2026-03-01T00:00:00.000Z',
+      ':to': '2026-03-07T23:59:59.999Z',
+      ':s0': 'SUCCESS',
+      ':s1': 'REFUNDED',
+      ':min': 100,
+    });
+    expect(input.FilterExpression).toBe('#status IN (:s0, :s1) AND amount_pesewas >= :min');
+  });
+
+  it('tops a filtered page up to the limit and returns a cursor at the last item', async () => {
+    ddbMock
+      .on(QueryCommand, { Limit: 2 })
+      .resolves({
+        Items: [meta('pay_3', '2026-03-02T10:00:00.000Z', 500)],
+        LastEvaluatedKey: { k: 1 },
+      })
+      .on(QueryCommand, { Limit: 1 })
+      .resolves({
+        Items: [meta('pay_2', '2026-03-01T12:00:00.000Z', 700)],
+        LastEvaluatedKey: { k: 2 },
+      })
+      .on(QueryCommand, { ProjectionExpression: 'created_at, amount_pesewas, #status' })
+      .resolves({
+        Items: [
+          meta('pay_3', '2026-03-02T10:00:00.000Z', 500),
+          meta('pay_2', '2026-03-01T12:00:00.000Z', 700),
+          meta('pay_1', '2026-03-01T09:00:00.000Z', 300, 'FAILED'),
+        ],
+      });
+
+    const body = parse<HistoryResponse>(await merchantHistoryHandler(event({ limit: '2' })));
+    expect(body.payments.map((p) => p.payment_id)).toEqual(['pay_3', 'pay_2']);
+    expect(pageCalls()).toHaveLength(2);
+    expect(body.next_cursor).toBe(
+      encodeCursor({
+        payment_id: 'pay_2',
+        sk: 'META',
+        merchant_id: 'mer_1',
+        created_at: '2026-03-01T12:00:00.000Z',
+      })
+    );
+    expect(body.daily_totals).toEqual([
+      { date: '2026-03-02', count: 1, amount_pesewas: 500, success_count: 1, success_pesewas: 500 },
+      {
+        date: '2026-03-01',
+        count: 2,
+        amount_pesewas: 1000,
+        success_count: 1,
+        success_pesewas: 700,
+      },
+    ]);
+  });
+
+  it('resumes from a cursor and skips the totals pass', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [meta('pay_1', '2026-03-01T09:00:00.000Z', 300)] });
+    const cursor = encodeCursor({
+      payment_id: 'pay_2',
+      sk: 'META',
+      merchant_id: 'mer_1',
+      created_at: 'x',
+    });
+    const body = parse<HistoryResponse>(await merchantHistoryHandler(event({ cursor: cursor! })));
+    expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input.ExclusiveStartKey).toMatchObject({
+      payment_id: 'pay_2',
+    });
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(1);
+    expect(body.next_cursor).toBeNull();
+    expect(body).not.toHaveProperty('daily_totals');
+  });
+
+  it.each([
+    [{ cursor: 'not-a-cursor' }, 'INVALID_CURSOR'],
+    [{ status: 'SETTLED' }, 'INVALID_STATUS'],
+    [{ min_amount: '500', max_amount: '100' }, 'INVALID_AMOUNT'],
+    [{ from: '2026-03-07', to: '2026-03-01' }, 'INVALID_DATE_RANGE'],
+    [{ limit: '1000' }, 'INVALID_LIMIT'],
+  ])('400s %p', async (qs, code) => {
+    const res = await merchantHistoryHandler(event(qs));
+    expect(res.statusCode).toBe(400);
+    expect(parse<ErrorResponse>(res).error.code).toBe(code);
+  });
+});
@@ -0,0 +1,217 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import {
+  apiError,
+  BadRequestError,
+  decodeCursor,
+  encodeCursor,
+  handleError,
+  ok,
+} from '../shared/http.js';
+import type { PaymentStatus } from '../shared/types.js';
+import type { PaymentRecord } from './ledger.js';
+
+const TABLE = (): string => process.env.PAYMENTS_TABLE ?? '';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 30;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const STATUSES: PaymentStatus[] = [
+  'INITIATED',
+  'PENDING',
+  'SUCCESS',
+  'FAILED',
+  'EXPIRED',
+  'REVERSED',
+  'REFUNDED',
+  'HELD',
+  'BLOCKED',
+];
+
+interface HistoryQuery {
+  from: string;
+  to: string;
+  statuses: PaymentStatus[];
+  minAmount?: number;
+  maxAmount?: number;
+}
+
+export interface DailyTotal {
+  date: string;
+  count: number;
+  amount_pesewas: number;
+  /** Takings: SUCCESS payments only. */
+  success_count: number;
+  success_pesewas: number;
+}
+
+function optionalPesewas(value: string | undefined, field: string): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) {
+    throw new BadRequestError(
+      'INVALID_AMOUNT',
+      `${field} must be a non-negative integer amount in pesewas`
+    );
+  }
+  return n;
+}
+
+function parseQuery(event: APIGatewayProxyEvent): HistoryQuery & { limit: number } {
+  const qs = event.queryStringParameters ?? {};
+  const from =
+    qs.from ??
+    new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60_000).toISOString().slice(0, 10);
+  const to = qs.to ?? new Date().toISOString().slice(0, 10);
+  if (!DAY_RE.test(from) || !DAY_RE.test(to) || from > to) {
+    throw new BadRequestError('INVALID_DATE_RANGE', 'from/to must be YYYY-MM-DD with from <= to');
+  }
+  const statuses = (qs.status ? qs.status.split(',') : []).map((s) => s.trim().toUpperCase());
+  const unknown = statuses.filter((s) => !STATUSES.includes(s as PaymentStatus));
+  if (unknown.length > 0) {
+    throw new BadRequestError('INVALID_STATUS', `status must be among ${STATUSES.join(', ')}`);
+  }
+  const minAmount = optionalPesewas(qs.min_amount, 'min_amount');
+  const maxAmount = optionalPesewas(qs.max_amount, 'max_amount');
+  if (minAmount !== undefined && maxAmount !== undefined && minAmount > maxAmount) {
+    throw new BadRequestError('INVALID_AMOUNT', 'min_amount must not exceed max_amount');
+  }
+  const limit = qs.limit === undefined ? DEFAULT_LIMIT : Number(qs.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw new BadRequestError('INVALID_LIMIT', `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  return { from, to, statuses: statuses as PaymentStatus[], minAmount, maxAmount, limit };
+}
+
+/** GSI3 (merchant_id + created_at) key condition + the optional filters, newest first. */
+function queryInput(merchantId: string, q: HistoryQuery): QueryCommand['input'] {
+  const filters: string[] = [];
+  const names: Record<string, string> = {};
+  const values: Record<string, unknown> = {
+    ':m': merchantId,
+    ':from': `${q.from}T00:00:00.000Z`,
+    ':to': `${q.to}T23:59:59.999Z`,
+  };
+  if (q.statuses.length > 0) {
+    names['#status'] = 'status';
+    q.statuses.forEach((s, i) => (values[`:s${i}`] = s));
+    filters.push(`#status IN (${q.statuses.map((_, i) => `:s${i}`).join(', ')})`);
+  }
+  if (q.minAmount !== undefined) {
+    values[':min'] = q.minAmount;
+    filters.push('amount_pesewas >= :min');
+  }
+  if (q.maxAmount !== undefined) {
+    values[':max'] = q.maxAmount;
+    filters.push('amount_pesewas <= :max');
+  }
+  return {
+    TableName: TABLE(),
+    IndexName: 'GSI3',
+    KeyConditionExpression: 'merchant_id = :m AND created_at BETWEEN :from AND :to',
+    ...(filters.length > 0 ? { FilterExpression: filters.join(' AND ') } : {}),
+    ...(Object.keys(names).length > 0 ? { ExpressionAttributeNames: names } : {}),
+    ExpressionAttributeValues: values,
+    ScanIndexForward: false,
+  };
+}
+
+/** Per-day totals over the whole filtered range (not just one page). */
+async function dailyTotals(merchantId: string, q: HistoryQuery): Promise<DailyTotal[]> {
+  const base = queryInput(merchantId, q);
+  const totals = new Map<string, DailyTotal>();
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        ...base,
+        ProjectionExpression: 'created_at, amount_pesewas, #status',
+        ExpressionAttributeNames: { ...base.ExpressionAttributeNames, '#status': 'status' },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    for (const item of (res.Items ?? []) as PaymentRecord[]) {
+      const date = item.created_at.slice(0, 10);
+      const day = totals.get(date) ?? {
+        date,
+        count: 0,
+        amount_pesewas: 0,
+        success_count: 0,
+        success_pesewas: 0,
+      };
+      day.count++;
+      day.amount_pesewas += item.amount_pesewas;
+      if (item.status === 'SUCCESS') {
+        day.success_count++;
+        day.success_pesewas += item.amount_pesewas;
+      }
+      totals.set(date, day);
+    }
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return [...totals.values()].sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * GET /v1/merchants/{id}/payments?from&to&status&min_amount&max_amount&limit&cursor —
+ * a merchant's payments, newest first, with per-day totals for the whole filtered range.
+ * Filters run after the index read, so a page is topped up until it is full; the cursor
+ * is the index key of the last payment returned. Totals come with the first page only.
+ */
+export const merchantHistoryHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const merchantId = event.pathParameters?.id;
+    if (!merchantId) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const { limit, ...q } = parseQuery(event);
+    const cursor = decodeCursor(event.queryStringParameters?.cursor);
+
+    const items: PaymentRecord[] = [];
+    let startKey = cursor;
+    let more = false;
+    do {
+      const res = await ddb.send(
+        new QueryCommand({
+          ...queryInput(merchantId, q),
+          Limit: limit - items.length,
+          ExclusiveStartKey: startKey,
+        })
+      );
+      items.push(...((res.Items ?? []) as PaymentRecord[]));
+      startKey = res.LastEvaluatedKey;
+      more = startKey !== undefined;
+    } while (more && items.length < limit);
+
+    const last = items[items.length - 1];
+    const nextCursor =
+      more && last
+        ? encodeCursor({
+            payment_id: last.payment_id,
+            sk: last.sk,
+            merchant_id: last.merchant_id,
+            created_at: last.created_at,
+          })
+        : null;
+
+    return ok({
+      merchant_id: merchantId,
+      from: q.from,
+      to: q.to,
+      payments: items.map((p) => ({
+        payment_id: p.payment_id,
+        status: p.status,
+        amount_pesewas: p.amount_pesewas,
+        created_at: p.created_at,
+        confirmed_at: p.confirmed_at ?? null,
+        reason: p.reason ?? null,
+      })),
+      next_cursor: nextCursor,
+      ...(cursor ? {} : { daily_totals: await dailyTotals(merchantId, q) }),
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
@@ -3,11 +3,13 @@ import {
   DynamoDBDocumentClient,
   GetCommand,
   PutCommand,
+  QueryCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
 import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { EncryptCommand, KMSClient } from '@aws-sdk/client-kms';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
 import { ddb } from '../shared/clients.js';
 import { _resetConfigCache } from '../shared/config.js';
@@ -17,10 +19,12 @@ const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
 const sqsMock = mockClient(SQSClient);
 const ssmMock = mockClient(SSMClient);
 const busMock = mockClient(EventBridgeClient);
+const kmsMock = mockClient(KMSClient);
 
 process.env.MERCHANTS_TABLE = 'test-merchants';
 process.env.WALLETS_TABLE = 'test-wallets';
 process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.QR_CODES_TABLE = 'test-qr';
 process.env.MOCK_CALLBACK_QUEUE_URL = 'https://sqs.test/queue';
 process.env.EVENT_BUS_NAME = 'test-bus';
 process.env.STAGE = 'dev';
@@ -33,7 +37,7 @@ interface InitiateResponse {
   amount_pesewas: number;
 }
 interface ErrorResponse {
-  error: { code: string };
+  error: { code: string; details?: Record<string, unknown> };
 }
 
 const event = (body: Record<string, unknown>): APIGatewayProxyEvent =>
@@ -55,14 +59,17 @@ beforeEach(() => {
   sqsMock.reset();
   ssmMock.reset();
   busMock.reset();
+  kmsMock.reset();
   _resetConfigCache();
   ssmMock.on(GetParametersByPathCommand).resolves({
     Parameters: [{ Name: '/dev/ghana-payments/provider/active', Value: 'mock' }],
   });
   sqsMock.on(SendMessageCommand).resolves({});
   busMock.on(PutEventsCommand).resolves({});
+  kmsMock.on(EncryptCommand).resolves({ CiphertextBlob: Buffer.from('sealed') });
   ddbMock.on(PutCommand).resolves({});
   ddbMock.on(UpdateCommand).resolves({});
+  ddbMock.on(QueryCommand).resolves({ Items: [] }); // nothing collected today
 });
 
 describe('payment initiation (ADR-9)', () => {
@@ -113,6 +120,12 @@ describe('payment initiation (ADR-9)', () => {
       .commandCalls(PutCommand)
       .find((c) => c.args[0].input.Item?.sk === 'META');
     expect(metaPut?.args[0].input.ConditionExpression).toBe('attribute_not_exists(payment_id)');
+    expect(metaPut?.args[0].input.Item?.adapter).toBe('mock'); // verify polls the same adapter
+    // The raw phone is only ever stored sealed (SMS receipt), next to its hash
+    expect(metaPut?.args[0].input.Item?.payer_phone_sealed).toBe(
+      Buffer.from('sealed').toString('base64')
+    );
+    expect(JSON.stringify(metaPut?.args[0].input.Item)).not.toContain('0244000000');
 
     expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(1);
     const entry = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries?.[0];
@@ -142,6 +155,91 @@ describe('payment initiation (ADR-9)', () => {
     expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0); // no payment.initiated
   });
 
+  it('403s a payment over the per-payment limit of the merchant KYC level — no debit', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: { ...activeMerchant, kyc_level: 'NONE' } });
+    const res = await handler(event({ ...validBody, amount_pesewas: 10_001 }));
+    expect(res.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(res).error).toMatchObject({
+      code: 'LIMIT_EXCEEDED',
+      details: { limit: 'PER_PAYMENT', kyc_level: 'NONE', limit_pesewas: 10_000 },
+    });
+    expect(walletCalls()).toHaveLength(0);
+  });
+
+  it("403s once today's collections would pass the daily limit, counting only live payments", async () => {
+    ddbMock.on(GetCommand).resolves({ Item: { ...activeMerchant, kyc_level: 'BASIC' } });
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        { status: 'SUCCESS', amount_pesewas: 450_000 },
+        { status: 'PENDING', amount_pesewas: 40_000 },
+        { status: 'FAILED', amount_pesewas: 90_000 },
+      ],
+    });
+    const within = await handler(event({ ...validBody, amount_pesewas: 10_000 }));
+    expect(within.statusCode).toBe(201);
+
+    const over = await handler(event({ ...validBody, amount_pesewas: 10_001 }));
+    expect(over.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(over).error.details).toMatchObject({
+      limit: 'DAILY',
+      kyc_level: 'BASIC',
+      limit_pesewas: 500_000,
+      collected_pesewas: 490_000,
+    });
+    const query = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+    expect(query.IndexName).toBe('GSI3');
+    expect(query.ExpressionAttributeValues?.[':since']).toMatch(/T00:00:00\.000Z$/);
+  });
+
+  it('a BLOCK rule refuses before the debit and leaves a BLOCKED payment with the decision', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: activeMerchant });
+    // Same payer paid the same merchant the same amount a minute ago (risk/repeat-amount)
+    ddbMock.on(QueryCommand, { IndexName: 'GSI4' }).resolves({
+      Items: [
+        {
+          payment_id: 'pay_earlier',
+          merchant_id: 'mer_1',
+          amount_pesewas: 2000,
+          status: 'SUCCESS',
+          created_at: new Date(Date.now() - 60_000).toISOString(),
+        },
+      ],
+    });
+    const res = await handler(event(validBody));
+    expect(res.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(res).error.code).toBe('PAYMENT_BLOCKED');
+    expect(walletCalls()).toHaveLength(0);
+
+    const items = ddbMock.commandCalls(PutCommand).map((c) => c.args[0].input.Item);
+    expect(items.find((i) => i?.sk === 'META')).toMatchObject({ status: 'BLOCKED' });
+    expect(items.find((i) => i?.event_type === 'RISK_DECISION')).toMatchObject({
+      decision: 'BLOCK',
+      hits: [{ rule: 'REPEAT_AMOUNT', related_ids: ['pay_earlier'] }],
+    });
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+    const entry = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries?.[0];
+    expect(entry?.DetailType).toBe('fraud.payment_blocked');
+  });
+
+  it('a HOLD rule debits the payer but holds the payment back from the provider', async () => {
+    // 6000 is inside the NONE per-payment limit but over its default risk ceiling of 5000
+    ddbMock.on(GetCommand).resolves({ Item: { ...activeMerchant, kyc_level: 'NONE' } });
+    const res = await handler(event({ ...validBody, amount_pesewas: 6000 }));
+    expect(res.statusCode).toBe(202);
+    expect(parse<InitiateResponse>(res).status).toBe('HELD');
+    expect(walletCalls()).toHaveLength(1); // debited, not credited back
+
+    const meta = ddbMock
+      .commandCalls(PutCommand)
+      .find((c) => c.args[0].input.Item?.sk === 'META');
+    expect(meta?.args[0].input.Item?.status).toBe('HELD');
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+    const types = busMock
+      .commandCalls(PutEventsCommand)
+      .map((c) => c.args[0].input.Entries?.[0]?.DetailType);
+    expect(types).toEqual(['fraud.payment_held']);
+  });
+
   it('400s a non-integer pesewas amount (money is integer pesewas, never floats)', async () => {
     const res = await handler(event({ ...validBody, amount_pesewas: 20.5 }));
     expect(res.statusCode).toBe(400);
@@ -149,3 +247,87 @@ describe('payment initiation (ADR-9)', () => {
     expect(walletCalls()).toHaveLength(0);
   });
 });
+
+describe('payment initiation from a DYNAMIC QR', () => {
+  const dynamicQr = (overrides: Record<string, unknown> = {}) => ({
+    qr_id: 'qr_d',
+    merchant_id: 'mer_1',
+    qr_type: 'DYNAMIC',
+    status: 'ACTIVE',
+    amount_pesewas: 2000,
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  });
+  const qrCalls = () =>
+    ddbMock
+      .commandCalls(UpdateCommand)
+      .filter((c) => c.args[0].input.TableName === 'test-qr')
+      .map((c) => c.args[0].input);
+  const withQr = (qr: Record<string, unknown>) => {
+    ddbMock.on(GetCommand, { TableName: 'test-merchants' }).resolves({ Item: activeMerchant });
+    ddbMock.on(GetCommand, { TableName: 'test-qr' }).resolves({ Item: qr });
+  };
+
+  it('claims the QR for this payment before the debit and records qr_id on the payment', async () => {
+    withQr(dynamicQr());
+    const res = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(res.statusCode).toBe(201);
+    const { payment_id } = parse<InitiateResponse>(res);
+    const [claim] = qrCalls();
+    expect(claim.ConditionExpression).toContain('attribute_not_exists(used_at)');
+    expect(claim.ExpressionAttributeValues).toMatchObject({ ':pid': payment_id, ':amt': 2000 });
+    const meta = ddbMock
+      .commandCalls(PutCommand)
+      .find((c) => c.args[0].input.Item?.sk === 'META');
+    expect(meta?.args[0].input.Item).toMatchObject({ payment_id, qr_id: 'qr_d' });
+  });
+
+  it('409s an amount that differs from the QR — no claim, no debit', async () => {
+    withQr(dynamicQr({ amount_pesewas: 2500 }));
+    const res = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('AMOUNT_MISMATCH');
+    expect(qrCalls()).toHaveLength(0);
+    expect(walletCalls()).toHaveLength(0);
+  });
+
+  it('409s a QR that was already paid, including a lost race for the claim', async () => {
+    withQr(dynamicQr({ used_at: new Date().toISOString() }));
+    const used = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(parse<ErrorResponse>(used).error.code).toBe('QR_ALREADY_USED');
+
+    withQr(dynamicQr());
+    ddbMock
+      .on(UpdateCommand, { TableName: 'test-qr' })
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const raced = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(raced.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(raced).error.code).toBe('QR_ALREADY_USED');
+    expect(walletCalls()).toHaveLength(0);
+  });
+
+  it('410s an expired QR', async () => {
+    withQr(dynamicQr({ expires_at: new Date(Date.now() - 1000).toISOString() }));
+    const res = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(res.statusCode).toBe(410);
+    expect(parse<ErrorResponse>(res).error.code).toBe('QR_EXPIRED');
+  });
+
+  it('releases the claim when the wallet cannot cover it, so the customer can retry', async () => {
+    withQr(dynamicQr());
+    ddbMock
+      .on(UpdateCommand, { TableName: 'test-wallets' })
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const res = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(res.statusCode).toBe(402);
+    const [claim, release] = qrCalls();
+    expect(release.UpdateExpression).toBe('REMOVE used_at, used_by_payment_id');
+    expect(release.ExpressionAttributeValues?.[':pid']).toBe(claim.ExpressionAttributeValues?.[':pid']);
+  });
+
+  it('409s a QR from a different merchant', async () => {
+    withQr(dynamicQr({ merchant_id: 'mer_2' }));
+    const res = await handler(event({ ...validBody, qr_id: 'qr_d' }));
+    expect(parse<ErrorResponse>(res).error.code).toBe('QR_MERCHANT_MISMATCH');
+  });
+});
@@ -2,7 +2,7 @@ import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { GetCommand } from '@aws-sdk/lib-dynamodb';
 import { ddb, publishEvent } from '../shared/clients.js';
 import { getConfig } from '../shared/config.js';
-import { hashPhone } from '../shared/pii.js';
+import { hashPhone, sealPii } from '../shared/pii.js';
 import {
   apiError,
   handleError,
@@ -12,18 +12,32 @@ import {
   requireString,
 } from '../shared/http.js';
 import { getProvider } from './provider.js';
-import { appendEvent, createPayment } from './ledger.js';
+import { appendEvent, createPayment, newPaymentId } from './ledger.js';
 import { debit, credit } from '../wallets/store.js';
+import { collectionLimitProblem } from '../kyc/limits.js';
+import type { MerchantItem } from '../merchants/store.js';
+import { assessPayment, type RiskAssessment } from '../risk/rules.js';
+import { claimDynamicQr, dynamicQrProblem, getQr, releaseDynamicQr } from '../qr/store.js';
 
 interface InitiateBody {
   merchant_id: string;
   amount_pesewas: number;
   payer_phone: string;
+  /** The scanned QR; required for a DYNAMIC QR's amount and one-time use to apply. */
+  qr_id?: string;
 }
 
 /**
  * POST /v1/payments — wallet debit first (ADR-9: atomic check-and-debit; no payment
- * record on insufficient funds), then ledger INITIATED, then provider call.
+ * record on insufficient funds), then ledger INITIATED, then provider call. A DYNAMIC
+ * QR is checked (same merchant, exact amount, unexpired) and claimed before the debit,
+ * and released again if the payment never starts. The merchant's KYC level caps the
+ * amount per payment and per day.
+ *
+ * The risk rules (risk/rules.ts) then decide ALLOW, HOLD or BLOCK, recorded as the
+ * RISK_DECISION event on the payment's timeline. BLOCK writes a BLOCKED payment and
+ * debits nothing (403). HOLD debits the payer and writes a HELD payment that only goes to
+ * the provider once a reviewer releases it (202). Either one raises a fraud.* event.
  */
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
@@ -43,20 +57,90 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     if (merchant.Item.status !== 'ACTIVE') {
       return apiError(409, 'MERCHANT_NOT_ACTIVE', 'Merchant cannot accept payments');
     }
+    const merchantItem = merchant.Item as MerchantItem;
+    const cfg = await getConfig();
+    const overLimit = await collectionLimitProblem(merchantItem, amount, cfg.kycLimits);
+    if (overLimit) {
+      return apiError(
+        403,
+        'LIMIT_EXCEEDED',
+        overLimit.limit === 'PER_PAYMENT'
+          ? 'This merchant cannot accept a payment this large'
+          : 'This merchant has reached their daily limit',
+        { ...overLimit }
+      );
+    }
+
+    const paymentId = newPaymentId();
+    let dynamicQrId: string | undefined;
+    if (body.qr_id !== undefined) {
+      const qrId = requireString(body.qr_id, 'qr_id');
+      const qr = await getQr(qrId);
+      if (!qr) return apiError(404, 'QR_NOT_FOUND', 'This QR code is not recognized');
+      if (qr.merchant_id !== merchantId) {
+        return apiError(409, 'QR_MERCHANT_MISMATCH', 'QR code belongs to a different merchant');
+      }
+      if (qr.status !== 'ACTIVE') {
+        return apiError(410, 'QR_INACTIVE', 'This QR code is no longer active');
+      }
+      if (qr.qr_type === 'DYNAMIC') {
+        if (qr.amount_pesewas !== amount) {
+          return apiError(409, 'AMOUNT_MISMATCH', 'Amount differs from the amount on the QR code');
+        }
+        const problem = dynamicQrProblem(qr);
+        if (problem === 'QR_EXPIRED') return apiError(410, problem, 'This QR code has expired');
+        if (problem || !(await claimDynamicQr(qrId, paymentId, amount))) {
+          return apiError(409, 'QR_ALREADY_USED', 'This QR code has already been paid');
+        }
+        dynamicQrId = qrId;
+      }
+    }
+
+    const risk = await assessPayment(
+      { merchant: merchantItem, payerPhoneHash: phoneHash, amountPesewas: amount },
+      cfg.riskRules
+    );
+    if (risk.decision === 'BLOCK') {
+      if (dynamicQrId) await releaseDynamicQr(dynamicQrId, paymentId);
+      await createPayment({
+        merchantId,
+        payerPhoneHash: phoneHash,
+        amountPesewas: amount,
+        provider: 'MTN_MOMO',
+        paymentId,
+        qrId: body.qr_id,
+        status: 'BLOCKED',
+      });
+      await recordDecision(paymentId, merchantId, amount, risk);
+      // The payer is not told which rule it was
+      return apiError(403, 'PAYMENT_BLOCKED', 'This payment cannot be made right now', {
+        payment_id: paymentId,
+      });
+    }
+    const held = risk.decision === 'HOLD';
 
     if (!(await debit(phoneHash, amount))) {
+      if (dynamicQrId) await releaseDynamicQr(dynamicQrId, paymentId);
       return apiError(402, 'INSUFFICIENT_FUNDS', 'Wallet balance is too low — top up first');
     }
 
-    const cfg = await getConfig();
     let payment;
     try {
       payment = await createPayment({
         merchantId,
         payerPhoneHash: phoneHash,
+        payerPhoneSealed: await sealPii(payerPhone), // SMS receipt (notifications/)
         amountPesewas: amount,
         provider: 'MTN_MOMO',
+        adapter: cfg.activeProvider, // verify and release go back to the same adapter
+        paymentId,
+        qrId: body.qr_id,
+        ...(held ? { status: 'HELD' as const } : {}),
       });
+      await recordDecision(paymentId, merchantId, amount, risk);
+      if (held) {
+        return ok({ payment_id: paymentId, status: payment.status, amount_pesewas: amount }, 202);
+      }
       const provider = getProvider(cfg.activeProvider);
       await provider.initiatePayment({
         paymentId: payment.payment_id,
@@ -68,6 +152,7 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       // Provider/ledger failure after debit: put the money back immediately
       await credit(phoneHash, amount);
       if (payment) await appendEvent(payment.payment_id, 'INITIATION_ROLLED_BACK', {});
+      if (dynamicQrId) await releaseDynamicQr(dynamicQrId, paymentId);
       throw err;
     }
 
@@ -91,3 +176,21 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     return handleError(err);
   }
 };
+
+/** RISK_DECISION on the timeline; a hold or block also goes to the bus for support. */
+async function recordDecision(
+  paymentId: string,
+  merchantId: string,
+  amount: number,
+  risk: RiskAssessment
+): Promise<void> {
+  await appendEvent(paymentId, 'RISK_DECISION', { decision: risk.decision, hits: risk.hits });
+  if (risk.decision === 'ALLOW') return;
+  await publishEvent(risk.decision === 'HOLD' ? 'fraud.payment_held' : 'fraud.payment_blocked', {
+    payment_id: paymentId,
+    merchant_id: merchantId,
+    amount_pesewas: amount,
+    hits: risk.hits,
+    event_time: new Date().toISOString(),
+  });
+}
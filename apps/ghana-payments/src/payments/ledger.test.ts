@@ -7,7 +7,13 @@ import {
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { ddb } from '../shared/clients.js';
-import { confirmPayment, expirePayment, markCreditedBack } from './ledger.js';
+import {
+  approveRefund,
+  confirmPayment,
+  expirePayment,
+  markCreditedBack,
+  requestRefund,
+} from './ledger.js';
 
 const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
 
@@ -88,3 +94,65 @@ describe('markCreditedBack (exactly-once credit-back)', () => {
     expect(await markCreditedBack('pay_1')).toBe(false);
   });
 });
+
+describe('refund transitions (concept §12.1)', () => {
+  const refundInput = {
+    paymentId: 'pay_1',
+    amountPesewas: 2000,
+    reason: 'customer dispute',
+    requestedBy: 'alice',
+  };
+
+  it('opens a request by claiming META.open_refund_id on a SUCCESS payment', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock.on(PutCommand).resolves({});
+    const result = await requestRefund(refundInput);
+    expect(result.outcome).toBe('created');
+    const [put, update] =
+      ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+    expect(put.Put?.Item?.refund_status).toBe('PENDING_APPROVAL');
+    expect(update.Update?.ConditionExpression).toContain('attribute_not_exists(open_refund_id)');
+    expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.Item?.event_type).toBe(
+      'REFUND_REQUESTED'
+    );
+  });
+
+  it.each([
+    ['SUCCESS', 'already_open'],
+    ['FAILED', 'not_refundable'],
+    ['REFUNDED', 'not_refundable'],
+  ])('classifies a refused request on a %s payment as %s', async (status, outcome) => {
+    ddbMock.on(TransactWriteCommand).rejects(cancelled([null, 'ConditionalCheckFailed']));
+    ddbMock.on(GetCommand).resolves({ Item: { payment_id: 'pay_1', status } });
+    expect((await requestRefund(refundInput)).outcome).toBe(outcome);
+  });
+
+  it('approval moves SUCCESS -> REFUNDED only for a different admin', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock.on(PutCommand).resolves({});
+    ddbMock.on(GetCommand).resolves({ Item: { payment_id: 'pay_1', status: 'REFUNDED' } });
+    expect((await approveRefund('pay_1', 'rfd_1', 'bob')).outcome).toBe('applied');
+    const [refund, meta] =
+      ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+    expect(refund.Update?.ConditionExpression).toContain('requested_by <> :by');
+    expect(meta.Update?.ExpressionAttributeValues?.[':refunded']).toBe('REFUNDED');
+    expect(meta.Update?.ConditionExpression).toContain('open_refund_id = :rid');
+  });
+
+  it('reports self-approval when the requester tries to approve', async () => {
+    ddbMock.on(TransactWriteCommand).rejects(cancelled(['ConditionalCheckFailed', null]));
+    ddbMock.on(GetCommand).resolves({
+      Item: { refund_id: 'rfd_1', refund_status: 'PENDING_APPROVAL', requested_by: 'alice' },
+    });
+    expect((await approveRefund('pay_1', 'rfd_1', 'alice')).outcome).toBe('self_approval');
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it('a second approval finds the request already decided', async () => {
+    ddbMock.on(TransactWriteCommand).rejects(cancelled(['ConditionalCheckFailed', 'ConditionalCheckFailed']));
+    ddbMock.on(GetCommand).resolves({
+      Item: { refund_id: 'rfd_1', refund_status: 'APPROVED', requested_by: 'alice' },
+    });
+    expect((await approveRefund('pay_1', 'rfd_1', 'carol')).outcome).toBe('not_pending');
+  });
+});
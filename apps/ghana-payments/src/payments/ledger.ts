@@ -1,12 +1,15 @@
 import {
   GetCommand,
   PutCommand,
+  QueryCommand,
   TransactWriteCommand,
   UpdateCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { randomUUID } from 'node:crypto';
 import { ddb } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
 import type { PaymentProvider, PaymentStatus } from '../shared/types.js';
+import { creditItem } from '../wallets/store.js';
 
 const TABLE = (): string => process.env.PAYMENTS_TABLE ?? '';
 
@@ -18,33 +21,87 @@ export interface PaymentRecord {
   sk: 'META';
   merchant_id: string;
   payer_phone_hash: string;
+  /** sealPii(payer phone) — for the customer SMS receipt; never returned by the API. */
+  payer_phone_sealed?: string;
   amount_pesewas: number;
   currency: 'GHS';
   provider: PaymentProvider;
+  /** getProvider() name of the adapter that took the payment (SSM provider/active at the time). */
+  adapter?: string;
   status: PaymentStatus;
   created_at: string;
   confirmed_at?: string;
+  /** First announcement to any of the merchant's devices. */
   announced_at?: string;
+  /** Every soundbox the payment was announced to (fan-out; per-device announce-once). */
+  announced_device_ids?: Set<string>;
+  /** First device ack ({status:'played'}) for the announcement. */
+  played_at?: string;
+  played_device_ids?: Set<string>;
+  /** Set once when the device never acked and the SMS fallback was triggered. */
+  announce_fallback_at?: string;
   credited_back_at?: string;
   reason?: string;
+  provider_txn_id?: string;
+  /** Set when /verify finalised the payment by polling: the operator, null when unnamed. */
+  verified_by?: string | null;
+  open_refund_id?: string;
+  refunded_at?: string;
+  /** The QR the payer scanned, when the portal passed it through. */
+  qr_id?: string;
+  /** A HELD payment's review (risk/handlers.ts): who released or declined it, and when. */
+  reviewed_by?: string;
+  reviewed_at?: string;
+  review_note?: string;
+  /** When a released hold went to the provider; the sweeper's expiry counts from here. */
+  released_at?: string;
 }
 
+export type RefundStatus = 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED';
+
+/** `REFUND#{refund_id}` item under the payment — the maker-checker request (concept §12.1). */
+export interface RefundRequest {
+  payment_id: string;
+  sk: string;
+  refund_id: string;
+  amount_pesewas: number;
+  reason: string;
+  refund_status: RefundStatus;
+  requested_by: string;
+  requested_at: string;
+  decided_by?: string;
+  decided_at?: string;
+  decision_note?: string;
+}
+
+export const newPaymentId = (): string => `pay_${randomUUID()}`;
+
 export async function createPayment(input: {
   merchantId: string;
   payerPhoneHash: string;
+  payerPhoneSealed?: string;
   amountPesewas: number;
   provider: PaymentProvider;
+  adapter?: string;
+  /** Pre-allocated id, when something (a dynamic QR claim) must reference it first. */
+  paymentId?: string;
+  qrId?: string;
+  /** HELD or BLOCKED when a risk rule stopped the payment (risk/rules.ts). */
+  status?: 'INITIATED' | 'HELD' | 'BLOCKED';
 }): Promise<PaymentRecord> {
   const record: PaymentRecord = {
-    payment_id: `pay_${randomUUID()}`,
+    payment_id: input.paymentId ?? newPaymentId(),
     sk: 'META',
     merchant_id: input.merchantId,
     payer_phone_hash: input.payerPhoneHash,
+    ...(input.payerPhoneSealed ? { payer_phone_sealed: input.payerPhoneSealed } : {}),
     amount_pesewas: input.amountPesewas,
     currency: 'GHS',
     provider: input.provider,
-    status: 'INITIATED',
+    ...(input.adapter ? { adapter: input.adapter } : {}),
+    status: input.status ?? 'INITIATED',
     created_at: new Date().toISOString(),
+    ...(input.qrId ? { qr_id: input.qrId } : {}),
   };
   await ddb.send(
     new PutCommand({
@@ -53,7 +110,9 @@ export async function createPayment(input: {
       ConditionExpression: 'attribute_not_exists(payment_id)',
     })
   );
-  await appendEvent(record.payment_id, 'PAYMENT_INITIATED', { amount_pesewas: record.amount_pesewas });
+  await appendEvent(record.payment_id, `PAYMENT_${record.status}`, {
+    amount_pesewas: record.amount_pesewas,
+  });
   return record;
 }
 
@@ -64,6 +123,155 @@ export async function getPayment(paymentId: string): Promise<PaymentRecord | und
   return res.Item as PaymentRecord | undefined;
 }
 
+/**
+ * How long before its confirmation a payment can have been created: a hold waits up to
+ * `risk/hold-expiry-minutes` for review, and a released (or never held) payment stays open
+ * `sweeper/expiry-minutes` before the sweeper expires it. The extra hour covers sweeper lag
+ * and a config change between creation and confirmation.
+ */
+async function createdLookbackMs(): Promise<number> {
+  const cfg = await getConfig();
+  return (cfg.riskRules.holdExpiryMinutes + cfg.sweeperExpiryMinutes + 60) * 60_000;
+}
+
+/**
+ * Payments in `status` whose confirmed_at falls on the UTC business day `date`
+ * (YYYY-MM-DD), via GSI2 (status + created_at) — paginated. Settlement and
+ * reconciliation both read a day this way.
+ */
+export async function paymentsConfirmedOn(
+  date: string,
+  status: PaymentStatus
+): Promise<PaymentRecord[]> {
+  const dayStart = new Date(`${date}T00:00:00.000Z`);
+  const from = new Date(dayStart.getTime() - (await createdLookbackMs())).toISOString();
+  const to = `${date}T23:59:59.999Z`;
+  const items: PaymentRecord[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        IndexName: 'GSI2',
+        KeyConditionExpression: '#status = :status AND created_at BETWEEN :from AND :to',
+        FilterExpression: 'begins_with(confirmed_at, :day)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':status': status, ':from': from, ':to': to, ':day': date },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as PaymentRecord[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/**
+ * The merchant's payments confirmed (any terminal status) strictly after `since`, via
+ * GSI1 (merchant_id + confirmed_at), oldest first — paginated. The soundbox
+ * missed-announcement sync reads this.
+ */
+export async function paymentsConfirmedSince(
+  merchantId: string,
+  since: string
+): Promise<PaymentRecord[]> {
+  const items: PaymentRecord[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        IndexName: 'GSI1',
+        KeyConditionExpression: 'merchant_id = :m AND confirmed_at > :since',
+        ExpressionAttributeValues: { ':m': merchantId, ':since': since },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as PaymentRecord[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/**
+ * The merchant's payments created at or after `since` (any status), via GSI3
+ * (merchant_id + created_at) — paginated. Collection limits (kyc/limits.ts) read this.
+ */
+export async function paymentsCreatedSince(
+  merchantId: string,
+  since: string
+): Promise<PaymentRecord[]> {
+  const items: PaymentRecord[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        IndexName: 'GSI3',
+        KeyConditionExpression: 'merchant_id = :m AND created_at >= :since',
+        ExpressionAttributeValues: { ':m': merchantId, ':since': since },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as PaymentRecord[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/**
+ * One payer's payments created at or after `since` (any merchant, any status), via GSI4
+ * (payer_phone_hash + created_at) — paginated. The risk rules read this.
+ */
+export async function paymentsByPayerSince(
+  payerPhoneHash: string,
+  since: string
+): Promise<PaymentRecord[]> {
+  const items: PaymentRecord[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        IndexName: 'GSI4',
+        KeyConditionExpression: 'payer_phone_hash = :p AND created_at >= :since',
+        ExpressionAttributeValues: { ':p': payerPhoneHash, ':since': since },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as PaymentRecord[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/** One `EVT#{iso}#{uuid8}` history item: event_type plus whatever detail was appended. */
+export interface PaymentEventItem {
+  payment_id: string;
+  sk: string;
+  event_type: string;
+  [detail: string]: unknown;
+}
+
+/** The payment's EVT# items in write order (the sk starts with the ISO timestamp). */
+export async function listEvents(paymentId: string): Promise<PaymentEventItem[]> {
+  const items: PaymentEventItem[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        KeyConditionExpression: 'payment_id = :id AND begins_with(sk, :prefix)',
+        ExpressionAttributeValues: { ':id': paymentId, ':prefix': 'EVT#' },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as PaymentEventItem[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
 /** Append-only event history item (ADR-3). Never conditional — history always records. */
 export async function appendEvent(
   paymentId: string,
@@ -86,7 +294,7 @@ export async function appendEvent(
 export type ConfirmResult =
   | { outcome: 'applied'; payment: PaymentRecord }
   | { outcome: 'duplicate' }
-  | { outcome: 'late_callback' }
+  | { outcome: 'late_callback'; payment: PaymentRecord }
   | { outcome: 'not_found' };
 
 /**
@@ -94,15 +302,21 @@ export type ConfirmResult =
  *  - IDEM#{provider_txn_id} unique-constraint item (attribute_not_exists)
  *  - META status update conditioned on status still being open
  * Cancellation reasons distinguish duplicate (IDEM exists) from late callback (META terminal).
+ * A /verify poll may have finalised the payment under an id the provider's callback does
+ * not carry; a callback that then agrees with it is a duplicate, not a late callback.
  */
 export async function confirmPayment(input: {
   paymentId: string;
   providerTxnId: string;
   toStatus: 'SUCCESS' | 'FAILED';
   reason?: string;
-  rawPayloadRef: string;
+  /** S3 URI of the raw callback; absent when the transition came from polling (/verify). */
+  rawPayloadRef?: string;
+  /** /verify: the operator who forced the poll. */
+  verifiedBy?: string | null;
 }): Promise<ConfirmResult> {
   const now = new Date().toISOString();
+  const polled = input.verifiedBy !== undefined;
   try {
     await ddb.send(
       new TransactWriteCommand({
@@ -123,7 +337,8 @@ export async function confirmPayment(input: {
               TableName: TABLE(),
               Key: { payment_id: input.paymentId, sk: 'META' },
               UpdateExpression:
-                'SET #status = :to, confirmed_at = :now, reason = :reason, provider_txn_id = :txn',
+                'SET #status = :to, confirmed_at = :now, reason = :reason, provider_txn_id = :txn' +
+                (polled ? ', verified_by = :by' : ''),
               ConditionExpression: 'attribute_exists(payment_id) AND #status IN (:open1, :open2)',
               ExpressionAttributeNames: { '#status': 'status' },
               ExpressionAttributeValues: {
@@ -133,6 +348,7 @@ export async function confirmPayment(input: {
                 ':txn': input.providerTxnId,
                 ':open1': OPEN_STATUSES[0],
                 ':open2': OPEN_STATUSES[1],
+                ...(polled ? { ':by': input.verifiedBy ?? null } : {}),
               },
             },
           },
@@ -147,6 +363,9 @@ export async function confirmPayment(input: {
     if (metaReason?.Code === 'ConditionalCheckFailed') {
       const existing = await getPayment(input.paymentId);
       if (!existing) return { outcome: 'not_found' };
+      if (!polled && existing.verified_by !== undefined && existing.status === input.toStatus) {
+        return { outcome: 'duplicate' }; // the callback /verify got ahead of
+      }
       // F-1: terminal already — record anomaly, publish nothing, move no money
       await appendEvent(input.paymentId, 'ANOMALY_LATE_CALLBACK', {
         attempted_status: input.toStatus,
@@ -154,33 +373,39 @@ export async function confirmPayment(input: {
         provider_txn_id: input.providerTxnId,
         raw_payload_ref: input.rawPayloadRef,
       });
-      return { outcome: 'late_callback' };
+      return { outcome: 'late_callback', payment: existing };
     }
     throw err;
   }
   await appendEvent(input.paymentId, `PAYMENT_${input.toStatus === 'SUCCESS' ? 'CONFIRMED' : 'FAILED'}`, {
     provider_txn_id: input.providerTxnId,
     raw_payload_ref: input.rawPayloadRef,
+    ...(input.verifiedBy ? { verified_by: input.verifiedBy } : {}),
   });
   const payment = await getPayment(input.paymentId);
   return { outcome: 'applied', payment: payment as PaymentRecord };
 }
 
-/** Sweeper transition (ADR-5): open payment past expiry → EXPIRED. Conditional, race-safe vs callbacks. */
-export async function expirePayment(paymentId: string): Promise<boolean> {
+/**
+ * Sweeper transition (ADR-5): open payment past expiry → EXPIRED. Conditional, race-safe vs
+ * callbacks. `from` is HELD for a hold nobody reviewed.
+ */
+export async function expirePayment(
+  paymentId: string,
+  from: PaymentStatus[] = OPEN_STATUSES
+): Promise<boolean> {
   try {
     await ddb.send(
       new UpdateCommand({
         TableName: TABLE(),
         Key: { payment_id: paymentId, sk: 'META' },
         UpdateExpression: 'SET #status = :expired, confirmed_at = :now',
-        ConditionExpression: '#status IN (:open1, :open2)',
+        ConditionExpression: `#status IN (${from.map((_, i) => `:from${i}`).join(', ')})`,
         ExpressionAttributeNames: { '#status': 'status' },
         ExpressionAttributeValues: {
           ':expired': 'EXPIRED',
           ':now': new Date().toISOString(),
-          ':open1': OPEN_STATUSES[0],
-          ':open2': OPEN_STATUSES[1],
+          ...Object.fromEntries(from.map((status, i) => [`:from${i}`, status])),
         },
       })
     );
@@ -192,16 +417,163 @@ export async function expirePayment(paymentId: string): Promise<boolean> {
   return true;
 }
 
-/** Announce-once guard (ADR-4b): the soundbox speaks exactly once per payment. */
+/**
+ * Reviewer lets a HELD payment go to the provider: HELD → INITIATED. Undefined when the
+ * payment is missing or no longer held (released, declined or expired meanwhile).
+ */
+export async function releaseHeldPayment(
+  paymentId: string,
+  releasedBy: string
+): Promise<PaymentRecord | undefined> {
+  const now = new Date().toISOString();
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { payment_id: paymentId, sk: 'META' },
+        UpdateExpression:
+          'SET #status = :initiated, released_at = :now, reviewed_by = :by, reviewed_at = :now',
+        ConditionExpression: '#status = :held',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':initiated': 'INITIATED',
+          ':held': 'HELD',
+          ':now': now,
+          ':by': releasedBy,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    await appendEvent(paymentId, 'HOLD_RELEASED', { released_by: releasedBy });
+    return res.Attributes as PaymentRecord;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return undefined;
+    throw err;
+  }
+}
+
+/** The provider call after a release failed: back to HELD, so the reviewer can retry. */
+export async function restoreHold(paymentId: string, error: string): Promise<void> {
+  await ddb.send(
+    new UpdateCommand({
+      TableName: TABLE(),
+      Key: { payment_id: paymentId, sk: 'META' },
+      UpdateExpression: 'SET #status = :held REMOVE released_at',
+      ConditionExpression: '#status = :initiated',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':held': 'HELD', ':initiated': 'INITIATED' },
+    })
+  );
+  await appendEvent(paymentId, 'RELEASE_ROLLED_BACK', { error });
+}
+
+/**
+ * Reviewer refuses a HELD payment: HELD → FAILED. The caller publishes payment.failed,
+ * which credits the payer back. Undefined when the payment is missing or no longer held.
+ */
+export async function declineHeldPayment(
+  paymentId: string,
+  declinedBy: string,
+  note: string
+): Promise<PaymentRecord | undefined> {
+  const now = new Date().toISOString();
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { payment_id: paymentId, sk: 'META' },
+        UpdateExpression:
+          'SET #status = :failed, confirmed_at = :now, reason = :reason, ' +
+          'reviewed_by = :by, reviewed_at = :now, review_note = :note',
+        ConditionExpression: '#status = :held',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':failed': 'FAILED',
+          ':held': 'HELD',
+          ':now': now,
+          ':reason': 'Declined after review',
+          ':by': declinedBy,
+          ':note': note,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    await appendEvent(paymentId, 'HOLD_DECLINED', { declined_by: declinedBy, note });
+    return res.Attributes as PaymentRecord;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * Announce-once guard (ADR-4b), per device: each of the merchant's soundboxes speaks a
+ * payment exactly once. `announced_at` keeps the first announcement.
+ */
 export async function markAnnounced(paymentId: string, deviceId: string): Promise<boolean> {
   try {
     await ddb.send(
       new UpdateCommand({
         TableName: TABLE(),
         Key: { payment_id: paymentId, sk: 'META' },
-        UpdateExpression: 'SET announced_at = :now, announced_device_id = :device',
-        ConditionExpression: 'attribute_exists(payment_id) AND attribute_not_exists(announced_at)',
-        ExpressionAttributeValues: { ':now': new Date().toISOString(), ':device': deviceId },
+        UpdateExpression:
+          'SET announced_at = if_not_exists(announced_at, :now) ADD announced_device_ids :devices',
+        ConditionExpression:
+          'attribute_exists(payment_id) AND NOT contains(announced_device_ids, :device)',
+        ExpressionAttributeValues: {
+          ':now': new Date().toISOString(),
+          ':devices': new Set([deviceId]),
+          ':device': deviceId,
+        },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+/**
+ * Device ack for the announcement. Only a device it was sent to can ack, once each;
+ * false for a duplicate ack, a stray payment_id or a device that was not announced to.
+ * `played_at` is the first ack from any device — the vendor heard it.
+ */
+export async function markPlayed(paymentId: string, deviceId: string): Promise<boolean> {
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { payment_id: paymentId, sk: 'META' },
+        UpdateExpression:
+          'SET played_at = if_not_exists(played_at, :now) ADD played_device_ids :devices',
+        ConditionExpression:
+          'contains(announced_device_ids, :device) AND NOT contains(played_device_ids, :device)',
+        ExpressionAttributeValues: {
+          ':now': new Date().toISOString(),
+          ':devices': new Set([deviceId]),
+          ':device': deviceId,
+        },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+/** Exactly-once guard for the unacked-announcement SMS fallback (redelivered retries stay silent). */
+export async function markAnnounceFallback(paymentId: string): Promise<boolean> {
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { payment_id: paymentId, sk: 'META' },
+        UpdateExpression: 'SET announce_fallback_at = :now',
+        ConditionExpression:
+          'attribute_exists(payment_id) AND attribute_not_exists(played_at) AND attribute_not_exists(announce_fallback_at)',
+        ExpressionAttributeValues: { ':now': new Date().toISOString() },
       })
     );
     return true;
@@ -229,3 +601,226 @@ export async function markCreditedBack(paymentId: string): Promise<boolean> {
     throw err;
   }
 }
+
+export async function getRefund(paymentId: string, refundId: string): Promise<RefundRequest | undefined> {
+  const res = await ddb.send(
+    new GetCommand({ TableName: TABLE(), Key: { payment_id: paymentId, sk: `REFUND#${refundId}` } })
+  );
+  return res.Item as RefundRequest | undefined;
+}
+
+export async function listRefunds(paymentId: string): Promise<RefundRequest[]> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: TABLE(),
+      KeyConditionExpression: 'payment_id = :id AND begins_with(sk, :prefix)',
+      ExpressionAttributeValues: { ':id': paymentId, ':prefix': 'REFUND#' },
+    })
+  );
+  return (res.Items ?? []) as RefundRequest[];
+}
+
+export type RefundRequestResult =
+  | { outcome: 'created'; refund: RefundRequest }
+  | { outcome: 'not_found' | 'not_refundable' | 'already_open' };
+
+/**
+ * Open a refund request (full amount). One transaction: put the REFUND item + claim
+ * META.open_refund_id while the payment is SUCCESS — so at most one request is open
+ * per payment and nothing can be requested on a non-settled payment.
+ */
+export async function requestRefund(input: {
+  paymentId: string;
+  amountPesewas: number;
+  reason: string;
+  requestedBy: string;
+}): Promise<RefundRequestResult> {
+  const refundId = `rfd_${randomUUID()}`;
+  const refund: RefundRequest = {
+    payment_id: input.paymentId,
+    sk: `REFUND#${refundId}`,
+    refund_id: refundId,
+    amount_pesewas: input.amountPesewas,
+    reason: input.reason,
+    refund_status: 'PENDING_APPROVAL',
+    requested_by: input.requestedBy,
+    requested_at: new Date().toISOString(),
+  };
+  try {
+    await ddb.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          { Put: { TableName: TABLE(), Item: refund } },
+          {
+            Update: {
+              TableName: TABLE(),
+              Key: { payment_id: input.paymentId, sk: 'META' },
+              UpdateExpression: 'SET open_refund_id = :rid',
+              ConditionExpression:
+                'attribute_exists(payment_id) AND #status = :success AND attribute_not_exists(open_refund_id)',
+              ExpressionAttributeNames: { '#status': 'status' },
+              ExpressionAttributeValues: { ':rid': refund.refund_id, ':success': 'SUCCESS' },
+            },
+          },
+        ],
+      })
+    );
+  } catch (err: unknown) {
+    const reasons = (err as { CancellationReasons?: Array<{ Code?: string }> }).CancellationReasons;
+    if (reasons?.[1]?.Code !== 'ConditionalCheckFailed') throw err;
+    const existing = await getPayment(input.paymentId);
+    if (!existing) return { outcome: 'not_found' };
+    return { outcome: existing.status === 'SUCCESS' ? 'already_open' : 'not_refundable' };
+  }
+  await appendEvent(input.paymentId, 'REFUND_REQUESTED', {
+    refund_id: refund.refund_id,
+    amount_pesewas: refund.amount_pesewas,
+    requested_by: refund.requested_by,
+  });
+  return { outcome: 'created', refund };
+}
+
+export type RefundDecisionResult =
+  | { outcome: 'applied'; payment: PaymentRecord; refund: RefundRequest }
+  | { outcome: 'not_found' | 'not_pending' | 'self_approval' };
+
+/** Why a decision transaction was cancelled — read back the request to tell the caller. */
+async function classifyDecisionFailure(
+  paymentId: string,
+  refundId: string,
+  decidedBy: string
+): Promise<RefundDecisionResult> {
+  const refund = await getRefund(paymentId, refundId);
+  if (!refund) return { outcome: 'not_found' };
+  if (refund.refund_status !== 'PENDING_APPROVAL') return { outcome: 'not_pending' };
+  if (refund.requested_by === decidedBy) return { outcome: 'self_approval' };
+  return { outcome: 'not_pending' };
+}
+
+/**
+ * Checker step: SUCCESS -> REFUNDED. One transaction: the request moves PENDING_APPROVAL
+ * -> APPROVED only if the approver is not the requester, META moves only while it is
+ * still SUCCESS with this request open, and the payer wallet is credited. The credit
+ * commits with the transition or not at all: a failed attempt leaves the request open
+ * to approve again, and a second approve (or a concurrent one) fails the conditions.
+ */
+export async function approveRefund(
+  paymentId: string,
+  refundId: string,
+  approvedBy: string
+): Promise<RefundDecisionResult> {
+  const [current, request] = await Promise.all([
+    getPayment(paymentId),
+    getRefund(paymentId, refundId),
+  ]);
+  if (!current || !request) return { outcome: 'not_found' };
+  const now = new Date().toISOString();
+  try {
+    await ddb.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: TABLE(),
+              Key: { payment_id: paymentId, sk: `REFUND#${refundId}` },
+              UpdateExpression: 'SET refund_status = :approved, decided_by = :by, decided_at = :now',
+              ConditionExpression: 'refund_status = :pending AND requested_by <> :by',
+              ExpressionAttributeValues: {
+                ':approved': 'APPROVED',
+                ':pending': 'PENDING_APPROVAL',
+                ':by': approvedBy,
+                ':now': now,
+              },
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE(),
+              Key: { payment_id: paymentId, sk: 'META' },
+              UpdateExpression: 'SET #status = :refunded, refunded_at = :now REMOVE open_refund_id',
+              ConditionExpression: '#status = :success AND open_refund_id = :rid',
+              ExpressionAttributeNames: { '#status': 'status' },
+              ExpressionAttributeValues: {
+                ':refunded': 'REFUNDED',
+                ':success': 'SUCCESS',
+                ':rid': refundId,
+                ':now': now,
+              },
+            },
+          },
+          creditItem(current.payer_phone_hash, request.amount_pesewas),
+        ],
+      })
+    );
+  } catch (err: unknown) {
+    if (!(err as { CancellationReasons?: unknown }).CancellationReasons) throw err;
+    return classifyDecisionFailure(paymentId, refundId, approvedBy);
+  }
+  await appendEvent(paymentId, 'PAYMENT_REFUNDED', { refund_id: refundId, approved_by: approvedBy });
+  const [payment, refund] = await Promise.all([
+    getPayment(paymentId),
+    getRefund(paymentId, refundId),
+  ]);
+  return {
+    outcome: 'applied',
+    payment: payment as PaymentRecord,
+    refund: refund as RefundRequest,
+  };
+}
+
+/** Reject (or withdraw) an open request; the payment stays SUCCESS and can be re-requested. */
+export async function rejectRefund(
+  paymentId: string,
+  refundId: string,
+  rejectedBy: string,
+  note: string
+): Promise<RefundDecisionResult> {
+  const now = new Date().toISOString();
+  try {
+    await ddb.send(
+      new TransactWriteCommand({
+        TransactItems: [
+          {
+            Update: {
+              TableName: TABLE(),
+              Key: { payment_id: paymentId, sk: `REFUND#${refundId}` },
+              UpdateExpression:
+                'SET refund_status = :rejected, decided_by = :by, decided_at = :now, decision_note = :note',
+              ConditionExpression: 'refund_status = :pending',
+              ExpressionAttributeValues: {
+                ':rejected': 'REJECTED',
+                ':pending': 'PENDING_APPROVAL',
+                ':by': rejectedBy,
+                ':now': now,
+                ':note': note,
+              },
+            },
+          },
+          {
+            Update: {
+              TableName: TABLE(),
+              Key: { payment_id: paymentId, sk: 'META' },
+              UpdateExpression: 'REMOVE open_refund_id',
+              ConditionExpression: 'open_refund_id = :rid',
+              ExpressionAttributeValues: { ':rid': refundId },
+            },
+          },
+        ],
+      })
+    );
+  } catch (err: unknown) {
+    if (!(err as { CancellationReasons?: unknown }).CancellationReasons) throw err;
+    const refund = await getRefund(paymentId, refundId);
+    return { outcome: refund ? 'not_pending' : 'not_found' };
+  }
+  await appendEvent(paymentId, 'REFUND_REJECTED', { refund_id: refundId, rejected_by: rejectedBy, note });
+  const [payment, refund] = await Promise.all([
+    getPayment(paymentId),
+    getRefund(paymentId, refundId),
+  ]);
+  return {
+    outcome: 'applied',
+    payment: payment as PaymentRecord,
+    refund: refund as RefundRequest,
+  };
+}
@@ -1,8 +1,7 @@
 import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
 import { randomUUID } from 'node:crypto';
 import { getConfig } from '../shared/config.js';
-import type { PaymentStatus } from '../shared/types.js';
-import type { InitiatePaymentRequest, PaymentProviderAdapter } from './provider.js';
+import type { InitiatePaymentRequest, PaymentProviderAdapter, ProviderStatus } from './provider.js';
 
 const sqs = new SQSClient({});
 
@@ -57,8 +56,8 @@ export class MockMomoProvider implements PaymentProviderAdapter {
     return { providerRef };
   }
 
-  async getStatus(): Promise<PaymentStatus> {
+  async getStatus(): Promise<ProviderStatus> {
     // The mock's truth travels via its callback; polling reports PENDING (matches MTN's async model).
-    return 'PENDING';
+    return { status: 'PENDING' };
   }
 }
@@ -0,0 +1,143 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { SSMClient, GetParameterCommand, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { _resetConfigCache } from '../shared/config.js';
+import { MtnSandboxProvider, _resetMtnCache } from './mtn-provider.js';
+
+const ssmMock = mockClient(SSMClient);
+
+process.env.STAGE = 'dev';
+process.env.MTN_CREDS_PARAM = '/dev/ghana-payments/mtn/credentials';
+
+/** Scriptable MTN sandbox: counts token grants, answers status with `mtnStatus`. */
+let server: Server;
+let baseUrl: string;
+let tokenGrants = 0;
+let expiresIn = 3600;
+let rejectNextBearer = false;
+let requestToPayStatus = 202;
+let mtnStatus = 'SUCCESSFUL';
+let statusLookup = 200;
+
+const reply = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    req.resume();
+    if (req.url === '/collection/token/') {
+      tokenGrants++;
+      return reply(res, 200, { access_token: `tok-${tokenGrants}`, expires_in: expiresIn });
+    }
+    if (rejectNextBearer) {
+      rejectNextBearer = false;
+      return reply(res, 401, { message: 'Access token expired' });
+    }
+    if (req.method === 'POST') return reply(res, requestToPayStatus);
+    if (statusLookup !== 200) return reply(res, statusLookup, { code: 'RESOURCE_NOT_FOUND' });
+    return reply(res, 200, {
+      status: mtnStatus,
+      externalId: 'pay_1',
+      amount: '20.00',
+      financialTransactionId: 'mtn-fin-1',
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  ssmMock.reset();
+  _resetConfigCache();
+  _resetMtnCache();
+  tokenGrants = 0;
+  expiresIn = 3600;
+  rejectNextBearer = false;
+  requestToPayStatus = 202;
+  mtnStatus = 'SUCCESSFUL';
+  statusLookup = 200;
+  ssmMock.on(GetParametersByPathCommand).resolves({
+    Parameters: [{ Name: '/dev/ghana-payments/mtn/base-url', Value: baseUrl }],
+  });
+  ssmMock.on(GetParameterCommand).resolves({
+    Parameter: { Value: JSON.stringify({ api_user: 'u', api_key: 'k', subscription_key: 's' }) },
+  });
+});
+
+const req = {
+  paymentId: 'pay_1',
+  merchantId: 'mer_1',
+  payerPhone: '0244000000',
+  amountPesewas: 2000,
+};
+
+describe('MtnSandboxProvider OAuth token handling (§17.6, §17.8)', () => {
+  it('caches the access token across calls', async () => {
+    const provider = new MtnSandboxProvider();
+    await provider.initiatePayment(req);
+    await provider.getStatus('pay_1');
+    expect(tokenGrants).toBe(1);
+  });
+
+  it('refreshes a token that is within a minute of expiry', async () => {
+    expiresIn = 30;
+    const provider = new MtnSandboxProvider();
+    await provider.getStatus('pay_1');
+    await provider.getStatus('pay_1');
+    expect(tokenGrants).toBe(2);
+  });
+
+  it('on 401 drops the cached token and retries exactly once', async () => {
+    const provider = new MtnSandboxProvider();
+    await provider.getStatus('pay_1'); // tok-1 cached
+    rejectNextBearer = true;
+    expect((await provider.getStatus('pay_1'))?.status).toBe('SUCCESS');
+    expect(tokenGrants).toBe(2);
+  });
+
+  it('reads credentials once per container', async () => {
+    const provider = new MtnSandboxProvider();
+    await provider.getStatus('pay_1');
+    await provider.getStatus('pay_1');
+    expect(ssmMock.commandCalls(GetParameterCommand)).toHaveLength(1);
+    expect(ssmMock.commandCalls(GetParameterCommand)[0].args[0].input.WithDecryption).toBe(true);
+  });
+});
+
+describe('MtnSandboxProvider collections', () => {
+  it('throws when RequestToPay is not accepted (initiate credits the wallet back)', async () => {
+    requestToPayStatus = 409; // duplicate X-Reference-Id
+    await expect(new MtnSandboxProvider().initiatePayment(req)).rejects.toThrow('HTTP 409');
+  });
+
+  it.each([
+    ['PENDING', 'PENDING'],
+    ['SUCCESSFUL', 'SUCCESS'],
+    ['FAILED', 'FAILED'],
+    ['REJECTED', 'FAILED'],
+    ['TIMEOUT', 'FAILED'],
+  ])('maps MTN status %s to %s', async (mtn, ours) => {
+    mtnStatus = mtn;
+    expect((await new MtnSandboxProvider().getStatus('pay_1'))?.status).toBe(ours);
+  });
+
+  it('reports MTN transaction id and amount, and nothing for a reference MTN never saw', async () => {
+    expect(await new MtnSandboxProvider().getStatus('pay_1')).toEqual({
+      status: 'SUCCESS',
+      providerTxnId: 'mtn-fin-1',
+      amountPesewas: 2000,
+    });
+    statusLookup = 404;
+    expect(await new MtnSandboxProvider().getStatus('pay_nope')).toBeUndefined();
+    statusLookup = 500;
+    await expect(new MtnSandboxProvider().getStatus('pay_1')).rejects.toThrow('HTTP 500');
+  });
+});
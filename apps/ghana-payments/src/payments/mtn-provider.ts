@@ -0,0 +1,154 @@
+import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { getConfig, type MockConfig } from '../shared/config.js';
+import type { PaymentStatus } from '../shared/types.js';
+import type { InitiatePaymentRequest, PaymentProviderAdapter, ProviderStatus } from './provider.js';
+
+const ssm = new SSMClient({});
+
+/** SecureString JSON at MTN_CREDS_PARAM — set out-of-band, never in the repo. */
+interface MtnCredentials {
+  api_user: string;
+  api_key: string;
+  subscription_key: string;
+}
+
+/** The parts of the RequestToPay status resource we read (concept §17.5). */
+interface RequestToPayStatus {
+  status: 'PENDING' | 'SUCCESSFUL' | 'FAILED' | 'REJECTED' | 'TIMEOUT';
+  /** Set once money moved — the same id the callback carries. */
+  financialTransactionId?: string;
+  amount?: string;
+  reason?: string;
+}
+
+/** Sandbox test MSISDNs can return any of these (§17.1); only SUCCESSFUL moves money. */
+const STATUS_MAP: Record<RequestToPayStatus['status'], PaymentStatus> = {
+  PENDING: 'PENDING',
+  SUCCESSFUL: 'SUCCESS',
+  FAILED: 'FAILED',
+  REJECTED: 'FAILED',
+  TIMEOUT: 'FAILED',
+};
+
+// Refresh a minute before expiry so a token never lapses mid-request (§17.6)
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+let cachedCreds: MtnCredentials | null = null;
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+async function getCredentials(): Promise<MtnCredentials> {
+  if (cachedCreds) return cachedCreds;
+  const res = await ssm.send(
+    new GetParameterCommand({ Name: process.env.MTN_CREDS_PARAM, WithDecryption: true })
+  );
+  cachedCreds = JSON.parse(res.Parameter?.Value ?? '{}') as MtnCredentials;
+  return cachedCreds;
+}
+
+/** OAuth client-credentials token (POST /collection/token/), cached per container until near expiry. */
+async function getToken(cfg: MockConfig, creds: MtnCredentials): Promise<string> {
+  if (cachedToken && Date.now() < cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS) {
+    return cachedToken.value;
+  }
+  const basic = Buffer.from(`${creds.api_user}:${creds.api_key}`).toString('base64');
+  const res = await fetch(`${cfg.mtnBaseUrl}/collection/token/`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Basic ${basic}`,
+      'Ocp-Apim-Subscription-Key': creds.subscription_key,
+      'X-Target-Environment': cfg.mtnTargetEnvironment,
+    },
+  });
+  if (!res.ok) {
+    throw new Error(`MTN token request failed: HTTP ${res.status} ${await res.text()}`);
+  }
+  const body = (await res.json()) as { access_token: string; expires_in?: number };
+  cachedToken = {
+    value: body.access_token,
+    expiresAt: Date.now() + (body.expires_in ?? 3600) * 1000,
+  };
+  return cachedToken.value;
+}
+
+/** Test seam. */
+export function _resetMtnCache(): void {
+  cachedCreds = null;
+  cachedToken = null;
+}
+
+/**
+ * MTN MoMo Collections adapter (concept §17). RequestToPay is keyed by our payment_id
+ * (X-Reference-Id, echoed back as externalId), so the callback lands on the same
+ * webhook path and ledger transition as the mock's. getStatus is the polling fallback.
+ */
+export class MtnSandboxProvider implements PaymentProviderAdapter {
+  async initiatePayment(req: InitiatePaymentRequest): Promise<{ providerRef: string }> {
+    const cfg = await getConfig();
+    const callbackUrl =
+      cfg.mtnCallbackUrl || (cfg.publicBaseUrl ? `${cfg.publicBaseUrl}/api/v1/webhooks/mtn` : '');
+    const res = await this.call(cfg, 'POST', '/collection/v1_0/requesttopay', {
+      headers: {
+        'X-Reference-Id': req.paymentId,
+        ...(callbackUrl ? { 'X-Callback-Url': callbackUrl } : {}),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        amount: (req.amountPesewas / 100).toFixed(2),
+        currency: cfg.mtnCurrency,
+        externalId: req.paymentId,
+        payer: { partyIdType: 'MSISDN', partyId: req.payerPhone },
+        payerMessage: 'Payment to merchant',
+        payeeNote: req.merchantId,
+      }),
+    });
+    // 202 Accepted — the outcome arrives on the callback (or via getStatus)
+    if (res.status !== 202) {
+      throw new Error(`MTN RequestToPay failed: HTTP ${res.status} ${await res.text()}`);
+    }
+    return { providerRef: req.paymentId };
+  }
+
+  async getStatus(providerRef: string): Promise<ProviderStatus | undefined> {
+    const cfg = await getConfig();
+    const res = await this.call(
+      cfg,
+      'GET',
+      `/collection/v1_0/requesttopay/${encodeURIComponent(providerRef)}`
+    );
+    if (res.status === 404) return undefined; // MTN never saw this X-Reference-Id
+    if (!res.ok) {
+      throw new Error(`MTN payment status failed: HTTP ${res.status} ${await res.text()}`);
+    }
+    const body = (await res.json()) as RequestToPayStatus;
+    return {
+      status: STATUS_MAP[body.status] ?? 'PENDING',
+      ...(body.financialTransactionId ? { providerTxnId: body.financialTransactionId } : {}),
+      ...(body.amount ? { amountPesewas: Math.round(parseFloat(body.amount) * 100) } : {}),
+    };
+  }
+
+  /** Authenticated call; a 401 drops the cached token and retries once (§17.8). */
+  private async call(
+    cfg: MockConfig,
+    method: 'GET' | 'POST',
+    path: string,
+    init: { headers?: Record<string, string>; body?: string } = {}
+  ): Promise<Response> {
+    const creds = await getCredentials();
+    const send = async (): Promise<Response> =>
+      fetch(`${cfg.mtnBaseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${await getToken(cfg, creds)}`,
+          'Ocp-Apim-Subscription-Key': creds.subscription_key,
+          'X-Target-Environment': cfg.mtnTargetEnvironment,
+          ...init.headers,
+        },
+        body: init.body,
+      });
+    const res = await send();
+    if (res.status !== 401) return res;
+    cachedToken = null;
+    return send();
+  }
+}
@@ -2,13 +2,16 @@
  * Provider contract tests (D1 / architecture §4.1).
  *
  * One shared fixture describes the MTN MoMo Collections callback shape (concept §17).
- * Today it is asserted against MockMomoProvider's SQS-enqueued payloads AND against the
- * webhook normalizer end-to-end. A future MtnSandboxProvider must pass this exact file
- * unchanged — that is the point of the seam.
+ * It is asserted against MockMomoProvider's SQS-enqueued payloads, against the callbacks
+ * a local HTTP stand-in of the MTN sandbox builds from MtnSandboxProvider's RequestToPay
+ * calls, AND against the webhook normalizer end-to-end — the same contract for both
+ * adapters; that is the point of the seam.
  */
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { mockClient } from 'aws-sdk-client-mock';
 import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
-import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import { SSMClient, GetParameterCommand, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
 import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
 import {
@@ -21,7 +24,9 @@ import type { APIGatewayProxyEvent } from 'aws-lambda';
 import { ddb } from '../shared/clients.js';
 import { _resetConfigCache } from '../shared/config.js';
 import { MockMomoProvider, type MockCallbackBody } from './mock-provider.js';
+import { MtnSandboxProvider, _resetMtnCache } from './mtn-provider.js';
 import { handler as webhookHandler } from './webhook.js';
+import { _resetSecretCache, computeSignature } from './signatures.js';
 
 const sqsMock = mockClient(SQSClient);
 const ssmMock = mockClient(SSMClient);
@@ -34,6 +39,8 @@ process.env.PAYMENTS_TABLE = 'test-payments';
 process.env.WEBHOOK_INBOX_BUCKET = 'test-inbox';
 process.env.EVENT_BUS_NAME = 'test-bus';
 process.env.STAGE = 'dev';
+process.env.MTN_CREDS_PARAM = '/dev/ghana-payments/mtn/credentials';
+process.env.WEBHOOK_NONCES_TABLE = 'test-nonces';
 
 // ---------------------------------------------------------------------------
 // THE CONTRACT — MTN MoMo Collections callback (concept §17)
@@ -90,6 +97,10 @@ beforeEach(() => {
   busMock.reset();
   ddbMock.reset();
   _resetConfigCache();
+  _resetSecretCache();
+  ssmMock
+    .on(GetParameterCommand, { Name: '/dev/ghana-payments/webhooks/mock/secret' })
+    .resolves({ Parameter: { Value: 'contract-secret' } });
   ssmMock.on(GetParametersByPathCommand).resolves({
     Parameters: [
       { Name: '/dev/ghana-payments/mock/fail-amount-pesewas', Value: '1300' },
@@ -143,8 +154,19 @@ describe('MockMomoProvider satisfies the MoMo Collections callback contract', ()
 });
 
 describe('the webhook normalizer accepts the same contract end-to-end', () => {
-  const webhookEvent = (rawBody: string): APIGatewayProxyEvent =>
-    ({ pathParameters: { provider: 'mock' }, body: rawBody }) as unknown as APIGatewayProxyEvent;
+  // Signed exactly as mock-delivery signs it (signatures.signWebhook)
+  const webhookEvent = (rawBody: string): APIGatewayProxyEvent => {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return {
+      pathParameters: { provider: 'mock' },
+      headers: {
+        'x-webhook-timestamp': timestamp,
+        'x-webhook-nonce': 'contract-nonce',
+        'x-webhook-signature': computeSignature('contract-secret', timestamp, 'contract-nonce', rawBody),
+      },
+      body: rawBody,
+    } as unknown as APIGatewayProxyEvent;
+  };
 
   it('SUCCESS payload from the provider flows to a SUCCESS ledger transition + payment.confirmed', async () => {
     await new MockMomoProvider().initiatePayment(req(2005));
@@ -214,3 +236,166 @@ describe('the webhook normalizer accepts the same contract end-to-end', () => {
     expect(entry?.DetailType).toBe('payment.failed');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Local stand-in of the MTN sandbox (token, RequestToPay, status) — §17.5
+// ---------------------------------------------------------------------------
+interface StandIn {
+  url: string;
+  server: Server;
+  /** Outcome the next RequestToPay resolves to. */
+  outcome: 'SUCCESSFUL' | 'FAILED';
+  /** What MTN would POST to X-Callback-Url, one per RequestToPay. */
+  callbacks: string[];
+  requests: Array<{ referenceId: string; callbackUrl?: string }>;
+}
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  let data = '';
+  for await (const chunk of req) data += String(chunk);
+  return data;
+};
+
+async function startMtnStandIn(): Promise<StandIn> {
+  const statuses = new Map<string, MockCallbackBody>();
+  const standIn = { outcome: 'SUCCESSFUL', callbacks: [], requests: [] } as unknown as StandIn;
+  standIn.server = createServer((req, res) => {
+    void (async () => {
+      const send = (status: number, body?: unknown) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(body === undefined ? '' : JSON.stringify(body));
+      };
+      if (req.headers['ocp-apim-subscription-key'] !== 'sub-key') return send(401);
+      if (req.method === 'POST' && req.url === '/collection/token/') {
+        const expected = `Basic ${Buffer.from('api-user:api-key').toString('base64')}`;
+        if (req.headers.authorization !== expected) return send(401);
+        return send(200, { access_token: 'tok-1', token_type: 'access_token', expires_in: 3600 });
+      }
+      if (req.headers.authorization !== 'Bearer tok-1') return send(401);
+      if (req.method === 'POST' && req.url === '/collection/v1_0/requesttopay') {
+        const referenceId = req.headers['x-reference-id'] as string;
+        const body = JSON.parse(await readBody(req)) as {
+          amount: string;
+          currency: 'GHS';
+          externalId: string;
+          payer: MockCallbackBody['payer'];
+        };
+        const callback: MockCallbackBody = {
+          financialTransactionId: String(Date.now()),
+          externalId: body.externalId,
+          amount: body.amount,
+          currency: body.currency,
+          status: standIn.outcome,
+          ...(standIn.outcome === 'FAILED' ? { reason: 'APPROVAL_REJECTED' } : {}),
+          payer: body.payer,
+        };
+        statuses.set(referenceId, callback);
+        standIn.requests.push({
+          referenceId,
+          callbackUrl: req.headers['x-callback-url'] as string | undefined,
+        });
+        standIn.callbacks.push(JSON.stringify(callback));
+        return send(202);
+      }
+      const statusMatch = /^\/collection\/v1_0\/requesttopay\/(.+)$/.exec(req.url ?? '');
+      if (req.method === 'GET' && statusMatch) {
+        const found = statuses.get(decodeURIComponent(statusMatch[1]));
+        return found ? send(200, found) : send(404, { code: 'RESOURCE_NOT_FOUND' });
+      }
+      return send(404);
+    })();
+  });
+  await new Promise<void>((resolve) => standIn.server.listen(0, '127.0.0.1', resolve));
+  standIn.url = `http://127.0.0.1:${(standIn.server.address() as AddressInfo).port}`;
+  return standIn;
+}
+
+describe('MtnSandboxProvider satisfies the same contract against a local MTN sandbox stand-in', () => {
+  let standIn: StandIn;
+
+  beforeAll(async () => {
+    standIn = await startMtnStandIn();
+  });
+
+  afterAll(async () => {
+    standIn.server.closeAllConnections();
+    await new Promise((resolve) => standIn.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    _resetMtnCache();
+    standIn.outcome = 'SUCCESSFUL';
+    standIn.callbacks = [];
+    standIn.requests = [];
+    ssmMock.on(GetParametersByPathCommand).resolves({
+      Parameters: [
+        { Name: '/dev/ghana-payments/mtn/base-url', Value: standIn.url },
+        { Name: '/dev/ghana-payments/mtn/target-environment', Value: 'sandbox' },
+        { Name: '/dev/ghana-payments/public-base-url', Value: 'https://demo.cloudfront.net' },
+      ],
+    });
+    ssmMock.on(GetParameterCommand).resolves({
+      Parameter: {
+        Value: JSON.stringify({ api_user: 'api-user', api_key: 'api-key', subscription_key: 'sub-key' }),
+      },
+    });
+  });
+
+  it('RequestToPay is keyed by payment_id and the resulting callback is conformant', async () => {
+    const { providerRef } = await new MtnSandboxProvider().initiatePayment(req(2005));
+    expect(providerRef).toBe('pay_ct1');
+    expect(standIn.requests[0].referenceId).toBe('pay_ct1'); // X-Reference-Id = payment_id
+    expect(standIn.requests[0].callbackUrl).toBe('https://demo.cloudfront.net/api/v1/webhooks/mtn');
+    const body = expectMomoCollectionsCallback(standIn.callbacks[0], {
+      paymentId: 'pay_ct1',
+      amountPesewas: 2005,
+      payerPhone: '0244000000',
+    });
+    expect(body.status).toBe('SUCCESSFUL');
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0); // no mock queue involved
+  });
+
+  it('FAILED callback carries a reason', async () => {
+    standIn.outcome = 'FAILED';
+    await new MtnSandboxProvider().initiatePayment(req(1300));
+    const body = expectMomoCollectionsCallback(standIn.callbacks[0], {
+      paymentId: 'pay_ct1',
+      amountPesewas: 1300,
+      payerPhone: '0244000000',
+    });
+    expect(body.status).toBe('FAILED');
+  });
+
+  it('getStatus polls the same reference and normalizes to our PaymentStatus', async () => {
+    const provider = new MtnSandboxProvider();
+    const { providerRef } = await provider.initiatePayment(req(2005));
+    expect((await provider.getStatus(providerRef))?.status).toBe('SUCCESS');
+  });
+
+  it('the MTN callback flows through /v1/webhooks/mtn to a SUCCESS transition + payment.confirmed', async () => {
+    await new MtnSandboxProvider().initiatePayment(req(2005));
+    const raw = standIn.callbacks[0];
+    const contract = expectMomoCollectionsCallback(raw, {
+      paymentId: 'pay_ct1',
+      amountPesewas: 2005,
+      payerPhone: '0244000000',
+    });
+
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock.on(GetCommand).resolves({
+      Item: { payment_id: 'pay_ct1', sk: 'META', status: 'SUCCESS', merchant_id: 'mer_1', amount_pesewas: 2005 },
+    });
+
+    const res = await webhookHandler({
+      pathParameters: { provider: 'mtn' },
+      body: raw,
+    } as unknown as APIGatewayProxyEvent);
+    expect(res.statusCode).toBe(200);
+
+    const idemPut = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems?.[0]?.Put
+      ?.Item;
+    expect(idemPut?.sk).toBe(`IDEM#${contract.financialTransactionId}`);
+    const entry = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries?.[0];
+    expect(entry?.DetailType).toBe('payment.confirmed');
+  });
+});
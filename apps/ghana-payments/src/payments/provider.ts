@@ -1,8 +1,9 @@
 import type { PaymentStatus } from '../shared/types.js';
 import { MockMomoProvider } from './mock-provider.js';
+import { MtnSandboxProvider } from './mtn-provider.js';
 
 /**
- * The provider seam (D1). MockMomoProvider now; MtnSandboxProvider is a drop-in later.
+ * The provider seam (D1). SSM `provider/active` selects MockMomoProvider or MtnSandboxProvider.
  * Nothing outside this module may import a concrete provider.
  */
 export interface InitiatePaymentRequest {
@@ -12,17 +13,29 @@ export interface InitiatePaymentRequest {
   amountPesewas: number;
 }
 
+/**
+ * A status poll: our status, plus what the provider itself records for the payment — its
+ * transaction id once it has one, and the amount it is collecting.
+ */
+export interface ProviderStatus {
+  status: PaymentStatus;
+  providerTxnId?: string;
+  amountPesewas?: number;
+}
+
 export interface PaymentProviderAdapter {
   /** Kick off collection; async — outcome arrives via webhook (or sweeper on silence). */
   initiatePayment(req: InitiatePaymentRequest): Promise<{ providerRef: string }>;
-  /** Poll fallback for /verify. */
-  getStatus(providerRef: string): Promise<PaymentStatus>;
+  /** Poll fallback for /verify. undefined when the provider has no such reference. */
+  getStatus(providerRef: string): Promise<ProviderStatus | undefined>;
 }
 
 export function getProvider(name: string): PaymentProviderAdapter {
   switch (name) {
     case 'mock':
       return new MockMomoProvider();
+    case 'mtn':
+      return new MtnSandboxProvider();
     default:
       throw new Error(`Unknown payment provider: ${name}`);
   }
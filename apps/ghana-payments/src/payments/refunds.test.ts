@@ -0,0 +1,165 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { approveHandler, createHandler } from './refunds.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const busMock = mockClient(EventBridgeClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.WALLETS_TABLE = 'test-wallets';
+process.env.EVENT_BUS_NAME = 'test-bus';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+
+function cancelled(reasons: Array<string | null>): Error {
+  return Object.assign(new Error('Transaction cancelled'), {
+    name: 'TransactionCanceledException',
+    CancellationReasons: reasons.map((code) => (code ? { Code: code } : { Code: 'None' })),
+  });
+}
+
+const payment = (status: string) => ({
+  payment_id: 'pay_1',
+  sk: 'META',
+  merchant_id: 'mer_1',
+  payer_phone_hash: 'hash-payer',
+  amount_pesewas: 2000,
+  currency: 'GHS',
+  provider: 'MTN_MOMO',
+  status,
+});
+
+const refund = (refund_status: string) => ({
+  payment_id: 'pay_1',
+  sk: 'REFUND#rfd_1',
+  refund_id: 'rfd_1',
+  amount_pesewas: 2000,
+  reason: 'customer dispute',
+  refund_status,
+  requested_by: 'alice',
+  requested_at: '2026-01-01T00:00:00.000Z',
+});
+
+const event = (body: unknown, refundId?: string): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id: 'pay_1', ...(refundId ? { refundId } : {}) },
+    body: JSON.stringify(body),
+  }) as unknown as APIGatewayProxyEvent;
+
+beforeEach(() => {
+  ddbMock.reset();
+  busMock.reset();
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({});
+  busMock.on(PutEventsCommand).resolves({});
+});
+
+describe('POST /v1/payments/{id}/refunds', () => {
+  it('opens a pending request without moving money', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment('SUCCESS') });
+    ddbMock.on(TransactWriteCommand).resolves({});
+    const res = await createHandler(event({ requested_by: 'alice', reason: 'customer dispute' }));
+    expect(res.statusCode).toBe(201);
+    expect(parse<{ refund_status: string }>(res).refund_status).toBe('PENDING_APPROVAL');
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0); // no wallet credit
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('409s a payment that is not SUCCESS', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment('PENDING') });
+    ddbMock.on(TransactWriteCommand).rejects(cancelled([null, 'ConditionalCheckFailed']));
+    const res = await createHandler(event({ requested_by: 'alice', reason: 'x' }));
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('PAYMENT_NOT_REFUNDABLE');
+  });
+});
+
+describe('POST /v1/payments/{id}/refunds/{refundId}/approve', () => {
+  it('credits the payer wallet in the approval transaction and publishes payment.refunded', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock
+      .on(GetCommand, { Key: { payment_id: 'pay_1', sk: 'META' } })
+      .resolves({ Item: payment('REFUNDED') });
+    ddbMock
+      .on(GetCommand, { Key: { payment_id: 'pay_1', sk: 'REFUND#rfd_1' } })
+      .resolves({ Item: { ...refund('APPROVED'), decided_by: 'bob' } });
+
+    const res = await approveHandler(event({ approved_by: 'bob' }, 'rfd_1'));
+    expect(res.statusCode).toBe(200);
+    expect(parse<{ payment_status: string }>(res).payment_status).toBe('REFUNDED');
+
+    // The credit commits with REFUNDED or not at all — never as a separate write
+    const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+    const walletCredit = items.find((i) => i.Update?.TableName === 'test-wallets')?.Update;
+    expect(walletCredit?.Key).toEqual({ phone: 'hash-payer' });
+    expect(walletCredit?.ExpressionAttributeValues?.[':amt']).toBe(2000);
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+
+    const types = busMock
+      .commandCalls(PutEventsCommand)
+      .map((c) => c.args[0].input.Entries?.[0].DetailType);
+    expect(types).toEqual(['payment.refunded', 'wallet.credited']);
+  });
+
+  it('403s self-approval and moves nothing', async () => {
+    ddbMock.on(TransactWriteCommand).rejects(cancelled(['ConditionalCheckFailed', null]));
+    ddbMock.on(GetCommand).resolves({ Item: refund('PENDING_APPROVAL') });
+    const res = await approveHandler(event({ approved_by: 'alice' }, 'rfd_1'));
+    expect(res.statusCode).toBe(403);
+    expect(parse<ErrorResponse>(res).error.code).toBe('SELF_APPROVAL');
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('the signed-in operator is the approver, whatever the body claims', async () => {
+    ddbMock.on(TransactWriteCommand).rejects(cancelled(['ConditionalCheckFailed', null]));
+    ddbMock.on(GetCommand).resolves({ Item: refund('PENDING_APPROVAL') });
+    const signedIn = {
+      ...event({ approved_by: 'bob' }, 'rfd_1'),
+      requestContext: { authorizer: { actor: 'alice', roles: 'FINANCE' } },
+    } as unknown as APIGatewayProxyEvent;
+    const res = await approveHandler(signedIn);
+    expect(parse<ErrorResponse>(res).error.code).toBe('SELF_APPROVAL');
+  });
+
+  it('a failed approval transaction credits nothing and leaves the request to approve again', async () => {
+    ddbMock
+      .on(GetCommand, { Key: { payment_id: 'pay_1', sk: 'META' } })
+      .resolves({ Item: payment('SUCCESS') });
+    ddbMock
+      .on(GetCommand, { Key: { payment_id: 'pay_1', sk: 'REFUND#rfd_1' } })
+      .resolves({ Item: refund('PENDING_APPROVAL') });
+    ddbMock.on(TransactWriteCommand).rejectsOnce(new Error('ProvisionedThroughputExceeded'));
+    const failed = await approveHandler(event({ approved_by: 'bob' }, 'rfd_1'));
+    expect(failed.statusCode).toBe(500);
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+
+    ddbMock.on(TransactWriteCommand).resolves({});
+    const retried = await approveHandler(event({ approved_by: 'bob' }, 'rfd_1'));
+    expect(retried.statusCode).toBe(200);
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+
+  it('a repeated approve is a 409 with no second credit', async () => {
+    ddbMock
+      .on(TransactWriteCommand)
+      .rejects(cancelled(['ConditionalCheckFailed', 'ConditionalCheckFailed']));
+    ddbMock.on(GetCommand).resolves({ Item: refund('APPROVED') });
+    const res = await approveHandler(event({ approved_by: 'bob' }, 'rfd_1'));
+    expect(res.statusCode).toBe(409);
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,125 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { publishEvent } from '../shared/clients.js';
+import { apiError, handleError, ok, parseBody, requireActor, requireString } from '../shared/http.js';
+import type { PaymentEvent } from '../shared/types.js';
+import {
+  appendEvent,
+  approveRefund,
+  getPayment,
+  listRefunds,
+  rejectRefund,
+  requestRefund,
+  type RefundDecisionResult,
+} from './ledger.js';
+
+/*
+ * Refund approval workflow (concept §12.1 "Refund abuse"): maker-checker on top of the
+ * ledger. Admin routes only. Actors are named in the body until per-user identity
+ * replaces the shared API key; the ledger refuses self-approval either way.
+ */
+
+function decisionError(result: RefundDecisionResult): APIGatewayProxyResult {
+  if (result.outcome === 'not_found') return apiError(404, 'REFUND_NOT_FOUND', 'No such refund request');
+  if (result.outcome === 'self_approval') {
+    return apiError(403, 'SELF_APPROVAL', 'A refund must be approved by a different admin');
+  }
+  return apiError(409, 'REFUND_NOT_PENDING', 'Refund request is not awaiting approval');
+}
+
+/** POST /v1/payments/{id}/refunds — open a full-amount refund request (maker). */
+export const createHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    const body = parseBody<{ requested_by?: string; reason?: string }>(event.body);
+    const requestedBy = requireActor(event, body.requested_by, 'requested_by');
+    const reason = requireString(body.reason, 'reason');
+
+    const payment = await getPayment(id);
+    if (!payment) return apiError(404, 'PAYMENT_NOT_FOUND', 'No such payment');
+    const result = await requestRefund({
+      paymentId: id,
+      amountPesewas: payment.amount_pesewas,
+      reason,
+      requestedBy,
+    });
+    if (result.outcome === 'created') return ok(result.refund, 201);
+    if (result.outcome === 'not_found') return apiError(404, 'PAYMENT_NOT_FOUND', 'No such payment');
+    if (result.outcome === 'not_refundable') {
+      return apiError(409, 'PAYMENT_NOT_REFUNDABLE', 'Only SUCCESS payments can be refunded');
+    }
+    return apiError(409, 'REFUND_ALREADY_OPEN', 'This payment already has a refund awaiting approval');
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/** GET /v1/payments/{id}/refunds — every request on the payment, any state. */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    return ok({ refunds: await listRefunds(id) });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/payments/{id}/refunds/{refundId}/approve — checker step. The payer wallet is
+ * credited inside the ledger transaction that moves SUCCESS -> REFUNDED, so it happens
+ * exactly once; only the call that made that transition publishes payment.refunded.
+ */
+export const approveHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    const refundId = event.pathParameters?.refundId;
+    if (!id || !refundId) return apiError(400, 'MISSING_ID', 'payment id and refund id required');
+    const body = parseBody<{ approved_by?: string }>(event.body);
+    const approvedBy = requireActor(event, body.approved_by, 'approved_by');
+
+    const result = await approveRefund(id, refundId, approvedBy);
+    if (result.outcome !== 'applied') return decisionError(result);
+
+    const { payment, refund } = result;
+    await appendEvent(id, 'WALLET_REFUNDED', { refund_id: refundId, amount_pesewas: refund.amount_pesewas });
+    const refundEvent: PaymentEvent = {
+      event_id: `evt_${refundId}`,
+      event_type: 'PAYMENT_REFUNDED',
+      provider: payment.provider,
+      provider_transaction_id: refundId,
+      payment_id: id,
+      merchant_id: payment.merchant_id,
+      amount: refund.amount_pesewas,
+      currency: 'GHS',
+      event_time: refund.decided_at ?? new Date().toISOString(),
+    };
+    await publishEvent('payment.refunded', refundEvent);
+    await publishEvent('wallet.credited', {
+      payment_id: id,
+      amount_pesewas: refund.amount_pesewas,
+      reason: 'payment.refunded',
+    });
+    return ok({ ...refund, payment_status: payment.status });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/** POST /v1/payments/{id}/refunds/{refundId}/reject — close the request; payment stays SUCCESS. */
+export const rejectHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    const refundId = event.pathParameters?.refundId;
+    if (!id || !refundId) return apiError(400, 'MISSING_ID', 'payment id and refund id required');
+    const body = parseBody<{ rejected_by?: string; note?: string }>(event.body);
+    const rejectedBy = requireActor(event, body.rejected_by, 'rejected_by');
+    const note = requireString(body.note, 'note');
+
+    const result = await rejectRefund(id, refundId, rejectedBy, note);
+    if (result.outcome !== 'applied') return decisionError(result);
+    return ok({ ...result.refund, payment_status: result.payment.status });
+  } catch (err) {
+    return handleError(err);
+  }
+};
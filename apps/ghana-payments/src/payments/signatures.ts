@@ -0,0 +1,198 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { GetParameterCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+import { ddb } from '../shared/clients.js';
+import { getProvider, type ProviderStatus } from './provider.js';
+
+const ssm = new SSMClient({});
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+export const TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const NONCE_HEADER = 'x-webhook-nonce';
+
+/**
+ * `verified` is what the provider itself reported when the verifier asked it; the receiver
+ * builds the event from it rather than from the callback body.
+ */
+export type VerifyResult =
+  | { ok: true; verified?: ProviderStatus }
+  | { ok: false; code: string; message: string };
+
+/** Per-provider callback authentication (replaces the ADR-8 stub). Headers are lower-cased. */
+export interface WebhookVerifier {
+  verify(headers: Record<string, string | undefined>, rawBody: string): Promise<VerifyResult>;
+}
+
+const secrets = new Map<string, string>();
+
+/** Shared secret per provider: SecureString /{stage}/ghana-payments/webhooks/{provider}/secret, cached per container. */
+async function getSecret(provider: string): Promise<string> {
+  const cached = secrets.get(provider);
+  if (cached) return cached;
+  const res = await ssm.send(
+    new GetParameterCommand({
+      Name: `/${process.env.STAGE ?? 'dev'}/ghana-payments/webhooks/${provider}/secret`,
+      WithDecryption: true,
+    })
+  );
+  const secret = res.Parameter?.Value ?? '';
+  if (!secret) throw new Error(`Webhook secret for ${provider} is not set`);
+  secrets.set(provider, secret);
+  return secret;
+}
+
+/** Test seam. */
+export function _resetSecretCache(): void {
+  secrets.clear();
+}
+
+/** hex HMAC-SHA256 over `{timestamp}.{nonce}.{rawBody}` — binds the body to its replay-window fields. */
+export function computeSignature(
+  secret: string,
+  timestamp: string,
+  nonce: string,
+  rawBody: string
+): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${nonce}.${rawBody}`).digest('hex');
+}
+
+/** Signing side of the HMAC scheme — the mock's delivery Lambda signs exactly as a real provider would. */
+export async function signWebhook(provider: string, rawBody: string): Promise<Record<string, string>> {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const nonce = randomUUID();
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: computeSignature(await getSecret(provider), timestamp, nonce, rawBody),
+  };
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const ab = Buffer.from(a, 'hex');
+  const bb = Buffer.from(b, 'hex');
+  return ab.length > 0 && ab.length === bb.length && timingSafeEqual(ab, bb);
+}
+
+/**
+ * HMAC-SHA256 verifier: timestamp inside the tolerance window, then the signature, then
+ * the nonce is claimed (conditional put, TTL'd past the window). Checking the nonce last
+ * means a forged request can never burn a legitimate nonce.
+ */
+class HmacSha256Verifier implements WebhookVerifier {
+  constructor(
+    private readonly provider: string,
+    private readonly toleranceSeconds: number
+  ) {}
+
+  async verify(headers: Record<string, string | undefined>, rawBody: string): Promise<VerifyResult> {
+    const signature = headers[SIGNATURE_HEADER];
+    const timestamp = headers[TIMESTAMP_HEADER];
+    const nonce = headers[NONCE_HEADER];
+    if (!signature || !timestamp || !nonce) {
+      return { ok: false, code: 'MISSING_SIGNATURE', message: 'Signature headers are required' };
+    }
+
+    const sentAt = Number(timestamp);
+    const nowSeconds = Math.floor(Date.now() / 1000);
+    if (!Number.isInteger(sentAt) || Math.abs(nowSeconds - sentAt) > this.toleranceSeconds) {
+      return { ok: false, code: 'STALE_TIMESTAMP', message: 'Signature timestamp outside tolerance' };
+    }
+
+    const expected = computeSignature(await getSecret(this.provider), timestamp, nonce, rawBody);
+    if (!safeEqualHex(signature, expected)) {
+      return { ok: false, code: 'INVALID_SIGNATURE', message: 'Callback signature does not match' };
+    }
+
+    try {
+      await ddb.send(
+        new PutCommand({
+          TableName: process.env.WEBHOOK_NONCES_TABLE,
+          Item: {
+            nonce_key: `${this.provider}#${nonce}`,
+            received_at: new Date().toISOString(),
+            ttl: sentAt + 2 * this.toleranceSeconds,
+          },
+          ConditionExpression: 'attribute_not_exists(nonce_key)',
+        })
+      );
+    } catch (err: unknown) {
+      if ((err as { name?: string }).name === 'ConditionalCheckFailedException') {
+        return { ok: false, code: 'REPLAYED_NONCE', message: 'Callback nonce already used' };
+      }
+      throw err;
+    }
+    return { ok: true };
+  }
+}
+
+const unverified = (message: string): VerifyResult => ({
+  ok: false,
+  code: 'UNVERIFIED_CALLBACK',
+  message,
+});
+
+/**
+ * MTN Open API collection callbacks carry no signature (ADR-8), so the callback is only
+ * believed once MTN's own status resource says the same thing: the RequestToPay keyed by
+ * the callback's externalId must report the callback's outcome, transaction id and
+ * amount. A forged SUCCESSFUL for a payment MTN still has PENDING is rejected, as is one
+ * that reuses a real externalId with its own id or amount, and one we cannot check
+ * because MTN is unreachable — the force-verify and the sweeper settle those payments.
+ * A reference MTN never saw is UNKNOWN_PAYMENT: the receiver queues it as an anomaly.
+ */
+const statusCheckVerifier = (provider: string): WebhookVerifier => ({
+  async verify(_headers, rawBody) {
+    let body: {
+      externalId?: unknown;
+      status?: unknown;
+      financialTransactionId?: unknown;
+      amount?: unknown;
+    };
+    try {
+      body = JSON.parse(rawBody) as typeof body;
+    } catch {
+      return unverified('Callback body is not JSON');
+    }
+    if (typeof body.externalId !== 'string' || !body.externalId) {
+      return unverified('Callback has no externalId');
+    }
+    const claimed = body.status === 'SUCCESSFUL' ? 'SUCCESS' : 'FAILED';
+
+    let actual: ProviderStatus | undefined;
+    try {
+      actual = await getProvider(provider).getStatus(body.externalId);
+    } catch (err) {
+      console.error('Callback status check failed', { provider, externalId: body.externalId, err });
+      return {
+        ok: false,
+        code: 'STATUS_CHECK_FAILED',
+        message: 'Could not confirm the callback with the provider',
+      };
+    }
+    if (!actual) {
+      return { ok: false, code: 'UNKNOWN_PAYMENT', message: 'Provider has no such payment' };
+    }
+    if (actual.status !== claimed) {
+      return unverified(`Provider reports ${actual.status}, callback claims ${claimed}`);
+    }
+    const { providerTxnId } = actual;
+    if (providerTxnId !== undefined && providerTxnId !== body.financialTransactionId) {
+      return unverified('Provider reports another transaction id');
+    }
+    const amountPesewas = Math.round(parseFloat(String(body.amount)) * 100);
+    if (actual.amountPesewas !== undefined && actual.amountPesewas !== amountPesewas) {
+      return unverified('Provider reports another amount');
+    }
+    return { ok: true, verified: actual };
+  },
+});
+
+const VERIFIERS: Record<string, WebhookVerifier> = {
+  mock: new HmacSha256Verifier('mock', 300),
+  mtn: statusCheckVerifier('mtn'),
+};
+
+/** undefined -> provider not registered; the receiver answers 401 UNKNOWN_PROVIDER. */
+export function getVerifier(provider: string): WebhookVerifier | undefined {
+  return Object.prototype.hasOwnProperty.call(VERIFIERS, provider) ? VERIFIERS[provider] : undefined;
+}
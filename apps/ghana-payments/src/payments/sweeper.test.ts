@@ -0,0 +1,101 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { handler } from './sweeper.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const busMock = mockClient(EventBridgeClient);
+const ssmMock = mockClient(SSMClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.STAGE = 'dev';
+
+const open = (payment_id: string, status: string) => ({
+  payment_id,
+  sk: 'META',
+  merchant_id: 'mer_1',
+  amount_pesewas: 1000,
+  provider: 'MTN_MOMO',
+  status,
+  created_at: '2026-01-01T00:00:00.000Z',
+});
+
+const queriesFor = (status: string) =>
+  ddbMock
+    .commandCalls(QueryCommand)
+    .map((c) => c.args[0].input)
+    .filter((q) => q.ExpressionAttributeValues?.[':status'] === status);
+
+beforeEach(() => {
+  ddbMock.reset();
+  busMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  ssmMock.on(GetParametersByPathCommand).resolves({ Parameters: [] });
+  busMock.on(PutEventsCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({});
+  ddbMock.on(QueryCommand).resolves({ Items: [] });
+});
+
+describe('payment sweeper (ADR-5)', () => {
+  it('follows every page, so a backlog of released holds cannot starve the rest', async () => {
+    ddbMock
+      .on(QueryCommand, { ExpressionAttributeValues: { ':status': 'INITIATED' } }, false)
+      .resolvesOnce({ Items: [], LastEvaluatedKey: { payment_id: 'pay_page1' } })
+      .resolvesOnce({ Items: [], LastEvaluatedKey: { payment_id: 'pay_page2' } })
+      .resolves({ Items: [open('pay_stale', 'INITIATED')] });
+
+    expect(await handler()).toEqual({ expired: 1 });
+    const pages = queriesFor('INITIATED');
+    expect(pages.map((q) => q.ExclusiveStartKey)).toEqual([
+      undefined,
+      { payment_id: 'pay_page1' },
+      { payment_id: 'pay_page2' },
+    ]);
+    expect(pages[0].Limit).toBeUndefined();
+    const types = busMock
+      .commandCalls(PutEventsCommand)
+      .map((c) => c.args[0].input.Entries?.[0]?.DetailType);
+    expect(types).toEqual(['payment.expired']);
+  });
+
+  it('filters released holds on released_at in the query and expires holds on the hold window', async () => {
+    const before = Date.now();
+    await handler();
+
+    const [initiated] = queriesFor('INITIATED');
+    expect(initiated.FilterExpression).toBe(
+      'attribute_not_exists(released_at) OR released_at < :cutoff'
+    );
+    const openCutoff = Date.parse(String(initiated.ExpressionAttributeValues?.[':cutoff']));
+    expect(before - openCutoff).toBeGreaterThanOrEqual(4 * 60_000);
+    expect(before - openCutoff).toBeLessThanOrEqual(6 * 60_000);
+
+    const [held] = queriesFor('HELD');
+    const holdCutoff = Date.parse(String(held.ExpressionAttributeValues?.[':cutoff']));
+    expect(before - holdCutoff).toBeGreaterThanOrEqual(59 * 60_000);
+    expect(before - holdCutoff).toBeLessThanOrEqual(61 * 60_000);
+  });
+
+  it('does not count a payment a callback confirmed first', async () => {
+    ddbMock
+      .on(QueryCommand, { ExpressionAttributeValues: { ':status': 'PENDING' } }, false)
+      .resolves({ Items: [open('pay_raced', 'PENDING')] });
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+
+    expect(await handler()).toEqual({ expired: 0 });
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+});
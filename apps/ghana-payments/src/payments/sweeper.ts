@@ -1,44 +1,60 @@
 import { QueryCommand } from '@aws-sdk/lib-dynamodb';
 import { ddb, publishEvent } from '../shared/clients.js';
 import { getConfig } from '../shared/config.js';
+import type { PaymentStatus } from '../shared/types.js';
 import { expirePayment, type PaymentRecord } from './ledger.js';
 
 /**
  * Scheduled every minute (ADR-5): open payments older than the expiry window ->
  * EXPIRED + payment.expired event (credit-back listens to that). Conditional
  * transition makes the sweeper race-safe against a callback landing simultaneously.
+ * A HELD payment nobody reviewed within `risk/hold-expiry-minutes` expires the same way.
+ * Paginated, so a backlog of released holds still waiting out their window cannot starve
+ * the rest.
  */
 export const handler = async (): Promise<{ expired: number }> => {
   const cfg = await getConfig();
-  const cutoff = new Date(Date.now() - cfg.sweeperExpiryMinutes * 60_000).toISOString();
+  const cutoff = (minutes: number): string => new Date(Date.now() - minutes * 60_000).toISOString();
+  const openCutoff = cutoff(cfg.sweeperExpiryMinutes);
+  const sweeps: Array<[PaymentStatus, string]> = [
+    ['INITIATED', openCutoff],
+    ['PENDING', openCutoff],
+    ['HELD', cutoff(cfg.riskRules.holdExpiryMinutes)],
+  ];
   let expired = 0;
 
-  for (const status of ['INITIATED', 'PENDING']) {
-    const res = await ddb.send(
-      new QueryCommand({
-        TableName: process.env.PAYMENTS_TABLE,
-        IndexName: 'GSI2',
-        KeyConditionExpression: '#status = :status AND created_at < :cutoff',
-        ExpressionAttributeNames: { '#status': 'status' },
-        ExpressionAttributeValues: { ':status': status, ':cutoff': cutoff },
-        Limit: 50,
-      })
-    );
-    for (const item of (res.Items ?? []) as PaymentRecord[]) {
-      if (!(await expirePayment(item.payment_id))) continue; // lost the race to a callback — correct
-      expired++;
-      await publishEvent('payment.expired', {
-        event_id: `evt_exp_${item.payment_id}`,
-        event_type: 'PAYMENT_EXPIRED',
-        provider: item.provider,
-        provider_transaction_id: '',
-        payment_id: item.payment_id,
-        merchant_id: item.merchant_id,
-        amount: item.amount_pesewas,
-        currency: 'GHS',
-        event_time: new Date().toISOString(),
-      });
-    }
+  for (const [status, before] of sweeps) {
+    let startKey: Record<string, unknown> | undefined;
+    do {
+      const res = await ddb.send(
+        new QueryCommand({
+          TableName: process.env.PAYMENTS_TABLE,
+          IndexName: 'GSI2',
+          KeyConditionExpression: '#status = :status AND created_at < :cutoff',
+          // A released hold only reached the provider at released_at
+          FilterExpression: 'attribute_not_exists(released_at) OR released_at < :cutoff',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: { ':status': status, ':cutoff': before },
+          ExclusiveStartKey: startKey,
+        })
+      );
+      for (const item of (res.Items ?? []) as PaymentRecord[]) {
+        if (!(await expirePayment(item.payment_id, [status]))) continue; // lost the race to a callback — correct
+        expired++;
+        await publishEvent('payment.expired', {
+          event_id: `evt_exp_${item.payment_id}`,
+          event_type: 'PAYMENT_EXPIRED',
+          provider: item.provider,
+          provider_transaction_id: '',
+          payment_id: item.payment_id,
+          merchant_id: item.merchant_id,
+          amount: item.amount_pesewas,
+          currency: 'GHS',
+          event_time: new Date().toISOString(),
+        });
+      }
+      startKey = res.LastEvaluatedKey;
+    } while (startKey);
   }
   if (expired > 0) console.log(JSON.stringify({ msg: 'expired stale payments', expired }));
   return { expired };
@@ -0,0 +1,112 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { handler } from './timeline.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.WEBHOOK_INBOX_BUCKET = 'test-inbox';
+// Presigning is local crypto — it only needs some credentials and a region
+process.env.AWS_REGION = 'us-east-1';
+process.env.AWS_ACCESS_KEY_ID = 'AKIDTEST';
+process.env.AWS_SECRET_ACCESS_KEY = 'secret';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface TimelineResponse {
+  announced_at: string | null;
+  events: Array<
+    { at: string; event_type: string; raw_payload_url: string | null } & Record<string, unknown>
+  >;
+}
+
+const event = (id = 'pay_1'): APIGatewayProxyEvent =>
+  ({ pathParameters: { id } }) as unknown as APIGatewayProxyEvent;
+
+beforeEach(() => ddbMock.reset());
+
+describe('GET /v1/payments/{id}/events', () => {
+  it('404s an unknown payment', async () => {
+    ddbMock.on(GetCommand).resolves({});
+    expect((await handler(event())).statusCode).toBe(404);
+  });
+
+  it('returns the EVT# history in order with presigned links to inbox payloads', async () => {
+    ddbMock.on(GetCommand).resolves({
+      Item: {
+        payment_id: 'pay_1',
+        sk: 'META',
+        status: 'SUCCESS',
+        announced_at: '2026-03-01T10:00:05.000Z',
+        announced_device_ids: new Set(['dev_1']),
+      },
+    });
+    ddbMock
+      .on(QueryCommand)
+      .resolvesOnce({
+        Items: [
+          {
+            payment_id: 'pay_1',
+            sk: 'EVT#2026-03-01T10:00:00.000Z#aaaa1111',
+            event_type: 'PAYMENT_INITIATED',
+            amount_pesewas: 2000,
+          },
+        ],
+        LastEvaluatedKey: { payment_id: 'pay_1', sk: 'EVT#2026-03-01T10:00:00.000Z#aaaa1111' },
+      })
+      .resolves({
+        Items: [
+          {
+            payment_id: 'pay_1',
+            sk: 'EVT#2026-03-01T10:00:04.000Z#bbbb2222',
+            event_type: 'PAYMENT_CONFIRMED',
+            raw_payload_ref: 's3://test-inbox/webhooks/mock/2026-03-01/pay_1-abc.json',
+          },
+          {
+            payment_id: 'pay_1',
+            sk: 'EVT#2026-03-01T10:00:05.000Z#cccc3333',
+            event_type: 'ANNOUNCEMENT_PUBLISHED',
+            device_id: 'dev_1',
+          },
+        ],
+      });
+
+    const body = parse<TimelineResponse>(await handler(event()));
+    expect(ddbMock.commandCalls(QueryCommand)[0].args[0].input.ExpressionAttributeValues).toEqual({
+      ':id': 'pay_1',
+      ':prefix': 'EVT#',
+    });
+    expect(body.announced_at).toBe('2026-03-01T10:00:05.000Z');
+    expect(body.events.map((e) => [e.at, e.event_type])).toEqual([
+      ['2026-03-01T10:00:00.000Z', 'PAYMENT_INITIATED'],
+      ['2026-03-01T10:00:04.000Z', 'PAYMENT_CONFIRMED'],
+      ['2026-03-01T10:00:05.000Z', 'ANNOUNCEMENT_PUBLISHED'],
+    ]);
+    const url = new URL(body.events[1].raw_payload_url ?? '');
+    expect(url.hostname).toBe('test-inbox.s3.us-east-1.amazonaws.com');
+    expect(url.pathname).toBe('/webhooks/mock/2026-03-01/pay_1-abc.json');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('300');
+    expect(body.events[2]).toMatchObject({ device_id: 'dev_1', raw_payload_url: null });
+    expect(body.events[0]).not.toHaveProperty('sk');
+  });
+
+  it('does not presign objects outside the webhook inbox', async () => {
+    ddbMock
+      .on(GetCommand)
+      .resolves({ Item: { payment_id: 'pay_1', sk: 'META', status: 'SUCCESS' } });
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        {
+          payment_id: 'pay_1',
+          sk: 'EVT#2026-03-01T10:00:04.000Z#bbbb2222',
+          event_type: 'ANOMALY_LATE_CALLBACK',
+          raw_payload_ref: 's3://someone-elses-bucket/secret.json',
+        },
+      ],
+    });
+    const body = parse<TimelineResponse>(await handler(event()));
+    expect(body.events[0].raw_payload_url).toBeNull();
+  });
+});
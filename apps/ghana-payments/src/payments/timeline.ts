@@ -0,0 +1,58 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { apiError, handleError, ok } from '../shared/http.js';
+import { getPayment, listEvents } from './ledger.js';
+
+const s3 = new S3Client({});
+
+// Long enough to click through from the support view, short enough not to leak
+const RAW_PAYLOAD_URL_TTL_SECONDS = 300;
+
+/** Presign only objects in our own webhook inbox; anything else is returned as-is. */
+async function rawPayloadUrl(ref: unknown): Promise<string | null> {
+  if (typeof ref !== 'string') return null;
+  const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(ref);
+  if (!match || match[1] !== process.env.WEBHOOK_INBOX_BUCKET) return null;
+  return getSignedUrl(s3, new GetObjectCommand({ Bucket: match[1], Key: match[2] }), {
+    expiresIn: RAW_PAYLOAD_URL_TTL_SECONDS,
+  });
+}
+
+/**
+ * GET /v1/payments/{id}/events — the payment's full EVT# history in order (ADR-3), with
+ * short-lived presigned links to any raw webhook body the event references, plus the
+ * META markers support asks about first ("did the soundbox speak?", "was the wallet
+ * credited back?").
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    const payment = await getPayment(id);
+    if (!payment) return apiError(404, 'PAYMENT_NOT_FOUND', 'No such payment');
+
+    const items = await listEvents(id);
+    const timeline = await Promise.all(
+      items.map(async ({ payment_id: _id, sk, event_type, ...detail }) => ({
+        at: sk.split('#')[1],
+        event_type,
+        ...detail,
+        raw_payload_url: await rawPayloadUrl(detail.raw_payload_ref),
+      }))
+    );
+    return ok({
+      payment_id: id,
+      status: payment.status,
+      announced_at: payment.announced_at ?? null,
+      announced_device_ids: [...(payment.announced_device_ids ?? [])],
+      played_at: payment.played_at ?? null,
+      played_device_ids: [...(payment.played_device_ids ?? [])],
+      credited_back_at: payment.credited_back_at ?? null,
+      refunded_at: payment.refunded_at ?? null,
+      events: timeline,
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
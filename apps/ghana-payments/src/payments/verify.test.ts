@@ -0,0 +1,286 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { GetParameterCommand, GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { createServer, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { _resetMtnCache } from './mtn-provider.js';
+import { handler } from './verify.js';
+import { handler as webhook } from './webhook.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const busMock = mockClient(EventBridgeClient);
+const ssmMock = mockClient(SSMClient);
+const s3Mock = mockClient(S3Client);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.ANOMALIES_TABLE = 'test-anomalies';
+process.env.WEBHOOK_INBOX_BUCKET = 'test-inbox';
+process.env.STAGE = 'dev';
+process.env.MTN_CREDS_PARAM = '/dev/ghana-payments/mtn/credentials';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface VerifyResponse {
+  status: string;
+  provider_status: string | null;
+  changed: boolean;
+}
+
+/** MTN sandbox stand-in answering the status poll with `mtnStatus` (or failing). */
+let server: Server;
+let baseUrl: string;
+let mtnStatus = 'SUCCESSFUL';
+let statusPolls = 0;
+let statusHttp = 200;
+let mtnTxnId: string | undefined;
+
+const reply = (res: ServerResponse, status: number, body?: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    req.resume();
+    if (req.url === '/collection/token/') return reply(res, 200, { access_token: 'tok', expires_in: 3600 });
+    statusPolls++;
+    return reply(res, statusHttp, {
+      status: mtnStatus,
+      externalId: 'pay_1',
+      ...(mtnTxnId ? { financialTransactionId: mtnTxnId } : {}),
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const payment = (status: string) => ({
+  payment_id: 'pay_1',
+  sk: 'META',
+  merchant_id: 'mer_1',
+  amount_pesewas: 2000,
+  currency: 'GHS',
+  provider: 'MTN_MOMO',
+  adapter: 'mtn',
+  status,
+});
+
+const event = (id = 'pay_1'): APIGatewayProxyEvent =>
+  ({ pathParameters: { id } }) as unknown as APIGatewayProxyEvent;
+
+function cancelled(reasons: Array<string | null>): Error {
+  return Object.assign(new Error('Transaction cancelled'), {
+    name: 'TransactionCanceledException',
+    CancellationReasons: reasons.map((code) => (code ? { Code: code } : { Code: 'None' })),
+  });
+}
+
+beforeEach(() => {
+  ddbMock.reset();
+  busMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  _resetMtnCache();
+  mtnStatus = 'SUCCESSFUL';
+  statusPolls = 0;
+  statusHttp = 200;
+  mtnTxnId = undefined;
+  ssmMock.on(GetParametersByPathCommand).resolves({
+    Parameters: [
+      { Name: '/dev/ghana-payments/provider/active', Value: 'mtn' },
+      { Name: '/dev/ghana-payments/mtn/base-url', Value: baseUrl },
+    ],
+  });
+  ssmMock.on(GetParameterCommand).resolves({
+    Parameter: { Value: JSON.stringify({ api_user: 'u', api_key: 'k', subscription_key: 's' }) },
+  });
+  s3Mock.reset();
+  s3Mock.on(PutObjectCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+  busMock.on(PutEventsCommand).resolves({});
+});
+
+describe('POST /v1/payments/{id}/verify', () => {
+  it('404s an unknown payment', async () => {
+    ddbMock.on(GetCommand).resolves({});
+    expect((await handler(event())).statusCode).toBe(404);
+  });
+
+  it('does not poll the provider for a payment that is already terminal', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: payment('SUCCESS') });
+    const res = parse<VerifyResponse>(await handler(event()));
+    expect(res).toMatchObject({ status: 'SUCCESS', changed: false });
+    expect(statusPolls).toBe(0);
+  });
+
+  it('leaves a still-pending payment alone', async () => {
+    mtnStatus = 'PENDING';
+    ddbMock.on(GetCommand).resolves({ Item: payment('PENDING') });
+    const res = parse<VerifyResponse>(await handler(event()));
+    expect(res).toMatchObject({ status: 'PENDING', provider_status: 'PENDING', changed: false });
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('drives the idempotent transition with a synthetic txn id and publishes once', async () => {
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: payment('PENDING') })
+      .resolves({ Item: payment('SUCCESS') });
+    ddbMock.on(TransactWriteCommand).resolves({});
+
+    const res = parse<VerifyResponse>(await handler(event()));
+    expect(res).toMatchObject({ status: 'SUCCESS', provider_status: 'SUCCESS', changed: true });
+
+    const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+    expect(items[0].Put?.Item?.sk).toBe('IDEM#verify-pay_1');
+    const entries = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries ?? [];
+    expect(entries).toHaveLength(1);
+    expect(entries[0].DetailType).toBe('payment.confirmed');
+    expect(JSON.parse(entries[0].Detail ?? '{}')).toMatchObject({
+      payment_id: 'pay_1',
+      merchant_id: 'mer_1',
+      amount: 2000,
+      provider_transaction_id: 'verify-pay_1',
+    });
+  });
+
+  it("keys the transition on MTN's own transaction id, so the callback is a duplicate", async () => {
+    mtnTxnId = 'mtn-fin-42';
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: payment('PENDING') })
+      .resolves({ Item: payment('SUCCESS') });
+    ddbMock.on(TransactWriteCommand).resolves({});
+    await handler(event());
+    const items = ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [];
+    expect(items[0].Put?.Item?.sk).toBe('IDEM#mtn-fin-42');
+    const entries = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries ?? [];
+    expect(JSON.parse(entries[0].Detail ?? '{}')).toMatchObject({
+      provider_transaction_id: 'mtn-fin-42',
+    });
+  });
+
+  it('polls the adapter that took the payment, not the one active now', async () => {
+    ssmMock.on(GetParametersByPathCommand).resolves({
+      Parameters: [
+        { Name: '/dev/ghana-payments/provider/active', Value: 'mock' },
+        { Name: '/dev/ghana-payments/mtn/base-url', Value: baseUrl },
+      ],
+    });
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: payment('PENDING') })
+      .resolves({ Item: payment('SUCCESS') });
+    ddbMock.on(TransactWriteCommand).resolves({});
+    const res = parse<VerifyResponse>(await handler(event()));
+    expect(statusPolls).toBe(1);
+    expect(res).toMatchObject({ provider_status: 'SUCCESS', changed: true });
+  });
+
+  it('publishes payment.failed when the provider reports a failure', async () => {
+    mtnStatus = 'REJECTED';
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: payment('PENDING') })
+      .resolves({ Item: payment('FAILED') });
+    ddbMock.on(TransactWriteCommand).resolves({});
+    await handler(event());
+    const entries = busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries ?? [];
+    expect(entries[0].DetailType).toBe('payment.failed');
+  });
+
+  it('takes the real callback after a verify under a synthetic id as a duplicate, not a late callback', async () => {
+    mtnStatus = 'FAILED'; // MTN reports no transaction id for a failure
+    const verified = { ...payment('FAILED'), verified_by: null };
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: payment('PENDING') })
+      .resolves({ Item: verified });
+    ddbMock
+      .on(TransactWriteCommand)
+      .resolvesOnce({})
+      .rejects(cancelled([null, 'ConditionalCheckFailed']));
+    await handler(event());
+    const [meta] = (ddbMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems ?? [])
+      .map((item) => item.Update)
+      .filter(Boolean);
+    expect(meta?.UpdateExpression).toContain('verified_by = :by');
+
+    const callback = {
+      financialTransactionId: 'mtn-fin-77',
+      externalId: 'pay_1',
+      amount: '20.00',
+      currency: 'GHS',
+      status: 'FAILED',
+    };
+    const res = await webhook({
+      pathParameters: { provider: 'mtn' },
+      headers: {},
+      body: JSON.stringify(callback),
+    } as unknown as APIGatewayProxyEvent);
+    expect(parse<{ duplicate?: boolean }>(res).duplicate).toBe(true);
+    const anomalies = ddbMock
+      .commandCalls(PutCommand)
+      .filter((c) => c.args[0].input.TableName === 'test-anomalies');
+    expect(anomalies).toHaveLength(0);
+    const types = busMock
+      .commandCalls(PutEventsCommand)
+      .map((c) => c.args[0].input.Entries?.[0]?.DetailType);
+    expect(types).toEqual(['payment.failed']);
+  });
+
+  it('publishes nothing when the webhook (or an earlier verify) won the race', async () => {
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({ Item: payment('PENDING') })
+      .resolves({ Item: payment('SUCCESS') });
+    ddbMock.on(TransactWriteCommand).rejects(cancelled(['ConditionalCheckFailed', null]));
+    const res = parse<VerifyResponse>(await handler(event()));
+    expect(res).toMatchObject({ status: 'SUCCESS', changed: false });
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('queues a late-callback anomaly when the sweeper expired it mid-verify', async () => {
+    ddbMock.on(GetCommand).resolvesOnce({ Item: payment('PENDING') }).resolves({ Item: payment('EXPIRED') });
+    ddbMock.on(TransactWriteCommand).rejects(cancelled([null, 'ConditionalCheckFailed']));
+    const res = parse<VerifyResponse>(await handler(event()));
+    expect(res).toMatchObject({ status: 'EXPIRED', changed: false });
+    const anomaly = ddbMock
+      .commandCalls(PutCommand)
+      .map((c) => c.args[0].input)
+      .find((input) => input.TableName === 'test-anomalies');
+    expect(anomaly?.Item).toMatchObject({
+      type: 'LATE_CALLBACK',
+      severity: 'HIGH',
+      provider_txn_id: 'verify-pay_1',
+      current_status: 'EXPIRED',
+    });
+    const entries = busMock.commandCalls(PutEventsCommand).map((c) => c.args[0].input.Entries?.[0]);
+    expect(entries.map((e) => e?.DetailType)).toEqual(['payment.anomaly']);
+  });
+
+  it('502s when the provider cannot be reached', async () => {
+    statusHttp = 500;
+    ddbMock.on(GetCommand).resolves({ Item: payment('PENDING') });
+    const res = await handler(event());
+    expect(res.statusCode).toBe(502);
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+  });
+});
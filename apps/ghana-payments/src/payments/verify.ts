@@ -0,0 +1,105 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { raiseAnomaly } from '../anomalies/store.js';
+import { publishEvent } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import { actorOf, apiError, handleError, ok } from '../shared/http.js';
+import type { PaymentEvent } from '../shared/types.js';
+import { getProvider, type ProviderStatus } from './provider.js';
+import { confirmPayment, getPayment } from './ledger.js';
+
+/**
+ * POST /v1/payments/{id}/verify — force provider verification (§8.3) when the webhook is
+ * delayed. Polls the adapter's getStatus() and, on a terminal answer, drives the SAME
+ * idempotent confirmPayment() transition the webhook uses. The poll goes to the adapter
+ * that took the payment, not whichever is active now. The provider's own transaction id
+ * (the one its callback carries) is the IDEM key, so repeated verifies and the webhook
+ * arriving afterwards are duplicates: payment.confirmed|failed is published once. A
+ * provider that reports no id (MTN has none for a failure) gets a deterministic
+ * `verify-{payment_id}`, which still makes repeated verifies duplicates; the transition
+ * records `verified_by` on META, so the provider's own callback arriving later under its
+ * real id is taken as a duplicate too, not a late callback.
+ * If the sweeper expired the payment between our read and the transition, the provider's
+ * answer is queued as a late-callback anomaly, exactly as the webhook would queue it.
+ */
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    const payment = await getPayment(id);
+    if (!payment) return apiError(404, 'PAYMENT_NOT_FOUND', 'No such payment');
+    if (payment.status !== 'INITIATED' && payment.status !== 'PENDING') {
+      return ok({ payment_id: id, status: payment.status, provider_status: null, changed: false });
+    }
+
+    // Payments from before the adapter was recorded went through the active one
+    const adapter = payment.adapter ?? (await getConfig()).activeProvider;
+    let polled: ProviderStatus | undefined;
+    try {
+      // Both adapters use our payment_id as the provider reference (X-Reference-Id)
+      polled = await getProvider(adapter).getStatus(payment.payment_id);
+    } catch (err) {
+      console.error('Provider status poll failed', { payment_id: id, err });
+      return apiError(502, 'PROVIDER_UNAVAILABLE', 'Could not reach the payment provider');
+    }
+    // undefined: the provider has no such reference (yet) — nothing to settle on
+    const providerStatus = polled?.status;
+    if (providerStatus !== 'SUCCESS' && providerStatus !== 'FAILED') {
+      return ok({ payment_id: id, status: payment.status, provider_status: providerStatus ?? null, changed: false });
+    }
+
+    const providerTxnId = polled?.providerTxnId ?? `verify-${payment.payment_id}`;
+    const result = await confirmPayment({
+      paymentId: payment.payment_id,
+      providerTxnId,
+      toStatus: providerStatus,
+      ...(providerStatus === 'FAILED' ? { reason: 'PROVIDER_REPORTED_FAILED' } : {}),
+      verifiedBy: actorOf(event),
+    });
+    if (result.outcome === 'late_callback') {
+      await raiseAnomaly({
+        type: 'LATE_CALLBACK',
+        paymentId: id,
+        merchantId: result.payment.merchant_id,
+        provider: payment.provider,
+        providerTxnId,
+        attemptedStatus: providerStatus,
+        currentStatus: result.payment.status,
+        amountPesewas: result.payment.amount_pesewas,
+      });
+    }
+    if (result.outcome !== 'applied') {
+      // duplicate / late: someone else (webhook, an earlier verify) already moved it
+      const current = await getPayment(id);
+      return ok({
+        payment_id: id,
+        status: current?.status ?? payment.status,
+        provider_status: providerStatus,
+        changed: false,
+      });
+    }
+
+    const paymentEvent: PaymentEvent = {
+      event_id: `evt_verify_${payment.payment_id}`,
+      event_type: providerStatus === 'SUCCESS' ? 'PAYMENT_CONFIRMED' : 'PAYMENT_FAILED',
+      provider: payment.provider,
+      provider_transaction_id: providerTxnId,
+      payment_id: payment.payment_id,
+      merchant_id: result.payment.merchant_id,
+      amount: result.payment.amount_pesewas,
+      currency: 'GHS',
+      event_time: new Date().toISOString(),
+    };
+    await publishEvent(
+      providerStatus === 'SUCCESS' ? 'payment.confirmed' : 'payment.failed',
+      paymentEvent
+    );
+    return ok({
+      payment_id: id,
+      status: result.payment.status,
+      provider_status: providerStatus,
+      changed: true,
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+};
@@ -7,18 +7,31 @@ import {
 } from '@aws-sdk/lib-dynamodb';
 import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { GetParameterCommand, GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
 import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
 import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
 import { handler } from './webhook.js';
 import type { MockCallbackBody } from './mock-provider.js';
+import { _resetMtnCache } from './mtn-provider.js';
+import { _resetSecretCache, computeSignature } from './signatures.js';
 
 const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
 const s3Mock = mockClient(S3Client);
 const busMock = mockClient(EventBridgeClient);
+const ssmMock = mockClient(SSMClient);
 
 process.env.PAYMENTS_TABLE = 'test-payments';
 process.env.WEBHOOK_INBOX_BUCKET = 'test-inbox';
 process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.WEBHOOK_NONCES_TABLE = 'test-nonces';
+process.env.ANOMALIES_TABLE = 'test-anomalies';
+process.env.STAGE = 'dev';
+process.env.MTN_CREDS_PARAM = '/dev/ghana-payments/mtn/credentials';
+
+const SECRET = 'test-webhook-secret';
 
 const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
 
@@ -49,16 +62,82 @@ const callback = (overrides: Partial<MockCallbackBody> = {}): MockCallbackBody =
   ...overrides,
 });
 
-const event = (body: string | null, provider = 'mock'): APIGatewayProxyEvent =>
-  ({ pathParameters: { provider }, body }) as unknown as APIGatewayProxyEvent;
+let nonceSeq = 0;
+
+/** Headers a correctly-configured provider sends: fresh timestamp + nonce, HMAC over both + body. */
+const signedHeaders = (
+  body: string,
+  overrides: { timestamp?: string; nonce?: string; secret?: string } = {}
+): Record<string, string> => {
+  const timestamp = overrides.timestamp ?? String(Math.floor(Date.now() / 1000));
+  const nonce = overrides.nonce ?? `nonce-${++nonceSeq}`;
+  return {
+    'X-Webhook-Timestamp': timestamp,
+    'X-Webhook-Nonce': nonce,
+    'X-Webhook-Signature': computeSignature(overrides.secret ?? SECRET, timestamp, nonce, body),
+  };
+};
+
+const event = (
+  body: string | null,
+  provider = 'mock',
+  headers: Record<string, string> = body ? signedHeaders(body) : {}
+): APIGatewayProxyEvent =>
+  ({ pathParameters: { provider }, headers, body }) as unknown as APIGatewayProxyEvent;
+
+/** MTN sandbox stand-in: the RequestToPay status the MTN verifier checks callbacks against. */
+let mtn: Server;
+let mtnBaseUrl: string;
+let mtnStatus = 'SUCCESSFUL'; // 'NOT_FOUND': MTN answers 404 for the reference
+
+beforeAll(async () => {
+  mtn = createServer((req, res) => {
+    req.resume();
+    const token = req.url === '/collection/token/';
+    res.writeHead(!token && mtnStatus === 'NOT_FOUND' ? 404 : 200, {
+      'content-type': 'application/json',
+    });
+    res.end(
+      JSON.stringify(
+        token
+          ? { access_token: 'tok', expires_in: 3600 }
+          : {
+              status: mtnStatus,
+              externalId: 'pay_1',
+              amount: '20.00',
+              financialTransactionId: 'mocktxn-abc',
+            }
+      )
+    );
+  });
+  await new Promise<void>((resolve) => mtn.listen(0, '127.0.0.1', resolve));
+  mtnBaseUrl = `http://127.0.0.1:${(mtn.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  mtn.closeAllConnections();
+  await new Promise((resolve) => mtn.close(resolve));
+});
 
 beforeEach(() => {
   ddbMock.reset();
   s3Mock.reset();
   busMock.reset();
+  ssmMock.reset();
+  _resetSecretCache();
+  _resetConfigCache();
+  _resetMtnCache();
+  mtnStatus = 'SUCCESSFUL';
   s3Mock.on(PutObjectCommand).resolves({});
   busMock.on(PutEventsCommand).resolves({});
   ddbMock.on(PutCommand).resolves({});
+  ssmMock.on(GetParameterCommand).resolves({ Parameter: { Value: SECRET } });
+  ssmMock.on(GetParameterCommand, { Name: process.env.MTN_CREDS_PARAM }).resolves({
+    Parameter: { Value: JSON.stringify({ api_user: 'u', api_key: 'k', subscription_key: 's' }) },
+  });
+  ssmMock.on(GetParametersByPathCommand).resolves({
+    Parameters: [{ Name: '/dev/ghana-payments/mtn/base-url', Value: mtnBaseUrl }],
+  });
 });
 
 describe('webhook receiver (§9 flow, ADR-4a)', () => {
@@ -122,27 +201,193 @@ describe('webhook receiver (§9 flow, ADR-4a)', () => {
     expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
   });
 
-  it('late callback (terminal META, F-1) -> 200 {late:true}, no publish', async () => {
+  it('late callback (terminal META, F-1) -> 200 {late:true}, HIGH anomaly queued, no confirm/fail publish', async () => {
     ddbMock.on(TransactWriteCommand).rejects(cancelled([null, 'ConditionalCheckFailed']));
-    ddbMock.on(GetCommand).resolves({ Item: { payment_id: 'pay_1', status: 'EXPIRED' } });
+    ddbMock.on(GetCommand).resolves({
+      Item: { payment_id: 'pay_1', status: 'EXPIRED', merchant_id: 'mer_1', amount_pesewas: 2000 },
+    });
     const res = await handler(event(JSON.stringify(callback())));
     expect(res.statusCode).toBe(200);
     expect(parse<WebhookResponse>(res).late).toBe(true);
+
+    const anomaly = ddbMock
+      .commandCalls(PutCommand)
+      .map((c) => c.args[0].input)
+      .find((input) => input.TableName === 'test-anomalies');
+    expect(anomaly?.Item).toMatchObject({
+      type: 'LATE_CALLBACK',
+      severity: 'HIGH', // SUCCESS after the sweeper expired it: money moved at the provider
+      status: 'OPEN',
+      payment_id: 'pay_1',
+      merchant_id: 'mer_1',
+      attempted_status: 'SUCCESS',
+      current_status: 'EXPIRED',
+    });
+    const types = busMock
+      .commandCalls(PutEventsCommand)
+      .map((c) => c.args[0].input.Entries?.[0]?.DetailType);
+    expect(types).toEqual(['payment.anomaly']);
+  });
+
+  it('a retried late callback is queued once and published once', async () => {
+    ddbMock.on(TransactWriteCommand).rejects(cancelled([null, 'ConditionalCheckFailed']));
+    ddbMock.on(GetCommand).resolves({ Item: { payment_id: 'pay_1', status: 'EXPIRED' } });
+    ddbMock
+      .on(PutCommand, { TableName: 'test-anomalies' })
+      .rejects(Object.assign(new Error('exists'), { name: 'ConditionalCheckFailedException' }));
+    const res = await handler(event(JSON.stringify(callback())));
+    expect(res.statusCode).toBe(200);
     expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
   });
 
-  it('unknown payment -> 200 {unknown_payment:true} (no useful retry), no publish', async () => {
+  it('unknown payment -> 200 {unknown_payment:true} (no useful retry), anomaly instead of confirm', async () => {
     ddbMock.on(TransactWriteCommand).rejects(cancelled([null, 'ConditionalCheckFailed']));
     ddbMock.on(GetCommand).resolves({}); // META never existed
     const res = await handler(event(JSON.stringify(callback())));
     expect(res.statusCode).toBe(200);
     expect(parse<WebhookResponse>(res).unknown_payment).toBe(true);
+    const entries = busMock.commandCalls(PutEventsCommand).map((c) => c.args[0].input.Entries?.[0]);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]?.DetailType).toBe('payment.anomaly');
+    expect(JSON.parse(entries[0]?.Detail ?? '{}')).toMatchObject({
+      type: 'UNKNOWN_PAYMENT',
+      severity: 'HIGH',
+      current_status: null,
+      amount_pesewas: 2000,
+    });
+  });
+});
+
+describe('webhook signature verification (HMAC-SHA256 per provider)', () => {
+  const rejectedWithoutProcessing = (code: string) => {
+    const s3Input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(s3Input.Key).toMatch(/^webhooks\/mock\/rejected\/\d{4}-\d{2}-\d{2}\//);
+    expect(s3Input.Body).toBe(JSON.stringify(callback())); // forensics: the raw forged body
+    expect(s3Input.Metadata?.['rejection-code']).toBe(code);
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
     expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  };
+
+  it('reads the provider secret from SSM (SecureString, decrypted)', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock.on(GetCommand).resolves({
+      Item: { payment_id: 'pay_1', sk: 'META', status: 'SUCCESS', merchant_id: 'mer_1', amount_pesewas: 2000 },
+    });
+    await handler(event(JSON.stringify(callback())));
+    const input = ssmMock.commandCalls(GetParameterCommand)[0].args[0].input;
+    expect(input.Name).toBe('/dev/ghana-payments/webhooks/mock/secret');
+    expect(input.WithDecryption).toBe(true);
+  });
+
+  it('forged signature -> 401 INVALID_SIGNATURE, raw body archived under rejected/, ledger untouched', async () => {
+    const raw = JSON.stringify(callback());
+    const res = await handler(event(raw, 'mock', signedHeaders(raw, { secret: 'guessed' })));
+    expect(res.statusCode).toBe(401);
+    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_SIGNATURE');
+    rejectedWithoutProcessing('INVALID_SIGNATURE');
+    // a forged request never claims a nonce
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it('unsigned POST -> 401 MISSING_SIGNATURE', async () => {
+    const res = await handler(event(JSON.stringify(callback()), 'mock', {}));
+    expect(res.statusCode).toBe(401);
+    expect(parse<ErrorResponse>(res).error.code).toBe('MISSING_SIGNATURE');
+    rejectedWithoutProcessing('MISSING_SIGNATURE');
+  });
+
+  it('timestamp outside the tolerance window -> 401 STALE_TIMESTAMP', async () => {
+    const raw = JSON.stringify(callback());
+    const tenMinutesAgo = String(Math.floor(Date.now() / 1000) - 600);
+    const res = await handler(event(raw, 'mock', signedHeaders(raw, { timestamp: tenMinutesAgo })));
+    expect(res.statusCode).toBe(401);
+    expect(parse<ErrorResponse>(res).error.code).toBe('STALE_TIMESTAMP');
+    rejectedWithoutProcessing('STALE_TIMESTAMP');
+  });
+
+  it('replayed nonce (validly signed) -> 401 REPLAYED_NONCE', async () => {
+    ddbMock
+      .on(PutCommand, { TableName: 'test-nonces' })
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const res = await handler(event(JSON.stringify(callback())));
+    expect(res.statusCode).toBe(401);
+    expect(parse<ErrorResponse>(res).error.code).toBe('REPLAYED_NONCE');
+    rejectedWithoutProcessing('REPLAYED_NONCE');
+  });
+
+  it('claims the nonce with a conditional put that expires after the window', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock.on(GetCommand).resolves({
+      Item: { payment_id: 'pay_1', sk: 'META', status: 'SUCCESS', merchant_id: 'mer_1', amount_pesewas: 2000 },
+    });
+    const raw = JSON.stringify(callback());
+    const headers = signedHeaders(raw, { nonce: 'n-123' });
+    await handler(event(raw, 'mock', headers));
+    const put = ddbMock
+      .commandCalls(PutCommand)
+      .find((c) => c.args[0].input.TableName === 'test-nonces')?.args[0].input;
+    expect(put?.Item?.nonce_key).toBe('mock#n-123');
+    expect(put?.ConditionExpression).toBe('attribute_not_exists(nonce_key)');
+    expect(put?.Item?.ttl).toBe(Number(headers['X-Webhook-Timestamp']) + 600);
+  });
+
+  it('mtn callbacks are unsigned (ADR-8): processed once MTN reports the same outcome', async () => {
+    ddbMock.on(TransactWriteCommand).resolves({});
+    ddbMock.on(GetCommand).resolves({
+      Item: { payment_id: 'pay_1', sk: 'META', status: 'SUCCESS', merchant_id: 'mer_1', amount_pesewas: 2000 },
+    });
+    const res = await handler(event(JSON.stringify(callback()), 'mtn', {}));
+    expect(res.statusCode).toBe(200);
+    expect(s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Key).toMatch(/^webhooks\/mtn\/\d{4}/);
+  });
+
+  it('forged mtn SUCCESSFUL for a payment MTN still has PENDING -> 401, archived under rejected/', async () => {
+    mtnStatus = 'PENDING';
+    const raw = JSON.stringify(callback());
+    const res = await handler(event(raw, 'mtn', {}));
+    expect(res.statusCode).toBe(401);
+    expect(parse<ErrorResponse>(res).error.code).toBe('UNVERIFIED_CALLBACK');
+    const s3Input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(s3Input.Key).toMatch(/^webhooks\/mtn\/rejected\/\d{4}-\d{2}-\d{2}\//);
+    expect(s3Input.Metadata?.['rejection-code']).toBe('UNVERIFIED_CALLBACK');
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('forged mtn callback reusing a real externalId with its own txn id or amount -> 401', async () => {
+    for (const forged of [
+      callback({ financialTransactionId: 'forged-txn' }),
+      callback({ amount: '2000.00' }),
+    ]) {
+      const res = await handler(event(JSON.stringify(forged), 'mtn', {}));
+      expect(res.statusCode).toBe(401);
+      expect(parse<ErrorResponse>(res).error.code).toBe('UNVERIFIED_CALLBACK');
+    }
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('mtn callback for a reference MTN never saw -> 200, queued as UNKNOWN_PAYMENT, ledger untouched', async () => {
+    mtnStatus = 'NOT_FOUND';
+    const res = await handler(event(JSON.stringify(callback()), 'mtn', {}));
+    expect(res.statusCode).toBe(200);
+    expect(parse<WebhookResponse>(res).unknown_payment).toBe(true);
+    const s3Input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(s3Input.Key).toMatch(/^webhooks\/mtn\/rejected\//);
+    expect(s3Input.Metadata?.['rejection-code']).toBe('UNKNOWN_PAYMENT');
+    expect(ddbMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    const entries = busMock.commandCalls(PutEventsCommand).map((c) => c.args[0].input.Entries?.[0]);
+    expect(entries.map((e) => e?.DetailType)).toEqual(['payment.anomaly']);
+    expect(JSON.parse(entries[0]?.Detail ?? '{}')).toMatchObject({
+      type: 'UNKNOWN_PAYMENT',
+      payment_id: 'pay_1',
+      raw_payload_ref: `s3://test-inbox/${s3Input.Key}`,
+    });
   });
 });
 
 describe('webhook input validation', () => {
-  it('401s an unknown provider (signature seam, ADR-8)', async () => {
+  it('401s an unknown provider (no verifier registered)', async () => {
     const res = await handler(event(JSON.stringify(callback()), 'stranger'));
     expect(res.statusCode).toBe(401);
     expect(parse<ErrorResponse>(res).error.code).toBe('UNKNOWN_PROVIDER');
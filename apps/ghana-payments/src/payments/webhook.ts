@@ -1,30 +1,33 @@
 import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import { randomUUID } from 'node:crypto';
+import { raiseAnomaly } from '../anomalies/store.js';
 import { publishEvent } from '../shared/clients.js';
 import { apiError, ok } from '../shared/http.js';
 import type { PaymentEvent } from '../shared/types.js';
 import type { MockCallbackBody } from './mock-provider.js';
 import { confirmPayment } from './ledger.js';
+import type { ProviderStatus } from './provider.js';
+import { getVerifier } from './signatures.js';
 
 const s3 = new S3Client({});
 
-/** Signature seam — stubbed for the PoC (ADR-8); real HMAC per provider later. */
-function verifySignature(provider: string): boolean {
-  return provider === 'mock';
-}
-
 /** Normalize a provider callback into the internal PaymentEvent (concept §9).
- *  merchant_id is filled from the ledger after the idempotent transition. */
-function normalize(body: MockCallbackBody, rawRef: string): PaymentEvent {
+ *  merchant_id is filled from the ledger after the idempotent transition. What the
+ *  verifier heard from the provider itself wins over the callback body. */
+function normalize(
+  body: MockCallbackBody,
+  rawRef: string,
+  verified?: ProviderStatus
+): PaymentEvent {
   return {
     event_id: `evt_${randomUUID()}`,
     event_type: body.status === 'SUCCESSFUL' ? 'PAYMENT_CONFIRMED' : 'PAYMENT_FAILED',
     provider: 'MTN_MOMO',
-    provider_transaction_id: body.financialTransactionId,
+    provider_transaction_id: verified?.providerTxnId ?? body.financialTransactionId,
     payment_id: body.externalId,
     merchant_id: '',
-    amount: Math.round(parseFloat(body.amount) * 100),
+    amount: verified?.amountPesewas ?? Math.round(parseFloat(body.amount) * 100),
     currency: 'GHS',
     event_time: new Date().toISOString(),
     raw_payload_ref: rawRef,
@@ -33,17 +36,56 @@ function normalize(body: MockCallbackBody, rawRef: string): PaymentEvent {
 
 /**
  * POST /v1/webhooks/{provider} — the §9 flow, implemented for real:
- * raw body to S3 inbox BEFORE processing -> normalize -> idempotent ledger transaction
- * (ADR-4a) -> publish to the bus. 200 only after durable writes; duplicates and late
- * callbacks are acknowledged 200 with no side effects (provider retries must be safe).
+ * per-provider signature verification -> raw body to S3 inbox BEFORE processing ->
+ * normalize -> idempotent ledger transaction (ADR-4a) -> publish to the bus. 200 only
+ * after durable writes; duplicates are acknowledged 200 with no side effects (provider
+ * retries must be safe). Late callbacks and callbacks for unknown payments move nothing
+ * either, but are queued once as anomalies for human review (payment.anomaly on the bus,
+ * never payment.confirmed|failed). Rejected signatures get a 401, but their raw
+ * body is still archived under webhooks/{provider}/rejected/ for forensics; a callback
+ * for a reference the provider never saw is archived the same way and queued as an
+ * UNKNOWN_PAYMENT anomaly.
  */
 export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   const provider = event.pathParameters?.provider ?? 'unknown';
-  if (!verifySignature(provider)) {
+  const verifier = getVerifier(provider);
+  if (!verifier) {
     return apiError(401, 'UNKNOWN_PROVIDER', 'Callback signature/provider not recognized');
   }
   if (!event.body) return apiError(400, 'MISSING_BODY', 'Callback body required');
 
+  const headers = Object.fromEntries(
+    Object.entries(event.headers ?? {}).map(([k, v]) => [k.toLowerCase(), v])
+  );
+  const verdict = await verifier.verify(headers, event.body);
+  if (!verdict.ok) {
+    const rejectedRef = `webhooks/${provider}/rejected/${new Date().toISOString().slice(0, 10)}/${randomUUID()}.json`;
+    await s3.send(
+      new PutObjectCommand({
+        Bucket: process.env.WEBHOOK_INBOX_BUCKET,
+        Key: rejectedRef,
+        Body: event.body,
+        ContentType: 'application/json',
+        Metadata: { 'rejection-code': verdict.code },
+      })
+    );
+    if (verdict.code === 'UNKNOWN_PAYMENT') {
+      // The provider itself has no such payment: nothing to move, but ops should see it
+      const claimed = JSON.parse(event.body) as MockCallbackBody; // the verifier parsed it
+      await raiseAnomaly({
+        type: 'UNKNOWN_PAYMENT',
+        paymentId: claimed.externalId,
+        provider: 'MTN_MOMO',
+        providerTxnId: claimed.financialTransactionId ?? '',
+        attemptedStatus: claimed.status === 'SUCCESSFUL' ? 'SUCCESS' : 'FAILED',
+        rawPayloadRef: `s3://${process.env.WEBHOOK_INBOX_BUCKET}/${rejectedRef}`,
+      });
+      return ok({ received: true, unknown_payment: true });
+    }
+    console.warn('Webhook rejected', { provider, code: verdict.code, rejectedRef });
+    return apiError(401, verdict.code, verdict.message);
+  }
+
   let body: MockCallbackBody;
   try {
     body = JSON.parse(event.body) as MockCallbackBody;
@@ -67,7 +109,11 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
   );
 
   // 2. Normalize + idempotent ledger transition
-  const paymentEvent = normalize(body, `s3://${process.env.WEBHOOK_INBOX_BUCKET}/${rawRef}`);
+  const paymentEvent = normalize(
+    body,
+    `s3://${process.env.WEBHOOK_INBOX_BUCKET}/${rawRef}`,
+    verdict.verified
+  );
   const result = await confirmPayment({
     paymentId: paymentEvent.payment_id,
     providerTxnId: paymentEvent.provider_transaction_id,
@@ -77,11 +123,21 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
   });
 
   if (result.outcome === 'duplicate') return ok({ received: true, duplicate: true });
-  if (result.outcome === 'late_callback') return ok({ received: true, late: true });
-  if (result.outcome === 'not_found') {
-    // Callback for a payment we never created — inbox has the evidence; don't 5xx (no useful retry)
-    console.error('Webhook for unknown payment', { payment_id: paymentEvent.payment_id, rawRef });
-    return ok({ received: true, unknown_payment: true });
+  if (result.outcome === 'late_callback' || result.outcome === 'not_found') {
+    // Inbox has the evidence; don't 5xx (no useful retry) — queue it for ops instead
+    const known = result.outcome === 'late_callback' ? result.payment : undefined;
+    await raiseAnomaly({
+      type: known ? 'LATE_CALLBACK' : 'UNKNOWN_PAYMENT',
+      paymentId: paymentEvent.payment_id,
+      merchantId: known?.merchant_id,
+      provider: paymentEvent.provider,
+      providerTxnId: paymentEvent.provider_transaction_id,
+      attemptedStatus: body.status === 'SUCCESSFUL' ? 'SUCCESS' : 'FAILED',
+      currentStatus: known?.status,
+      amountPesewas: known?.amount_pesewas ?? paymentEvent.amount,
+      rawPayloadRef: paymentEvent.raw_payload_ref,
+    });
+    return ok(known ? { received: true, late: true } : { received: true, unknown_payment: true });
   }
 
   // 3. Publish exactly once, after the durable write
@@ -15,11 +15,19 @@ process.env.STAGE = 'dev';
 
 const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
 
-interface QrResponse { qr_id: string; payload_url: string; png_base64: string; merchant_name?: string }
+interface QrResponse {
+  qr_id: string;
+  qr_type: string;
+  payload_url: string;
+  png_base64: string;
+  merchant_name?: string;
+  amount_pesewas?: number;
+  expires_at?: string;
+}
 interface ErrorResponse { error: { code: string; message: string } }
 
-const event = (pathParameters: Record<string, string>): APIGatewayProxyEvent =>
-  ({ pathParameters, body: null }) as unknown as APIGatewayProxyEvent;
+const event = (pathParameters: Record<string, string>, body?: unknown): APIGatewayProxyEvent =>
+  ({ pathParameters, body: body === undefined ? null : JSON.stringify(body) }) as unknown as APIGatewayProxyEvent;
 
 beforeEach(() => {
   ddbMock.reset();
@@ -42,6 +50,43 @@ describe('QR generate (D3)', () => {
     expect(Buffer.from(body.png_base64, 'base64').subarray(1, 4).toString()).toBe('PNG');
   });
 
+  it('creates a one-time DYNAMIC QR carrying the amount and a default 5-minute expiry', async () => {
+    ddbMock.on(GetCommand).resolves({ Item: { merchant_id: 'mer_1', status: 'ACTIVE' } });
+    ddbMock.on(PutCommand).resolves({});
+    const before = Date.now();
+    const res = await generateHandler(event({ id: 'mer_1' }, { amount_pesewas: 1550 }));
+    expect(res.statusCode).toBe(201);
+    const body = parse<QrResponse>(res);
+    expect(body).toMatchObject({ qr_type: 'DYNAMIC', amount_pesewas: 1550 });
+    const ttl = Date.parse(body.expires_at ?? '') - before;
+    expect(ttl).toBeGreaterThanOrEqual(299_000);
+    expect(ttl).toBeLessThanOrEqual(301_000);
+    expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.Item).toMatchObject({
+      qr_type: 'DYNAMIC',
+      amount_pesewas: 1550,
+    });
+  });
+
+  it('400s a dynamic QR with a bad amount or expiry', async () => {
+    const bad = await generateHandler(event({ id: 'mer_1' }, { amount_pesewas: 15.5 }));
+    expect(parse<ErrorResponse>(bad).error.code).toBe('INVALID_AMOUNT');
+    const long = await generateHandler(
+      event({ id: 'mer_1' }, { amount_pesewas: 1550, expires_in_seconds: 86_400 })
+    );
+    expect(parse<ErrorResponse>(long).error.code).toBe('INVALID_EXPIRY');
+  });
+
+  it('409s for a merchant that is not ACTIVE, before storing anything', async () => {
+    ddbMock.on(PutCommand).resolves({});
+    for (const status of ['PENDING_KYC', 'SUSPENDED']) {
+      ddbMock.on(GetCommand).resolves({ Item: { merchant_id: 'mer_1', status } });
+      const res = await generateHandler(event({ id: 'mer_1' }, { amount_pesewas: 1550 }));
+      expect(res.statusCode).toBe(409);
+      expect(parse<ErrorResponse>(res).error.code).toBe('MERCHANT_NOT_ACTIVE');
+    }
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
   it('404s for a missing merchant', async () => {
     ddbMock.on(GetCommand).resolves({});
     const res = await generateHandler(event({ id: 'mer_x' }));
@@ -81,3 +126,40 @@ describe('QR resolve (anti-tamper check, §12.1)', () => {
     expect(parse<ErrorResponse>(res).error.code).toBe('MERCHANT_INACTIVE');
   });
 });
+
+describe('QR resolve — dynamic QRs', () => {
+  const dynamicQr = (overrides: Record<string, unknown> = {}) => ({
+    qr_id: 'qr_d',
+    merchant_id: 'mer_1',
+    qr_type: 'DYNAMIC',
+    status: 'ACTIVE',
+    amount_pesewas: 1550,
+    expires_at: new Date(Date.now() + 60_000).toISOString(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    ddbMock
+      .on(GetCommand, { TableName: 'test-merchants' })
+      .resolves({ Item: { merchant_id: 'mer_1', display_name: 'Ama', status: 'ACTIVE', business_category: 'food' } });
+  });
+
+  it('returns the fixed amount so the portal skips amount entry', async () => {
+    ddbMock.on(GetCommand, { TableName: 'test-qr' }).resolves({ Item: dynamicQr() });
+    const res = await resolveHandler(event({ qr_id: 'qr_d' }));
+    expect(res.statusCode).toBe(200);
+    expect(parse<QrResponse>(res)).toMatchObject({ qr_type: 'DYNAMIC', amount_pesewas: 1550 });
+  });
+
+  it('410s once expired or already paid', async () => {
+    ddbMock
+      .on(GetCommand, { TableName: 'test-qr' })
+      .resolvesOnce({ Item: dynamicQr({ expires_at: new Date(Date.now() - 1000).toISOString() }) })
+      .resolves({ Item: dynamicQr({ used_at: new Date().toISOString() }) });
+    const expired = await resolveHandler(event({ qr_id: 'qr_d' }));
+    expect(expired.statusCode).toBe(410);
+    expect(parse<ErrorResponse>(expired).error.code).toBe('QR_EXPIRED');
+    const used = await resolveHandler(event({ qr_id: 'qr_d' }));
+    expect(parse<ErrorResponse>(used).error.code).toBe('QR_ALREADY_USED');
+  });
+});
@@ -2,28 +2,50 @@ import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { randomUUID } from 'node:crypto';
 import QRCode from 'qrcode';
+import { audited, type AuditSpec } from '../audit/middleware.js';
 import { ddb } from '../shared/clients.js';
 import { getConfig } from '../shared/config.js';
-import { apiError, handleError, ok, parseBody } from '../shared/http.js';
+import {
+  actorOf,
+  apiError,
+  BadRequestError,
+  handleError,
+  ok,
+  parseBody,
+  requirePesewas,
+} from '../shared/http.js';
+import { dynamicQrProblem, type QrItem } from './store.js';
 
 const QR_TABLE = (): string => process.env.QR_CODES_TABLE ?? '';
 const MERCHANTS_TABLE = (): string => process.env.MERCHANTS_TABLE ?? '';
 const VALID_STATUSES = ['ACTIVE', 'INACTIVE', 'ROTATED', 'COMPROMISED'];
+const DEFAULT_DYNAMIC_TTL_SECONDS = 300;
+const MAX_DYNAMIC_TTL_SECONDS = 3600;
 
-interface QrItem {
-  qr_id: string;
-  merchant_id: string;
-  qr_type: 'STATIC';
-  payload_url: string;
-  status: string;
-  created_at: string;
+/** A dynamic QR: one payment, this amount, before `expires_at`. */
+interface DynamicSpec {
+  amountPesewas: number;
+  expiresAt: string;
 }
 
+/** Audit the QR named by the path, or the one the response created. */
+const qrChange = (action: string, created?: string): AuditSpec => ({
+  action,
+  targetType: 'QR',
+  ...(created ? { created } : { param: 'qr_id' }),
+  table: QR_TABLE,
+  key: (id) => ({ qr_id: id }),
+});
+
 async function renderPng(url: string): Promise<string> {
   return (await QRCode.toDataURL(url, { width: 512, margin: 2 })).split(',')[1];
 }
 
-async function createQr(merchantId: string): Promise<{ item: QrItem; png: string }> {
+async function createQr(
+  merchantId: string,
+  createdBy: string | null,
+  dynamic?: DynamicSpec
+): Promise<{ item: QrItem; png: string }> {
   const cfg = await getConfig();
   if (!cfg.publicBaseUrl) {
     throw new Error('public-base-url SSM parameter not set — deploy the web stack first');
@@ -33,29 +55,60 @@ async function createQr(merchantId: string): Promise<{ item: QrItem; png: string
   const item: QrItem = {
     qr_id: qrId,
     merchant_id: merchantId,
-    qr_type: 'STATIC',
+    qr_type: dynamic ? 'DYNAMIC' : 'STATIC',
     payload_url: payloadUrl,
     status: 'ACTIVE',
     created_at: new Date().toISOString(),
+    created_by: createdBy,
+    ...(dynamic ? { amount_pesewas: dynamic.amountPesewas, expires_at: dynamic.expiresAt } : {}),
   };
   await ddb.send(new PutCommand({ TableName: QR_TABLE(), Item: item }));
   return { item, png: await renderPng(payloadUrl) };
 }
 
-/** POST /v1/merchants/{id}/qrs — generate a static QR (admin, §8.2). */
-export const generateHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+function parseDynamic(body: string | null): DynamicSpec | undefined {
+  if (!body) return undefined;
+  const req = parseBody<{ amount_pesewas?: unknown; expires_in_seconds?: unknown }>(body);
+  if (req.amount_pesewas === undefined) return undefined;
+  const amountPesewas = requirePesewas(req.amount_pesewas, 'amount_pesewas');
+  const ttl = req.expires_in_seconds ?? DEFAULT_DYNAMIC_TTL_SECONDS;
+  if (typeof ttl !== 'number' || !Number.isInteger(ttl) || ttl < 1 || ttl > MAX_DYNAMIC_TTL_SECONDS) {
+    throw new BadRequestError(
+      'INVALID_EXPIRY',
+      `expires_in_seconds must be between 1 and ${MAX_DYNAMIC_TTL_SECONDS}`
+    );
+  }
+  return { amountPesewas, expiresAt: new Date(Date.now() + ttl * 1000).toISOString() };
+}
+
+/**
+ * POST /v1/merchants/{id}/qrs — generate a QR (admin, §8.2). No body: the merchant's
+ * static badge. `{ amount_pesewas, expires_in_seconds? }`: a one-time DYNAMIC QR for that
+ * amount (default 5 minutes), e.g. shown on the till or soundbox screen for one sale.
+ * Only an ACTIVE merchant gets either: resolve would refuse the QR anyway.
+ */
+const generate = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const merchantId = event.pathParameters?.id;
     if (!merchantId) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const dynamic = parseDynamic(event.body);
     const merchant = await ddb.send(
       new GetCommand({ TableName: MERCHANTS_TABLE(), Key: { merchant_id: merchantId, sk: 'PROFILE' } })
     );
     if (!merchant.Item) return apiError(404, 'MERCHANT_NOT_FOUND', 'No such merchant');
-    const { item, png } = await createQr(merchantId);
+    if (merchant.Item.status !== 'ACTIVE') {
+      return apiError(409, 'MERCHANT_NOT_ACTIVE', 'Merchant cannot accept payments');
+    }
+    const { item, png } = await createQr(merchantId, actorOf(event), dynamic);
     return ok(
-      { qr_id: item.qr_id, payload_url: item.payload_url, status: item.status, png_base64: png },
+      {
+        qr_id: item.qr_id,
+        qr_type: item.qr_type,
+        payload_url: item.payload_url,
+        status: item.status,
+        ...(dynamic ? { amount_pesewas: item.amount_pesewas, expires_at: item.expires_at } : {}),
+        png_base64: png,
+      },
       201
     );
   } catch (err) {
@@ -63,6 +116,8 @@ export const generateHandler = async (
   }
 };
 
+export const generateHandler = audited(qrChange('qr.generate', 'qr_id'), generate);
+
 /** GET /v1/qrs/{qr_id} — metadata + fresh PNG (admin). */
 export const getHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
@@ -80,7 +135,8 @@ export const getHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewa
 /**
  * GET /v1/qrs/{qr_id}/resolve — PUBLIC: what the payment portal calls after a scan.
  * Returns the merchant display name (the anti-tamper check, §12.1) only for
- * ACTIVE QR + ACTIVE merchant.
+ * ACTIVE QR + ACTIVE merchant. A DYNAMIC QR also carries its fixed amount, and stops
+ * resolving once it has been paid or has expired.
  */
 export const resolveHandler = async (
   event: APIGatewayProxyEvent
@@ -94,6 +150,13 @@ export const resolveHandler = async (
     if (qr.status !== 'ACTIVE') {
       return apiError(410, 'QR_INACTIVE', 'This QR code is no longer active');
     }
+    if (qr.qr_type === 'DYNAMIC') {
+      const problem = dynamicQrProblem(qr);
+      if (problem === 'QR_ALREADY_USED') {
+        return apiError(410, problem, 'This QR code has already been paid');
+      }
+      if (problem) return apiError(410, problem, 'This QR code has expired');
+    }
     const merchant = await ddb.send(
       new GetCommand({
         TableName: MERCHANTS_TABLE(),
@@ -112,6 +175,10 @@ export const resolveHandler = async (
       merchant_name: profile.display_name,
       business_category: profile.business_category,
       currency: 'GHS',
+      qr_type: qr.qr_type,
+      ...(qr.qr_type === 'DYNAMIC'
+        ? { amount_pesewas: qr.amount_pesewas, expires_at: qr.expires_at }
+        : {}),
     });
   } catch (err) {
     return handleError(err);
@@ -119,25 +186,31 @@ export const resolveHandler = async (
 };
 
 /** POST /v1/qrs/{qr_id}/rotate — mark compromised/rotated, issue replacement (admin, §8.2). */
-export const rotateHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const rotate = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const qrId = event.pathParameters?.qr_id;
     if (!qrId) return apiError(400, 'MISSING_ID', 'qr id required');
     const res = await ddb.send(new GetCommand({ TableName: QR_TABLE(), Key: { qr_id: qrId } }));
     if (!res.Item) return apiError(404, 'QR_NOT_FOUND', 'No such QR code');
     const old = res.Item as QrItem;
+    if (old.qr_type === 'DYNAMIC') {
+      // One-time codes are never reprinted — deactivate via /status and generate a new one
+      return apiError(409, 'QR_NOT_ROTATABLE', 'Dynamic QR codes cannot be rotated');
+    }
     await ddb.send(
       new UpdateCommand({
         TableName: QR_TABLE(),
         Key: { qr_id: qrId },
-        UpdateExpression: 'SET #status = :rotated, rotated_at = :now',
+        UpdateExpression: 'SET #status = :rotated, rotated_at = :now, updated_by = :by',
         ExpressionAttributeNames: { '#status': 'status' },
-        ExpressionAttributeValues: { ':rotated': 'ROTATED', ':now': new Date().toISOString() },
+        ExpressionAttributeValues: {
+          ':rotated': 'ROTATED',
+          ':now': new Date().toISOString(),
+          ':by': actorOf(event),
+        },
       })
     );
-    const { item, png } = await createQr(old.merchant_id);
+    const { item, png } = await createQr(old.merchant_id, actorOf(event));
     return ok({
       rotated_qr_id: qrId,
       qr_id: item.qr_id,
@@ -149,10 +222,13 @@ export const rotateHandler = async (
   }
 };
 
+export const rotateHandler = audited(
+  { ...qrChange('qr.rotate'), details: (res) => ({ replacement_qr_id: res.qr_id }) },
+  rotate
+);
+
 /** PATCH /v1/qrs/{qr_id}/status (admin, §8.2). */
-export const statusHandler = async (
-  event: APIGatewayProxyEvent
-): Promise<APIGatewayProxyResult> => {
+const setStatus = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
   try {
     const qrId = event.pathParameters?.qr_id;
     if (!qrId) return apiError(400, 'MISSING_ID', 'qr id required');
@@ -164,10 +240,14 @@ export const statusHandler = async (
       new UpdateCommand({
         TableName: QR_TABLE(),
         Key: { qr_id: qrId },
-        UpdateExpression: 'SET #status = :status, updated_at = :now',
+        UpdateExpression: 'SET #status = :status, updated_at = :now, updated_by = :by',
         ConditionExpression: 'attribute_exists(qr_id)',
         ExpressionAttributeNames: { '#status': 'status' },
-        ExpressionAttributeValues: { ':status': body.status, ':now': new Date().toISOString() },
+        ExpressionAttributeValues: {
+          ':status': body.status,
+          ':now': new Date().toISOString(),
+          ':by': actorOf(event),
+        },
       })
     );
     return ok({ qr_id: qrId, status: body.status });
@@ -178,3 +258,5 @@ export const statusHandler = async (
     return handleError(err);
   }
 };
+
+export const statusHandler = audited(qrChange('qr.status'), setStatus);
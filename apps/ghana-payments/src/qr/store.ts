@@ -0,0 +1,94 @@
+import { GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+
+const TABLE = (): string => process.env.QR_CODES_TABLE ?? '';
+
+export type QrType = 'STATIC' | 'DYNAMIC';
+
+export interface QrItem {
+  qr_id: string;
+  merchant_id: string;
+  qr_type: QrType;
+  payload_url: string;
+  status: string;
+  created_at: string;
+  /** Operator (Cognito username) who generated it; null outside the operator API. */
+  created_by?: string | null;
+  /** Operator behind the last status change or rotation. */
+  updated_by?: string | null;
+  /** DYNAMIC only: the fixed amount the customer pays. */
+  amount_pesewas?: number;
+  /** DYNAMIC only: after this the QR no longer resolves or pays. */
+  expires_at?: string;
+  /** DYNAMIC only: set once, by the payment that consumed it. */
+  used_at?: string;
+  used_by_payment_id?: string;
+}
+
+export async function getQr(qrId: string): Promise<QrItem | undefined> {
+  const res = await ddb.send(new GetCommand({ TableName: TABLE(), Key: { qr_id: qrId } }));
+  return res.Item as QrItem | undefined;
+}
+
+/** Why a dynamic QR can't be paid right now; undefined when it can. */
+export function dynamicQrProblem(
+  qr: QrItem,
+  now = new Date().toISOString()
+): 'QR_ALREADY_USED' | 'QR_EXPIRED' | undefined {
+  if (qr.used_at) return 'QR_ALREADY_USED';
+  if (!qr.expires_at || qr.expires_at <= now) return 'QR_EXPIRED';
+  return undefined;
+}
+
+/**
+ * One-time use of a DYNAMIC QR, claimed before the wallet is debited. Conditional on the
+ * QR still being ACTIVE, unused, unexpired and for exactly this amount, so two customers
+ * scanning the same code can't both pay. false -> someone else got there first.
+ */
+export async function claimDynamicQr(
+  qrId: string,
+  paymentId: string,
+  amountPesewas: number
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { qr_id: qrId },
+        UpdateExpression: 'SET used_at = :now, used_by_payment_id = :pid',
+        ConditionExpression:
+          'qr_type = :dynamic AND #status = :active AND attribute_not_exists(used_at) AND expires_at > :now AND amount_pesewas = :amt',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':now': now,
+          ':pid': paymentId,
+          ':dynamic': 'DYNAMIC',
+          ':active': 'ACTIVE',
+          ':amt': amountPesewas,
+        },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+/** Undo a claim when the payment never started (no funds, provider down). Only the claimant can release. */
+export async function releaseDynamicQr(qrId: string, paymentId: string): Promise<void> {
+  try {
+    await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { qr_id: qrId },
+        UpdateExpression: 'REMOVE used_at, used_by_payment_id',
+        ConditionExpression: 'used_by_payment_id = :pid',
+        ExpressionAttributeValues: { ':pid': paymentId },
+      })
+    );
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name !== 'ConditionalCheckFailedException') throw err;
+  }
+}
@@ -0,0 +1,29 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { apiError, handleError, ok } from '../shared/http.js';
+import { queueStatusOf, resolveHandlerFor } from '../shared/review-queue.js';
+import { getDiscrepancy, listDiscrepancies, resolveDiscrepancy } from './store.js';
+
+/** GET /v1/reconciliation/discrepancies?status=OPEN|RESOLVED&date=YYYY-MM-DD (admin). */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const qs = event.queryStringParameters ?? {};
+    const status = queueStatusOf(qs.status);
+    if (qs.date && !/^\d{4}-\d{2}-\d{2}$/.test(qs.date)) {
+      return apiError(400, 'INVALID_DATE', 'date must be YYYY-MM-DD');
+    }
+    const items = await listDiscrepancies(status, qs.date);
+    return ok({ status, discrepancies: items });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/reconciliation/discrepancies/{id}/resolve (admin) — records e.g. "forced
+ * /verify", "refund approved" or "provider corrected report".
+ */
+export const resolveHandler = resolveHandlerFor({
+  noun: 'discrepancy',
+  resolve: resolveDiscrepancy,
+  get: getDiscrepancy,
+});
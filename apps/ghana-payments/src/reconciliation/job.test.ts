@@ -0,0 +1,152 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { GetParametersByPathCommand, SSMClient } from '@aws-sdk/client-ssm';
+import type { EventBridgeEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { handler } from './job.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const s3Mock = mockClient(S3Client);
+const busMock = mockClient(EventBridgeClient);
+const ssmMock = mockClient(SSMClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.RECONCILIATION_TABLE = 'test-reconciliation';
+process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.STAGE = 'dev';
+
+const objectCreated = (key: string) =>
+  ({
+    'detail-type': 'Object Created',
+    detail: { bucket: { name: 'statements-bucket' }, object: { key } },
+  }) as unknown as EventBridgeEvent<
+    'Object Created',
+    { bucket: { name: string }; object: { key: string } }
+  >;
+
+const ledger = (
+  payment_id: string,
+  provider_txn_id: string,
+  amount_pesewas: number,
+  status: string
+) => ({
+  payment_id,
+  sk: 'META',
+  merchant_id: 'mer_1',
+  provider: 'MTN_MOMO',
+  provider_txn_id,
+  amount_pesewas,
+  status,
+  created_at: '2026-03-01T09:59:00.000Z',
+  confirmed_at: '2026-03-01T10:00:00.000Z',
+});
+
+/** Stand-in for the SDK's streaming body — the job only calls transformToString(). */
+const body = (text: string) => ({ transformToString: async () => text });
+
+const recorded = () =>
+  ddbMock.commandCalls(PutCommand).map((c) => c.args[0].input.Item as Record<string, unknown>);
+
+beforeEach(() => {
+  ddbMock.reset();
+  s3Mock.reset();
+  busMock.reset();
+  ssmMock.reset();
+  _resetConfigCache();
+  ssmMock.on(GetParametersByPathCommand).resolves({ Parameters: [] });
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(GetCommand).resolves({});
+  busMock.on(PutEventsCommand).resolves({});
+  ddbMock
+    .on(QueryCommand, { ExpressionAttributeValues: { ':status': 'SUCCESS' } }, false)
+    .resolves({
+      Items: [
+        ledger('pay_ok', 'txn-ok', 2000, 'SUCCESS'),
+        ledger('pay_amt', 'txn-amt', 2000, 'SUCCESS'),
+        ledger('pay_unreported', 'txn-gone', 500, 'SUCCESS'),
+        ledger('pay_verified', 'verify-pay_verified', 700, 'SUCCESS'),
+      ],
+    })
+    .on(QueryCommand, { ExpressionAttributeValues: { ':status': 'FAILED' } }, false)
+    .resolves({ Items: [ledger('pay_failed', 'txn-failed', 1300, 'FAILED')] })
+    .on(QueryCommand, { ExpressionAttributeValues: { ':status': 'REFUNDED' } }, false)
+    .resolves({ Items: [] });
+});
+
+describe('statement reconciliation job (concept §13 MVP)', () => {
+  it('matches rows by provider_txn_id and records every discrepancy kind', async () => {
+    const csv = [
+      'provider_txn_id,external_id,amount,status',
+      'txn-ok,pay_ok,20.00,SUCCESSFUL',
+      'txn-amt,pay_amt,25.00,SUCCESSFUL',
+      'txn-failed,pay_failed,13.00,SUCCESSFUL', // provider took the money, we said FAILED
+      'txn-ghost,,9.99,SUCCESSFUL', // we never saw this one
+      'mtn-real-id,pay_verified,7.00,SUCCESSFUL', // confirmed via /verify — matched by external id
+    ].join('\n');
+    s3Mock.on(GetObjectCommand).resolves({ Body: body(csv) } as never);
+
+    const summary = await handler(objectCreated('statements/mtn/2026-03-01.csv'));
+
+    expect(summary).toMatchObject({
+      provider: 'mtn',
+      date: '2026-03-01',
+      rows: 5,
+      matched: 4,
+      discrepancies: {
+        MISSING_IN_LEDGER: 1,
+        MISSING_IN_REPORT: 1,
+        AMOUNT_MISMATCH: 1,
+        STATUS_MISMATCH: 1,
+      },
+    });
+    const byType: Record<string, Record<string, unknown>> = Object.fromEntries(
+      recorded().map((item) => [String(item.type), item])
+    );
+    expect(byType.AMOUNT_MISMATCH).toMatchObject({
+      payment_id: 'pay_amt',
+      ledger_amount_pesewas: 2000,
+      report_amount_pesewas: 2500,
+      status: 'OPEN',
+    });
+    expect(byType.STATUS_MISMATCH).toMatchObject({
+      ledger_status: 'FAILED',
+      report_status: 'SUCCESS',
+    });
+    expect(byType.MISSING_IN_LEDGER).toMatchObject({
+      provider_txn_id: 'txn-ghost',
+      payment_id: null,
+    });
+    expect(byType.MISSING_IN_REPORT).toMatchObject({ payment_id: 'pay_unreported' });
+    expect(busMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries?.[0].DetailType).toBe(
+      'reconciliation.completed'
+    );
+  });
+
+  it('gives the same discrepancy the same id on re-ingest (recorded once)', async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .resolves({ Body: body('provider_txn_id,amount,status\n') } as never);
+    await handler(objectCreated('statements/mtn/2026-03-01.csv'));
+    const first = recorded().map((item) => item.discrepancy_id);
+    ddbMock.resetHistory();
+    await handler(objectCreated('statements/mtn/2026-03-01.csv'));
+    expect(recorded().map((item) => item.discrepancy_id)).toEqual(first);
+    expect(ddbMock.commandCalls(PutCommand)[0].args[0].input.ConditionExpression).toBe(
+      'attribute_not_exists(discrepancy_id)'
+    );
+  });
+
+  it('ignores objects outside the statements/{provider}/{date} layout', async () => {
+    expect(await handler(objectCreated('statements/unknown/2026-03-01.csv'))).toBeUndefined();
+    expect(await handler(objectCreated('statements/mtn/latest.csv'))).toBeUndefined();
+    expect(s3Mock.commandCalls(GetObjectCommand)).toHaveLength(0);
+  });
+});
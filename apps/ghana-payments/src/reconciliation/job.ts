@@ -0,0 +1,150 @@
+import type { EventBridgeEvent } from 'aws-lambda';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { publishEvent } from '../shared/clients.js';
+import type { PaymentProvider, PaymentStatus } from '../shared/types.js';
+import { getPayment, paymentsConfirmedOn, type PaymentRecord } from '../payments/ledger.js';
+import { parseStatement, type StatementRow } from './statement.js';
+import {
+  discrepancyId,
+  recordDiscrepancy,
+  type Discrepancy,
+  type DiscrepancyType,
+} from './store.js';
+
+const s3 = new S3Client({});
+
+/** Statement key layout: statements/{provider}/{YYYY-MM-DD}.csv|json */
+const KEY_RE = /^statements\/([a-z0-9-]+)\/(\d{4}-\d{2}-\d{2})\.(csv|json)$/;
+
+/** Statement provider (key segment) -> the provider recorded on ledger META. */
+const LEDGER_PROVIDER: Record<string, PaymentProvider> = {
+  mtn: 'MTN_MOMO',
+  mock: 'MTN_MOMO', // the mock speaks MTN's API, and the ledger records it as such
+};
+
+/** Ledger statuses a provider statement is compared against. */
+const RECONCILED_STATUSES: PaymentStatus[] = ['SUCCESS', 'FAILED', 'REFUNDED'];
+
+interface S3ObjectCreated {
+  bucket: { name: string };
+  object: { key: string };
+}
+
+export interface ReconciliationSummary {
+  statement_key: string;
+  provider: string;
+  date: string;
+  rows: number;
+  row_errors: number;
+  matched: number;
+  discrepancies: Record<DiscrepancyType, number>;
+}
+
+/** A refund is our own wallet credit — the provider still reports the collection as SUCCESS. */
+function providerView(status: PaymentStatus): PaymentStatus {
+  return status === 'REFUNDED' ? 'SUCCESS' : status;
+}
+
+/**
+ * Provider statement reconciliation (concept §13 MVP). Triggered by S3 Object Created on
+ * the statements bucket (via EventBridge). Every row is matched to the ledger by
+ * provider_txn_id — falling back to the echoed external_id (our payment_id), which covers
+ * payments confirmed by /verify with a synthetic txn id — then compared on amount and
+ * status. SUCCESS ledger payments for that day that the provider never reported are
+ * MISSING_IN_REPORT. The job only records discrepancies; it never moves the ledger.
+ */
+export const handler = async (
+  event: EventBridgeEvent<'Object Created', S3ObjectCreated>
+): Promise<ReconciliationSummary | undefined> => {
+  const { bucket, object } = event.detail;
+  const key = decodeURIComponent(object.key.replace(/\+/g, ' '));
+  const match = KEY_RE.exec(key);
+  if (!match || !LEDGER_PROVIDER[match[1]]) {
+    console.warn('reconcile: ignoring object outside statements/{provider}/{date}.csv|json', {
+      key,
+    });
+    return undefined;
+  }
+  const [, provider, date, format] = match;
+
+  const obj = await s3.send(new GetObjectCommand({ Bucket: bucket.name, Key: key }));
+  const parsed = parseStatement(await obj.Body!.transformToString(), format as 'csv' | 'json');
+  for (const error of parsed.errors)
+    console.warn('reconcile: bad statement row', { key, ...error });
+
+  const ledger = (
+    await Promise.all(RECONCILED_STATUSES.map((status) => paymentsConfirmedOn(date, status)))
+  )
+    .flat()
+    .filter((p) => p.provider === LEDGER_PROVIDER[provider]);
+  const byTxn = new Map(
+    ledger.filter((p) => p.provider_txn_id).map((p) => [p.provider_txn_id!, p])
+  );
+  const byId = new Map(ledger.map((p) => [p.payment_id, p]));
+
+  const counts: Record<DiscrepancyType, number> = {
+    MISSING_IN_LEDGER: 0,
+    MISSING_IN_REPORT: 0,
+    AMOUNT_MISMATCH: 0,
+    STATUS_MISMATCH: 0,
+  };
+  const now = new Date().toISOString();
+  const record = async (
+    type: DiscrepancyType,
+    row: StatementRow | undefined,
+    payment: PaymentRecord | undefined
+  ): Promise<void> => {
+    const subject = row?.provider_txn_id ?? payment?.payment_id ?? '';
+    const item: Discrepancy = {
+      discrepancy_id: discrepancyId(provider, date, type, subject),
+      type,
+      status: 'OPEN',
+      provider,
+      statement_date: date,
+      statement_key: key,
+      provider_txn_id: row?.provider_txn_id ?? payment?.provider_txn_id ?? null,
+      payment_id: payment?.payment_id ?? row?.external_id ?? null,
+      ...(payment
+        ? { ledger_amount_pesewas: payment.amount_pesewas, ledger_status: payment.status }
+        : {}),
+      ...(row ? { report_amount_pesewas: row.amount_pesewas, report_status: row.status } : {}),
+      created_at: now,
+    };
+    counts[type]++;
+    await recordDiscrepancy(item);
+  };
+
+  const matchedIds = new Set<string>();
+  for (const row of parsed.rows) {
+    let payment = byTxn.get(row.provider_txn_id);
+    if (!payment && row.external_id) {
+      payment = byId.get(row.external_id) ?? (await getPayment(row.external_id));
+    }
+    if (!payment) {
+      await record('MISSING_IN_LEDGER', row, undefined);
+      continue;
+    }
+    matchedIds.add(payment.payment_id);
+    if (row.amount_pesewas !== payment.amount_pesewas)
+      await record('AMOUNT_MISMATCH', row, payment);
+    if (row.status !== providerView(payment.status)) await record('STATUS_MISMATCH', row, payment);
+  }
+  for (const payment of ledger) {
+    if (providerView(payment.status) === 'SUCCESS' && !matchedIds.has(payment.payment_id)) {
+      await record('MISSING_IN_REPORT', undefined, payment);
+    }
+  }
+
+  const summary: ReconciliationSummary = {
+    statement_key: key,
+    provider,
+    date,
+    rows: parsed.rows.length,
+    row_errors: parsed.errors.length,
+    matched: matchedIds.size,
+    discrepancies: counts,
+  };
+  console.log(JSON.stringify({ msg: 'reconciliation complete', ...summary }));
+  await publishEvent('reconciliation.completed', { ...summary });
+  return summary;
+};
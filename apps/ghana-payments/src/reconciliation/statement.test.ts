@@ -0,0 +1,58 @@
+import { cedisToPesewas, parseStatement } from './statement.js';
+
+describe('cedisToPesewas', () => {
+  it.each([
+    ['20', 2000],
+    ['20.5', 2050],
+    ['20.05', 2005],
+    [13, 1300],
+    [0.1, 10],
+  ])('converts %p to %p pesewas', (input, expected) => {
+    expect(cedisToPesewas(input)).toBe(expected);
+  });
+
+  it.each(['', '-5', '1.234', 'GHS 20'])('rejects %p', (input) => {
+    expect(cedisToPesewas(input)).toBeUndefined();
+  });
+});
+
+describe('parseStatement', () => {
+  it('parses CSV by header, with quoted fields and reported bad rows', () => {
+    const csv = [
+      'status,amount,provider_txn_id,external_id',
+      'SUCCESSFUL,20.00,txn-1,pay_1',
+      '"REJECTED","1,300.00",txn-2,',
+      'FAILED,13.00,txn-3,',
+      '',
+    ].join('\n');
+    const parsed = parseStatement(csv, 'csv');
+    expect(parsed.rows).toEqual([
+      {
+        line: 2,
+        provider_txn_id: 'txn-1',
+        external_id: 'pay_1',
+        amount_pesewas: 2000,
+        status: 'SUCCESS',
+      },
+      { line: 4, provider_txn_id: 'txn-3', amount_pesewas: 1300, status: 'FAILED' },
+    ]);
+    expect(parsed.errors).toEqual([{ line: 3, message: 'invalid amount "1,300.00"' }]);
+  });
+
+  it('accepts a JSON array or { transactions } with MTN field names', () => {
+    const rows = [
+      { financialTransactionId: 'txn-1', externalId: 'pay_1', amount: '5', status: 'PENDING' },
+    ];
+    expect(parseStatement(JSON.stringify(rows), 'json').rows[0]).toMatchObject({
+      provider_txn_id: 'txn-1',
+      external_id: 'pay_1',
+      amount_pesewas: 500,
+      status: 'PENDING',
+    });
+    const wrapped = parseStatement(
+      JSON.stringify({ transactions: [{ amount: 1, status: 'SUCCESSFUL' }] }),
+      'json'
+    );
+    expect(wrapped.errors).toEqual([{ line: 1, message: 'provider_txn_id is required' }]);
+  });
+});
@@ -0,0 +1,83 @@
+import { csvRecords } from '../shared/csv.js';
+import type { PaymentStatus } from '../shared/types.js';
+
+/** One provider statement row, normalized. Amounts in integer pesewas. */
+export interface StatementRow {
+  line: number;
+  provider_txn_id: string;
+  /** Our payment_id as echoed by the provider (MTN externalId), when present. */
+  external_id?: string;
+  amount_pesewas: number;
+  status: PaymentStatus;
+}
+
+export interface ParsedStatement {
+  rows: StatementRow[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+/** Provider vocabularies (MTN's, plus our own) onto ledger statuses. */
+const STATUS_MAP: Record<string, PaymentStatus> = {
+  SUCCESSFUL: 'SUCCESS',
+  SUCCESS: 'SUCCESS',
+  FAILED: 'FAILED',
+  REJECTED: 'FAILED',
+  TIMEOUT: 'FAILED',
+  PENDING: 'PENDING',
+};
+
+/** "20", "20.5", "20.50" (cedis) -> 2050 pesewas without going through a float. */
+export function cedisToPesewas(value: unknown): number | undefined {
+  const text = typeof value === 'number' ? value.toFixed(2) : String(value ?? '').trim();
+  const match = /^(\d+)(?:\.(\d{1,2}))?$/.exec(text);
+  if (!match) return undefined;
+  return Number(match[1]) * 100 + Number((match[2] ?? '0').padEnd(2, '0'));
+}
+
+function normalize(raw: Record<string, unknown>, line: number): StatementRow | string {
+  const txn = String(raw.provider_txn_id ?? raw.financialTransactionId ?? '').trim();
+  if (!txn) return 'provider_txn_id is required';
+  const amount = cedisToPesewas(raw.amount);
+  if (amount === undefined) return `invalid amount ${JSON.stringify(raw.amount)}`;
+  const status =
+    STATUS_MAP[
+      String(raw.status ?? '')
+        .trim()
+        .toUpperCase()
+    ];
+  if (!status) return `unknown status ${JSON.stringify(raw.status)}`;
+  const external = String(raw.external_id ?? raw.externalId ?? '').trim();
+  return {
+    line,
+    provider_txn_id: txn,
+    ...(external ? { external_id: external } : {}),
+    amount_pesewas: amount,
+    status,
+  };
+}
+
+function collect(records: Array<[Record<string, unknown>, number]>): ParsedStatement {
+  const parsed: ParsedStatement = { rows: [], errors: [] };
+  for (const [raw, line] of records) {
+    const row = normalize(raw, line);
+    if (typeof row === 'string') parsed.errors.push({ line, message: row });
+    else parsed.rows.push(row);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a statement file. CSV needs a header row with at least provider_txn_id, amount
+ * (cedis) and status; external_id is optional. JSON is an array of the same objects, or
+ * `{ "transactions": [...] }`. Bad rows are reported, never silently dropped.
+ */
+export function parseStatement(body: string, format: 'csv' | 'json'): ParsedStatement {
+  if (format === 'json') {
+    const doc = JSON.parse(body) as unknown;
+    const list = Array.isArray(doc)
+      ? doc
+      : ((doc as { transactions?: unknown[] }).transactions ?? []);
+    return collect(list.map((raw, i) => [raw as Record<string, unknown>, i + 1]));
+  }
+  return collect(csvRecords(body));
+}
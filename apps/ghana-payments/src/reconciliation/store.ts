@@ -0,0 +1,89 @@
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { createHash } from 'node:crypto';
+import { ddb } from '../shared/clients.js';
+import { listQueue, resolveQueueItem, type QueueStatus } from '../shared/review-queue.js';
+import type { PaymentStatus } from '../shared/types.js';
+
+const TABLE = (): string => process.env.RECONCILIATION_TABLE ?? '';
+
+export type DiscrepancyType =
+  | 'MISSING_IN_LEDGER'
+  | 'MISSING_IN_REPORT'
+  | 'AMOUNT_MISMATCH'
+  | 'STATUS_MISMATCH';
+
+export type DiscrepancyStatus = QueueStatus;
+
+export interface Discrepancy {
+  discrepancy_id: string;
+  type: DiscrepancyType;
+  status: DiscrepancyStatus;
+  provider: string;
+  statement_date: string;
+  statement_key: string;
+  provider_txn_id: string | null;
+  payment_id: string | null;
+  ledger_amount_pesewas?: number;
+  report_amount_pesewas?: number;
+  ledger_status?: PaymentStatus;
+  report_status?: PaymentStatus;
+  created_at: string;
+  resolved_by?: string;
+  resolved_at?: string;
+  resolution_note?: string;
+}
+
+/** Deterministic per (provider, day, type, subject) — re-ingesting a statement is a no-op. */
+export function discrepancyId(
+  provider: string,
+  date: string,
+  type: DiscrepancyType,
+  subject: string
+): string {
+  const digest = createHash('sha256')
+    .update(`${provider}|${date}|${type}|${subject}`)
+    .digest('hex');
+  return `dsc_${digest.slice(0, 24)}`;
+}
+
+export async function getDiscrepancy(id: string): Promise<Discrepancy | undefined> {
+  const res = await ddb.send(new GetCommand({ TableName: TABLE(), Key: { discrepancy_id: id } }));
+  return res.Item as Discrepancy | undefined;
+}
+
+/** Record a discrepancy once; false when it already exists (open or resolved). */
+export async function recordDiscrepancy(item: Discrepancy): Promise<boolean> {
+  try {
+    await ddb.send(
+      new PutCommand({
+        TableName: TABLE(),
+        Item: item,
+        ConditionExpression: 'attribute_not_exists(discrepancy_id)',
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+/** Newest first; optionally narrowed to one statement day. */
+export async function listDiscrepancies(
+  status: DiscrepancyStatus,
+  statementDate?: string
+): Promise<Discrepancy[]> {
+  return listQueue<Discrepancy>(
+    TABLE(),
+    status,
+    statementDate ? { attribute: 'statement_date', value: statementDate } : undefined
+  );
+}
+
+export async function resolveDiscrepancy(
+  id: string,
+  resolvedBy: string,
+  note: string
+): Promise<Discrepancy | undefined> {
+  return resolveQueueItem<Discrepancy>(TABLE(), { discrepancy_id: id }, resolvedBy, note);
+}
@@ -0,0 +1,139 @@
+import { jest } from '@jest/globals';
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { DecryptCommand, KMSClient } from '@aws-sdk/client-kms';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { _resetConfigCache } from '../shared/config.js';
+import { declineHandler, releaseHandler } from './handlers.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const sqsMock = mockClient(SQSClient);
+const ssmMock = mockClient(SSMClient);
+const busMock = mockClient(EventBridgeClient);
+const kmsMock = mockClient(KMSClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.MOCK_CALLBACK_QUEUE_URL = 'https://sqs.test/queue';
+process.env.EVENT_BUS_NAME = 'test-bus';
+process.env.STAGE = 'dev';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+
+const event = (body: unknown = {}): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id: 'pay_1' },
+    body: JSON.stringify(body),
+    requestContext: { requestId: 'req-1', authorizer: { actor: 'efua', roles: 'SUPPORT' } },
+  }) as unknown as APIGatewayProxyEvent;
+
+const released = {
+  payment_id: 'pay_1',
+  merchant_id: 'mer_1',
+  amount_pesewas: 6000,
+  provider: 'mock',
+  status: 'INITIATED',
+  payer_phone_sealed: Buffer.from('sealed').toString('base64'),
+};
+
+const metaUpdates = () =>
+  ddbMock
+    .commandCalls(UpdateCommand)
+    .map((c) => c.args[0].input)
+    .filter((u) => (u.Key as { sk: string }).sk === 'META');
+const detailTypes = () =>
+  busMock.commandCalls(PutEventsCommand).map((c) => c.args[0].input.Entries?.[0]?.DetailType);
+
+beforeEach(() => {
+  ddbMock.reset();
+  sqsMock.reset();
+  ssmMock.reset();
+  busMock.reset();
+  kmsMock.reset();
+  _resetConfigCache();
+  ssmMock.on(GetParametersByPathCommand).resolves({
+    Parameters: [{ Name: '/dev/ghana-payments/provider/active', Value: 'mock' }],
+  });
+  kmsMock.on(DecryptCommand).resolves({ Plaintext: Buffer.from('0244000000') });
+  sqsMock.on(SendMessageCommand).resolves({});
+  busMock.on(PutEventsCommand).resolves({});
+  ddbMock.on(PutCommand).resolves({});
+  ddbMock.on(UpdateCommand).resolves({ Attributes: released });
+});
+
+describe('POST /v1/payments/{id}/release', () => {
+  it('moves the hold to INITIATED, calls the provider and publishes payment.initiated', async () => {
+    const res = await releaseHandler(event());
+    expect(res.statusCode).toBe(200);
+    const [release] = metaUpdates();
+    expect(release.ConditionExpression).toContain(':held');
+    expect(release.ExpressionAttributeValues).toMatchObject({ ':by': 'efua' });
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(1);
+    expect(detailTypes()).toEqual(['payment.initiated']);
+  });
+
+  it('puts the payment back on hold when the provider call fails', async () => {
+    sqsMock.on(SendMessageCommand).rejects(new Error('SQS is down'));
+    const res = await releaseHandler(event());
+    expect(res.statusCode).toBe(500);
+    const [, restore] = metaUpdates();
+    expect(restore.ConditionExpression).toBe('#status = :initiated');
+    expect(restore.UpdateExpression).toContain('REMOVE released_at');
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('reports the provider error even when the payment cannot be put back on hold', async () => {
+    sqsMock.on(SendMessageCommand).rejects(new Error('SQS is down'));
+    ddbMock
+      .on(UpdateCommand)
+      .resolvesOnce({ Attributes: released })
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const res = await releaseHandler(event());
+    expect(res.statusCode).toBe(500);
+    expect(logged).toHaveBeenCalledWith(
+      'Unhandled error',
+      expect.objectContaining({ message: 'SQS is down' })
+    );
+    logged.mockRestore();
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('409s a payment that is not HELD', async () => {
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    ddbMock.on(GetCommand).resolves({ Item: { ...released, status: 'SUCCESS' } });
+    const res = await releaseHandler(event());
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('PAYMENT_NOT_HELD');
+    expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+  });
+});
+
+describe('POST /v1/payments/{id}/decline', () => {
+  it('needs a note, then fails the payment and publishes payment.failed for credit-back', async () => {
+    expect((await declineHandler(event({}))).statusCode).toBe(400);
+
+    ddbMock.on(UpdateCommand).resolves({ Attributes: { ...released, status: 'FAILED' } });
+    const res = await declineHandler(event({ note: 'Payer did not recognise the payment' }));
+    expect(res.statusCode).toBe(200);
+    expect(metaUpdates()[0].ExpressionAttributeValues).toMatchObject({
+      ':failed': 'FAILED',
+      ':note': 'Payer did not recognise the payment',
+    });
+    expect(detailTypes()).toEqual(['payment.failed']);
+  });
+});
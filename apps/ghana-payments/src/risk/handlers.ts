@@ -0,0 +1,160 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { getProvider } from '../payments/provider.js';
+import {
+  declineHeldPayment,
+  getPayment,
+  listEvents,
+  releaseHeldPayment,
+  restoreHold,
+  type PaymentRecord,
+} from '../payments/ledger.js';
+import { ddb, publishEvent } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import {
+  apiError,
+  handleError,
+  ok,
+  parseBody,
+  requireActor,
+  requireString,
+} from '../shared/http.js';
+import { openPii } from '../shared/pii.js';
+import type { PaymentEvent } from '../shared/types.js';
+
+/*
+ * Review of payments the risk rules held at initiation (risk/rules.ts). The payer was
+ * debited when the payment was held; release sends it to the provider as if it had just
+ * been initiated, decline fails it and credit-back returns the money.
+ */
+
+async function notHeld(id: string): Promise<APIGatewayProxyResult> {
+  const payment = await getPayment(id);
+  if (!payment) return apiError(404, 'PAYMENT_NOT_FOUND', 'No such payment');
+  return apiError(409, 'PAYMENT_NOT_HELD', `Payment is ${payment.status}, not HELD`);
+}
+
+const paymentEvent = (
+  payment: PaymentRecord,
+  eventId: string,
+  eventType: PaymentEvent['event_type']
+): PaymentEvent => ({
+  event_id: eventId,
+  event_type: eventType,
+  provider: payment.provider,
+  provider_transaction_id: '',
+  payment_id: payment.payment_id,
+  merchant_id: payment.merchant_id,
+  amount: payment.amount_pesewas,
+  currency: 'GHS',
+  event_time: new Date().toISOString(),
+});
+
+/**
+ * GET /v1/risk/holds — payments waiting for review, oldest first (they expire after SSM
+ * `risk/hold-expiry-minutes`), each with the rule hits that held it.
+ */
+export const listHandler = async (): Promise<APIGatewayProxyResult> => {
+  try {
+    const held: PaymentRecord[] = [];
+    let startKey: Record<string, unknown> | undefined;
+    do {
+      const res = await ddb.send(
+        new QueryCommand({
+          TableName: process.env.PAYMENTS_TABLE,
+          IndexName: 'GSI2',
+          KeyConditionExpression: '#status = :held',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: { ':held': 'HELD' },
+          ExclusiveStartKey: startKey,
+        })
+      );
+      held.push(...((res.Items ?? []) as PaymentRecord[]));
+      startKey = res.LastEvaluatedKey;
+    } while (startKey);
+
+    const holds = [];
+    for (const payment of held) {
+      const decision = (await listEvents(payment.payment_id))
+        .filter((e) => e.event_type === 'RISK_DECISION')
+        .pop();
+      holds.push({
+        payment_id: payment.payment_id,
+        merchant_id: payment.merchant_id,
+        amount_pesewas: payment.amount_pesewas,
+        created_at: payment.created_at,
+        hits: decision?.hits ?? [],
+      });
+    }
+    return ok({ holds });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/payments/{id}/release — the reviewer lets a HELD payment through: INITIATED,
+ * then the provider call and payment.initiated, as initiation would have done. If the
+ * provider call fails the payment goes back to HELD for another try.
+ */
+export const releaseHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    const body = parseBody<{ released_by?: string }>(event.body);
+    const releasedBy = requireActor(event, body.released_by, 'released_by');
+
+    const payment = await releaseHeldPayment(id, releasedBy);
+    if (!payment) return await notHeld(id);
+    try {
+      if (!payment.payer_phone_sealed) throw new Error('held payment has no sealed payer phone');
+      const cfg = await getConfig();
+      await getProvider(payment.adapter ?? cfg.activeProvider).initiatePayment({
+        paymentId: payment.payment_id,
+        merchantId: payment.merchant_id,
+        payerPhone: await openPii(payment.payer_phone_sealed),
+        amountPesewas: payment.amount_pesewas,
+      });
+    } catch (err) {
+      try {
+        await restoreHold(id, (err as Error).message);
+      } catch (restoreErr) {
+        // e.g. the sweeper already moved it; the provider error is still the one to report
+        console.error('Could not put the payment back on hold', { payment_id: id, restoreErr });
+      }
+      throw err;
+    }
+    await publishEvent(
+      'payment.initiated',
+      paymentEvent(payment, `evt_${id}`, 'PAYMENT_INITIATED')
+    );
+    return ok({ payment_id: id, status: payment.status, released_by: releasedBy });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * POST /v1/payments/{id}/decline {note} — the reviewer refuses a HELD payment: FAILED, and
+ * payment.failed so credit-back returns the payer's money and the payer is told.
+ */
+export const declineHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'payment id required');
+    const body = parseBody<{ declined_by?: string; note?: string }>(event.body);
+    const declinedBy = requireActor(event, body.declined_by, 'declined_by');
+    const note = requireString(body.note, 'note');
+
+    const payment = await declineHeldPayment(id, declinedBy, note);
+    if (!payment) return await notHeld(id);
+    await publishEvent('payment.failed', paymentEvent(payment, `evt_dec_${id}`, 'PAYMENT_FAILED'));
+    return ok({ payment_id: id, status: payment.status, declined_by: declinedBy });
+  } catch (err) {
+    return handleError(err);
+  }
+};
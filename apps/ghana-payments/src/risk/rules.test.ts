@@ -0,0 +1,129 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import type { RiskRules } from '../shared/config.js';
+import { assessPayment } from './rules.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+
+process.env.PAYMENTS_TABLE = 'test-payments';
+process.env.DEVICES_TABLE = 'test-devices';
+
+const now = new Date('2026-10-19T12:00:00.000Z');
+const minutesAgo = (m: number): string => new Date(now.getTime() - m * 60_000).toISOString();
+
+/** The foundation-stack defaults. */
+const rules = (overrides: Partial<RiskRules> = {}): RiskRules => ({
+  payerVelocity: { action: 'HOLD', maxPayments: 5, windowMinutes: 10 },
+  merchantVelocity: { action: 'HOLD', maxPayments: 100, windowMinutes: 10 },
+  amountCeiling: { action: 'HOLD', ceilingPesewas: { NONE: 5000, BASIC: 50000, FULL: 500000 } },
+  repeatAmount: { action: 'BLOCK', windowMinutes: 2 },
+  newDevice: { action: 'HOLD', pairedWithinHours: 24, minAmountPesewas: 20000 },
+  holdExpiryMinutes: 60,
+  ...overrides,
+});
+
+const payment = (id: string, at: string, overrides: Record<string, unknown> = {}) => ({
+  payment_id: id,
+  merchant_id: 'mer_1',
+  amount_pesewas: 1000,
+  status: 'SUCCESS',
+  created_at: at,
+  ...overrides,
+});
+
+const input = (amountPesewas: number, kycLevel = 'BASIC') => ({
+  merchant: { merchant_id: 'mer_1', kyc_level: kycLevel } as never,
+  payerPhoneHash: 'hash_payer',
+  amountPesewas,
+});
+
+beforeEach(() => {
+  ddbMock.reset();
+  ddbMock.on(QueryCommand).resolves({ Items: [] });
+});
+
+describe('risk rules (concept §12)', () => {
+  it('ALLOWs a payment no rule matches', async () => {
+    const res = await assessPayment(input(2000), rules(), now);
+    expect(res).toEqual({ decision: 'ALLOW', hits: [] });
+  });
+
+  it('counts payer velocity only inside its own window', async () => {
+    ddbMock.on(QueryCommand, { IndexName: 'GSI4' }).resolves({
+      Items: [1, 2, 3, 4, 5].map((n) =>
+        payment(`pay_${n}`, minutesAgo(n), { merchant_id: 'mer_x' })
+      ),
+    });
+    const held = await assessPayment(input(2000), rules(), now);
+    expect(held.decision).toBe('HOLD');
+    expect(held.hits.map((h) => h.rule)).toEqual(['PAYER_VELOCITY']);
+
+    const wider = rules({ payerVelocity: { action: 'HOLD', maxPayments: 5, windowMinutes: 3 } });
+    expect((await assessPayment(input(2000), wider, now)).decision).toBe('ALLOW');
+  });
+
+  it('holds a payment over the ceiling of the merchant KYC level', async () => {
+    const res = await assessPayment(input(6000, 'NONE'), rules(), now);
+    expect(res.decision).toBe('HOLD');
+    expect(res.hits[0]).toMatchObject({ rule: 'AMOUNT_CEILING' });
+    expect((await assessPayment(input(5000, 'NONE'), rules(), now)).decision).toBe('ALLOW');
+  });
+
+  it('blocks a live repeat of the same amount to the same merchant, not a retry of a failure', async () => {
+    ddbMock.on(QueryCommand, { IndexName: 'GSI4' }).resolves({
+      Items: [
+        payment('pay_failed', minutesAgo(1), { amount_pesewas: 2000, status: 'FAILED' }),
+        payment('pay_other', minutesAgo(1), { amount_pesewas: 2000, merchant_id: 'mer_x' }),
+      ],
+    });
+    expect((await assessPayment(input(2000), rules(), now)).decision).toBe('ALLOW');
+
+    ddbMock.on(QueryCommand, { IndexName: 'GSI4' }).resolves({
+      Items: [payment('pay_live', minutesAgo(1), { amount_pesewas: 2000, status: 'PENDING' })],
+    });
+    const res = await assessPayment(input(2000), rules(), now);
+    expect(res.decision).toBe('BLOCK');
+    expect(res.hits[0]).toMatchObject({ rule: 'REPEAT_AMOUNT', related_ids: ['pay_live'] });
+  });
+
+  it('holds a large payment soon after a soundbox was paired, and only looks when it is large', async () => {
+    ddbMock.on(QueryCommand, { TableName: 'test-devices' }).resolves({
+      Items: [{ device_id: 'dev_new', merchant_id: 'mer_1', paired_at: minutesAgo(30) }],
+    });
+    await assessPayment(input(19_999), rules(), now);
+    expect(
+      ddbMock.commandCalls(QueryCommand).filter((c) => c.args[0].input.TableName === 'test-devices')
+    ).toHaveLength(0);
+
+    const res = await assessPayment(input(20_000), rules(), now);
+    expect(res.hits).toEqual([
+      expect.objectContaining({ rule: 'NEW_DEVICE_LARGE_PAYMENT', related_ids: ['dev_new'] }),
+    ]);
+    const [query] = ddbMock
+      .commandCalls(QueryCommand)
+      .filter((c) => c.args[0].input.TableName === 'test-devices');
+    expect(query.args[0].input.ExpressionAttributeValues?.[':since']).toBe(minutesAgo(24 * 60));
+  });
+
+  it('decides the strictest action among the hits', async () => {
+    ddbMock.on(QueryCommand, { IndexName: 'GSI4' }).resolves({
+      Items: [payment('pay_live', minutesAgo(1), { amount_pesewas: 6000 })],
+    });
+    const res = await assessPayment(input(6000, 'NONE'), rules(), now);
+    expect(res.hits.map((h) => h.rule)).toEqual(['AMOUNT_CEILING', 'REPEAT_AMOUNT']);
+    expect(res.decision).toBe('BLOCK');
+  });
+
+  it('makes no reads for rules that are OFF', async () => {
+    const off = rules({
+      payerVelocity: { action: 'OFF', maxPayments: 5, windowMinutes: 10 },
+      merchantVelocity: { action: 'OFF', maxPayments: 100, windowMinutes: 10 },
+      repeatAmount: { action: 'OFF', windowMinutes: 2 },
+      newDevice: { action: 'OFF', pairedWithinHours: 24, minAmountPesewas: 20000 },
+    });
+    const res = await assessPayment(input(100_000), off, now);
+    expect(res.decision).toBe('HOLD'); // the ceiling is still on
+    expect(ddbMock.commandCalls(QueryCommand)).toHaveLength(0);
+  });
+});
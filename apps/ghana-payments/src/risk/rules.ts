@@ -0,0 +1,160 @@
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { DeviceItem } from '../devices/handlers.js';
+import { kycLevelOf } from '../kyc/limits.js';
+import type { MerchantItem } from '../merchants/store.js';
+import { paymentsByPayerSince, paymentsCreatedSince } from '../payments/ledger.js';
+import { ddb } from '../shared/clients.js';
+import type { RiskRuleAction, RiskRules } from '../shared/config.js';
+import type { PaymentStatus, RiskDecision } from '../shared/types.js';
+
+export type RiskRuleName =
+  | 'PAYER_VELOCITY'
+  | 'MERCHANT_VELOCITY'
+  | 'AMOUNT_CEILING'
+  | 'REPEAT_AMOUNT'
+  | 'NEW_DEVICE_LARGE_PAYMENT';
+
+/** One rule that matched, with what the reviewer needs to judge it. */
+export interface RuleHit {
+  rule: RiskRuleName;
+  action: RiskDecision;
+  reason: string;
+  /** The earlier payments (REPEAT_AMOUNT) or soundboxes (NEW_DEVICE_LARGE_PAYMENT) behind it. */
+  related_ids?: string[];
+}
+
+/** Recorded as the RISK_DECISION event on the payment's timeline. */
+export interface RiskAssessment {
+  decision: RiskDecision;
+  hits: RuleHit[];
+}
+
+const SEVERITY: RiskDecision[] = ['ALLOW', 'HOLD', 'BLOCK'];
+
+// A payment that failed or expired is retried with the same amount — that is not a repeat
+const LIVE: PaymentStatus[] = ['INITIATED', 'PENDING', 'SUCCESS', 'HELD'];
+
+const enabled = (rule: { action: RiskRuleAction }): rule is { action: RiskDecision } =>
+  rule.action !== 'OFF';
+
+/** Soundboxes paired to the merchant at or after `since` (devices GSI1: merchant_id + paired_at). */
+async function devicesPairedSince(merchantId: string, since: string): Promise<DeviceItem[]> {
+  const res = await ddb.send(
+    new QueryCommand({
+      TableName: process.env.DEVICES_TABLE,
+      IndexName: 'GSI1',
+      KeyConditionExpression: 'merchant_id = :m AND paired_at >= :since',
+      ExpressionAttributeValues: { ':m': merchantId, ':since': since },
+    })
+  );
+  return (res.Items ?? []) as DeviceItem[];
+}
+
+/**
+ * Runs the fraud rules (concept §12) on a payment about to be initiated. Every enabled rule
+ * that matches is a hit; the decision is the strictest action among them, ALLOW when none
+ * match. Only the reads an enabled rule needs are made. Like the KYC limits, the counts are
+ * read, not reserved: two payments racing past a velocity limit can both get through.
+ */
+export async function assessPayment(
+  input: {
+    merchant: Pick<MerchantItem, 'merchant_id' | 'kyc_level'>;
+    payerPhoneHash: string;
+    amountPesewas: number;
+  },
+  rules: RiskRules,
+  now: Date = new Date()
+): Promise<RiskAssessment> {
+  const { merchant, payerPhoneHash, amountPesewas: amount } = input;
+  const { payerVelocity, merchantVelocity, amountCeiling, repeatAmount, newDevice } = rules;
+  const since = (minutes: number): string =>
+    new Date(now.getTime() - minutes * 60_000).toISOString();
+  const hits: RuleHit[] = [];
+
+  // One payer read serves both payer rules, over the longer of their windows
+  const payerWindow = Math.max(
+    enabled(payerVelocity) ? payerVelocity.windowMinutes : 0,
+    enabled(repeatAmount) ? repeatAmount.windowMinutes : 0
+  );
+  const payerRecent =
+    payerWindow > 0 ? await paymentsByPayerSince(payerPhoneHash, since(payerWindow)) : [];
+
+  if (enabled(payerVelocity)) {
+    const from = since(payerVelocity.windowMinutes);
+    const count = payerRecent.filter((p) => p.created_at >= from).length + 1;
+    if (count > payerVelocity.maxPayments) {
+      hits.push({
+        rule: 'PAYER_VELOCITY',
+        action: payerVelocity.action,
+        reason: `payment ${count} from this payer in ${payerVelocity.windowMinutes} minutes (max ${payerVelocity.maxPayments})`,
+      });
+    }
+  }
+
+  if (enabled(merchantVelocity)) {
+    const recent = await paymentsCreatedSince(
+      merchant.merchant_id,
+      since(merchantVelocity.windowMinutes)
+    );
+    const count = recent.length + 1;
+    if (count > merchantVelocity.maxPayments) {
+      hits.push({
+        rule: 'MERCHANT_VELOCITY',
+        action: merchantVelocity.action,
+        reason: `payment ${count} to this merchant in ${merchantVelocity.windowMinutes} minutes (max ${merchantVelocity.maxPayments})`,
+      });
+    }
+  }
+
+  if (enabled(amountCeiling)) {
+    const level = kycLevelOf(merchant);
+    const ceiling = amountCeiling.ceilingPesewas[level];
+    if (amount > ceiling) {
+      hits.push({
+        rule: 'AMOUNT_CEILING',
+        action: amountCeiling.action,
+        reason: `${amount} pesewas is over the ${level} ceiling of ${ceiling}`,
+      });
+    }
+  }
+
+  if (enabled(repeatAmount)) {
+    const from = since(repeatAmount.windowMinutes);
+    const repeats = payerRecent.filter(
+      (p) =>
+        p.created_at >= from &&
+        p.merchant_id === merchant.merchant_id &&
+        p.amount_pesewas === amount &&
+        LIVE.includes(p.status)
+    );
+    if (repeats.length > 0) {
+      hits.push({
+        rule: 'REPEAT_AMOUNT',
+        action: repeatAmount.action,
+        reason: `same amount to this merchant ${repeats.length} time(s) in the last ${repeatAmount.windowMinutes} minutes`,
+        related_ids: repeats.map((p) => p.payment_id),
+      });
+    }
+  }
+
+  if (enabled(newDevice) && amount >= newDevice.minAmountPesewas) {
+    const paired = await devicesPairedSince(
+      merchant.merchant_id,
+      since(newDevice.pairedWithinHours * 60)
+    );
+    if (paired.length > 0) {
+      hits.push({
+        rule: 'NEW_DEVICE_LARGE_PAYMENT',
+        action: newDevice.action,
+        reason: `${amount} pesewas within ${newDevice.pairedWithinHours} hours of a soundbox pairing`,
+        related_ids: paired.map((d) => d.device_id),
+      });
+    }
+  }
+
+  const decision = hits.reduce<RiskDecision>(
+    (worst, hit) => (SEVERITY.indexOf(hit.action) > SEVERITY.indexOf(worst) ? hit.action : worst),
+    'ALLOW'
+  );
+  return { decision, hits };
+}
@@ -0,0 +1,70 @@
+import { publishEvent } from '../shared/clients.js';
+import { getConfig } from '../shared/config.js';
+import { paymentsConfirmedOn, type PaymentRecord } from '../payments/ledger.js';
+import { feeFor, putCalculated, type SettlementRecord } from './store.js';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Yesterday (UTC) — the last fully closed business day. */
+function previousBusinessDay(now = new Date()): string {
+  return new Date(now.getTime() - 24 * 60 * 60_000).toISOString().slice(0, 10);
+}
+
+/**
+ * Daily settlement batch (concept §13 Phase 2). Scheduled just after midnight for the
+ * previous business day; `{ date }` re-runs a specific day. Groups SUCCESS payments per
+ * merchant, computes the per-payment fee (SSM settlement/fee-bps) and writes one
+ * CALCULATED record per merchant. Days already SUBMITTED onwards are left untouched.
+ */
+export const handler = async (
+  event: { date?: string } = {}
+): Promise<{ date: string; settled: number; skipped: number }> => {
+  const date = event.date && DAY_RE.test(event.date) ? event.date : previousBusinessDay();
+  const cfg = await getConfig();
+
+  const byMerchant = new Map<string, PaymentRecord[]>();
+  for (const payment of await paymentsConfirmedOn(date, 'SUCCESS')) {
+    const list = byMerchant.get(payment.merchant_id) ?? [];
+    list.push(payment);
+    byMerchant.set(payment.merchant_id, list);
+  }
+
+  let settled = 0;
+  let skipped = 0;
+  const now = new Date().toISOString();
+  for (const [merchantId, payments] of byMerchant) {
+    const gross = payments.reduce((sum, p) => sum + p.amount_pesewas, 0);
+    const fee = payments.reduce(
+      (sum, p) => sum + feeFor(p.amount_pesewas, cfg.settlementFeeBps),
+      0
+    );
+    const record: SettlementRecord = {
+      merchant_id: merchantId,
+      date,
+      status: 'CALCULATED',
+      payment_count: payments.length,
+      gross_pesewas: gross,
+      fee_pesewas: fee,
+      net_pesewas: gross - fee,
+      fee_bps: cfg.settlementFeeBps,
+      payment_ids: payments.map((p) => p.payment_id).sort(),
+      calculated_at: now,
+      updated_at: now,
+    };
+    if (!(await putCalculated(record))) {
+      skipped++; // payout already submitted — frozen
+      continue;
+    }
+    settled++;
+    await publishEvent('settlement.calculated', {
+      merchant_id: merchantId,
+      date,
+      payment_count: record.payment_count,
+      gross_pesewas: gross,
+      fee_pesewas: fee,
+      net_pesewas: record.net_pesewas,
+    });
+  }
+  console.log(JSON.stringify({ msg: 'settlement batch', date, settled, skipped }));
+  return { date, settled, skipped };
+};
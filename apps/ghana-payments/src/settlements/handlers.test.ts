@@ -0,0 +1,144 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  QueryCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { ddb } from '../shared/clients.js';
+import { exportHandler, listHandler, statusHandler } from './handlers.js';
+
+const ddbMock = mockClient(ddb as unknown as DynamoDBDocumentClient);
+const busMock = mockClient(EventBridgeClient);
+
+process.env.SETTLEMENTS_TABLE = 'test-settlements';
+process.env.MERCHANTS_TABLE = 'test-merchants';
+process.env.EVENT_BUS_NAME = 'test-bus';
+
+const parse = <T>(res: { body: string }): T => JSON.parse(res.body) as T;
+
+interface ErrorResponse {
+  error: { code: string };
+}
+
+const record = (status: string) => ({
+  merchant_id: 'mer_1',
+  date: '2026-03-01',
+  status,
+  payment_count: 2,
+  gross_pesewas: 2333,
+  fee_pesewas: 35,
+  net_pesewas: 2298,
+  fee_bps: 150,
+  payment_ids: ['pay_a', 'pay_c'],
+  calculated_at: '2026-03-02T00:30:00.000Z',
+  updated_at: '2026-03-02T00:30:00.000Z',
+});
+
+const wallet = (walletId: string, usableFrom: Date) => ({
+  merchant_id: 'mer_1',
+  sk: `WALLET#${walletId}`,
+  wallet_id: walletId,
+  status: 'VERIFIED',
+  usable_from: usableFrom.toISOString(),
+});
+
+const event = (overrides: Partial<APIGatewayProxyEvent> = {}): APIGatewayProxyEvent =>
+  ({
+    pathParameters: { id: 'mer_1' },
+    queryStringParameters: null,
+    body: null,
+    ...overrides,
+  }) as unknown as APIGatewayProxyEvent;
+
+beforeEach(() => {
+  ddbMock.reset();
+  busMock.reset();
+  busMock.on(PutEventsCommand).resolves({});
+});
+
+describe('GET /v1/merchants/{id}/settlements', () => {
+  it('lists the range without per-payment ids', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [record('CALCULATED')] });
+    const res = await listHandler(
+      event({ queryStringParameters: { from: '2026-03-01', to: '2026-03-31' } })
+    );
+    const body = parse<{ settlements: Array<Record<string, unknown>> }>(res);
+    expect(body.settlements[0].net_pesewas).toBe(2298);
+    expect(body.settlements[0]).not.toHaveProperty('payment_ids');
+    const input = ddbMock.commandCalls(QueryCommand)[0].args[0].input;
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':from': '2026-03-01',
+      ':to': '2026-03-31',
+    });
+  });
+
+  it('400s a malformed range', async () => {
+    const res = await listHandler(
+      event({ queryStringParameters: { from: '2026-03-31', to: '2026-03-01' } })
+    );
+    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_DATE_RANGE');
+  });
+});
+
+describe('GET /v1/merchants/{id}/settlements/export', () => {
+  it('returns CSV with a header row', async () => {
+    ddbMock.on(QueryCommand).resolves({ Items: [record('PAID')] });
+    const res = await exportHandler(event());
+    expect(res.headers?.['Content-Type']).toContain('text/csv');
+    expect(res.body.split('\n')).toEqual([
+      'date,status,payment_count,gross_pesewas,fee_pesewas,net_pesewas,fee_bps,payout_reference',
+      '2026-03-01,PAID,2,2333,35,2298,150,',
+      '',
+    ]);
+  });
+});
+
+describe('PATCH /v1/merchants/{id}/settlements/{date}/status', () => {
+  const patch = (body: unknown) =>
+    statusHandler(
+      event({ pathParameters: { id: 'mer_1', date: '2026-03-01' }, body: JSON.stringify(body) })
+    );
+
+  it('submits a CALCULATED day with its payout reference and the wallet paid to', async () => {
+    const hour = 3_600_000;
+    ddbMock.on(QueryCommand).resolves({
+      Items: [
+        wallet('mwl_old', new Date(Date.now() - 100 * hour)),
+        // verified an hour ago: still cooling off, so not paid to yet (§12.1)
+        wallet('mwl_new', new Date(Date.now() + 47 * hour)),
+      ],
+    });
+    ddbMock.on(UpdateCommand).resolves({
+      Attributes: { ...record('SUBMITTED'), payout_reference: 'po-123' },
+    });
+    const res = await patch({ status: 'SUBMITTED', payout_reference: 'po-123' });
+    expect(res.statusCode).toBe(200);
+    const input = ddbMock.commandCalls(UpdateCommand)[0].args[0].input;
+    expect(input.ExpressionAttributeValues).toMatchObject({
+      ':to': 'SUBMITTED',
+      ':from0': 'CALCULATED',
+      ':wallet': 'mwl_old',
+    });
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(1);
+  });
+
+  it('409s a step the lifecycle does not allow', async () => {
+    ddbMock
+      .on(UpdateCommand)
+      .rejects(Object.assign(new Error('cond'), { name: 'ConditionalCheckFailedException' }));
+    ddbMock.on(GetCommand).resolves({ Item: record('CALCULATED') });
+    const res = await patch({ status: 'PAID' });
+    expect(res.statusCode).toBe(409);
+    expect(parse<ErrorResponse>(res).error.code).toBe('INVALID_TRANSITION');
+    expect(busMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+  });
+
+  it('requires a payout reference to submit', async () => {
+    const res = await patch({ status: 'SUBMITTED' });
+    expect(res.statusCode).toBe(400);
+    expect(ddbMock.commandCalls(UpdateCommand)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,151 @@
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { payoutWallet } from '../merchants/store.js';
+import { publishEvent } from '../shared/clients.js';
+import { actorOf, apiError, BadRequestError, handleError, ok, parseBody } from '../shared/http.js';
+import type { SettlementStatus } from '../shared/types.js';
+import {
+  getSettlement,
+  listSettlements,
+  SETTLEMENT_TRANSITIONS,
+  transitionSettlement,
+  type SettlementRecord,
+} from './store.js';
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const DEFAULT_RANGE_DAYS = 30;
+
+/** ?from=&to= (YYYY-MM-DD, inclusive); defaults to the last 30 days. */
+function dateRange(event: APIGatewayProxyEvent): { from: string; to: string } {
+  const qs = event.queryStringParameters ?? {};
+  const today = new Date().toISOString().slice(0, 10);
+  const from =
+    qs.from ??
+    new Date(Date.now() - DEFAULT_RANGE_DAYS * 24 * 60 * 60_000).toISOString().slice(0, 10);
+  const to = qs.to ?? today;
+  if (!DAY_RE.test(from) || !DAY_RE.test(to) || from > to) {
+    throw new BadRequestError('INVALID_DATE_RANGE', 'from/to must be YYYY-MM-DD with from <= to');
+  }
+  return { from, to };
+}
+
+/** List view omits the per-payment ids (they can run to thousands per day). */
+function summary(record: SettlementRecord): Omit<SettlementRecord, 'payment_ids'> {
+  const { payment_ids: _ids, ...rest } = record;
+  return rest;
+}
+
+/** GET /v1/merchants/{id}/settlements — daily settlement records in a date range. */
+export const listHandler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const { from, to } = dateRange(event);
+    const records = await listSettlements(id, from, to);
+    return ok({ merchant_id: id, from, to, settlements: records.map(summary) });
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+const CSV_COLUMNS = [
+  'date',
+  'status',
+  'payment_count',
+  'gross_pesewas',
+  'fee_pesewas',
+  'net_pesewas',
+  'fee_bps',
+  'payout_reference',
+] as const;
+
+function csvCell(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** GET /v1/merchants/{id}/settlements/export — the same range as CSV, for finance. */
+export const exportHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    if (!id) return apiError(400, 'MISSING_ID', 'merchant id required');
+    const { from, to } = dateRange(event);
+    const records = await listSettlements(id, from, to);
+    const lines = [
+      CSV_COLUMNS.join(','),
+      ...records.map((r) => CSV_COLUMNS.map((c) => csvCell(r[c])).join(',')),
+    ];
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="settlements-${id}-${from}-${to}.csv"`,
+      },
+      body: `${lines.join('\n')}\n`,
+    };
+  } catch (err) {
+    return handleError(err);
+  }
+};
+
+/**
+ * PATCH /v1/merchants/{id}/settlements/{date}/status — finance moves a day through the
+ * lifecycle (SUBMITTED with the payout reference, then PAID/FAILED, then RECONCILED).
+ * Transitions are enforced by a conditional update, so concurrent edits cannot skip a step.
+ * Submitting records the wallet paid to — never one still in its cooling-off window (§12.1).
+ */
+export const statusHandler = async (
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> => {
+  try {
+    const id = event.pathParameters?.id;
+    const date = event.pathParameters?.date;
+    if (!id || !date) return apiError(400, 'MISSING_ID', 'merchant id and date required');
+    const body = parseBody<{ status: string; payout_reference?: string; reason?: string }>(
+      event.body
+    );
+    if (!Object.prototype.hasOwnProperty.call(SETTLEMENT_TRANSITIONS, body.status)) {
+      return apiError(
+        400,
+        'INVALID_STATUS',
+        `status must be one of ${Object.keys(SETTLEMENT_TRANSITIONS).join(', ')}`
+      );
+    }
+    const to = body.status as SettlementStatus;
+    if (to === 'SUBMITTED' && !body.payout_reference) {
+      return apiError(400, 'INVALID_FIELD', 'payout_reference is required when submitting');
+    }
+
+    const wallet = to === 'SUBMITTED' ? await payoutWallet(id) : undefined;
+    const updated = await transitionSettlement({
+      merchantId: id,
+      date,
+      to,
+      payoutReference: body.payout_reference,
+      ...(to === 'SUBMITTED' ? { payoutWalletId: wallet?.wallet_id ?? null } : {}),
+      reason: body.reason,
+      updatedBy: actorOf(event),
+    });
+    if (!updated) {
+      const existing = await getSettlement(id, date);
+      if (!existing) return apiError(404, 'SETTLEMENT_NOT_FOUND', 'No settlement for that day');
+      return apiError(
+        409,
+        'INVALID_TRANSITION',
+        `Cannot move a ${existing.status} settlement to ${to}`
+      );
+    }
+    await publishEvent('settlement.status_changed', {
+      merchant_id: id,
+      date,
+      status: updated.status,
+      net_pesewas: updated.net_pesewas,
+      payout_reference: updated.payout_reference ?? null,
+      payout_wallet_id: updated.payout_wallet_id ?? null,
+    });
+    return ok(summary(updated));
+  } catch (err) {
+    return handleError(err);
+  }
+};
@@ -0,0 +1,149 @@
+import { GetCommand, PutCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ddb } from '../shared/clients.js';
+import type { SettlementStatus } from '../shared/types.js';
+
+const TABLE = (): string => process.env.SETTLEMENTS_TABLE ?? '';
+
+/**
+ * One item per merchant per business day (pk merchant_id, sk date = YYYY-MM-DD, UTC —
+ * Ghana has no DST and sits on UTC). Amounts are integer pesewas.
+ */
+export interface SettlementRecord {
+  merchant_id: string;
+  date: string;
+  status: SettlementStatus;
+  payment_count: number;
+  gross_pesewas: number;
+  fee_pesewas: number;
+  net_pesewas: number;
+  fee_bps: number;
+  payment_ids: string[];
+  calculated_at: string;
+  updated_at: string;
+  payout_reference?: string | null;
+  /** The merchant wallet the payout was submitted to (past its cooling-off); null if none. */
+  payout_wallet_id?: string | null;
+  status_reason?: string | null;
+  /** Finance operator behind the last lifecycle step. */
+  updated_by?: string | null;
+}
+
+/**
+ * Lifecycle (concept §13 Phase 2). OPEN is the intraday state; the batch only settles
+ * closed days, so records are born CALCULATED. FAILED payouts can be resubmitted.
+ */
+export const SETTLEMENT_TRANSITIONS: Record<SettlementStatus, SettlementStatus[]> = {
+  OPEN: ['CALCULATED'],
+  CALCULATED: ['SUBMITTED'],
+  SUBMITTED: ['PAID', 'FAILED'],
+  FAILED: ['SUBMITTED'],
+  PAID: ['RECONCILED'],
+  RECONCILED: [],
+};
+
+/** Fee per payment, rounded to the nearest pesewa — summed, never taken off the day's gross. */
+export function feeFor(amountPesewas: number, feeBps: number): number {
+  return Math.round((amountPesewas * feeBps) / 10_000);
+}
+
+export async function getSettlement(
+  merchantId: string,
+  date: string
+): Promise<SettlementRecord | undefined> {
+  const res = await ddb.send(
+    new GetCommand({ TableName: TABLE(), Key: { merchant_id: merchantId, date } })
+  );
+  return res.Item as SettlementRecord | undefined;
+}
+
+export async function listSettlements(
+  merchantId: string,
+  from: string,
+  to: string
+): Promise<SettlementRecord[]> {
+  const items: SettlementRecord[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: TABLE(),
+        KeyConditionExpression: 'merchant_id = :m AND #date BETWEEN :from AND :to',
+        ExpressionAttributeNames: { '#date': 'date' },
+        ExpressionAttributeValues: { ':m': merchantId, ':from': from, ':to': to },
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as SettlementRecord[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/**
+ * Write (or recompute) a day's settlement. Re-running the batch is safe until the payout
+ * is SUBMITTED — after that the record is frozen and this returns false.
+ */
+export async function putCalculated(record: SettlementRecord): Promise<boolean> {
+  try {
+    await ddb.send(
+      new PutCommand({
+        TableName: TABLE(),
+        Item: record,
+        ConditionExpression: 'attribute_not_exists(merchant_id) OR #status IN (:open, :calculated)',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: { ':open': 'OPEN', ':calculated': 'CALCULATED' },
+      })
+    );
+    return true;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return false;
+    throw err;
+  }
+}
+
+/** Conditional lifecycle step: only succeeds from a status that allows `to`. */
+export async function transitionSettlement(input: {
+  merchantId: string;
+  date: string;
+  to: SettlementStatus;
+  payoutReference?: string;
+  /** Recorded when submitting; null = the merchant had no usable payout wallet. */
+  payoutWalletId?: string | null;
+  reason?: string;
+  /** The finance operator making the move. */
+  updatedBy?: string | null;
+}): Promise<SettlementRecord | undefined> {
+  const from = (Object.keys(SETTLEMENT_TRANSITIONS) as SettlementStatus[]).filter((s) =>
+    SETTLEMENT_TRANSITIONS[s].includes(input.to)
+  );
+  if (from.length === 0) return undefined;
+  const fromValues = Object.fromEntries(from.map((s, i) => [`:from${i}`, s]));
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: TABLE(),
+        Key: { merchant_id: input.merchantId, date: input.date },
+        UpdateExpression:
+          'SET #status = :to, updated_at = :now, status_reason = :reason, updated_by = :by' +
+          (input.payoutReference ? ', payout_reference = :ref' : '') +
+          (input.payoutWalletId !== undefined ? ', payout_wallet_id = :wallet' : ''),
+        ConditionExpression: `#status IN (${Object.keys(fromValues).join(', ')})`,
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':to': input.to,
+          ':now': new Date().toISOString(),
+          ':reason': input.reason ?? null,
+          ':by': input.updatedBy ?? null,
+          ...(input.payoutReference ? { ':ref': input.payoutReference } : {}),
+          ...(input.payoutWalletId !== undefined ? { ':wallet': input.payoutWalletId } : {}),
+          ...fromValues,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return res.Attributes as SettlementRecord;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return undefined;
+    throw err;
+  }
+}
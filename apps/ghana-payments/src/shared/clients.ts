@@ -16,8 +16,19 @@ export type DetailType =
   | 'payment.confirmed'
   | 'payment.failed'
   | 'payment.expired'
+  | 'payment.refunded'
+  | 'settlement.calculated'
+  | 'settlement.status_changed'
+  | 'reconciliation.completed'
+  | 'payment.anomaly'
   | 'wallet.debited'
-  | 'wallet.credited';
+  | 'wallet.credited'
+  | 'device.offline'
+  | 'device.online'
+  | 'announcement.unconfirmed'
+  | 'fraud.device_repair'
+  | 'fraud.payment_held'
+  | 'fraud.payment_blocked';
 
 export async function publishEvent(detailType: DetailType, detail: PaymentEvent | Record<string, unknown>): Promise<void> {
   await eventBridge.send(
@@ -1,4 +1,5 @@
-import { SSMClient, GetParametersByPathCommand } from '@aws-sdk/client-ssm';
+import { SSMClient, GetParametersByPathCommand, type Parameter } from '@aws-sdk/client-ssm';
+import type { KycLevel, RiskDecision } from './types.js';
 
 const ssm = new SSMClient({});
 
@@ -11,6 +12,56 @@ export interface MockConfig {
   activeProvider: string;
   /** CloudFront URL, written by the web stack; QR payloads are built from it (D3). */
   publicBaseUrl: string;
+  /** MTN MoMo Collections (concept §17.3). Credentials are NOT here — see mtn-provider.ts. */
+  mtnBaseUrl: string;
+  mtnTargetEnvironment: string;
+  mtnCurrency: string;
+  /** Empty -> derived from publicBaseUrl (the CloudFront /api route to /v1/webhooks/mtn). */
+  mtnCallbackUrl: string;
+  /** Platform fee per SUCCESS payment, in basis points (concept §13 Phase 2 settlement). */
+  settlementFeeBps: number;
+  /** Missed-heartbeat window before an ACTIVE soundbox is swept to OFFLINE (heartbeats are every 60 s). */
+  deviceOfflineAfterSeconds: number;
+  /** Fleet health (devices/telemetry.ts): battery below this percent is flagged. */
+  deviceLowBatteryPercent: number;
+  /** Fleet health: RSSI below this many dBm is a weak signal. */
+  deviceWeakSignalDbm: number;
+  /** Pairing again within this many minutes of the last pairing is flagged (fraud.device_repair). */
+  deviceRapidRepairMinutes: number;
+  /** Hours between verifying a new payout wallet and payouts using it (SIM-swap control, §12.1). */
+  walletCoolingOffHours: number;
+  /** What a merchant may collect at each KYC level, in pesewas (kyc/limits.ts). */
+  kycLimits: Record<KycLevel, KycLimit>;
+  /** Fraud rules evaluated at initiation (risk/rules.ts). */
+  riskRules: RiskRules;
+  /** 'sns' (real SMS) or 'local' (log only — nothing leaves the account). */
+  smsProvider: string;
+  /** Alphanumeric sender shown on the handset (max 11 chars). */
+  smsSenderId: string;
+}
+
+export interface KycLimit {
+  perPaymentPesewas: number;
+  dailyPesewas: number;
+}
+
+/** ALLOW only records the hit on the timeline (watch a rule before enforcing it); OFF skips it. */
+export type RiskRuleAction = RiskDecision | 'OFF';
+const RISK_RULE_ACTIONS: RiskRuleAction[] = ['ALLOW', 'HOLD', 'BLOCK', 'OFF'];
+
+export interface RiskRules {
+  /** More than `maxPayments` from one payer within the window (any merchant). */
+  payerVelocity: { action: RiskRuleAction; maxPayments: number; windowMinutes: number };
+  /** More than `maxPayments` to one merchant within the window. */
+  merchantVelocity: { action: RiskRuleAction; maxPayments: number; windowMinutes: number };
+  /** A single payment above the ceiling for the merchant's KYC level (below the KYC hard limit). */
+  amountCeiling: { action: RiskRuleAction; ceilingPesewas: Record<KycLevel, number> };
+  /** The payer already paid this merchant the same amount within the window (double tap). */
+  repeatAmount: { action: RiskRuleAction; windowMinutes: number };
+  /** At least `minAmountPesewas` to a merchant whose soundbox was paired within the window. */
+  newDevice: { action: RiskRuleAction; pairedWithinHours: number; minAmountPesewas: number };
+  /** A hold nobody reviewed expires after this long and the payer is credited back. */
+  holdExpiryMinutes: number;
 }
 
 let cached: MockConfig | null = null;
@@ -21,11 +72,27 @@ const TTL_MS = 60_000;
 export async function getConfig(): Promise<MockConfig> {
   if (cached && Date.now() - cachedAt < TTL_MS) return cached;
   const stage = process.env.STAGE ?? 'dev';
-  const res = await ssm.send(
-    new GetParametersByPathCommand({ Path: `/${stage}/ghana-payments/`, Recursive: true })
-  );
+  // Paginated: GetParametersByPath returns at most 10 parameters per page
+  const params: Parameter[] = [];
+  let nextToken: string | undefined;
+  do {
+    const res = await ssm.send(
+      new GetParametersByPathCommand({
+        Path: `/${stage}/ghana-payments/`,
+        Recursive: true,
+        NextToken: nextToken,
+      })
+    );
+    params.push(...(res.Parameters ?? []));
+    nextToken = res.NextToken;
+  } while (nextToken);
   const get = (suffix: string, fallback: string): string =>
-    res.Parameters?.find((p) => p.Name?.endsWith(suffix))?.Value ?? fallback;
+    params.find((p) => p.Name?.endsWith(suffix))?.Value ?? fallback;
+  // A mistyped action falls back to the default rather than silently switching the rule off
+  const action = (suffix: string, fallback: RiskRuleAction): RiskRuleAction => {
+    const value = get(suffix, fallback) as RiskRuleAction;
+    return RISK_RULE_ACTIONS.includes(value) ? value : fallback;
+  };
   cached = {
     failAmountPesewas: Number(get('mock/fail-amount-pesewas', '1300')),
     timeoutAmountPesewas: Number(get('mock/timeout-amount-pesewas', '999')),
@@ -34,6 +101,62 @@ export async function getConfig(): Promise<MockConfig> {
     sweeperExpiryMinutes: Number(get('sweeper/expiry-minutes', '5')),
     activeProvider: get('provider/active', 'mock'),
     publicBaseUrl: get('public-base-url', ''),
+    mtnBaseUrl: get('mtn/base-url', 'https://sandbox.momodeveloper.mtn.com'),
+    mtnTargetEnvironment: get('mtn/target-environment', 'sandbox'),
+    mtnCurrency: get('mtn/currency', 'GHS'),
+    mtnCallbackUrl: get('mtn/callback-url', ''),
+    settlementFeeBps: Number(get('settlement/fee-bps', '100')),
+    deviceOfflineAfterSeconds: Number(get('devices/offline-after-seconds', '180')),
+    deviceLowBatteryPercent: Number(get('devices/low-battery-percent', '20')),
+    deviceWeakSignalDbm: Number(get('devices/weak-signal-dbm', '-85')),
+    deviceRapidRepairMinutes: Number(get('devices/rapid-repair-minutes', '60')),
+    walletCoolingOffHours: Number(get('merchants/wallet-cooling-off-hours', '48')),
+    kycLimits: {
+      NONE: {
+        perPaymentPesewas: Number(get('kyc/none-per-payment-pesewas', '10000')),
+        dailyPesewas: Number(get('kyc/none-daily-pesewas', '50000')),
+      },
+      BASIC: {
+        perPaymentPesewas: Number(get('kyc/basic-per-payment-pesewas', '100000')),
+        dailyPesewas: Number(get('kyc/basic-daily-pesewas', '500000')),
+      },
+      FULL: {
+        perPaymentPesewas: Number(get('kyc/full-per-payment-pesewas', '1000000')),
+        dailyPesewas: Number(get('kyc/full-daily-pesewas', '5000000')),
+      },
+    },
+    riskRules: {
+      payerVelocity: {
+        action: action('risk/payer-velocity-action', 'HOLD'),
+        maxPayments: Number(get('risk/payer-velocity-max-payments', '5')),
+        windowMinutes: Number(get('risk/payer-velocity-window-minutes', '10')),
+      },
+      merchantVelocity: {
+        action: action('risk/merchant-velocity-action', 'HOLD'),
+        maxPayments: Number(get('risk/merchant-velocity-max-payments', '100')),
+        windowMinutes: Number(get('risk/merchant-velocity-window-minutes', '10')),
+      },
+      amountCeiling: {
+        action: action('risk/amount-ceiling-action', 'HOLD'),
+        ceilingPesewas: {
+          NONE: Number(get('risk/amount-ceiling-none-pesewas', '5000')),
+          BASIC: Number(get('risk/amount-ceiling-basic-pesewas', '50000')),
+          FULL: Number(get('risk/amount-ceiling-full-pesewas', '500000')),
+        },
+      },
+      repeatAmount: {
+        action: action('risk/repeat-amount-action', 'BLOCK'),
+        windowMinutes: Number(get('risk/repeat-amount-window-minutes', '2')),
+      },
+      newDevice: {
+        action: action('risk/new-device-action', 'HOLD'),
+        pairedWithinHours: Number(get('risk/new-device-paired-within-hours', '24')),
+        minAmountPesewas: Number(get('risk/new-device-min-amount-pesewas', '20000')),
+      },
+      holdExpiryMinutes: Number(get('risk/hold-expiry-minutes', '60')),
+    },
+    smsProvider: get('notifications/sms-provider', 'sns'),
+    smsSenderId: get('notifications/sms-sender-id', 'GhanaPay'),
   };
   cachedAt = Date.now();
   return cached;
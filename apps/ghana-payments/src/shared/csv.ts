@@ -0,0 +1,44 @@
+/** Minimal RFC 4180 line split: commas, double-quoted fields, "" escapes. */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+/**
+ * Rows of a CSV file with a header line, keyed by the (trimmed) header, each with its
+ * 1-based line number in the file. Blank lines are skipped.
+ */
+export function csvRecords(body: string): Array<[Record<string, unknown>, number]> {
+  const lines = body.split(/\r?\n/);
+  const header = splitCsvLine(lines[0] ?? '').map((h) => h.trim());
+  const records: Array<[Record<string, unknown>, number]> = [];
+  lines.slice(1).forEach((text, i) => {
+    if (text.trim() === '') return;
+    const cells = splitCsvLine(text);
+    records.push([Object.fromEntries(header.map((h, c) => [h, cells[c]])), i + 2]);
+  });
+  return records;
+}
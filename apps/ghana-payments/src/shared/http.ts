@@ -1,4 +1,4 @@
-import type { APIGatewayProxyResult } from 'aws-lambda';
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 
 /** API error model per concept.md Appendix A. CORS handled by API Gateway, never here. */
 export function ok(body: unknown, statusCode = 200): APIGatewayProxyResult {
@@ -53,6 +53,43 @@ export function requireString(value: unknown, field: string): string {
   return value.trim();
 }
 
+/**
+ * The signed-in operator behind this request (Cognito username, set by the API authorizer),
+ * or null when the Lambda was invoked without it (public routes, tests).
+ */
+export function actorOf(event: APIGatewayProxyEvent): string | null {
+  const actor = (event.requestContext?.authorizer as { actor?: unknown } | null | undefined)?.actor;
+  return typeof actor === 'string' && actor !== '' ? actor : null;
+}
+
+/**
+ * Who is doing this: the signed-in operator, never a name the body claims. The body field
+ * is only read when there is no authorizer context (direct invocation).
+ */
+export function requireActor(
+  event: APIGatewayProxyEvent,
+  bodyValue: unknown,
+  field: string
+): string {
+  return actorOf(event) ?? requireString(bodyValue, field);
+}
+
+/** Opaque pagination cursor: base64url of a DynamoDB LastEvaluatedKey. */
+export function encodeCursor(key: Record<string, unknown> | undefined): string | null {
+  return key ? Buffer.from(JSON.stringify(key)).toString('base64url') : null;
+}
+
+export function decodeCursor(cursor: string | undefined): Record<string, unknown> | undefined {
+  if (!cursor) return undefined;
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as unknown;
+    if (key && typeof key === 'object' && !Array.isArray(key)) return key as Record<string, unknown>;
+  } catch {
+    // fall through
+  }
+  throw new BadRequestError('INVALID_CURSOR', 'cursor is not valid');
+}
+
 export function handleError(err: unknown): APIGatewayProxyResult {
   if (err instanceof BadRequestError) return apiError(400, err.code, err.message);
   console.error('Unhandled error', err);
@@ -1,4 +1,9 @@
-import { hashPhone } from './pii.js';
+import { mockClient } from 'aws-sdk-client-mock';
+import { DecryptCommand, EncryptCommand, KMSClient } from '@aws-sdk/client-kms';
+import { hashPhone, openPii, sealPii, toE164 } from './pii.js';
+
+const kmsMock = mockClient(KMSClient);
+process.env.PII_KEY_ID = 'alias/test-pii';
 
 // Regression: wallet endpoints get the phone percent-encoded from the URL path while
 // payment initiation gets it decoded from the JSON body. If they hash different
@@ -12,6 +17,11 @@ describe('hashPhone canonicalization', () => {
     expect(hashPhone('024 123 4567')).toBe(hashPhone('0241234567'));
   });
 
+  it('local, country-code and E.164 forms key the same record', () => {
+    expect(hashPhone('024 123 4567')).toBe(hashPhone('+233241234567'));
+    expect(hashPhone('233241234567')).toBe(hashPhone('+233 24 123 4567'));
+  });
+
   it('different phones still hash differently', () => {
     expect(hashPhone('0241234567')).not.toBe(hashPhone('0247654321'));
   });
@@ -20,3 +30,37 @@ describe('hashPhone canonicalization', () => {
     expect(() => hashPhone('024%')).not.toThrow();
   });
 });
+
+describe('toE164', () => {
+  it.each([
+    ['0244000000', '+233244000000'],
+    ['233244000000', '+233244000000'],
+    ['+233 24 400 0000', '+233244000000'],
+  ])('%s -> %s', (raw, e164) => {
+    expect(toE164(raw)).toBe(e164);
+  });
+});
+
+describe('sealed contacts', () => {
+  beforeEach(() => {
+    kmsMock.reset();
+    kmsMock.on(EncryptCommand).resolves({ CiphertextBlob: Buffer.from('sealed-bytes') });
+    kmsMock.on(DecryptCommand).resolves({ Plaintext: Buffer.from('0241234567') });
+  });
+
+  it('seals under the PII key with the contact encryption context', async () => {
+    const sealed = await sealPii(' 0241234567 ');
+    expect(sealed).toBe(Buffer.from('sealed-bytes').toString('base64'));
+    const input = kmsMock.commandCalls(EncryptCommand)[0].args[0].input;
+    expect(input.KeyId).toBe('alias/test-pii');
+    expect(Buffer.from(input.Plaintext as Uint8Array).toString()).toBe('0241234567');
+    expect(input.EncryptionContext).toEqual({ purpose: 'contact' });
+  });
+
+  it('opens with the same context', async () => {
+    expect(await openPii(Buffer.from('sealed-bytes').toString('base64'))).toBe('0241234567');
+    const input = kmsMock.commandCalls(DecryptCommand)[0].args[0].input;
+    expect(Buffer.from(input.CiphertextBlob as Uint8Array).toString()).toBe('sealed-bytes');
+    expect(input.EncryptionContext).toEqual({ purpose: 'contact' });
+  });
+});
@@ -1,20 +1,34 @@
 import { createHash } from 'node:crypto';
+import { DecryptCommand, EncryptCommand, KMSClient } from '@aws-sdk/client-kms';
+
+const kms = new KMSClient({});
 
 /**
  * Sensitive identifiers (phone/MSISDN, ghana_card) are stored and logged only as
- * deterministic hashes (package CLAUDE.md). Deterministic so the same phone maps to
+ * deterministic hashes (package CLAUDE.md) — plus, for phones we must message, a
+ * KMS-sealed copy (sealPii). Deterministic so the same phone maps to
  * the same wallet/merchant record; PoC uses a static pepper, production would use KMS.
  */
 export function hashPii(value: string): string {
   return createHash('sha256').update(`ghana-poc:${value.trim()}`).digest('hex').slice(0, 32);
 }
 
+/** Ghana numbers as dialled locally (024…, 233…, +233…) -> E.164 for the SMS network. */
+export function toE164(phone: string): string {
+  const digits = phone.replace(/[^\d+]/g, '');
+  if (digits.startsWith('+')) return digits;
+  if (digits.startsWith('233')) return `+${digits}`;
+  if (digits.startsWith('0')) return `+233${digits.slice(1)}`;
+  return `+233${digits}`;
+}
+
 /**
- * Canonical wallet key from a phone number. Wallet endpoints receive the phone in the
- * URL path (API Gateway leaves it percent-encoded, e.g. `+233` → `%2B233`) while
- * payment initiation receives it decoded in the JSON body — hashing them raw made a
- * top-up and its payment key different wallets (top-up worked, payment always 402).
- * Safe-decode + strip all whitespace so every path keys the same wallet.
+ * The one key for a phone number: payer wallets, merchant `phone_hash`, SMS opt-outs.
+ * Wallet endpoints receive the phone in the URL path (API Gateway leaves it
+ * percent-encoded, e.g. `+233` → `%2B233`) while payment initiation receives it decoded
+ * in the JSON body — hashing them raw made a top-up and its payment key different
+ * wallets (top-up worked, payment always 402). Safe-decode, then E.164, so `024 …`,
+ * `233…` and `+233…` all key the same record.
  */
 export function hashPhone(rawPhone: string): string {
   let decoded = rawPhone;
@@ -23,5 +37,34 @@ export function hashPhone(rawPhone: string): string {
   } catch {
     // malformed %-sequence: use the raw value
   }
-  return hashPii(decoded.replace(/\s+/g, ''));
+  return hashPii(toE164(decoded));
+}
+
+// Bound into every ciphertext: a sealed contact only opens as a contact
+const SEAL_CONTEXT = { purpose: 'contact' };
+
+/**
+ * The one way a raw phone number may be persisted: KMS-encrypted under the stage's PII
+ * key, stored next to its hash, opened only in memory by code that must reach the
+ * person (notifications/). Never log the opened value — log the hash.
+ */
+export async function sealPii(value: string): Promise<string> {
+  const res = await kms.send(
+    new EncryptCommand({
+      KeyId: process.env.PII_KEY_ID,
+      Plaintext: Buffer.from(value.trim()),
+      EncryptionContext: SEAL_CONTEXT,
+    })
+  );
+  return Buffer.from(res.CiphertextBlob as Uint8Array).toString('base64');
+}
+
+export async function openPii(sealed: string): Promise<string> {
+  const res = await kms.send(
+    new DecryptCommand({
+      CiphertextBlob: Buffer.from(sealed, 'base64'),
+      EncryptionContext: SEAL_CONTEXT,
+    })
+  );
+  return Buffer.from(res.Plaintext as Uint8Array).toString();
 }
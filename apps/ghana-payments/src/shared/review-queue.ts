@@ -0,0 +1,127 @@
+import { QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ddb } from './clients.js';
+import {
+  BadRequestError,
+  apiError,
+  handleError,
+  ok,
+  parseBody,
+  requireActor,
+  requireString,
+} from './http.js';
+
+/**
+ * The OPEN -> RESOLVED review queue behind reconciliation discrepancies and callback
+ * anomalies: one table per queue, GSI1 on status + created_at, and a resolve that records
+ * who did what. Resolving never moves the ledger; that only happens through its own
+ * guarded transitions.
+ */
+export type QueueStatus = 'OPEN' | 'RESOLVED';
+
+const STATUSES: QueueStatus[] = ['OPEN', 'RESOLVED'];
+
+/** The `?status=` of a list route, OPEN by default. */
+export function queueStatusOf(value: string | undefined): QueueStatus {
+  const status = (value ?? 'OPEN') as QueueStatus;
+  if (!STATUSES.includes(status)) {
+    throw new BadRequestError('INVALID_STATUS', `status must be one of ${STATUSES.join(', ')}`);
+  }
+  return status;
+}
+
+/** GSI1 (status + created_at), newest first; `filter` narrows on one more attribute. */
+export async function listQueue<T>(
+  table: string,
+  status: QueueStatus,
+  filter?: { attribute: string; value: string }
+): Promise<T[]> {
+  const items: T[] = [];
+  let startKey: Record<string, unknown> | undefined;
+  do {
+    const res = await ddb.send(
+      new QueryCommand({
+        TableName: table,
+        IndexName: 'GSI1',
+        KeyConditionExpression: '#status = :status',
+        ...(filter ? { FilterExpression: '#filter = :filter' } : {}),
+        ExpressionAttributeNames: {
+          '#status': 'status',
+          ...(filter ? { '#filter': filter.attribute } : {}),
+        },
+        ExpressionAttributeValues: {
+          ':status': status,
+          ...(filter ? { ':filter': filter.value } : {}),
+        },
+        ScanIndexForward: false,
+        ExclusiveStartKey: startKey,
+      })
+    );
+    items.push(...((res.Items ?? []) as T[]));
+    startKey = res.LastEvaluatedKey;
+  } while (startKey);
+  return items;
+}
+
+/** OPEN -> RESOLVED. undefined when the item is missing or already resolved. */
+export async function resolveQueueItem<T>(
+  table: string,
+  key: Record<string, string>,
+  resolvedBy: string,
+  note: string
+): Promise<T | undefined> {
+  try {
+    const res = await ddb.send(
+      new UpdateCommand({
+        TableName: table,
+        Key: key,
+        UpdateExpression:
+          'SET #status = :resolved, resolved_by = :by, resolved_at = :now, resolution_note = :note',
+        ConditionExpression: '#status = :open',
+        ExpressionAttributeNames: { '#status': 'status' },
+        ExpressionAttributeValues: {
+          ':resolved': 'RESOLVED',
+          ':open': 'OPEN',
+          ':by': resolvedBy,
+          ':now': new Date().toISOString(),
+          ':note': note,
+        },
+        ReturnValues: 'ALL_NEW',
+      })
+    );
+    return res.Attributes as T;
+  } catch (err: unknown) {
+    if ((err as { name?: string }).name === 'ConditionalCheckFailedException') return undefined;
+    throw err;
+  }
+}
+
+/**
+ * POST .../{id}/resolve for one queue: `{ resolved_by, note }` in, the resolved item out;
+ * 404 `<NOUN>_NOT_FOUND` for an unknown id, 409 ALREADY_RESOLVED for a closed one.
+ */
+export function resolveHandlerFor(queue: {
+  noun: string;
+  resolve: (id: string, resolvedBy: string, note: string) => Promise<unknown>;
+  get: (id: string) => Promise<unknown>;
+}): (event: APIGatewayProxyEvent) => Promise<APIGatewayProxyResult> {
+  const label = queue.noun.charAt(0).toUpperCase() + queue.noun.slice(1);
+  return async (event) => {
+    try {
+      const id = event.pathParameters?.id;
+      if (!id) return apiError(400, 'MISSING_ID', `${queue.noun} id required`);
+      const body = parseBody<{ resolved_by?: string; note?: string }>(event.body);
+      const resolvedBy = requireActor(event, body.resolved_by, 'resolved_by');
+      const note = requireString(body.note, 'note');
+
+      const updated = await queue.resolve(id, resolvedBy, note);
+      if (updated) return ok(updated);
+      if (!(await queue.get(id))) {
+        return apiError(404, `${queue.noun.toUpperCase()}_NOT_FOUND`, `No such ${queue.noun}`);
+      }
+      return apiError(409, 'ALREADY_RESOLVED', `${label} is already resolved`);
+    } catch (err) {
+      return handleError(err);
+    }
+  };
+}
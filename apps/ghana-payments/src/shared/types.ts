@@ -7,6 +7,11 @@
 
 export type MerchantStatus = 'PENDING_KYC' | 'ACTIVE' | 'SUSPENDED' | 'CLOSED';
 
+/** Verified identity tier; drives per-payment and daily collection limits (kyc/). */
+export type KycLevel = 'NONE' | 'BASIC' | 'FULL';
+
+export type KycStatus = 'NOT_SUBMITTED' | 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
 export type QrStatus = 'ACTIVE' | 'INACTIVE' | 'ROTATED' | 'COMPROMISED';
 
 export type PaymentStatus =
@@ -16,7 +21,12 @@ export type PaymentStatus =
   | 'FAILED'
   | 'EXPIRED'
   | 'REVERSED'
-  | 'REFUNDED';
+  | 'REFUNDED'
+  | 'HELD' // stopped by a risk rule before the provider call; debited, awaiting review
+  | 'BLOCKED'; // refused by a risk rule; nothing was debited
+
+/** What the risk rules decide at initiation (risk/rules.ts), mildest first. */
+export type RiskDecision = 'ALLOW' | 'HOLD' | 'BLOCK';
 
 export type DeviceStatus =
   | 'UNASSIGNED'
@@ -79,3 +89,18 @@ export interface DeviceAnnouncement {
   ttl_seconds: number;
   timestamp: string;
 }
+
+/** Reply to a soundbox's devices/{id}/sync request: what it missed while offline. */
+export interface DeviceSyncSummary {
+  event_type: 'MISSED_PAYMENTS';
+  payment_ids: string[];
+  count: number;
+  total_amount: number;
+  currency: string;
+  language: string;
+  /** Spoken only when count > 0. */
+  message: string;
+  /** Send back as `since` on the next sync. */
+  cursor: string;
+  timestamp: string;
+}
@@ -0,0 +1,11 @@
+/**
+ * Announcement / SMS languages (concept §15 localisation) — ISO 639 codes: English,
+ * Twi (Akan), Ga, Ewe, Hausa. Ga has no two-letter code, hence `gaa`.
+ */
+export const LANGUAGES = ['en', 'tw', 'gaa', 'ee', 'ha'] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && (LANGUAGES as readonly string[]).includes(value);
@@ -0,0 +1,93 @@
+import { isLanguage, LANGUAGES } from './languages.js';
+import {
+  amountInWords,
+  formatGhs,
+  missedPaymentsText,
+  paymentReceivedText,
+  smsText,
+} from './messages.js';
+import { MAX_SPELLED, numberToWords } from './number-words.js';
+
+describe('numberToWords', () => {
+  it.each([
+    [1, 'one'],
+    [15, 'fifteen'],
+    [21, 'twenty-one'],
+    [105, 'one hundred and five'],
+    [1250, 'one thousand two hundred and fifty'],
+    [2_000_017, 'two million and seventeen'],
+  ])('en %i -> %s', (n, words) => {
+    expect(numberToWords(n, 'en')).toBe(words);
+  });
+
+  it.each([
+    ['tw', 'ɔha ne aduonu enum'],
+    ['gaa', 'ohaa kɛ nyɔŋmai enyɔ kɛ enumɔ'],
+    ['ee', 'alafa ɖeka kple blaeve vɔ atɔ̃'],
+    ['ha', 'ɗari da ashirin da biyar'],
+  ] as const)('%s spells 125 as %s', (language, words) => {
+    expect(numberToWords(125, language)).toBe(words);
+  });
+
+  it('builds thousands from the spelled multiplier', () => {
+    expect(numberToWords(1000, 'tw')).toBe('apem');
+    expect(numberToWords(3000, 'tw')).toBe('mpem mmiɛnsa');
+    expect(numberToWords(12_000, 'ha')).toBe('dubu goma sha biyu');
+    expect(numberToWords(2000, 'gaa')).toBe('akpei enyɔ');
+  });
+
+  it('only spells whole numbers 1..MAX_SPELLED', () => {
+    for (const bad of [0, -1, 1.5, MAX_SPELLED + 1]) {
+      expect(() => numberToWords(bad, 'en')).toThrow(RangeError);
+    }
+    for (const language of LANGUAGES) {
+      expect(numberToWords(MAX_SPELLED, language)).not.toMatch(/undefined|\d/);
+    }
+  });
+});
+
+describe('announcement and SMS templates', () => {
+  it('speaks cedis and pesewas, singular where English needs it', () => {
+    expect(amountInWords(2050, 'en')).toBe('twenty Ghana cedis and fifty pesewas');
+    expect(amountInWords(100, 'en')).toBe('one Ghana cedi');
+    expect(amountInWords(1, 'en')).toBe('one pesewa');
+    expect(amountInWords(2050, 'tw')).toBe('Ghana sidi aduonu ne pesewa aduonum');
+    expect(() => amountInWords(0, 'en')).toThrow(RangeError);
+  });
+
+  it('renders the payment announcement in every language', () => {
+    expect(paymentReceivedText(2000)).toBe('Payment received, twenty Ghana cedis');
+    expect(paymentReceivedText(2000, 'ee')).toBe('Ga va, Ghana sidi blaeve');
+    for (const language of LANGUAGES) {
+      expect(paymentReceivedText(123_456, language)).not.toMatch(/undefined/);
+    }
+  });
+
+  it('summarises missed payments', () => {
+    expect(missedPaymentsText(3, 4500)).toBe(
+      'Three payments received while offline, total forty-five Ghana cedis'
+    );
+    expect(missedPaymentsText(1, 4500)).toBe(
+      'One payment received while offline, forty-five Ghana cedis'
+    );
+  });
+
+  it('reuses the phrasebook for SMS, with the amount written as GHS', () => {
+    expect(formatGhs(2050)).toBe('GHS 20.50');
+    const input = { merchant_name: 'Ama Fruits', amount_pesewas: 2050, ref: 'pay_1' };
+    expect(smsText('paymentSms', input)).toBe(
+      'Ama Fruits: payment of GHS 20.50 received. Ref pay_1'
+    );
+    expect(smsText('paymentSms', input, 'ha')).toBe('Ama Fruits: An biya kuɗi GHS 20.50. Ref pay_1');
+    expect(smsText('receiptSms', input)).toBe('You paid Ama Fruits GHS 20.50. Ref pay_1');
+    for (const language of LANGUAGES) {
+      expect(smsText('paymentFailedSms', input, language)).toContain('GHS 20.50');
+    }
+  });
+
+  it('recognises only the supported language codes', () => {
+    expect(isLanguage('gaa')).toBe(true);
+    expect(isLanguage('fr')).toBe(false);
+    expect(isLanguage(undefined)).toBe(false);
+  });
+});
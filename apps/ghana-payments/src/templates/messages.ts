@@ -0,0 +1,133 @@
+import { DEFAULT_LANGUAGE, type Language } from './languages.js';
+import { numberToWords } from './number-words.js';
+
+/**
+ * Phrasebook per language. Voice templates take amounts already spelled out (soundbox
+ * TTS reads words far better than "20.50"); SMS templates take `GHS 20.50`. The Twi, Ga,
+ * Ewe and Hausa strings are first drafts — have a native speaker review changes.
+ */
+interface Phrasebook {
+  cedis(words: string, n: number): string;
+  pesewas(words: string, n: number): string;
+  and: string;
+  paymentReceived(amount: string): string;
+  missedPayments(countWords: string, count: number, total: string): string;
+  paymentSms(merchantName: string, amount: string, ref: string): string;
+  receiptSms(merchantName: string, amount: string, ref: string): string;
+  paymentFailedSms(merchantName: string, amount: string, ref: string): string;
+}
+
+const capitalise = (s: string): string => s.charAt(0).toUpperCase() + s.slice(1);
+
+const PHRASES: Record<Language, Phrasebook> = {
+  en: {
+    cedis: (w, n) => (n === 1 ? 'one Ghana cedi' : `${w} Ghana cedis`),
+    pesewas: (w, n) => (n === 1 ? 'one pesewa' : `${w} pesewas`),
+    and: ' and ',
+    paymentReceived: (amount) => `Payment received, ${amount}`,
+    missedPayments: (cw, count, total) =>
+      count === 1
+        ? `One payment received while offline, ${total}`
+        : `${capitalise(cw)} payments received while offline, total ${total}`,
+    paymentSms: (merchant, amount, ref) => `${merchant}: payment of ${amount} received. Ref ${ref}`,
+    receiptSms: (merchant, amount, ref) => `You paid ${merchant} ${amount}. Ref ${ref}`,
+    paymentFailedSms: (merchant, amount, ref) =>
+      `Your payment of ${amount} to ${merchant} did not go through; any debit is returned. Ref ${ref}`,
+  },
+  tw: {
+    cedis: (w) => `Ghana sidi ${w}`,
+    pesewas: (w) => `pesewa ${w}`,
+    and: ' ne ',
+    paymentReceived: (amount) => `Woanya sika, ${amount}`,
+    missedPayments: (cw, _count, total) => `Sika a aba: ${cw}. Ne nyinaa, ${total}`,
+    paymentSms: (merchant, amount, ref) => `${merchant}: Woanya sika ${amount}. Ref ${ref}`,
+    receiptSms: (merchant, amount, ref) => `Woatua ${merchant} ${amount}. Ref ${ref}`,
+    paymentFailedSms: (merchant, amount, ref) =>
+      `Sika ${amount} a wotuaa ${merchant} no ankɔ yie; wɔde bɛsan ama wo. Ref ${ref}`,
+  },
+  gaa: {
+    cedis: (w) => `Ghana sidi ${w}`,
+    pesewas: (w) => `pesewa ${w}`,
+    and: ' kɛ ',
+    paymentReceived: (amount) => `Shika eba, ${amount}`,
+    missedPayments: (cw, _count, total) => `Shika ni eba: ${cw}. Fɛɛ, ${total}`,
+    paymentSms: (merchant, amount, ref) => `${merchant}: Shika ${amount} eba. Ref ${ref}`,
+    receiptSms: (merchant, amount, ref) => `Owo ${merchant} ${amount}. Ref ${ref}`,
+    paymentFailedSms: (merchant, amount, ref) =>
+      `Shika ${amount} ni owo ${merchant} lɛ eyaaa; abaaku ha bo. Ref ${ref}`,
+  },
+  ee: {
+    cedis: (w) => `Ghana sidi ${w}`,
+    pesewas: (w) => `pesewa ${w}`,
+    and: ' kple ',
+    paymentReceived: (amount) => `Ga va, ${amount}`,
+    missedPayments: (cw, _count, total) => `Ga siwo va: ${cw}. Katã, ${total}`,
+    paymentSms: (merchant, amount, ref) => `${merchant}: Ga ${amount} va. Ref ${ref}`,
+    receiptSms: (merchant, amount, ref) => `Èxe ${amount} na ${merchant}. Ref ${ref}`,
+    paymentFailedSms: (merchant, amount, ref) =>
+      `Ga ${amount} si nèxe na ${merchant} medze edzi o; woatrɔe ana wò. Ref ${ref}`,
+  },
+  ha: {
+    cedis: (w) => `Ghana sidi ${w}`,
+    pesewas: (w) => `pesewa ${w}`,
+    and: ' da ',
+    paymentReceived: (amount) => `An biya kuɗi, ${amount}`,
+    missedPayments: (cw, _count, total) => `Kuɗin da suka shigo: ${cw}. Jimilla, ${total}`,
+    paymentSms: (merchant, amount, ref) => `${merchant}: An biya kuɗi ${amount}. Ref ${ref}`,
+    receiptSms: (merchant, amount, ref) => `Kun biya ${merchant} ${amount}. Ref ${ref}`,
+    paymentFailedSms: (merchant, amount, ref) =>
+      `Biyan ${amount} zuwa ${merchant} bai yi nasara ba; za a mayar muku. Ref ${ref}`,
+  },
+};
+
+/** Pesewas as spoken money, e.g. (2050, 'en') -> "twenty Ghana cedis and fifty pesewas". */
+export function amountInWords(pesewas: number, language: Language = DEFAULT_LANGUAGE): string {
+  const p = PHRASES[language];
+  const cedis = Math.floor(pesewas / 100);
+  const rest = pesewas % 100;
+  const parts = [
+    ...(cedis > 0 ? [p.cedis(numberToWords(cedis, language), cedis)] : []),
+    ...(rest > 0 ? [p.pesewas(numberToWords(rest, language), rest)] : []),
+  ];
+  if (parts.length === 0) throw new RangeError('cannot speak an amount of zero');
+  return parts.join(p.and);
+}
+
+/** Written money for SMS: always `GHS 20.50`, whatever the language. */
+export const formatGhs = (pesewas: number): string => `GHS ${(pesewas / 100).toFixed(2)}`;
+
+/** Soundbox voice line for one confirmed payment. */
+export function paymentReceivedText(
+  pesewas: number,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return PHRASES[language].paymentReceived(amountInWords(pesewas, language));
+}
+
+/** Soundbox voice line for a missed-payments sync summary (count >= 1). */
+export function missedPaymentsText(
+  count: number,
+  totalPesewas: number,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return PHRASES[language].missedPayments(
+    numberToWords(count, language),
+    count,
+    amountInWords(totalPesewas, language)
+  );
+}
+
+/** SMS templates; the vendor one shares its phrasing with the soundbox line. */
+export type SmsTemplate = 'paymentSms' | 'receiptSms' | 'paymentFailedSms';
+
+/**
+ * An SMS in the recipient's language: `paymentSms` to the vendor, `receiptSms` and
+ * `paymentFailedSms` to the customer. Same phrasebook as the soundbox.
+ */
+export function smsText(
+  template: SmsTemplate,
+  input: { merchant_name: string; amount_pesewas: number; ref: string },
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return PHRASES[language][template](input.merchant_name, formatGhs(input.amount_pesewas), input.ref);
+}
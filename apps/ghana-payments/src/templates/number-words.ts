@@ -0,0 +1,239 @@
+import type { Language } from './languages.js';
+
+/** Largest whole number the spellers handle — well above any single payment or day total. */
+export const MAX_SPELLED = 999_999_999;
+
+/**
+ * How one language spells 1..999,999,999. Scales are built outside-in: millions, then
+ * thousands, then hundreds, then 1..99, with `link(rest)` between a scale and what
+ * follows it (English says "and" only before a final 1..99, the others every time).
+ */
+interface NumberSpec {
+  belowHundred(n: number): string;
+  hundreds(h: number): string;
+  thousands(words: string, n: number): string;
+  millions(words: string, n: number): string;
+  link(rest: number): string;
+}
+
+const EN_UNITS = ['', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const EN_TEENS = [
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+const EN_TENS = [
+  '',
+  '',
+  'twenty',
+  'thirty',
+  'forty',
+  'fifty',
+  'sixty',
+  'seventy',
+  'eighty',
+  'ninety',
+];
+
+const TW_UNITS = [
+  '',
+  'baako',
+  'mmienu',
+  'mmiɛnsa',
+  'ɛnan',
+  'enum',
+  'nsia',
+  'nson',
+  'nwɔtwe',
+  'nkron',
+];
+const TW_TEENS = [
+  'du',
+  'dubaako',
+  'dumienu',
+  'dumiɛnsa',
+  'dunan',
+  'dunum',
+  'dunsia',
+  'dunson',
+  'dunwɔtwe',
+  'dunkron',
+];
+const TW_TENS = [
+  '',
+  '',
+  'aduonu',
+  'aduasa',
+  'aduanan',
+  'aduonum',
+  'aduosia',
+  'aduoson',
+  'aduowɔtwe',
+  'aduokron',
+];
+const TW_HUNDREDS = [
+  '',
+  'ɔha',
+  'ahanu',
+  'ahasa',
+  'ahanan',
+  'ahanum',
+  'ahansia',
+  'ahanson',
+  'ahanwɔtwe',
+  'ahankron',
+];
+
+const GAA_UNITS = [
+  '',
+  'ekome',
+  'enyɔ',
+  'etɛ',
+  'ejwɛ',
+  'enumɔ',
+  'ekpaa',
+  'kpawo',
+  'kpaanyɔ',
+  'nɛɛhu',
+];
+
+const EE_UNITS = ['', 'ɖeka', 'eve', 'etɔ̃', 'ene', 'atɔ̃', 'ade', 'adre', 'enyi', 'asieke'];
+const EE_TEENS = [
+  'ewo',
+  'wuiɖekɛ',
+  'wuieve',
+  'wuietɔ̃',
+  'wuiene',
+  'wuiatɔ̃',
+  'wuiade',
+  'wuiadre',
+  'wuienyi',
+  'wuiasieke',
+];
+const EE_TENS = [
+  '',
+  '',
+  'blaeve',
+  'blaetɔ̃',
+  'blaene',
+  'blaatɔ̃',
+  'blaade',
+  'blaadre',
+  'blaenyi',
+  'blaasieke',
+];
+
+const HA_UNITS = ['', 'ɗaya', 'biyu', 'uku', 'huɗu', 'biyar', 'shida', 'bakwai', 'takwas', 'tara'];
+const HA_TENS = [
+  '',
+  '',
+  'ashirin',
+  'talatin',
+  'arbaʼin',
+  'hamsin',
+  'sittin',
+  'sabaʼin',
+  'tamanin',
+  'casaʼin',
+];
+
+/** 1..99 for the languages that build tens as `tens + link + unit`. */
+const tensAndUnits =
+  (units: string[], teens: (u: number) => string, tens: (t: number) => string, and: string) =>
+  (n: number): string => {
+    if (n < 10) return units[n];
+    if (n < 20) return teens(n - 10);
+    const t = Math.floor(n / 10);
+    const u = n % 10;
+    return u === 0 ? tens(t) : `${tens(t)}${and}${units[u]}`;
+  };
+
+const SPECS: Record<Language, NumberSpec> = {
+  en: {
+    belowHundred: (n) => {
+      if (n < 10) return EN_UNITS[n];
+      if (n < 20) return EN_TEENS[n - 10];
+      const u = n % 10;
+      return u === 0 ? EN_TENS[n / 10] : `${EN_TENS[Math.floor(n / 10)]}-${EN_UNITS[u]}`;
+    },
+    hundreds: (h) => `${EN_UNITS[h]} hundred`,
+    thousands: (w) => `${w} thousand`,
+    millions: (w) => `${w} million`,
+    link: (rest) => (rest < 100 ? ' and ' : ' '),
+  },
+  tw: {
+    belowHundred: tensAndUnits(
+      TW_UNITS,
+      (u) => TW_TEENS[u],
+      (t) => TW_TENS[t],
+      ' '
+    ),
+    hundreds: (h) => TW_HUNDREDS[h],
+    thousands: (w, n) => (n === 1 ? 'apem' : `mpem ${w}`),
+    millions: (w, n) => (n === 1 ? 'ɔpepem' : `mpepem ${w}`),
+    link: () => ' ne ',
+  },
+  gaa: {
+    belowHundred: tensAndUnits(
+      GAA_UNITS,
+      (u) => (u === 0 ? 'nyɔŋma' : `nyɔŋma kɛ ${GAA_UNITS[u]}`),
+      (t) => `nyɔŋmai ${GAA_UNITS[t]}`,
+      ' kɛ '
+    ),
+    hundreds: (h) => (h === 1 ? 'ohaa' : `ohai ${GAA_UNITS[h]}`),
+    thousands: (w, n) => (n === 1 ? 'akpe' : `akpei ${w}`),
+    millions: (w, n) => (n === 1 ? 'akpekpe' : `akpekpei ${w}`),
+    link: () => ' kɛ ',
+  },
+  ee: {
+    belowHundred: tensAndUnits(
+      EE_UNITS,
+      (u) => EE_TEENS[u],
+      (t) => EE_TENS[t],
+      ' vɔ '
+    ),
+    hundreds: (h) => `alafa ${EE_UNITS[h]}`,
+    thousands: (w) => `akpe ${w}`,
+    millions: (w) => `miliɔn ${w}`,
+    link: () => ' kple ',
+  },
+  ha: {
+    belowHundred: tensAndUnits(
+      HA_UNITS,
+      (u) => (u === 0 ? 'goma' : `goma sha ${HA_UNITS[u]}`),
+      (t) => HA_TENS[t],
+      ' da '
+    ),
+    hundreds: (h) => (h === 1 ? 'ɗari' : `ɗari ${HA_UNITS[h]}`),
+    thousands: (w, n) => (n === 1 ? 'dubu' : `dubu ${w}`),
+    millions: (w, n) => (n === 1 ? 'miliyan' : `miliyan ${w}`),
+    link: () => ' da ',
+  },
+};
+
+function spell(n: number, spec: NumberSpec): string {
+  const scale = (size: number, head: (n: number) => string): string => {
+    const count = Math.floor(n / size);
+    const rest = n % size;
+    return rest === 0 ? head(count) : `${head(count)}${spec.link(rest)}${spell(rest, spec)}`;
+  };
+  if (n >= 1_000_000) return scale(1_000_000, (m) => spec.millions(spell(m, spec), m));
+  if (n >= 1_000) return scale(1_000, (t) => spec.thousands(spell(t, spec), t));
+  if (n >= 100) return scale(100, (h) => spec.hundreds(h));
+  return spec.belowHundred(n);
+}
+
+/** A whole number 1..MAX_SPELLED in words, e.g. (125, 'ha') -> "ɗari da ashirin da biyar". */
+export function numberToWords(n: number, language: Language): string {
+  if (!Number.isInteger(n) || n < 1 || n > MAX_SPELLED) {
+    throw new RangeError(`cannot spell ${n}: whole numbers 1..${MAX_SPELLED} only`);
+  }
+  return spell(n, SPECS[language]);
+}
@@ -1,4 +1,4 @@
-import { GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { GetCommand, UpdateCommand, type TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
 import { ddb } from '../shared/clients.js';
 
 const TABLE = (): string => process.env.WALLETS_TABLE ?? '';
@@ -54,6 +54,20 @@ export async function debit(phone: string, amountPesewas: number): Promise<boole
   }
 }
 
+type TransactItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+/** The same credit as one item of a ledger transaction, so the money moves with the transition. */
+export function creditItem(phone: string, amountPesewas: number): TransactItem {
+  return {
+    Update: {
+      TableName: TABLE(),
+      Key: { phone },
+      UpdateExpression: 'ADD balance_pesewas :amt SET updated_at = :now',
+      ExpressionAttributeValues: { ':amt': amountPesewas, ':now': new Date().toISOString() },
+    },
+  };
+}
+
 /** Credit-back on FAILED/EXPIRED (ADR-9). Exactly-once is enforced by the caller via the ledger marker. */
 export async function credit(phone: string, amountPesewas: number): Promise<void> {
   await ddb.send(
@@ -84,23 +84,38 @@ async function resolveEnvironment() {
     await skip(`ghana-payments ${STAGE} stacks not deployed (${err.stderr?.trim().split('\n')[0] ?? err.message})`);
   }
   const portalUrl = web.PortalUrl?.replace(/\/$/, '');
-  const keyId = api.AdminApiKeyId;
+  const userPoolId = api.OperatorUserPoolId;
   const inboxBucket = foundation.WebhookInboxBucket;
-  if (!portalUrl || !keyId || !inboxBucket) await skip('expected stack outputs missing');
-  const key = await awsCli(['apigateway', 'get-api-key', '--api-key', keyId, '--include-value']);
-  return { portalUrl, adminKey: key.value, inboxBucket };
+  if (!portalUrl || !userPoolId || !inboxBucket) await skip('expected stack outputs missing');
+  return { portalUrl, userPoolId, inboxBucket };
+}
+
+// A throwaway ADMIN operator for this run (deleted in cleanup), signed in like the portal.
+// KYC review is maker-checker, so the suite signs in a second one to approve the merchant.
+async function signInOperator() {
+  const username = `it-${randomUUID().slice(0, 8)}`;
+  const password = `It-${randomUUID()}`;
+  const pool = ['--user-pool-id', ENV.userPoolId, '--username', username];
+  await exec('aws', ['cognito-idp', 'admin-create-user', ...pool, '--message-action', 'SUPPRESS', '--region', REGION]);
+  state.operators = [...(state.operators ?? []), username];
+  await exec('aws', ['cognito-idp', 'admin-set-user-password', ...pool, '--password', password, '--permanent', '--region', REGION]);
+  await exec('aws', ['cognito-idp', 'admin-add-user-to-group', ...pool, '--group-name', 'ADMIN', '--region', REGION]);
+  const res = await api('POST', '/v1/auth/token', { body: { username, password } });
+  if (res.status !== 200) fatal(`operator sign-in failed (${res.status})`);
+  return res.body.access_token;
 }
 
 // ---------------------------------------------------------------------------
 // API client (through CloudFront /api/* — same path the portals use)
 // ---------------------------------------------------------------------------
 let ENV;
-async function api(method, path, { body, admin = false, raw } = {}) {
+async function api(method, path, { body, admin = false, token, raw } = {}) {
+  const bearer = token ?? (admin ? ENV.accessToken : undefined);
   const res = await fetch(`${ENV.portalUrl}/api${path}`, {
     method,
     headers: {
       'content-type': 'application/json',
-      ...(admin ? { 'x-api-key': ENV.adminKey } : {}),
+      ...(bearer ? { authorization: `Bearer ${bearer}` } : {}),
     },
     body: raw ?? (body ? JSON.stringify(body) : undefined),
   });
@@ -206,6 +221,7 @@ const state = {}; // created artifacts, for cleanup
 
 async function main() {
   ENV = await resolveEnvironment();
+  ENV.accessToken = await signInOperator();
   console.log(`\nGhana Payments integration suite — ${STAGE} @ ${ENV.portalUrl}\n`);
 
   // -- merchant + wallet ------------------------------------------------------
@@ -216,7 +232,41 @@ async function main() {
   });
   if (merch.status !== 201) fatal(`create merchant -> ${merch.status} ${JSON.stringify(merch.body)}`);
   state.merchantId = merch.body.merchant_id;
-  check(true, `merchant created (${state.merchantId})`);
+  check(merch.body.status === 'PENDING_KYC', `merchant created PENDING_KYC (${state.merchantId})`);
+
+  // -- KYC: upload the ID documents, submit BASIC, a second operator approves ---
+  console.log('merchant KYC');
+  const early = await api('POST', '/v1/payments', {
+    body: { merchant_id: state.merchantId, amount_pesewas: 100, payer_phone: '0240000000' },
+  });
+  check(early.status === 409 && early.body?.error?.code === 'MERCHANT_NOT_ACTIVE', 'PENDING_KYC merchant cannot take payments');
+  // Smallest valid PNG (1x1, transparent) stands in for each photo
+  const png = Buffer.from(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    'base64'
+  );
+  for (const documentType of ['GHANA_CARD_FRONT', 'GHANA_CARD_BACK', 'SELFIE']) {
+    const up = await api('POST', `/v1/merchants/${state.merchantId}/kyc/documents`, {
+      admin: true,
+      body: { document_type: documentType, content_type: 'image/png' },
+    });
+    if (up.status !== 201) fatal(`KYC upload URL (${documentType}) -> ${up.status} ${JSON.stringify(up.body)}`);
+    const put = await fetch(up.body.upload_url, { method: 'PUT', headers: up.body.upload_headers, body: png });
+    if (!put.ok) fatal(`KYC upload (${documentType}) to S3 -> ${put.status}`);
+  }
+  const kycSubmit = await api('POST', `/v1/merchants/${state.merchantId}/kyc/submit`, {
+    admin: true,
+    body: { level: 'BASIC' },
+  });
+  check(kycSubmit.status === 200 && kycSubmit.body.kyc_status === 'SUBMITTED', 'KYC submitted at BASIC with 3 documents');
+  const selfReview = await api('POST', `/v1/merchants/${state.merchantId}/kyc/approve`, { admin: true });
+  check(selfReview.status === 403 && selfReview.body?.error?.code === 'SELF_REVIEW', 'submitter cannot approve their own submission');
+  const reviewer = await signInOperator();
+  const kycApprove = await api('POST', `/v1/merchants/${state.merchantId}/kyc/approve`, { token: reviewer });
+  check(
+    kycApprove.status === 200 && kycApprove.body.status === 'ACTIVE' && kycApprove.body.kyc_level === 'BASIC',
+    `KYC approved by a second operator -> ACTIVE at BASIC (got ${kycApprove.body?.status}/${kycApprove.body?.kyc_level})`
+  );
 
   // Digit-only local format, like the pay portal. NOTE deliberate limitation: a
   // '+'-prefixed phone breaks the wallet flow today (see the URL-decoding finding
@@ -253,9 +303,20 @@ async function main() {
     `wallet credited back after FAILED — balance restored to ${expected}`
   );
 
-  // -- INSUFFICIENT FUNDS -----------------------------------------------------
-  const broke = await pay(9_999_999);
-  check(broke.status === 402 && broke.body?.error?.code === 'INSUFFICIENT_FUNDS', 'oversized payment -> 402 INSUFFICIENT_FUNDS');
+  // -- KYC LIMIT --------------------------------------------------------------
+  const tooLarge = await pay(9_999_999);
+  check(tooLarge.status === 403 && tooLarge.body?.error?.code === 'LIMIT_EXCEEDED', 'payment over the BASIC per-payment limit -> 403 LIMIT_EXCEEDED');
+
+  // -- FRAUD RULES (risk/repeat-amount, BLOCK by default) ----------------------
+  const repeat = await pay(2000);
+  check(repeat.status === 403 && repeat.body?.error?.code === 'PAYMENT_BLOCKED', 'same amount again within 2 minutes -> 403 PAYMENT_BLOCKED');
+  const blocked = await api('GET', `/v1/payments/${repeat.body?.error?.details?.payment_id}`);
+  check(blocked.body?.status === 'BLOCKED', `blocked payment recorded as BLOCKED (got ${blocked.body?.status})`);
+  check((await balance(phone)) === expected, 'blocked payment moved no money');
+
+  // -- INSUFFICIENT FUNDS (under the BASIC risk ceiling, so no rule holds it) -
+  const broke = await pay(30_000);
+  check(broke.status === 402 && broke.body?.error?.code === 'INSUFFICIENT_FUNDS', 'payment over the balance -> 402 INSUFFICIENT_FUNDS');
   check((await balance(phone)) === expected, 'insufficient-funds attempt moved no money');
 
   // -- webhook replay from the S3 inbox (ADR-4a) -------------------------------
@@ -398,6 +459,13 @@ async function cleanup() {
       });
       console.log(`  - merchant ${state.merchantId} suspended (${sus.status}) — no delete endpoint exists`);
     }
+    for (const operator of state.operators ?? []) {
+      await exec('aws', [
+        'cognito-idp', 'admin-delete-user', '--user-pool-id', ENV.userPoolId,
+        '--username', operator, '--region', REGION,
+      ]);
+      console.log(`  - operator ${operator} deleted`);
+    }
     console.log('  - not deletable via API (by design): wallet record, payment ledger items, S3 inbox objects');
     if (state.timeoutPaymentId) {
       console.log(`  - payment ${state.timeoutPaymentId} (999) left for the sweeper to EXPIRE + refund`);